@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+
+import { appointmentStatusLabel } from "@/lib/appointment-status";
+import { buildIcalendar, type IcalEvent, type IcalStatus } from "@/lib/ical";
+import { isServiceRoleConfigured, supabaseAdmin } from "@/lib/supabase/admin";
+import { isSupabaseConfigured } from "@/lib/supabase/public-env";
+import type { AppointmentStatus, CalendarFeed, UserRole } from "@/types/models";
+
+const PAST_DAYS = 60;
+const FUTURE_DAYS = 365;
+
+type FeedRow = Pick<CalendarFeed, "id" | "kind" | "specialist_id" | "child_id" | "created_by" | "revoked_at">;
+
+type FeedAppointment = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  status: AppointmentStatus;
+  updated_at: string;
+  service: { name: string } | null;
+  child: { name: string } | null;
+  specialist: { full_name: string | null; email: string } | null;
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+function icalStatus(status: AppointmentStatus): IcalStatus {
+  if (status === "canceled") return "CANCELLED";
+  if (status === "pending") return "TENTATIVE";
+  return "CONFIRMED";
+}
+
+// Ссылка перестаёт работать, когда её владелец теряет доступ: специалист больше не терапевт,
+// ребёнок перешёл к другому родителю (ссылки, созданные менеджером или админом, остаются).
+async function feedOwnerHasAccess(admin: NonNullable<typeof supabaseAdmin>, feed: FeedRow) {
+  if (feed.kind === "specialist") {
+    const { data } = await admin.from("profiles").select("role").eq("id", feed.specialist_id!).maybeSingle();
+    return (data as { role?: UserRole } | null)?.role === "therapist";
+  }
+
+  if (!feed.created_by) return false;
+  const [{ data: child }, { data: creator }] = await Promise.all([
+    admin.from("children").select("parent_id").eq("id", feed.child_id!).maybeSingle(),
+    admin.from("profiles").select("role").eq("id", feed.created_by).maybeSingle(),
+  ]);
+  const role = (creator as { role?: UserRole } | null)?.role;
+  if (role === "admin" || role === "manager") return true;
+  return role === "parent" && (child as { parent_id?: string | null } | null)?.parent_id === feed.created_by;
+}
+
+// Ссылка вида /api/calendar/<token>.ics открывается календарём без входа: доступ даёт только токен.
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  if (!isSupabaseConfigured) {
+    return NextResponse.json({ error: "Supabase не настроен" }, { status: 500 });
+  }
+
+  if (!isServiceRoleConfigured || !supabaseAdmin) {
+    return NextResponse.json({ error: "Не задан SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  }
+
+  const { token: rawToken } = await params;
+  const token = rawToken.replace(/\.ics$/i, "");
+  if (!/^[0-9a-f]{64}$/.test(token)) {
+    return NextResponse.json({ error: "Лента не найдена" }, { status: 404 });
+  }
+
+  const { data: feedData } = await supabaseAdmin
+    .from("calendar_feeds")
+    .select("id,kind,specialist_id,child_id,created_by,revoked_at")
+    .eq("token", token)
+    .maybeSingle();
+  const feed = feedData as FeedRow | null;
+  if (!feed || feed.revoked_at || !(await feedOwnerHasAccess(supabaseAdmin, feed))) {
+    return NextResponse.json({ error: "Лента не найдена" }, { status: 404 });
+  }
+
+  const from = new Date();
+  from.setDate(from.getDate() - PAST_DAYS);
+  const to = new Date();
+  to.setDate(to.getDate() + FUTURE_DAYS);
+
+  let query = supabaseAdmin
+    .from("appointments")
+    .select(
+      "id,start_time,end_time,status,updated_at,service:services(name),child:children(name)," +
+        "specialist:profiles!appointments_specialist_id_fkey(full_name,email)",
+    )
+    .gte("start_time", from.toISOString())
+    .lt("start_time", to.toISOString())
+    .order("start_time", { ascending: true });
+  query =
+    feed.kind === "specialist" ? query.eq("specialist_id", feed.specialist_id!) : query.eq("child_id", feed.child_id!);
+
+  const [{ data: appointmentsData, error }, { data: center }, { data: owner }] = await Promise.all([
+    query,
+    supabaseAdmin.from("center_settings").select("name,address").maybeSingle(),
+    feed.kind === "specialist"
+      ? supabaseAdmin.from("profiles").select("name:full_name").eq("id", feed.specialist_id!).maybeSingle()
+      : supabaseAdmin.from("children").select("name").eq("id", feed.child_id!).maybeSingle(),
+  ]);
+  if (error) {
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  const appointments = ((appointmentsData ?? []) as unknown as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as FeedAppointment),
+    service: normalizeOne<{ name: string }>(r.service),
+    child: normalizeOne<{ name: string }>(r.child),
+    specialist: normalizeOne<{ full_name: string | null; email: string }>(r.specialist),
+  }));
+
+  const centerName = (center as { name?: string } | null)?.name || "Центр";
+  const location = (center as { address?: string | null } | null)?.address ?? null;
+
+  // Специалисту важен ребёнок, родителю — специалист.
+  const events: IcalEvent[] = appointments.map((a) => {
+    const who =
+      feed.kind === "specialist"
+        ? (a.child?.name ?? "Ребёнок")
+        : a.specialist?.full_name || a.specialist?.email || "Специалист";
+    const title = `${a.service?.name ?? "Занятие"} · ${who}`;
+    return {
+      uid: `appointment-${a.id}@ras-crm`,
+      start: a.start_time,
+      end: a.end_time,
+      summary: a.status === "canceled" ? `Отменено: ${title}` : title,
+      description: `Статус: ${appointmentStatusLabel(a.status)}`,
+      location,
+      status: icalStatus(a.status),
+      sequence: Math.floor(new Date(a.updated_at).getTime() / 1000),
+      lastModified: a.updated_at,
+    };
+  });
+
+  await supabaseAdmin.from("calendar_feeds").update({ last_accessed_at: new Date().toISOString() }).eq("id", feed.id);
+
+  const ownerName = (owner as { name?: string | null } | null)?.name;
+  const body = buildIcalendar({ name: ownerName ? `${centerName} · ${ownerName}` : centerName, events });
+
+  return new NextResponse(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="calendar.ics"',
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
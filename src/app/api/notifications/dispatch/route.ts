@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+
+import { ChannelNotConfiguredError, resolveChannelAdapter } from "@/lib/notification-channels";
+import { isServiceRoleConfigured, supabaseAdmin } from "@/lib/supabase/admin";
+import { isSupabaseConfigured } from "@/lib/supabase/public-env";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import type { QueuedNotification } from "@/types/models";
+
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MIN = 10;
+
+// Планировщик вызывает с заголовком Authorization: Bearer CRON_SECRET; менеджер — из интерфейса.
+async function isAuthorized(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get("authorization") === `Bearer ${secret}`) return true;
+
+  const supabase = await createSupabaseServerClient();
+  if (!supabase) return false;
+  const { data: authData } = await supabase.auth.getUser();
+  const userId = authData.user?.id;
+  if (!userId) return false;
+
+  const { data: profile } = await supabase.from("profiles").select("role").eq("id", userId).single();
+  return profile?.role === "admin" || profile?.role === "manager";
+}
+
+async function dispatch(request: Request) {
+  if (!isSupabaseConfigured) {
+    return NextResponse.json({ error: "Supabase не настроен" }, { status: 500 });
+  }
+
+  if (!isServiceRoleConfigured || !supabaseAdmin) {
+    return NextResponse.json({ error: "Не задан SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  }
+
+  if (!(await isAuthorized(request))) {
+    return NextResponse.json({ error: "Нет доступа" }, { status: 403 });
+  }
+
+  const { data: enqueued, error: enqueueError } = await supabaseAdmin.rpc("enqueue_appointment_reminders");
+  if (enqueueError) {
+    return NextResponse.json({ error: enqueueError.message }, { status: 500 });
+  }
+
+  const { data: claimed, error: claimError } = await supabaseAdmin.rpc("claim_notifications", {
+    batch_size: BATCH_SIZE,
+  });
+  if (claimError) {
+    return NextResponse.json({ error: claimError.message }, { status: 500 });
+  }
+
+  let sent = 0;
+  let failed = 0;
+  let retried = 0;
+
+  for (const message of (claimed ?? []) as QueuedNotification[]) {
+    if (!message.recipient) {
+      await supabaseAdmin
+        .from("notification_queue")
+        .update({ status: "skipped", last_error: "no_recipient" })
+        .eq("id", message.id);
+      continue;
+    }
+
+    try {
+      const adapter = resolveChannelAdapter(message.channel);
+      const result = await adapter.send({
+        id: message.id,
+        channel: message.channel,
+        recipient: message.recipient,
+        body: message.body,
+      });
+      await supabaseAdmin
+        .from("notification_queue")
+        .update({
+          status: "sent",
+          sent_at: new Date().toISOString(),
+          provider_message_id: result.providerMessageId,
+          last_error: null,
+        })
+        .eq("id", message.id);
+      sent += 1;
+    } catch (err) {
+      const errorText = err instanceof Error ? err.message : "send_failed";
+      const canRetry = !(err instanceof ChannelNotConfiguredError) && message.attempts < MAX_ATTEMPTS;
+      await supabaseAdmin
+        .from("notification_queue")
+        .update(
+          canRetry
+            ? {
+                status: "queued",
+                last_error: errorText,
+                scheduled_at: new Date(Date.now() + message.attempts * RETRY_DELAY_MIN * 60_000).toISOString(),
+              }
+            : { status: "failed", last_error: errorText },
+        )
+        .eq("id", message.id);
+      if (canRetry) retried += 1;
+      else failed += 1;
+    }
+  }
+
+  return NextResponse.json({ ok: true, enqueued: enqueued ?? 0, sent, failed, retried });
+}
+
+export async function GET(request: Request) {
+  return dispatch(request);
+}
+
+export async function POST(request: Request) {
+  return dispatch(request);
+}
@@ -0,0 +1,7 @@
+import { AdminEventTypes } from "@/components/admin/AdminEventTypes";
+import { requireRole } from "@/lib/auth/server";
+
+export default async function AdminEventTypesPage() {
+  await requireRole(["admin"]);
+  return <AdminEventTypes />;
+}
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { UserPlus, Users, UsersRound } from "lucide-react";
+import { Shapes, UserPlus, Users, UsersRound } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -13,11 +13,11 @@ export default async function AdminHomePage() {
       <div>
         <h1 className="text-xl font-semibold">Панель администратора</h1>
         <p className="text-sm text-muted-foreground">
-          Управление пользователями, детьми и назначениями.
+          Управление пользователями, детьми, назначениями и типами событий.
         </p>
       </div>
 
-      <div className="grid gap-3 sm:grid-cols-3">
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardContent className="grid gap-3 p-4">
             <div className="flex items-center gap-2 text-sm font-semibold">
@@ -62,6 +62,21 @@ export default async function AdminHomePage() {
             </Button>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardContent className="grid gap-3 p-4">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <Shapes className="size-4 text-muted-foreground" />
+              Типы событий
+            </div>
+            <Button asChild variant="secondary" className="h-10 justify-start">
+              <Link href="/app/admin/event-types">
+                <Shapes className="size-4" />
+                Каталог для ленты
+              </Link>
+            </Button>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,5 @@
+import { AnalyticsDashboard } from "@/components/business/AnalyticsDashboard";
+
+export default function AnalyticsPage() {
+  return <AnalyticsDashboard />;
+}
@@ -0,0 +1,5 @@
+import { DebtorsList } from "@/components/business/DebtorsList";
+
+export default function DebtorsPage() {
+  return <DebtorsList />;
+}
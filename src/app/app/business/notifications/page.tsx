@@ -0,0 +1,5 @@
+import { NotificationsManager } from "@/components/business/NotificationsManager";
+
+export default function NotificationsPage() {
+  return <NotificationsManager />;
+}
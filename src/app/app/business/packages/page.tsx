@@ -0,0 +1,5 @@
+import { PackagesManager } from "@/components/business/PackagesManager";
+
+export default function PackagesPage() {
+  return <PackagesManager />;
+}
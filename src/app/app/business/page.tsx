@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { CalendarDays, CreditCard, Settings2, UsersRound } from "lucide-react";
+import { BarChart3, BellRing, CalendarDays, CreditCard, HandCoins, Package, Settings2, UsersRound, Wallet } from "lucide-react";
 
 import { Card, CardContent } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
@@ -19,6 +19,12 @@ const tiles: Tile[] = [
     description: "Каталог услуг, длительность и цены.",
     icon: <Settings2 className="size-5 text-muted-foreground" />,
   },
+  {
+    href: "/app/business/packages",
+    title: "Абонементы",
+    description: "Пакеты занятий со сроком действия.",
+    icon: <Package className="size-5 text-muted-foreground" />,
+  },
   {
     href: "/app/business/specialists",
     title: "Расписание специалистов",
@@ -31,6 +37,30 @@ const tiles: Tile[] = [
     description: "Баланс, начисления и платежи.",
     icon: <CreditCard className="size-5 text-muted-foreground" />,
   },
+  {
+    href: "/app/business/debtors",
+    title: "Должники",
+    description: "Долги по всем детям и напоминания об оплате.",
+    icon: <HandCoins className="size-5 text-muted-foreground" />,
+  },
+  {
+    href: "/app/business/payroll",
+    title: "Зарплата",
+    description: "Ставки специалистов и расчёт оплаты за период.",
+    icon: <Wallet className="size-5 text-muted-foreground" />,
+  },
+  {
+    href: "/app/business/notifications",
+    title: "Уведомления",
+    description: "Шаблоны, контакты родителей и очередь напоминаний.",
+    icon: <BellRing className="size-5 text-muted-foreground" />,
+  },
+  {
+    href: "/app/business/analytics",
+    title: "Аналитика",
+    description: "Выручка, долги, загрузка и неявки с выгрузкой в CSV.",
+    icon: <BarChart3 className="size-5 text-muted-foreground" />,
+  },
 ];
 
 export default function BusinessHomePage() {
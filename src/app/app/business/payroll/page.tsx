@@ -0,0 +1,5 @@
+import { PayrollManager } from "@/components/business/PayrollManager";
+
+export default function PayrollPage() {
+  return <PayrollManager />;
+}
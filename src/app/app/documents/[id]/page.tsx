@@ -0,0 +1,12 @@
+import { BillingDocumentView } from "@/components/billing/BillingDocumentView";
+import { requireRole } from "@/lib/auth/server";
+
+export default async function BillingDocumentPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  await requireRole(["admin", "manager", "parent"]);
+  const { id } = await params;
+  return <BillingDocumentView documentId={id} />;
+}
@@ -0,0 +1,428 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Save, Shapes, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  customEventFieldTypeOptions,
+  customEventIcon,
+  customEventIconOptions,
+} from "@/lib/custom-events";
+import { supabase } from "@/lib/supabase/client";
+import { cn } from "@/lib/utils";
+import type { CustomEventField, CustomEventFieldType, CustomEventType } from "@/types/models";
+
+type FieldDraft = {
+  key: string;
+  label: string;
+  type: CustomEventFieldType;
+  required: boolean;
+  min: string;
+  max: string;
+  unit: string;
+  options: string; // через запятую
+};
+
+type TypeDraft = {
+  id: string | null;
+  name: string;
+  icon: string;
+  color: string;
+  sort_order: string;
+  fields: FieldDraft[];
+};
+
+type TypePayload = Pick<CustomEventType, "name" | "icon" | "color" | "sort_order" | "fields">;
+
+const MAX_FIELDS = 8;
+
+const EMPTY_DRAFT: TypeDraft = { id: null, name: "", icon: "sparkles", color: "#64748b", sort_order: "0", fields: [] };
+
+async function fetchEventTypes(): Promise<CustomEventType[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("custom_event_types")
+    .select("*")
+    .order("sort_order")
+    .order("name");
+  if (error) throw error;
+  return (data ?? []) as CustomEventType[];
+}
+
+// Ключ поля не меняется при переименовании — по нему хранятся значения в уже записанных событиях.
+function nextFieldKey(fields: FieldDraft[]) {
+  let n = fields.length + 1;
+  while (fields.some((f) => f.key === `f${n}`)) n += 1;
+  return `f${n}`;
+}
+
+function toDraft(t: CustomEventType): TypeDraft {
+  return {
+    id: t.id,
+    name: t.name,
+    icon: t.icon,
+    color: t.color,
+    sort_order: String(t.sort_order),
+    fields: t.fields.map((f) => ({
+      key: f.key,
+      label: f.label,
+      type: f.type,
+      required: Boolean(f.required),
+      min: f.min != null ? String(f.min) : "",
+      max: f.max != null ? String(f.max) : "",
+      unit: f.unit ?? "",
+      options: (f.options ?? []).join(", "),
+    })),
+  };
+}
+
+function parseOptionalNumber(v: string) {
+  if (!v.trim()) return undefined;
+  const n = Number(v.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+function buildPayload(draft: TypeDraft): { value: TypePayload } | { error: string } {
+  const name = draft.name.trim();
+  if (!name) return { error: "Введите название" };
+  if (name.length > 60) return { error: "Название не длиннее 60 символов" };
+
+  const sortOrder = Number(draft.sort_order || 0);
+  if (!Number.isInteger(sortOrder)) return { error: "Порядок — целое число" };
+
+  const fields: CustomEventField[] = [];
+  for (const f of draft.fields) {
+    const label = f.label.trim();
+    if (!label) return { error: "У каждого поля должно быть название" };
+    const field: CustomEventField = { key: f.key, label, type: f.type };
+    if (f.required) field.required = true;
+
+    if (f.type === "number") {
+      const min = parseOptionalNumber(f.min);
+      const max = parseOptionalNumber(f.max);
+      if (min === null || max === null) return { error: `«${label}»: минимум и максимум — числа` };
+      if (min != null && max != null && min > max) return { error: `«${label}»: минимум больше максимума` };
+      if (min != null) field.min = min;
+      if (max != null) field.max = max;
+      if (f.unit.trim()) field.unit = f.unit.trim();
+    }
+
+    if (f.type === "select") {
+      const options = Array.from(new Set(f.options.split(",").map((o) => o.trim()).filter(Boolean)));
+      if (options.length === 0) return { error: `«${label}»: перечислите варианты через запятую` };
+      field.options = options;
+    }
+
+    fields.push(field);
+  }
+
+  return { value: { name, icon: draft.icon, color: draft.color, sort_order: sortOrder, fields } };
+}
+
+function describeField(f: CustomEventField) {
+  const type = customEventFieldTypeOptions.find((o) => o.value === f.type)?.label.toLowerCase() ?? f.type;
+  const unit = f.type === "number" && f.unit ? `, ${f.unit}` : "";
+  return `${f.label} (${type}${unit}${f.required ? ", обяз." : ""})`;
+}
+
+export function AdminEventTypes() {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<TypeDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const typesQuery = useQuery({
+    queryKey: ["admin", "customEventTypes"],
+    queryFn: fetchEventTypes,
+    enabled: Boolean(supabase),
+  });
+
+  const types = typesQuery.data ?? [];
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["admin", "customEventTypes"] });
+    await queryClient.invalidateQueries({ queryKey: ["customEventTypes"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, payload }: { id: string | null; payload: TypePayload }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const { error } = id
+        ? await supabase.from("custom_event_types").update(payload).eq("id", id)
+        : await supabase.from("custom_event_types").insert(payload);
+      if (error) throw error;
+    },
+    onSuccess: async (_data, input) => {
+      setMessage(input.id ? "Тип события обновлён" : "Тип события добавлен");
+      setDraft(EMPTY_DRAFT);
+      await invalidate();
+    },
+    onError: (error: unknown) => setMessage(error instanceof Error ? error.message : "Ошибка"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const { error } = await supabase.from("custom_event_types").update({ is_active: isActive }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: unknown) => setMessage(error instanceof Error ? error.message : "Ошибка"),
+  });
+
+  const updateField = (key: string, patch: Partial<FieldDraft>) =>
+    setDraft((prev) => ({ ...prev, fields: prev.fields.map((f) => (f.key === key ? { ...f, ...patch } : f)) }));
+
+  const save = () => {
+    const result = buildPayload(draft);
+    if ("error" in result) {
+      setMessage(result.error);
+      return;
+    }
+    setMessage(null);
+    saveMutation.mutate({ id: draft.id, payload: result.value });
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div>
+        <h1 className="text-xl font-semibold">Типы событий</h1>
+        <p className="text-sm text-muted-foreground">
+          Свои отметки для ленты дня: лекарство, сенсорный перерыв, приступ, шаг визуального расписания. Каждый тип
+          получает кнопку в быстром вводе.
+        </p>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Демо‑режим</AlertTitle>
+          <AlertDescription>Настройте Supabase, чтобы управлять типами событий.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      <Card>
+        <CardContent className="grid gap-4 p-4">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Shapes className="size-4 text-muted-foreground" />
+            {draft.id ? `Изменить: ${draft.name || "тип события"}` : "Новый тип события"}
+          </div>
+
+          {message ? <div className="text-sm text-muted-foreground">{message}</div> : null}
+
+          <div className="grid gap-3 md:grid-cols-[1fr_auto_120px]">
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Название</div>
+              <Input
+                className="h-11"
+                placeholder="Лекарство"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Цвет</div>
+              <Input
+                className="h-11 w-20 p-1"
+                type="color"
+                value={draft.color}
+                onChange={(e) => setDraft((prev) => ({ ...prev, color: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Порядок</div>
+              <Input
+                className="h-11"
+                inputMode="numeric"
+                value={draft.sort_order}
+                onChange={(e) => setDraft((prev) => ({ ...prev, sort_order: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Иконка</div>
+            <div className="flex flex-wrap gap-2">
+              {customEventIconOptions.map(({ value, label, Icon }) => (
+                <Button
+                  key={value}
+                  type="button"
+                  variant={draft.icon === value ? "default" : "secondary"}
+                  size="icon"
+                  className="size-10"
+                  title={label}
+                  aria-label={label}
+                  onClick={() => setDraft((prev) => ({ ...prev, icon: value }))}
+                >
+                  <Icon className="size-5" />
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="text-xs font-medium text-muted-foreground">
+              Поля (до {MAX_FIELDS}); без полей событие отмечается одним нажатием
+            </div>
+            {draft.fields.map((f) => (
+              <div key={f.key} className="grid gap-2 rounded-lg border p-2">
+                <div className="grid gap-2 sm:grid-cols-[1fr_180px_auto]">
+                  <Input
+                    className="h-10"
+                    placeholder="Название поля, например «Доза»"
+                    value={f.label}
+                    onChange={(e) => updateField(f.key, { label: e.target.value })}
+                  />
+                  <Select value={f.type} onValueChange={(v) => updateField(f.key, { type: v as CustomEventFieldType })}>
+                    <SelectTrigger className="h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {customEventFieldTypeOptions.map((o) => (
+                        <SelectItem key={o.value} value={o.value}>
+                          {o.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="size-10"
+                    aria-label="Удалить поле"
+                    onClick={() => setDraft((prev) => ({ ...prev, fields: prev.fields.filter((x) => x.key !== f.key) }))}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+                {f.type === "number" ? (
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      className="h-10"
+                      placeholder="Мин."
+                      inputMode="decimal"
+                      value={f.min}
+                      onChange={(e) => updateField(f.key, { min: e.target.value })}
+                    />
+                    <Input
+                      className="h-10"
+                      placeholder="Макс."
+                      inputMode="decimal"
+                      value={f.max}
+                      onChange={(e) => updateField(f.key, { max: e.target.value })}
+                    />
+                    <Input
+                      className="h-10"
+                      placeholder="Ед., например мг"
+                      value={f.unit}
+                      onChange={(e) => updateField(f.key, { unit: e.target.value })}
+                    />
+                  </div>
+                ) : null}
+                {f.type === "select" ? (
+                  <Input
+                    className="h-10"
+                    placeholder="Варианты через запятую: Мелатонин, Ибупрофен"
+                    value={f.options}
+                    onChange={(e) => updateField(f.key, { options: e.target.value })}
+                  />
+                ) : null}
+                <label className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={f.required}
+                    onCheckedChange={(v) => updateField(f.key, { required: v === true })}
+                  />
+                  Обязательное
+                </label>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              className="h-10 justify-start"
+              disabled={draft.fields.length >= MAX_FIELDS}
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  fields: [
+                    ...prev.fields,
+                    { key: nextFieldKey(prev.fields), label: "", type: "text", required: false, min: "", max: "", unit: "", options: "" },
+                  ],
+                }))
+              }
+            >
+              <Plus className="size-4" />
+              Добавить поле
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" className="h-11" disabled={!supabase || saveMutation.isPending} onClick={save}>
+              <Save className="size-4" />
+              Сохранить
+            </Button>
+            {draft.id ? (
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setDraft(EMPTY_DRAFT)}>
+                Отмена
+              </Button>
+            ) : null}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Каталог</div>
+          {types.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{typesQuery.isLoading ? "Загрузка…" : "Пока нет типов событий"}</div>
+          ) : (
+            types.map((t) => {
+              const Icon = customEventIcon(t.icon);
+              return (
+                <div key={t.id} className={cn("flex items-start gap-3 rounded-xl border p-3", !t.is_active && "opacity-60")}>
+                  <Icon className="mt-0.5 size-5 shrink-0" style={{ color: t.color }} />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate text-sm font-semibold">{t.name}</span>
+                      {!t.is_active ? <Badge variant="secondary">Отключён</Badge> : null}
+                    </div>
+                    <div className="mt-0.5 text-xs text-muted-foreground">
+                      {t.fields.length > 0 ? t.fields.map(describeField).join(" · ") : "Без полей"}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button type="button" variant="secondary" size="sm" onClick={() => setDraft(toDraft(t))}>
+                      Изменить
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={toggleMutation.isPending}
+                      onClick={() => toggleMutation.mutate({ id: t.id, isActive: !t.is_active })}
+                    >
+                      {t.is_active ? "Отключить" : "Включить"}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
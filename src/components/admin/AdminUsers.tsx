@@ -2,7 +2,7 @@
 
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { UserPlus, Users } from "lucide-react";
+import { CalendarSync, UserPlus, Users } from "lucide-react";
 import { useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -37,6 +37,8 @@ import {
 import { supabase } from "@/lib/supabase/client";
 import type { Profile, UserRole } from "@/types/models";
 
+import { UserCalendarFeedsDrawer } from "./UserCalendarFeedsDrawer";
+
 const inviteSchema = z.object({
   email: z.string().email("Введите корректный email"),
   full_name: z.string().min(1, "Введите имя").max(120),
@@ -66,6 +68,11 @@ function roleLabel(role: UserRole) {
   }
 }
 
+// Ленты .ics есть у специалистов (свои занятия) и родителей (занятия детей).
+function hasCalendarFeeds(role: UserRole) {
+  return role === "therapist" || role === "parent";
+}
+
 async function fetchProfiles(): Promise<Profile[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
@@ -80,6 +87,7 @@ export function AdminUsers() {
   const queryClient = useQueryClient();
   const [message, setMessage] = useState<string | null>(null);
   const [search, setSearch] = useState<string>("");
+  const [feedsUser, setFeedsUser] = useState<Profile | null>(null);
 
   const profilesQuery = useQuery({
     queryKey: ["admin", "profiles"],
@@ -321,6 +329,19 @@ export function AdminUsers() {
                       </SelectContent>
                     </Select>
                   </div>
+
+                  {hasCalendarFeeds(p.role) ? (
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      className="mt-3 h-11 w-full"
+                      onClick={() => setFeedsUser(p)}
+                      disabled={!supabase}
+                    >
+                      <CalendarSync className="size-4" />
+                      Ссылки на календарь
+                    </Button>
+                  ) : null}
                 </div>
               ))
             )}
@@ -333,18 +354,19 @@ export function AdminUsers() {
                   <TableHead>Имя</TableHead>
                   <TableHead>Эл. почта</TableHead>
                   <TableHead className="w-[220px]">Роль</TableHead>
+                  <TableHead className="w-[140px]" />
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {noData ? (
                   <TableRow>
-                    <TableCell colSpan={3} className="text-muted-foreground">
+                    <TableCell colSpan={4} className="text-muted-foreground">
                       {profilesQuery.isLoading ? "Загрузка…" : "Нет данных"}
                     </TableCell>
                   </TableRow>
                 ) : noMatch ? (
                   <TableRow>
-                    <TableCell colSpan={3} className="text-muted-foreground">
+                    <TableCell colSpan={4} className="text-muted-foreground">
                       Ничего не найдено
                     </TableCell>
                   </TableRow>
@@ -370,6 +392,20 @@ export function AdminUsers() {
                           </SelectContent>
                         </Select>
                       </TableCell>
+                      <TableCell>
+                        {hasCalendarFeeds(p.role) ? (
+                          <Button
+                            type="button"
+                            variant="secondary"
+                            className="h-9"
+                            onClick={() => setFeedsUser(p)}
+                            disabled={!supabase}
+                          >
+                            <CalendarSync className="size-4" />
+                            Календарь
+                          </Button>
+                        ) : null}
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
@@ -378,6 +414,13 @@ export function AdminUsers() {
           </div>
         </CardContent>
       </Card>
+
+      <UserCalendarFeedsDrawer
+        user={feedsUser}
+        onOpenChange={(open) => {
+          if (!open) setFeedsUser(null);
+        }}
+      />
     </div>
   );
 }
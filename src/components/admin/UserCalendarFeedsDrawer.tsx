@@ -0,0 +1,59 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+
+import { CalendarFeedsCard } from "@/components/calendar/CalendarFeedsCard";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { supabase } from "@/lib/supabase/client";
+import type { Child, Profile } from "@/types/models";
+
+type ChildLite = Pick<Child, "id" | "name">;
+
+async function fetchParentChildren(parentId: string): Promise<ChildLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("children").select("id,name").eq("parent_id", parentId).order("name");
+  if (error) throw error;
+  return (data ?? []) as ChildLite[];
+}
+
+// Ссылки .ics пользователя: специалисту — его занятия, родителю — по каждому ребёнку.
+export function UserCalendarFeedsDrawer({
+  user,
+  onOpenChange,
+}: {
+  user: Profile | null;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const isParent = user?.role === "parent";
+
+  const childrenQuery = useQuery({
+    queryKey: ["admin", "parentChildren", user?.id],
+    queryFn: () => fetchParentChildren(user!.id),
+    enabled: Boolean(supabase) && Boolean(user) && isParent,
+  });
+
+  const children = childrenQuery.data ?? [];
+
+  return (
+    <Drawer open={Boolean(user)} onOpenChange={onOpenChange}>
+      <DrawerContent className="mx-auto w-full max-w-xl">
+        <DrawerHeader className="pb-2">
+          <DrawerTitle className="text-lg">Календарь: {user?.full_name || user?.email}</DrawerTitle>
+        </DrawerHeader>
+        <div className="grid max-h-[70vh] gap-4 overflow-y-auto px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+          {!user ? null : isParent ? (
+            children.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                {childrenQuery.isLoading ? "Загрузка…" : "К родителю не привязаны дети"}
+              </div>
+            ) : (
+              children.map((c) => <CalendarFeedsCard key={c.id} kind="child" targetId={c.id} title={c.name} />)
+            )
+          ) : (
+            <CalendarFeedsCard kind="specialist" targetId={user.id} title="Занятия специалиста" />
+          )}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
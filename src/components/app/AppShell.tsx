@@ -13,6 +13,7 @@ import {
   DrawerTitle,
 } from "@/components/ui/drawer"
 import { Separator } from "@/components/ui/separator"
+import { OutboxStatus } from "@/components/app/OutboxStatus"
 import { DEMO_NAME_COOKIE, DEMO_ROLE_COOKIE } from "@/lib/auth/demo"
 import { supabase } from "@/lib/supabase/client"
 import { cn } from "@/lib/utils"
@@ -72,8 +73,13 @@ function buildNav(role: UserRole): NavItem[] {
   const businessNav: NavItem[] = [
     { href: "/app/business/calendar", label: "Календарь" },
     { href: "/app/business/services", label: "Услуги" },
+    { href: "/app/business/packages", label: "Абонементы" },
     { href: "/app/business/specialists", label: "Расписание специалистов" },
     { href: "/app/business/finance", label: "Финансы" },
+    { href: "/app/business/debtors", label: "Должники" },
+    { href: "/app/business/payroll", label: "Зарплата" },
+    { href: "/app/business/notifications", label: "Уведомления" },
+    { href: "/app/business/analytics", label: "Аналитика" },
   ];
 
   if (role === "admin") {
@@ -82,6 +88,7 @@ function buildNav(role: UserRole): NavItem[] {
       { href: "/app/admin/users", label: "Пользователи" },
       { href: "/app/admin/children", label: "Дети" },
       { href: "/app/admin/assignments", label: "Назначения" },
+      { href: "/app/admin/event-types", label: "Типы событий" },
       ...businessNav,
     ];
   }
@@ -139,8 +146,8 @@ export function AppShell({
   };
 
   return (
-    <div className="min-h-screen bg-muted/30">
-      <header className="sticky top-0 z-20 border-b bg-background/80 pt-[env(safe-area-inset-top)] backdrop-blur supports-[backdrop-filter]:bg-background/60">
+    <div className="min-h-screen bg-muted/30 print:bg-background">
+      <header className="sticky top-0 z-20 border-b print:hidden bg-background/80 pt-[env(safe-area-inset-top)] backdrop-blur supports-[backdrop-filter]:bg-background/60">
         <div className="mx-auto flex max-w-6xl items-center justify-between gap-3 px-4 py-3">
           <div className="flex items-center gap-2">
             <Button
@@ -165,30 +172,33 @@ export function AppShell({
             </div>
           </div>
 
-          <Button
-            type="button"
-            variant="secondary"
-            className="hidden h-10 sm:inline-flex"
-            onClick={signOut}
-          >
-            <LogOut className="size-4" />
-            Выйти
-          </Button>
-          <Button
-            type="button"
-            variant="secondary"
-            size="icon"
-            className="h-10 w-10 sm:hidden"
-            onClick={signOut}
-            aria-label="Выйти"
-          >
-            <LogOut className="size-4" />
-          </Button>
+          <div className="flex items-center gap-2">
+            <OutboxStatus />
+            <Button
+              type="button"
+              variant="secondary"
+              className="hidden h-10 sm:inline-flex"
+              onClick={signOut}
+            >
+              <LogOut className="size-4" />
+              Выйти
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              className="h-10 w-10 sm:hidden"
+              onClick={signOut}
+              aria-label="Выйти"
+            >
+              <LogOut className="size-4" />
+            </Button>
+          </div>
         </div>
       </header>
 
-      <div className="mx-auto grid max-w-6xl gap-4 px-4 pt-4 pb-[calc(env(safe-area-inset-bottom)+1rem)] md:grid-cols-[240px_1fr]">
-        <aside className="hidden rounded-xl border bg-card p-3 md:block">
+      <div className="mx-auto grid max-w-6xl gap-4 px-4 pt-4 pb-[calc(env(safe-area-inset-bottom)+1rem)] md:grid-cols-[240px_1fr] print:block print:p-0">
+        <aside className="hidden rounded-xl border bg-card p-3 md:block print:hidden">
           <NavLinks nav={nav} pathname={pathname} />
         </aside>
         <main className="min-w-0">{children}</main>
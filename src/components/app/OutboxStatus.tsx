@@ -0,0 +1,173 @@
+"use client";
+
+import { useQueryClient } from "@tanstack/react-query";
+import { CloudOff, RefreshCw, TriangleAlert } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import {
+  countOperations,
+  discardOperation,
+  flushOutbox,
+  isOutboxAvailable,
+  listFailedOperations,
+  retryOperation,
+  subscribeOutbox,
+  type OutboxOperation,
+} from "@/lib/offline-outbox";
+
+const RETRY_INTERVAL_MS = 30_000;
+
+const timelineTypeLabels: Record<string, string> = {
+  food: "Еда",
+  mood: "Настроение",
+  nap_start: "Сон начался",
+  nap_end: "Сон закончился",
+  note: "Заметка",
+  toilet: "Туалет",
+  custom: "Событие центра",
+};
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function describeOperation(op: OutboxOperation) {
+  if (op.kind === "daily_log") return `Дневник за ${op.payload.date}`;
+  if (op.kind === "behavior_incident") return "Инцидент";
+  return timelineTypeLabels[op.payload.type] ?? "Событие";
+}
+
+// Счётчик записей быстрого ввода, ещё не отправленных на сервер. Отправка — при появлении сети,
+// при открытии приложения, раз в 30 секунд и по нажатию. Отклонённые сервером записи не удаляются
+// сами: их можно повторить или удалить вручную.
+export function OutboxStatus() {
+  const queryClient = useQueryClient();
+  const [pending, setPending] = useState(0);
+  const [failed, setFailed] = useState<OutboxOperation[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [failedOpen, setFailedOpen] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const counts = await countOperations();
+    setPending(counts.pending);
+    setFailed(counts.failed > 0 ? await listFailedOperations() : []);
+  }, []);
+
+  const sync = useCallback(async () => {
+    setSyncing(true);
+    try {
+      const { sent } = await flushOutbox();
+      await refresh();
+      if (sent > 0) {
+        await queryClient.invalidateQueries({ queryKey: ["dailyLog"] });
+        await queryClient.invalidateQueries({ queryKey: ["sleepSessions"] });
+      }
+    } catch {
+      // Очередь останется в IndexedDB до следующей попытки.
+    } finally {
+      setSyncing(false);
+    }
+  }, [queryClient, refresh]);
+
+  useEffect(() => {
+    if (!isOutboxAvailable()) return;
+
+    void sync();
+    const unsubscribe = subscribeOutbox(() => void refresh());
+    const onOnline = () => void sync();
+    window.addEventListener("online", onOnline);
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", onOnline);
+    };
+  }, [refresh, sync]);
+
+  useEffect(() => {
+    if (pending === 0) return;
+    const t = window.setInterval(() => void sync(), RETRY_INTERVAL_MS);
+    return () => window.clearInterval(t);
+  }, [pending, sync]);
+
+  const retry = async (id: string) => {
+    await retryOperation(id);
+    await sync();
+  };
+
+  if (pending === 0 && failed.length === 0) return null;
+
+  return (
+    <>
+      {pending > 0 ? (
+        <Button
+          type="button"
+          variant="outline"
+          className="h-10 gap-2"
+          onClick={() => void sync()}
+          disabled={syncing}
+          title="Записи сохранены на устройстве и будут отправлены при подключении"
+        >
+          {syncing ? <RefreshCw className="size-4 animate-spin" /> : <CloudOff className="size-4" />}
+          <span className="tabular-nums">{pending}</span>
+          <span className="hidden sm:inline">не отправлено</span>
+        </Button>
+      ) : null}
+
+      {failed.length > 0 ? (
+        <Button
+          type="button"
+          variant="outline"
+          className="h-10 gap-2 text-destructive"
+          onClick={() => setFailedOpen(true)}
+          title="Сервер не принял эти записи"
+        >
+          <TriangleAlert className="size-4" />
+          <span className="tabular-nums">{failed.length}</span>
+          <span className="hidden sm:inline">с ошибкой</span>
+        </Button>
+      ) : null}
+
+      <Drawer open={failedOpen && failed.length > 0} onOpenChange={setFailedOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Записи, которые не удалось отправить</DrawerTitle>
+            <div className="text-sm text-muted-foreground">
+              Сервер отклонил их несколько раз. Повторите после исправления причины или удалите.
+            </div>
+          </DrawerHeader>
+          <div className="grid max-h-[70vh] gap-2 overflow-y-auto px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {failed.map((op) => (
+              <div key={op.id} className="grid gap-2 rounded-xl border bg-card p-3">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-semibold">{describeOperation(op)}</span>
+                  <span className="text-xs text-muted-foreground">{dateTimeRu(op.createdAt)}</span>
+                </div>
+                {op.lastError ? <div className="text-xs text-muted-foreground">{op.lastError}</div> : null}
+                <div className="flex gap-2">
+                  <Button type="button" size="sm" disabled={syncing} onClick={() => void retry(op.id)}>
+                    Повторить
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => void discardOperation(op.id)}
+                  >
+                    Удалить
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </>
+  );
+}
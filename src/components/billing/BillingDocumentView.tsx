@@ -0,0 +1,224 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Printer } from "lucide-react";
+import { useRouter } from "next/navigation";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabase/client";
+import { signedAmount, transactionTypeLabel } from "@/lib/transactions";
+import type { BillingDocument, CenterSettings, Child } from "@/types/models";
+
+import { billingDocumentKindLabel } from "./BillingDocumentsCard";
+
+type DocumentData = {
+  document: BillingDocument;
+  child: Pick<Child, "id" | "name" | "dob"> | null;
+  center: CenterSettings | null;
+};
+
+async function fetchDocument(id: string): Promise<DocumentData | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.from("billing_documents").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  const document = data as BillingDocument;
+
+  const [{ data: child, error: childError }, { data: center, error: centerError }] = await Promise.all([
+    supabase.from("children").select("id,name,dob").eq("id", document.child_id).maybeSingle(),
+    supabase.from("center_settings").select("*").maybeSingle(),
+  ]);
+  if (childError) throw childError;
+  if (centerError) throw centerError;
+
+  return {
+    document,
+    child: (child ?? null) as DocumentData["child"],
+    center: (center ?? null) as CenterSettings | null,
+  };
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function dateRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "2-digit", year: "numeric" }).format(new Date(iso));
+}
+
+function dateKeyRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+export function BillingDocumentView({ documentId }: { documentId: string }) {
+  const router = useRouter();
+
+  const documentQuery = useQuery({
+    queryKey: ["billing", "document", documentId],
+    queryFn: () => fetchDocument(documentId),
+    enabled: Boolean(supabase),
+  });
+
+  if (!supabase) {
+    return (
+      <Alert>
+        <AlertTitle>Демо-режим</AlertTitle>
+        <AlertDescription>Документы доступны после подключения Supabase.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (documentQuery.isLoading) {
+    return <div className="text-sm text-muted-foreground">Загрузка…</div>;
+  }
+
+  const data = documentQuery.data;
+  if (!data) {
+    return (
+      <Alert>
+        <AlertTitle>Документ не найден</AlertTitle>
+        <AlertDescription>Возможно, он удалён или у вас нет к нему доступа.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { document: doc, child, center } = data;
+  const isStatement = doc.kind === "statement";
+  // Корректировки не входят ни в начисления, ни в оплаты — показываем их отдельной строкой итогов.
+  const adjustments =
+    Number(doc.closing_balance) - Number(doc.opening_balance) - Number(doc.payments_total) + Number(doc.charges_total);
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <Button type="button" variant="secondary" className="h-10" onClick={() => router.back()}>
+          <ArrowLeft className="size-4" />
+          Назад
+        </Button>
+        <Button type="button" className="h-10" onClick={() => window.print()}>
+          <Printer className="size-4" />
+          Печать / PDF
+        </Button>
+      </div>
+
+      <div className="grid gap-6 rounded-xl border bg-card p-6 text-sm print:rounded-none print:border-0 print:p-0">
+        <div className="flex flex-col gap-4 sm:flex-row sm:justify-between">
+          <div className="grid gap-1">
+            <div className="text-base font-semibold">{center?.legal_name || center?.name || "Центр"}</div>
+            {center?.address ? <div className="text-muted-foreground">{center.address}</div> : null}
+            {center?.phone || center?.email ? (
+              <div className="text-muted-foreground">{[center.phone, center.email].filter(Boolean).join(" · ")}</div>
+            ) : null}
+            {center?.tax_id ? <div className="text-muted-foreground">ИНН: {center.tax_id}</div> : null}
+            {center?.bank_details ? (
+              <div className="whitespace-pre-line text-muted-foreground">{center.bank_details}</div>
+            ) : null}
+          </div>
+          <div className="grid gap-1 sm:text-right">
+            <div className="text-lg font-semibold">
+              {billingDocumentKindLabel(doc.kind)} № {doc.number}
+            </div>
+            <div className="text-muted-foreground">от {dateRu(doc.issued_at)}</div>
+            <div className="text-muted-foreground">
+              Период: {dateKeyRu(doc.period_start)} — {dateKeyRu(doc.period_end)}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <span className="text-muted-foreground">Получатель услуг: </span>
+          <span className="font-medium">{child?.name ?? "—"}</span>
+          {child?.dob ? <span className="text-muted-foreground"> ({dateKeyRu(child.dob)} г.р.)</span> : null}
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Дата</TableHead>
+              {isStatement ? <TableHead>Операция</TableHead> : null}
+              <TableHead>Услуга</TableHead>
+              <TableHead>Специалист</TableHead>
+              <TableHead className="text-right">Сумма</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {doc.lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={isStatement ? 5 : 4} className="text-muted-foreground">
+                  Операций за период нет
+                </TableCell>
+              </TableRow>
+            ) : (
+              doc.lines.map((line, idx) => (
+                <TableRow key={idx}>
+                  <TableCell className="whitespace-nowrap">{dateRu(line.appointment_start ?? line.date)}</TableCell>
+                  {isStatement ? <TableCell>{transactionTypeLabel(line.type)}</TableCell> : null}
+                  <TableCell className="whitespace-normal">{line.service ?? line.description ?? "—"}</TableCell>
+                  <TableCell>{line.specialist ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {isStatement
+                      ? moneyRu(signedAmount(line.type, Number(line.amount)))
+                      : line.type === "discount"
+                        ? moneyRu(-Number(line.amount))
+                        : moneyRu(Number(line.amount))}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="ml-auto grid w-full max-w-xs gap-1">
+          {isStatement ? (
+            <>
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Баланс на начало</span>
+                <span>{moneyRu(Number(doc.opening_balance))}</span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Начислено</span>
+                <span>{moneyRu(Number(doc.charges_total))}</span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Оплачено</span>
+                <span>{moneyRu(Number(doc.payments_total))}</span>
+              </div>
+              {Math.abs(adjustments) >= 0.01 ? (
+                <div className="flex justify-between gap-3">
+                  <span className="text-muted-foreground">Корректировки</span>
+                  <span>{moneyRu(adjustments)}</span>
+                </div>
+              ) : null}
+              <div className="flex justify-between gap-3 border-t pt-1 font-semibold">
+                <span>Баланс на конец</span>
+                <span>{moneyRu(Number(doc.closing_balance))}</span>
+              </div>
+              <div className="text-xs text-muted-foreground">Отрицательный баланс — задолженность.</div>
+            </>
+          ) : (
+            <div className="flex justify-between gap-3 border-t pt-1 font-semibold">
+              <span>Итого к оплате</span>
+              <span>{moneyRu(Number(doc.charges_total))}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
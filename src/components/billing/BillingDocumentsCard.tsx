@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FileText, Plus, Settings2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/lib/supabase/client";
+import type { BillingDocument, BillingDocumentKind } from "@/types/models";
+
+import { CenterSettingsDrawer } from "./CenterSettingsDrawer";
+
+type DocumentRow = Pick<BillingDocument, "id" | "number" | "kind" | "period_start" | "period_end" | "issued_at">;
+
+async function fetchDocuments(childId: string): Promise<DocumentRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("billing_documents")
+    .select("id,number,kind,period_start,period_end,issued_at")
+    .eq("child_id", childId)
+    .order("issued_at", { ascending: false })
+    .limit(50);
+  if (error) throw error;
+  return (data ?? []) as DocumentRow[];
+}
+
+export function billingDocumentKindLabel(kind: BillingDocumentKind) {
+  return kind === "invoice" ? "Счёт" : "Выписка";
+}
+
+function dateRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+function currentMonthKey() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthBounds(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  const last = new Date(y ?? 1970, m ?? 1, 0).getDate();
+  return { start: `${month}-01`, end: `${month}-${String(last).padStart(2, "0")}` };
+}
+
+// scope задаёт префикс ключей запроса: менеджер может выпускать документы, родитель — только смотреть.
+export function BillingDocumentsCard({ childId, scope }: { childId: string; scope: "business" | "parent" }) {
+  const queryClient = useQueryClient();
+  const canIssue = scope === "business";
+
+  const [kind, setKind] = useState<BillingDocumentKind>("statement");
+  const [month, setMonth] = useState(currentMonthKey);
+  const [message, setMessage] = useState<string | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  const documentsQuery = useQuery({
+    queryKey: [scope, "billingDocuments", childId],
+    queryFn: () => fetchDocuments(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const bounds = monthBounds(month);
+      const { error } = await supabase.rpc("issue_billing_document", {
+        child_uuid: childId,
+        doc_kind: kind,
+        period_start: bounds.start,
+        period_end: bounds.end,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [scope, "billingDocuments", childId] }),
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сформировать документ");
+    },
+  });
+
+  const documents = documentsQuery.data ?? [];
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <FileText className="size-4 text-muted-foreground" />
+            Счета и выписки
+          </div>
+          {canIssue ? (
+            <Button
+              type="button"
+              variant="ghost"
+              className="h-9"
+              onClick={() => setSettingsOpen(true)}
+              disabled={!supabase}
+            >
+              <Settings2 className="size-4" />
+              Реквизиты
+            </Button>
+          ) : null}
+        </div>
+        <Separator />
+
+        {canIssue ? (
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Документ</div>
+              <Select value={kind} onValueChange={(v) => setKind(v as BillingDocumentKind)}>
+                <SelectTrigger className="h-10 w-full sm:w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="statement">Выписка за месяц</SelectItem>
+                  <SelectItem value="invoice">Счёт за месяц</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Месяц</div>
+              <Input className="h-10" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+            </div>
+            <Button
+              type="button"
+              className="h-10"
+              onClick={() => issueMutation.mutate()}
+              disabled={!supabase || !childId || !month || issueMutation.isPending}
+            >
+              <Plus className="size-4" />
+              Сформировать
+            </Button>
+          </div>
+        ) : null}
+
+        {message ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        {documents.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            {documentsQuery.isLoading ? "Загрузка…" : "Документов пока нет"}
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {documents.map((d) => (
+              <div key={d.id} className="flex items-center justify-between gap-3 rounded-xl border bg-card p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{billingDocumentKindLabel(d.kind)}</Badge>
+                    <span className="truncate text-sm font-semibold">№ {d.number}</span>
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {dateRu(d.period_start)} — {dateRu(d.period_end)}
+                  </div>
+                </div>
+                <Button asChild variant="secondary" className="h-9">
+                  <Link href={`/app/documents/${d.id}`}>Открыть</Link>
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {canIssue ? <CenterSettingsDrawer open={settingsOpen} onOpenChange={setSettingsOpen} /> : null}
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/lib/supabase/client";
+import type { CenterSettings } from "@/types/models";
+
+type CenterDraft = Pick<
+  CenterSettings,
+  "name" | "legal_name" | "address" | "phone" | "email" | "tax_id" | "bank_details" | "invoice_prefix" | "statement_prefix"
+>;
+
+const textFields: { key: Exclude<keyof CenterDraft, "bank_details">; label: string }[] = [
+  { key: "name", label: "Название" },
+  { key: "legal_name", label: "Юридическое название" },
+  { key: "address", label: "Адрес" },
+  { key: "phone", label: "Телефон" },
+  { key: "email", label: "Email" },
+  { key: "tax_id", label: "ИНН" },
+  { key: "invoice_prefix", label: "Префикс номера счёта" },
+  { key: "statement_prefix", label: "Префикс номера выписки" },
+];
+
+async function fetchCenterSettings(): Promise<CenterSettings | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.from("center_settings").select("*").maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as CenterSettings | null;
+}
+
+function toDraft(s: CenterSettings | null): CenterDraft {
+  return {
+    name: s?.name ?? "Центр",
+    legal_name: s?.legal_name ?? "",
+    address: s?.address ?? "",
+    phone: s?.phone ?? "",
+    email: s?.email ?? "",
+    tax_id: s?.tax_id ?? "",
+    bank_details: s?.bank_details ?? "",
+    invoice_prefix: s?.invoice_prefix ?? "СЧ",
+    statement_prefix: s?.statement_prefix ?? "ВП",
+  };
+}
+
+export function CenterSettingsDrawer({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CenterDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const settingsQuery = useQuery({
+    queryKey: ["business", "centerSettings"],
+    queryFn: fetchCenterSettings,
+    enabled: Boolean(supabase) && open,
+  });
+
+  const values = draft ?? toDraft(settingsQuery.data ?? null);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!values.name.trim()) throw new Error("Укажите название");
+      setMessage(null);
+      const { error } = await supabase
+        .from("center_settings")
+        .update({
+          name: values.name.trim(),
+          legal_name: values.legal_name?.trim() || null,
+          address: values.address?.trim() || null,
+          phone: values.phone?.trim() || null,
+          email: values.email?.trim() || null,
+          tax_id: values.tax_id?.trim() || null,
+          bank_details: values.bank_details?.trim() || null,
+          invoice_prefix: values.invoice_prefix.trim() || "СЧ",
+          statement_prefix: values.statement_prefix.trim() || "ВП",
+        })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setDraft(null);
+      onOpenChange(false);
+      await queryClient.invalidateQueries({ queryKey: ["business", "centerSettings"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сохранить реквизиты");
+    },
+  });
+
+  return (
+    <Drawer
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setDraft(null);
+        onOpenChange(next);
+      }}
+    >
+      <DrawerContent className="mx-auto w-full max-w-xl">
+        <DrawerHeader className="pb-2">
+          <DrawerTitle className="text-lg">Реквизиты центра</DrawerTitle>
+        </DrawerHeader>
+        <div className="grid max-h-[70vh] gap-4 overflow-y-auto px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+          {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+          <div className="text-xs text-muted-foreground">
+            Печатаются в шапке счетов и выписок. Префикс применяется к новым документам.
+          </div>
+
+          {textFields.map((f) => (
+            <div key={f.key} className="grid gap-2">
+              <div className="text-sm font-medium">{f.label}</div>
+              <Input
+                className="h-11"
+                value={values[f.key] ?? ""}
+                onChange={(e) => setDraft({ ...values, [f.key]: e.target.value })}
+              />
+            </div>
+          ))}
+
+          <div className="grid gap-2">
+            <div className="text-sm font-medium">Банковские реквизиты</div>
+            <Textarea
+              value={values.bank_details ?? ""}
+              onChange={(e) => setDraft({ ...values, bank_details: e.target.value })}
+            />
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-end gap-2">
+            <Button type="button" variant="secondary" className="h-11" onClick={() => onOpenChange(false)}>
+              Отмена
+            </Button>
+            <Button
+              type="button"
+              className="h-11"
+              onClick={() => saveMutation.mutate()}
+              disabled={settingsQuery.isLoading || saveMutation.isPending}
+            >
+              Сохранить
+            </Button>
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
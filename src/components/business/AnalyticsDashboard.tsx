@@ -0,0 +1,550 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { BarChart3, Download } from "lucide-react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { downloadCsv } from "@/lib/csv";
+import { supabase } from "@/lib/supabase/client";
+import {
+  hoursForDate,
+  localDateKey,
+  type ScheduleExceptionLite,
+  type WorkingHoursLite,
+} from "@/lib/working-hours";
+import type { Profile } from "@/types/models";
+
+type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
+
+type MonthRow = { month: string; revenue: number; collected: number };
+
+type AgingRow = {
+  child_id: string;
+  child_name: string;
+  debt_total: number;
+  debt_0_30: number;
+  debt_31_60: number;
+  debt_60_plus: number;
+  oldest_debt_date: string | null;
+};
+
+type BookedRow = { specialist_id: string; booked_minutes: number };
+
+type AttendanceRow = {
+  service_id: string | null;
+  service_name: string;
+  completed: number;
+  no_show: number;
+  canceled: number;
+};
+
+function monthKey(d: Date) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+function monthsAgoKey(n: number) {
+  const d = new Date();
+  d.setDate(1);
+  d.setMonth(d.getMonth() - n);
+  return monthKey(d);
+}
+
+function monthRange(fromMonth: string, toMonth: string) {
+  const [fy, fm] = fromMonth.split("-").map(Number);
+  const [ty, tm] = toMonth.split("-").map(Number);
+  const from = new Date(fy ?? 1970, (fm ?? 1) - 1, 1);
+  const to = new Date(ty ?? 1970, tm ?? 1, 1);
+  return { from, to };
+}
+
+function monthLabelRu(key: string) {
+  const [y, m] = key.split("-").map(Number);
+  return new Intl.DateTimeFormat("ru-RU", { month: "short", year: "2-digit" }).format(new Date(y ?? 1970, (m ?? 1) - 1, 1));
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function percentRu(v: number) {
+  return `${Math.round(v * 100)}%`;
+}
+
+async function fetchMonthlySummary(fromMonth: string, toMonth: string): Promise<MonthRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("finance_monthly_summary", {
+    from_month: `${fromMonth}-01`,
+    to_month: `${toMonth}-01`,
+  });
+  if (error) throw error;
+  return ((data ?? []) as Array<{ month: string; revenue: unknown; collected: unknown }>).map((r) => ({
+    month: r.month.slice(0, 7),
+    revenue: Number(r.revenue),
+    collected: Number(r.collected),
+  }));
+}
+
+async function fetchDebtAging(): Promise<AgingRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("debt_aging");
+  if (error) throw error;
+  return ((data ?? []) as AgingRow[]).map((r) => ({
+    ...r,
+    debt_total: Number(r.debt_total),
+    debt_0_30: Number(r.debt_0_30),
+    debt_31_60: Number(r.debt_31_60),
+    debt_60_plus: Number(r.debt_60_plus),
+  }));
+}
+
+async function fetchTherapists(): Promise<TherapistLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id,full_name,email")
+    .eq("role", "therapist")
+    .order("full_name", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as TherapistLite[]).filter((t) => t.id);
+}
+
+async function fetchWorkingHours(): Promise<WorkingHoursLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("specialist_working_hours")
+    .select("specialist_id,weekday,start_time,end_time");
+  if (error) throw error;
+  return (data ?? []) as WorkingHoursLite[];
+}
+
+async function fetchExceptions(fromKey: string, toKey: string): Promise<ScheduleExceptionLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("specialist_schedule_exceptions")
+    .select("id,specialist_id,start_date,end_date,reason,start_time,end_time,note")
+    .lte("start_date", toKey)
+    .gte("end_date", fromKey);
+  if (error) throw error;
+  return (data ?? []) as ScheduleExceptionLite[];
+}
+
+async function fetchBookedMinutes(fromMonth: string, toMonth: string): Promise<BookedRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("specialist_booked_minutes", {
+    from_month: `${fromMonth}-01`,
+    to_month: `${toMonth}-01`,
+  });
+  if (error) throw error;
+  return ((data ?? []) as Array<{ specialist_id: string; booked_minutes: unknown }>).map((r) => ({
+    specialist_id: r.specialist_id,
+    booked_minutes: Number(r.booked_minutes),
+  }));
+}
+
+async function fetchAttendance(fromMonth: string, toMonth: string): Promise<AttendanceRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("service_attendance_summary", {
+    from_month: `${fromMonth}-01`,
+    to_month: `${toMonth}-01`,
+  });
+  if (error) throw error;
+  return ((data ?? []) as AttendanceRow[]).map((r) => ({
+    ...r,
+    completed: Number(r.completed),
+    no_show: Number(r.no_show),
+    canceled: Number(r.canceled),
+  }));
+}
+
+function CsvButton({ onClick, disabled }: { onClick: () => void; disabled?: boolean }) {
+  return (
+    <Button type="button" variant="secondary" className="h-9" onClick={onClick} disabled={disabled}>
+      <Download className="size-4" />
+      CSV
+    </Button>
+  );
+}
+
+export function AnalyticsDashboard() {
+  const [fromMonth, setFromMonth] = useState(() => monthsAgoKey(5));
+  const [toMonth, setToMonth] = useState(() => monthsAgoKey(0));
+
+  const validRange = Boolean(fromMonth) && Boolean(toMonth) && fromMonth <= toMonth;
+  const range = useMemo(() => monthRange(fromMonth, toMonth), [fromMonth, toMonth]);
+  const fromKey = localDateKey(range.from);
+  const lastDay = new Date(range.to);
+  lastDay.setDate(lastDay.getDate() - 1);
+  const toKey = localDateKey(lastDay);
+
+  const monthlyQuery = useQuery({
+    queryKey: ["business", "analytics", "monthly", fromMonth, toMonth],
+    queryFn: () => fetchMonthlySummary(fromMonth, toMonth),
+    enabled: Boolean(supabase) && validRange,
+  });
+
+  const agingQuery = useQuery({
+    queryKey: ["business", "analytics", "aging"],
+    queryFn: fetchDebtAging,
+    enabled: Boolean(supabase),
+  });
+
+  const therapistsQuery = useQuery({
+    queryKey: ["business", "therapists"],
+    queryFn: fetchTherapists,
+    enabled: Boolean(supabase),
+  });
+
+  const workingHoursQuery = useQuery({
+    queryKey: ["business", "workingHours"],
+    queryFn: fetchWorkingHours,
+    enabled: Boolean(supabase),
+  });
+
+  const exceptionsQuery = useQuery({
+    queryKey: ["business", "analytics", "exceptions", fromKey, toKey],
+    queryFn: () => fetchExceptions(fromKey, toKey),
+    enabled: Boolean(supabase) && validRange,
+  });
+
+  const bookedQuery = useQuery({
+    queryKey: ["business", "analytics", "booked", fromMonth, toMonth],
+    queryFn: () => fetchBookedMinutes(fromMonth, toMonth),
+    enabled: Boolean(supabase) && validRange,
+  });
+
+  const attendanceQuery = useQuery({
+    queryKey: ["business", "analytics", "attendance", fromMonth, toMonth],
+    queryFn: () => fetchAttendance(fromMonth, toMonth),
+    enabled: Boolean(supabase) && validRange,
+  });
+
+  const monthly = useMemo(
+    () => (monthlyQuery.data ?? []).map((r) => ({ ...r, label: monthLabelRu(r.month) })),
+    [monthlyQuery.data],
+  );
+
+  const aging = useMemo(() => agingQuery.data ?? [], [agingQuery.data]);
+  const agingBuckets = useMemo(
+    () => [
+      { name: "0–30 дн.", value: aging.reduce((s, r) => s + r.debt_0_30, 0) },
+      { name: "31–60 дн.", value: aging.reduce((s, r) => s + r.debt_31_60, 0) },
+      { name: "60+ дн.", value: aging.reduce((s, r) => s + r.debt_60_plus, 0) },
+    ],
+    [aging],
+  );
+
+  // Доступное время считается по недельному графику с учётом исключений; занято — все неотменённые записи.
+  const utilization = useMemo(() => {
+    const therapists = therapistsQuery.data ?? [];
+    const hours = workingHoursQuery.data ?? [];
+    const exceptions = exceptionsQuery.data ?? [];
+    const booked = new Map((bookedQuery.data ?? []).map((r) => [r.specialist_id, r.booked_minutes]));
+
+    return therapists
+      .map((t) => {
+        let availableMin = 0;
+        for (let d = new Date(range.from); d < range.to; d.setDate(d.getDate() + 1)) {
+          for (const i of hoursForDate(hours, exceptions, t.id, d)) availableMin += i.end - i.start;
+        }
+        const bookedMin = booked.get(t.id) ?? 0;
+        return {
+          name: t.full_name || t.email,
+          availableHours: Math.round((availableMin / 60) * 10) / 10,
+          bookedHours: Math.round((bookedMin / 60) * 10) / 10,
+          rate: availableMin > 0 ? bookedMin / availableMin : 0,
+        };
+      })
+      .filter((r) => r.availableHours > 0 || r.bookedHours > 0)
+      .sort((a, b) => b.rate - a.rate);
+  }, [therapistsQuery.data, workingHoursQuery.data, exceptionsQuery.data, bookedQuery.data, range]);
+
+  // Доля неявок — от занятий с итоговым статусом (завершено + неявка); ожидающие записи не учитываются.
+  const noShows = useMemo(
+    () =>
+      (attendanceQuery.data ?? [])
+        .filter((r) => r.completed + r.no_show + r.canceled > 0)
+        .map((r) => ({
+          name: r.service_name,
+          completed: r.completed,
+          noShow: r.no_show,
+          canceled: r.canceled,
+          rate: r.completed + r.no_show > 0 ? r.no_show / (r.completed + r.no_show) : 0,
+        }))
+        .sort((a, b) => b.rate - a.rate),
+    [attendanceQuery.data],
+  );
+
+  const periodSuffix = `${fromMonth}_${toMonth}`;
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="size-5 text-muted-foreground" />
+            <h1 className="truncate text-lg font-semibold leading-tight">Аналитика</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">Выручка, задолженность, загрузка специалистов и неявки.</p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">С месяца</div>
+            <Input className="h-10" type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">по</div>
+            <Input className="h-10" type="month" value={toMonth} onChange={(e) => setToMonth(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Демо-режим</AlertTitle>
+          <AlertDescription>Аналитика доступна после подключения Supabase.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      {!validRange ? (
+        <div className="rounded-lg border bg-card p-3 text-sm text-destructive">Начало периода позже окончания.</div>
+      ) : null}
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Начислено и оплачено по месяцам</div>
+            <CsvButton
+              disabled={monthly.length === 0}
+              onClick={() =>
+                downloadCsv(`revenue_${periodSuffix}.csv`, monthly, [
+                  { header: "Месяц", value: (r) => r.month },
+                  { header: "Начислено", value: (r) => r.revenue },
+                  { header: "Оплачено", value: (r) => r.collected },
+                ])
+              }
+            />
+          </div>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={monthly} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(v) => moneyRu(Number(v))} />
+                <Legend />
+                <Bar dataKey="revenue" name="Начислено" fill="#2f6f5e" radius={[6, 6, 0, 0]} />
+                <Bar dataKey="collected" name="Оплачено" fill="#8fb8a8" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Начислено — за вычетом скидок; оплачено — за вычетом возвратов. Аннулированные операции не учитываются.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Задолженность по срокам</div>
+            <CsvButton
+              disabled={aging.length === 0}
+              onClick={() =>
+                downloadCsv(`debt_aging_${localDateKey(new Date())}.csv`, aging, [
+                  { header: "Ребёнок", value: (r) => r.child_name },
+                  { header: "Долг всего", value: (r) => r.debt_total },
+                  { header: "0–30 дней", value: (r) => r.debt_0_30 },
+                  { header: "31–60 дней", value: (r) => r.debt_31_60 },
+                  { header: "60+ дней", value: (r) => r.debt_60_plus },
+                  { header: "Самый старый долг", value: (r) => r.oldest_debt_date },
+                ])
+              }
+            />
+          </div>
+          <div className="h-[200px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={agingBuckets} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} />
+                <Tooltip formatter={(v) => moneyRu(Number(v))} />
+                <Bar dataKey="value" name="Долг" fill="#c2410c" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-hidden rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ребёнок</TableHead>
+                  <TableHead className="text-right">Всего</TableHead>
+                  <TableHead className="text-right">0–30</TableHead>
+                  <TableHead className="text-right">31–60</TableHead>
+                  <TableHead className="text-right">60+</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {aging.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-muted-foreground">
+                      {agingQuery.isLoading ? "Загрузка…" : "Задолженности нет"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  aging.map((r) => (
+                    <TableRow key={r.child_id}>
+                      <TableCell>{r.child_name}</TableCell>
+                      <TableCell className="text-right font-semibold">{moneyRu(r.debt_total)}</TableCell>
+                      <TableCell className="text-right">{moneyRu(r.debt_0_30)}</TableCell>
+                      <TableCell className="text-right">{moneyRu(r.debt_31_60)}</TableCell>
+                      <TableCell className="text-right text-destructive">{moneyRu(r.debt_60_plus)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            На сегодня. Оплаты гасят самые старые начисления; срок считается от даты начисления.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Загрузка специалистов</div>
+            <CsvButton
+              disabled={utilization.length === 0}
+              onClick={() =>
+                downloadCsv(`utilization_${periodSuffix}.csv`, utilization, [
+                  { header: "Специалист", value: (r) => r.name },
+                  { header: "Рабочих часов", value: (r) => r.availableHours },
+                  { header: "Занято часов", value: (r) => r.bookedHours },
+                  { header: "Загрузка, %", value: (r) => Math.round(r.rate * 100) },
+                ])
+              }
+            />
+          </div>
+          <div className="overflow-hidden rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Специалист</TableHead>
+                  <TableHead className="text-right">По графику, ч</TableHead>
+                  <TableHead className="text-right">Записано, ч</TableHead>
+                  <TableHead className="text-right">Загрузка</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {utilization.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-muted-foreground">
+                      {bookedQuery.isLoading ? "Загрузка…" : "Нет данных за период"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  utilization.map((r) => (
+                    <TableRow key={r.name}>
+                      <TableCell>{r.name}</TableCell>
+                      <TableCell className="text-right">{r.availableHours}</TableCell>
+                      <TableCell className="text-right">{r.bookedHours}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {r.availableHours > 0 ? percentRu(r.rate) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Рабочие часы — по графику с учётом отпусков и исключений; записано — все записи, кроме отменённых.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Неявки по услугам</div>
+            <CsvButton
+              disabled={noShows.length === 0}
+              onClick={() =>
+                downloadCsv(`no_show_${periodSuffix}.csv`, noShows, [
+                  { header: "Услуга", value: (r) => r.name },
+                  { header: "Проведено", value: (r) => r.completed },
+                  { header: "Неявки", value: (r) => r.noShow },
+                  { header: "Отмены", value: (r) => r.canceled },
+                  { header: "Доля неявок, %", value: (r) => Math.round(r.rate * 100) },
+                ])
+              }
+            />
+          </div>
+          <div className="overflow-hidden rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Услуга</TableHead>
+                  <TableHead className="text-right">Проведено</TableHead>
+                  <TableHead className="text-right">Неявки</TableHead>
+                  <TableHead className="text-right">Отмены</TableHead>
+                  <TableHead className="text-right">Доля неявок</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {noShows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-muted-foreground">
+                      {attendanceQuery.isLoading ? "Загрузка…" : "Нет завершённых занятий за период"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  noShows.map((r) => (
+                    <TableRow key={r.name}>
+                      <TableCell>{r.name}</TableCell>
+                      <TableCell className="text-right">{r.completed}</TableCell>
+                      <TableCell className="text-right">{r.noShow}</TableCell>
+                      <TableCell className="text-right">{r.canceled}</TableCell>
+                      <TableCell className="text-right font-semibold">{percentRu(r.rate)}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <div className="text-xs text-muted-foreground">Доля неявок = неявки / (проведено + неявки).</div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Ban } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/lib/supabase/client";
+import type { Transaction } from "@/types/models";
+
+type FeeRow = Pick<Transaction, "id" | "amount" | "description" | "fee_kind" | "voided_at" | "void_reason">;
+
+async function fetchAppointmentFees(appointmentId: string): Promise<FeeRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("transactions")
+    .select("id,amount,description,fee_kind,voided_at,void_reason")
+    .eq("appointment_id", appointmentId)
+    .eq("type", "charge")
+    .not("fee_kind", "is", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as FeeRow[]).map((r) => ({ ...r, amount: Number(r.amount) }));
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+export function AppointmentFee({ appointmentId }: { appointmentId: string }) {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const feesQuery = useQuery({
+    queryKey: ["business", "appointmentFee", appointmentId],
+    queryFn: () => fetchAppointmentFees(appointmentId),
+    enabled: Boolean(supabase),
+  });
+
+  const waiveMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("waive_appointment_fee", {
+        appointment_uuid: appointmentId,
+        reason: reason.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setReason("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "appointmentFee", appointmentId] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "transactions"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось списать штраф");
+    },
+  });
+
+  const fees = feesQuery.data ?? [];
+  const active = fees.find((f) => !f.voided_at) ?? null;
+  const lastWaived = active ? null : (fees[0] ?? null);
+
+  if (!active && !lastWaived) return null;
+
+  return (
+    <div className="grid gap-2 rounded-xl border bg-card p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold">
+          {(active ?? lastWaived)?.fee_kind === "no_show" ? "Штраф за неявку" : "Штраф за позднюю отмену"}
+        </div>
+        {active ? (
+          <div className="text-sm font-semibold text-destructive">{moneyRu(active.amount)}</div>
+        ) : (
+          <Badge variant="outline">Списан</Badge>
+        )}
+      </div>
+
+      {active ? (
+        <>
+          {active.description ? <div className="text-xs text-muted-foreground">{active.description}</div> : null}
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              className="h-10"
+              placeholder="Причина списания (опционально)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              className="h-10"
+              onClick={() => waiveMutation.mutate()}
+              disabled={waiveMutation.isPending}
+            >
+              <Ban className="size-4" />
+              Списать штраф
+            </Button>
+          </div>
+        </>
+      ) : lastWaived?.void_reason ? (
+        <div className="text-xs text-muted-foreground">{lastWaived.void_reason}</div>
+      ) : null}
+
+      {message ? <div className="text-xs text-destructive">{message}</div> : null}
+    </div>
+  );
+}
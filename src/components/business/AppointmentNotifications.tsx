@@ -0,0 +1,86 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { BellRing } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  notificationChannelLabel,
+  notificationErrorLabel,
+  notificationEventLabel,
+  notificationStatusLabel,
+} from "@/lib/notifications";
+import { supabase } from "@/lib/supabase/client";
+import type { NotificationStatus, QueuedNotification } from "@/types/models";
+
+type NotificationRow = Pick<
+  QueuedNotification,
+  "id" | "event" | "channel" | "recipient" | "status" | "last_error" | "scheduled_at" | "sent_at"
+>;
+
+async function fetchAppointmentNotifications(appointmentId: string): Promise<NotificationRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("notification_queue")
+    .select("id,event,channel,recipient,status,last_error,scheduled_at,sent_at")
+    .eq("appointment_id", appointmentId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as NotificationRow[];
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function statusVariant(status: NotificationStatus) {
+  if (status === "sent") return "secondary" as const;
+  if (status === "failed") return "destructive" as const;
+  return "outline" as const;
+}
+
+export function AppointmentNotifications({ appointmentId }: { appointmentId: string }) {
+  const notificationsQuery = useQuery({
+    queryKey: ["business", "appointmentNotifications", appointmentId],
+    queryFn: () => fetchAppointmentNotifications(appointmentId),
+    enabled: Boolean(supabase),
+  });
+
+  const rows = notificationsQuery.data ?? [];
+
+  return (
+    <div className="grid gap-2 rounded-xl border bg-card p-3">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <BellRing className="size-4 text-muted-foreground" />
+        Уведомления родителю
+      </div>
+      {notificationsQuery.isLoading ? (
+        <div className="text-xs text-muted-foreground">Загрузка…</div>
+      ) : rows.length === 0 ? (
+        <div className="text-xs text-muted-foreground">Уведомлений ещё не было</div>
+      ) : (
+        <div className="grid max-h-[180px] gap-2 overflow-y-auto">
+          {rows.map((r) => (
+            <div key={r.id} className="grid gap-0.5 text-xs">
+              <div className="flex flex-wrap items-center justify-between gap-x-3">
+                <span className="flex items-center gap-2">
+                  {notificationEventLabel(r.event)}
+                  <Badge variant={statusVariant(r.status)}>{notificationStatusLabel(r.status)}</Badge>
+                </span>
+                <span className="text-muted-foreground">
+                  {dateTimeRu(r.sent_at ?? r.scheduled_at)} · {notificationChannelLabel(r.channel)}
+                </span>
+              </div>
+              {r.last_error ? <div className="text-muted-foreground">{notificationErrorLabel(r.last_error)}</div> : null}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
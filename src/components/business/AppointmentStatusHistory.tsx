@@ -0,0 +1,73 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+
+import { appointmentStatusLabel } from "@/lib/appointment-status";
+import { supabase } from "@/lib/supabase/client";
+import type { AppointmentStatusHistory as HistoryEntry, Profile } from "@/types/models";
+
+type HistoryRow = HistoryEntry & {
+  changer?: Pick<Profile, "full_name" | "email"> | null;
+};
+
+async function fetchStatusHistory(appointmentId: string): Promise<HistoryRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("appointment_status_history")
+    .select("id,appointment_id,from_status,to_status,changed_by,changed_at,changer:profiles(full_name,email)")
+    .eq("appointment_id", appointmentId)
+    .order("changed_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as unknown as HistoryRow[];
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+export function AppointmentStatusHistory({ appointmentId }: { appointmentId: string }) {
+  const historyQuery = useQuery({
+    queryKey: ["business", "appointmentHistory", appointmentId],
+    queryFn: () => fetchStatusHistory(appointmentId),
+    enabled: Boolean(supabase),
+  });
+
+  const rows = historyQuery.data ?? [];
+
+  return (
+    <div className="grid gap-2 rounded-xl border bg-card p-3">
+      <div className="flex items-center gap-2 text-sm font-semibold">
+        <History className="size-4 text-muted-foreground" />
+        История статусов
+      </div>
+      {historyQuery.isLoading ? (
+        <div className="text-xs text-muted-foreground">Загрузка…</div>
+      ) : rows.length === 0 ? (
+        <div className="text-xs text-muted-foreground">Изменений пока нет</div>
+      ) : (
+        <div className="grid max-h-[180px] gap-1 overflow-y-auto">
+          {rows.map((r) => (
+            <div key={r.id} className="flex flex-wrap items-baseline justify-between gap-x-3 text-xs">
+              <span>
+                {r.from_status
+                  ? `${appointmentStatusLabel(r.from_status)} → ${appointmentStatusLabel(r.to_status)}`
+                  : `Создана: ${appointmentStatusLabel(r.to_status)}`}
+              </span>
+              <span className="text-muted-foreground">
+                {dateTimeRu(r.changed_at)}
+                {r.changer ? ` · ${r.changer.full_name || r.changer.email}` : ""}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/lib/supabase/client";
+import type { BookingRequest } from "@/types/models";
+
+type BookingRequestRow = Pick<
+  BookingRequest,
+  "id" | "child_id" | "start_time" | "end_time" | "note" | "created_at"
+> & {
+  child: { name: string } | null;
+  service: { name: string } | null;
+  specialist: { full_name: string | null; email: string } | null;
+  requester: { full_name: string | null; email: string } | null;
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchPendingBookingRequests(): Promise<BookingRequestRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("booking_requests")
+    .select(
+      "id,child_id,start_time,end_time,note,created_at,child:children(name),service:services(name)," +
+        "specialist:profiles!booking_requests_specialist_id_fkey(full_name,email)," +
+        "requester:profiles!booking_requests_requested_by_fkey(full_name,email)",
+    )
+    .eq("status", "pending")
+    .order("start_time", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as BookingRequestRow),
+    child: normalizeOne<{ name: string }>(r.child),
+    service: normalizeOne<{ name: string }>(r.service),
+    specialist: normalizeOne<{ full_name: string | null; email: string }>(r.specialist),
+    requester: normalizeOne<{ full_name: string | null; email: string }>(r.requester),
+  }));
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function describeResolveError(err: unknown) {
+  const code = err && typeof err === "object" ? ((err as { code?: string }).code ?? "") : "";
+  const text = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  if (code === "23P01") return "Конфликт: специалист или ребёнок уже заняты в это время. Отклоните запрос с комментарием.";
+  if (text.includes("outside_working_hours")) return "Время больше не входит в рабочие часы специалиста.";
+  if (text.includes("booking_in_past")) return "Время занятия уже прошло — запрос можно только отклонить.";
+  if (text.includes("request_not_pending")) return "Запрос уже рассмотрен или отозван.";
+  return err instanceof Error ? err.message : "Не удалось обработать запрос";
+}
+
+// Запросы родителей на запись. Одобрение создаёт подтверждённую запись в календаре.
+export function BookingRequestsQueue({ onResolved }: { onResolved: () => Promise<void> | void }) {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const requestsQuery = useQuery({
+    queryKey: ["business", "bookingRequests"],
+    queryFn: fetchPendingBookingRequests,
+    enabled: Boolean(supabase),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (input: { id: string; approve: boolean }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("resolve_booking_request", {
+        request_uuid: input.id,
+        approve: input.approve,
+        note: notes[input.id]?.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["business", "bookingRequests"] });
+      await onResolved();
+    },
+    onError: (err: unknown) => {
+      setMessage(describeResolveError(err));
+      void queryClient.invalidateQueries({ queryKey: ["business", "bookingRequests"] });
+    },
+  });
+
+  const requests = requestsQuery.data ?? [];
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <CalendarPlus className="size-4 text-muted-foreground" />
+          Запросы на запись от родителей
+          <Badge variant="secondary">{requests.length}</Badge>
+        </div>
+
+        {message ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        <div className="grid gap-2">
+          {requests.map((r) => (
+            <div key={r.id} className="grid gap-2 rounded-xl border bg-card p-3">
+              <div className="min-w-0">
+                <div className="text-sm font-semibold">
+                  {r.child?.name ?? "—"} · {dateTimeRu(r.start_time)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {r.service?.name ?? "Занятие"}
+                  {r.specialist ? ` · ${r.specialist.full_name || r.specialist.email}` : ""}
+                  {r.requester ? ` · ${r.requester.full_name || r.requester.email}` : ""} · запрошено{" "}
+                  {dateTimeRu(r.created_at)}
+                </div>
+              </div>
+              {r.note ? <div className="text-sm text-muted-foreground">{r.note}</div> : null}
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <Input
+                  className="h-9"
+                  placeholder="Комментарий для родителя (опционально)"
+                  value={notes[r.id] ?? ""}
+                  onChange={(e) => setNotes((cur) => ({ ...cur, [r.id]: e.target.value }))}
+                />
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    type="button"
+                    className="h-9"
+                    onClick={() => resolveMutation.mutate({ id: r.id, approve: true })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    Записать
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    className="h-9"
+                    onClick={() => resolveMutation.mutate({ id: r.id, approve: false })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    Отклонить
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/lib/supabase/client";
+import type { CenterSettings, Child, ChildBookingRule } from "@/types/models";
+
+type ChildLite = Pick<Child, "id" | "name">;
+type BookingRules = Pick<
+  CenterSettings,
+  | "booking_enabled"
+  | "booking_min_notice_hours"
+  | "booking_horizon_days"
+  | "booking_max_pending_per_child"
+  | "booking_max_requests_per_day"
+>;
+type ChildRuleRow = ChildBookingRule & { child: { name: string } | null };
+
+const numberFields: { key: Exclude<keyof BookingRules, "booking_enabled">; label: string; min: number; max?: number }[] = [
+  { key: "booking_min_notice_hours", label: "Минимум часов до занятия", min: 0 },
+  { key: "booking_horizon_days", label: "Запись открыта на дней вперёд", min: 1, max: 62 },
+  { key: "booking_max_pending_per_child", label: "Запросов на рассмотрении на ребёнка", min: 1 },
+  { key: "booking_max_requests_per_day", label: "Запросов от родителя за сутки", min: 1 },
+];
+
+const defaultRules: BookingRules = {
+  booking_enabled: true,
+  booking_min_notice_hours: 24,
+  booking_horizon_days: 30,
+  booking_max_pending_per_child: 3,
+  booking_max_requests_per_day: 5,
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchBookingRules(): Promise<BookingRules | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("center_settings")
+    .select(
+      "booking_enabled,booking_min_notice_hours,booking_horizon_days,booking_max_pending_per_child,booking_max_requests_per_day",
+    )
+    .maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as BookingRules | null;
+}
+
+async function fetchChildRules(): Promise<ChildRuleRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("child_booking_rules")
+    .select("child_id,blocked,max_per_week,note,updated_at,child:children(name)")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as ChildRuleRow),
+    child: normalizeOne<{ name: string }>(r.child),
+  }));
+}
+
+// Правила онлайн-записи родителей: общие лимиты центра и исключения по детям.
+export function BookingRulesDrawer({
+  open,
+  onOpenChange,
+  childrenList,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  childrenList: ChildLite[];
+}) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<BookingRules | null>(null);
+  const [childId, setChildId] = useState("");
+  const [blocked, setBlocked] = useState(false);
+  const [maxPerWeek, setMaxPerWeek] = useState("");
+  const [ruleNote, setRuleNote] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const rulesQuery = useQuery({
+    queryKey: ["business", "bookingRules"],
+    queryFn: fetchBookingRules,
+    enabled: Boolean(supabase) && open,
+  });
+
+  const childRulesQuery = useQuery({
+    queryKey: ["business", "childBookingRules"],
+    queryFn: fetchChildRules,
+    enabled: Boolean(supabase) && open,
+  });
+
+  const values = draft ?? rulesQuery.data ?? defaultRules;
+  const childRules = childRulesQuery.data ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.from("center_settings").update(values).eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setDraft(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "bookingRules"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "centerSettings"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сохранить правила");
+    },
+  });
+
+  const saveChildRuleMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!childId) throw new Error("Выберите ребёнка");
+      const limit = maxPerWeek.trim() ? Number(maxPerWeek) : null;
+      if (limit !== null && (!Number.isInteger(limit) || limit < 0)) throw new Error("Лимит в неделю — целое число");
+      setMessage(null);
+      const { error } = await supabase.from("child_booking_rules").upsert({
+        child_id: childId,
+        blocked,
+        max_per_week: limit,
+        note: ruleNote.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setChildId("");
+      setBlocked(false);
+      setMaxPerWeek("");
+      setRuleNote("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "childBookingRules"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сохранить правило");
+    },
+  });
+
+  const deleteChildRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.from("child_booking_rules").delete().eq("child_id", id);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["business", "childBookingRules"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось удалить правило");
+    },
+  });
+
+  const editChildRule = (rule: ChildRuleRow) => {
+    setChildId(rule.child_id);
+    setBlocked(rule.blocked);
+    setMaxPerWeek(rule.max_per_week === null ? "" : String(rule.max_per_week));
+    setRuleNote(rule.note ?? "");
+  };
+
+  return (
+    <Drawer
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setDraft(null);
+        onOpenChange(next);
+      }}
+    >
+      <DrawerContent className="mx-auto w-full max-w-xl">
+        <DrawerHeader className="pb-2">
+          <DrawerTitle className="text-lg">Онлайн‑запись родителей</DrawerTitle>
+        </DrawerHeader>
+        <div className="grid max-h-[70vh] gap-4 overflow-y-auto px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+          {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={values.booking_enabled}
+              onCheckedChange={(v) => setDraft({ ...values, booking_enabled: v === true })}
+            />
+            Родители могут отправлять запросы на запись
+          </label>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            {numberFields.map((f) => (
+              <div key={f.key} className="grid gap-1">
+                <div className="text-xs font-medium text-muted-foreground">{f.label}</div>
+                <Input
+                  className="h-10"
+                  type="number"
+                  min={f.min}
+                  max={f.max}
+                  value={values[f.key]}
+                  onChange={(e) => setDraft({ ...values, [f.key]: Math.max(f.min, Number(e.target.value) || 0) })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              className="h-10"
+              onClick={() => saveMutation.mutate()}
+              disabled={rulesQuery.isLoading || saveMutation.isPending || !draft}
+            >
+              Сохранить правила
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="grid gap-1">
+            <div className="text-sm font-semibold">Исключения по детям</div>
+            <div className="text-xs text-muted-foreground">
+              Закрыть онлайн‑запись ребёнку или ограничить число занятий в неделю (учитываются записи и запросы).
+            </div>
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Ребёнок</div>
+              <Select value={childId} onValueChange={setChildId}>
+                <SelectTrigger className="h-10">
+                  <SelectValue placeholder="Выберите ребёнка" />
+                </SelectTrigger>
+                <SelectContent>
+                  {childrenList.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1">
+              <div className="text-xs font-medium text-muted-foreground">Занятий в неделю (пусто — без лимита)</div>
+              <Input
+                className="h-10"
+                type="number"
+                min={0}
+                value={maxPerWeek}
+                onChange={(e) => setMaxPerWeek(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-1 sm:col-span-2">
+              <div className="text-xs font-medium text-muted-foreground">Комментарий</div>
+              <Input className="h-10" value={ruleNote} onChange={(e) => setRuleNote(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={blocked} onCheckedChange={(v) => setBlocked(v === true)} />
+              Запретить онлайн‑запись
+            </label>
+            <Button
+              type="button"
+              variant="secondary"
+              className="h-10"
+              onClick={() => saveChildRuleMutation.mutate()}
+              disabled={!childId || saveChildRuleMutation.isPending}
+            >
+              Сохранить исключение
+            </Button>
+          </div>
+
+          {childRules.length > 0 ? (
+            <div className="grid gap-2">
+              {childRules.map((r) => (
+                <div key={r.child_id} className="flex items-center justify-between gap-2 rounded-xl border bg-card p-3">
+                  <button type="button" className="min-w-0 text-left" onClick={() => editChildRule(r)}>
+                    <div className="text-sm font-semibold">{r.child?.name ?? "—"}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {r.max_per_week === null ? "Без лимита в неделю" : `До ${r.max_per_week} в неделю`}
+                      {r.note ? ` · ${r.note}` : ""}
+                    </div>
+                  </button>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {r.blocked ? <Badge variant="destructive">Запрещено</Badge> : null}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      aria-label="Удалить исключение"
+                      onClick={() => deleteChildRuleMutation.mutate(r.child_id)}
+                      disabled={deleteChildRuleMutation.isPending}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
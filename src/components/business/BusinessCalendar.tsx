@@ -15,7 +15,17 @@ import interactionPlugin from "@fullcalendar/interaction";
 import FullCalendar from "@fullcalendar/react";
 import timeGridPlugin from "@fullcalendar/timegrid";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { CalendarDays, ClipboardCopy, CopyCheck, Plus, RefreshCcw, Trash2 } from "lucide-react";
+import {
+  CalendarDays,
+  CalendarOff,
+  ClipboardCopy,
+  CopyCheck,
+  Plus,
+  RefreshCcw,
+  Search,
+  SlidersHorizontal,
+  Trash2,
+} from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
@@ -44,10 +54,44 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  allowedStatusOptions,
+  appointmentStatusLabel,
+  appointmentStatusOptions,
+  isStatusRevert,
+} from "@/lib/appointment-status";
+import { pickPurchaseForSession, remainingSessions, type PackagePurchaseLite } from "@/lib/packages";
+import { buildReminderText } from "@/lib/reminders";
 import { supabase } from "@/lib/supabase/client";
 import { cn } from "@/lib/utils";
+import {
+  addDaysToKey,
+  centerClock,
+  centerInstant,
+  exceptionReasonLabel,
+  exceptionsForDate,
+  exceptionsForKey,
+  hhmm,
+  hoursForDate,
+  isWithinWorkingHours,
+  localDateKey,
+  minutesToTime,
+  timeToMinutes,
+  toBusinessHours,
+  type ScheduleExceptionLite,
+  type WorkingHoursLite,
+} from "@/lib/working-hours";
 import type { Appointment, AppointmentStatus, Child, Profile, Service } from "@/types/models";
 
+import { AppointmentFee } from "./AppointmentFee";
+import { AppointmentNotifications } from "./AppointmentNotifications";
+import { AppointmentStatusHistory } from "./AppointmentStatusHistory";
+import { BookingRequestsQueue } from "./BookingRequestsQueue";
+import { BookingRulesDrawer } from "./BookingRulesDrawer";
+import { CancelRequestsQueue } from "./CancelRequestsQueue";
+import { SeriesConflictReport, type SeriesReport, type SeriesReportRow } from "./SeriesConflictReport";
+import { SlotFinder, type SlotPick } from "./SlotFinder";
+
 type AppointmentRow = Appointment & {
   child?: Pick<Child, "id" | "name"> | null;
   service?: Pick<Service, "id" | "name" | "color" | "duration_min" | "price"> | null;
@@ -58,13 +102,15 @@ type ChildLite = Pick<Child, "id" | "name">;
 type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
 type ServiceLite = Pick<Service, "id" | "name" | "duration_min" | "price" | "color">;
 
-const statusOptions: Array<{ value: AppointmentStatus; label: string }> = [
-  { value: "pending", label: "Ожидает" },
-  { value: "confirmed", label: "Подтверждено" },
-  { value: "completed", label: "Завершено" },
-  { value: "no_show", label: "Не явился" },
-  { value: "canceled", label: "Отменено" },
-];
+const EMPTY_APPOINTMENTS: AppointmentRow[] = [];
+const EMPTY_WORKING_HOURS: WorkingHoursLite[] = [];
+const EMPTY_EXCEPTIONS: ScheduleExceptionLite[] = [];
+
+const APPOINTMENT_SELECT =
+  "*, child:children(id,name), service:services(id,name,color,duration_min,price), specialist:profiles(id,full_name,email)";
+
+const SLOT_MIN_TIME = "07:00";
+const SLOT_MAX_TIME = "20:00";
 
 const weekdayOptions: Array<{ value: number; label: string }> = [
   { value: 1, label: "Пн" },
@@ -92,7 +138,7 @@ function parseLocalDateTimeInputValue(v: string) {
 
 function parseDateYYYYMMDD(v: string) {
   const s = v.trim();
-  const m = /^(\\d{4})-(\\d{2})-(\\d{2})$/.exec(s);
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
   if (!m) return null;
   const year = Number(m[1]);
   const month = Number(m[2]);
@@ -115,6 +161,30 @@ function isConflictError(err: unknown) {
   );
 }
 
+function errorMessageIncludes(err: unknown, needle: string) {
+  if (!err || typeof err !== "object") return false;
+  return ((err as { message?: string }).message ?? "").includes(needle);
+}
+
+function isOutsideHoursError(err: unknown) {
+  return errorMessageIncludes(err, "outside_working_hours");
+}
+
+function describeSaveError(err: unknown, fallback: string) {
+  if (isConflictError(err)) return "Конфликт: специалист или ребёнок уже заняты в это время.";
+  if (errorMessageIncludes(err, "invalid_status_transition")) return "Такой переход статуса недопустим.";
+  if (errorMessageIncludes(err, "status_revert_forbidden")) {
+    return "Вернуть завершённое занятие или неявку может только менеджер.";
+  }
+  if (errorMessageIncludes(err, "appointment_locked_by_payroll")) {
+    return "Занятие входит в закрытый период расчёта зарплаты и не может быть изменено.";
+  }
+  if (isOutsideHoursError(err)) {
+    return "Время вне рабочих часов специалиста. Чтобы записать всё равно, отметьте «Вне графика».";
+  }
+  return err instanceof Error ? err.message : fallback;
+}
+
 function formatTimeRu(iso: string) {
   return new Intl.DateTimeFormat("ru-RU", { hour: "2-digit", minute: "2-digit" }).format(new Date(iso));
 }
@@ -123,12 +193,6 @@ function formatDateLongRu(iso: string) {
   return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "long", year: "numeric" }).format(new Date(iso));
 }
 
-function buildReminderText(input: { childName: string; serviceName: string; startIso: string }) {
-  const date = formatDateLongRu(input.startIso);
-  const time = formatTimeRu(input.startIso);
-  return `Напоминание: ${input.childName} записан(а) на «${input.serviceName}» ${date} в ${time}.`;
-}
-
 async function fetchChildrenLite(): Promise<ChildLite[]> {
   if (!supabase) return [];
   const { data, error } = await supabase.from("children").select("id,name").order("name", { ascending: true });
@@ -157,13 +221,63 @@ async function fetchServices(): Promise<ServiceLite[]> {
   return ((data ?? []) as ServiceLite[]).filter((s) => s.id);
 }
 
+async function fetchWorkingHours(): Promise<WorkingHoursLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("specialist_working_hours")
+    .select("specialist_id,weekday,start_time,end_time");
+  if (error) throw error;
+  return (data ?? []) as WorkingHoursLite[];
+}
+
+async function fetchScheduleExceptions(): Promise<ScheduleExceptionLite[]> {
+  if (!supabase) return [];
+  const since = new Date();
+  since.setDate(since.getDate() - 31);
+  const { data, error } = await supabase
+    .from("specialist_schedule_exceptions")
+    .select("id,specialist_id,start_date,end_date,reason,start_time,end_time,note")
+    .gte("end_date", localDateKey(since))
+    .order("start_date", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ScheduleExceptionLite[];
+}
+
+async function fetchChildPurchases(childId: string): Promise<PackagePurchaseLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("package_purchases")
+    .select("id,child_id,service_id,name,sessions_total,sessions_used,starts_on,expires_on")
+    .eq("child_id", childId);
+  if (error) throw error;
+  return (data ?? []) as PackagePurchaseLite[];
+}
+
+// Предстоящие активные записи, которые попали на отпуск/больничный специалиста.
+async function fetchTimeOffAppointments(): Promise<AppointmentRow[]> {
+  if (!supabase) return [];
+  const { data: affected, error: affectedError } = await supabase
+    .from("appointments_in_time_off")
+    .select("appointment_id")
+    .gte("start_time", new Date().toISOString());
+  if (affectedError) throw affectedError;
+  const ids = Array.from(new Set(((affected ?? []) as Array<{ appointment_id: string }>).map((r) => r.appointment_id)));
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(APPOINTMENT_SELECT)
+    .in("id", ids)
+    .order("start_time", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as AppointmentRow[];
+}
+
 async function fetchAppointments(range: { startIso: string; endIso: string }): Promise<AppointmentRow[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
     .from("appointments")
-    .select(
-      "*, child:children(id,name), service:services(id,name,color,duration_min,price), specialist:profiles(id,full_name,email)",
-    )
+    .select(APPOINTMENT_SELECT)
     .lt("start_time", range.endIso)
     .gt("end_time", range.startIso)
     .order("start_time", { ascending: true });
@@ -183,12 +297,94 @@ async function deleteAppointment(id: string) {
   if (error) throw error;
 }
 
+type SeriesScope = "one" | "following" | "all";
+
+const seriesScopeOptions: Array<{ value: SeriesScope; label: string }> = [
+  { value: "one", label: "Только эта" },
+  { value: "following", label: "Эта и следующие" },
+  { value: "all", label: "Вся серия" },
+];
+
+// Поля, которые меняются у всех записей серии; время — сдвигом относительно исходной записи.
+type SeriesPatch = Partial<
+  Pick<Appointment, "child_id" | "specialist_id" | "service_id" | "status" | "notes" | "outside_hours_override">
+> & { shift_minutes?: number; duration_min?: number };
+
+async function updateAppointmentSeries(id: string, scope: SeriesScope, patch: SeriesPatch) {
+  if (!supabase) throw new Error("Supabase не настроен");
+  const { data, error } = await supabase.rpc("update_appointment_series", {
+    appointment_uuid: id,
+    scope,
+    patch,
+  });
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+async function deleteAppointmentSeries(id: string, scope: SeriesScope) {
+  if (!supabase) throw new Error("Supabase не настроен");
+  const { data, error } = await supabase.rpc("delete_appointment_series", { appointment_uuid: id, scope });
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+function buildTimePatch(a: Appointment, start: Date, end: Date): SeriesPatch {
+  const oldStart = new Date(a.start_time).getTime();
+  const oldDuration = new Date(a.end_time).getTime() - oldStart;
+  const patch: SeriesPatch = {};
+  const shift = Math.round((start.getTime() - oldStart) / 60000);
+  if (shift !== 0) patch.shift_minutes = shift;
+  const duration = Math.round((end.getTime() - start.getTime()) / 60000);
+  if (duration !== Math.round(oldDuration / 60000)) patch.duration_min = duration;
+  return patch;
+}
+
 async function insertAppointmentRows(rows: Array<Omit<Appointment, "id" | "created_at" | "updated_at">>) {
   if (!supabase) throw new Error("Supabase не настроен");
   const { error } = await supabase.from("appointments").insert(rows);
   if (error) throw error;
 }
 
+type SeriesConflictMode = "skip" | "abort";
+
+async function createAppointmentSeries(input: {
+  childId: string;
+  specialistId: string;
+  serviceId: string;
+  start: Date;
+  durationMin: number;
+  weekdays: number[];
+  until: string;
+  status: AppointmentStatus;
+  notes: string | null;
+  outsideHoursOverride: boolean;
+  onConflict: SeriesConflictMode;
+}): Promise<SeriesReport> {
+  if (!supabase) throw new Error("Supabase не настроен");
+  const { data, error } = await supabase.rpc("create_appointment_series", {
+    child_uuid: input.childId,
+    specialist_uuid: input.specialistId,
+    service_uuid: input.serviceId,
+    first_start: input.start.toISOString(),
+    duration_min: input.durationMin,
+    weekdays: input.weekdays,
+    until_date: input.until,
+    initial_status: input.status,
+    notes: input.notes,
+    outside_hours_override: input.outsideHoursOverride,
+    on_conflict: input.onConflict,
+  });
+  if (error) throw error;
+  const rows = (data ?? []) as SeriesReportRow[];
+  return {
+    rows,
+    groupId: rows[0]?.recurrence_group_id ?? null,
+    childId: input.childId,
+    serviceId: input.serviceId,
+    specialistId: input.specialistId,
+  };
+}
+
 const appointmentSchema = z
   .object({
     child_id: z.string().uuid("Выберите ребёнка"),
@@ -201,6 +397,8 @@ const appointmentSchema = z
     recurring_enabled: z.boolean().default(false),
     recurring_weekdays: z.array(z.number().int().min(0).max(6)).default([]),
     recurring_until: z.string().optional().or(z.literal("")),
+    recurring_on_conflict: z.enum(["skip", "abort"]).default("skip"),
+    outside_hours_override: z.boolean().default(false),
   })
   .superRefine((v, ctx) => {
     const start = parseLocalDateTimeInputValue(v.start_local);
@@ -223,10 +421,6 @@ const appointmentSchema = z
 type AppointmentFormValues = z.input<typeof appointmentSchema>;
 type AppointmentValues = z.output<typeof appointmentSchema>;
 
-function appointmentStatusLabel(v: AppointmentStatus) {
-  return statusOptions.find((o) => o.value === v)?.label ?? v;
-}
-
 function statusBadgeVariant(status: AppointmentStatus) {
   if (status === "confirmed") return "secondary" as const;
   if (status === "completed") return "default" as const;
@@ -249,28 +443,67 @@ function endOfTodayLocal() {
   return new Date(start.getTime() + 24 * 60 * 60 * 1000);
 }
 
-function buildOccurrences(input: { start: Date; until: Date; weekdays: number[] }) {
-  const startTime = input.start.getTime();
-  const startHours = input.start.getHours();
-  const startMinutes = input.start.getMinutes();
-
-  const fromDay = new Date(input.start.getFullYear(), input.start.getMonth(), input.start.getDate(), 0, 0, 0, 0);
-  const toDay = new Date(input.until.getFullYear(), input.until.getMonth(), input.until.getDate(), 23, 59, 59, 999);
-
-  const out: Date[] = [];
-  for (let d = new Date(fromDay); d.getTime() <= toDay.getTime(); d.setDate(d.getDate() + 1)) {
-    const weekday = d.getDay();
-    if (!input.weekdays.includes(weekday)) continue;
-    const occ = new Date(d.getFullYear(), d.getMonth(), d.getDate(), startHours, startMinutes, 0, 0);
-    if (occ.getTime() < startTime) continue;
-    out.push(occ);
-  }
+function TimelineDayTrack({
+  intervals,
+  rows,
+  day,
+}: {
+  intervals: Array<{ start: number; end: number }>;
+  rows: AppointmentRow[];
+  day: Date;
+}) {
+  const from = timeToMinutes(SLOT_MIN_TIME);
+  const to = timeToMinutes(SLOT_MAX_TIME);
+  const span = to - from;
+  const pct = (min: number) => `${((Math.min(Math.max(min, from), to) - from) / span) * 100}%`;
+  const width = (a: number, b: number) => `${((Math.min(b, to) - Math.max(a, from)) / span) * 100}%`;
+  const minutesOfDay = (iso: string) => Math.round((new Date(iso).getTime() - day.getTime()) / 60000);
+  const hours: number[] = [];
+  for (let m = from; m <= to; m += 60) hours.push(m);
 
-  if (!out.some((d) => d.getTime() === startTime)) {
-    out.unshift(input.start);
-  }
-
-  return out;
+  return (
+    <div className="grid gap-1">
+      <div
+        className="relative h-8 overflow-hidden rounded-md border"
+        style={{
+          backgroundImage:
+            "repeating-linear-gradient(135deg, rgba(0,0,0,0.06) 0, rgba(0,0,0,0.06) 4px, transparent 4px, transparent 8px)",
+        }}
+      >
+        {intervals
+          .filter((i) => i.end > from && i.start < to)
+          .map((i) => (
+            <div
+              key={`${i.start}-${i.end}`}
+              className="absolute inset-y-0 bg-background"
+              style={{ left: pct(i.start), width: width(i.start, i.end) }}
+            />
+          ))}
+        {rows
+          .filter((a) => a.status !== "canceled")
+          .map((a) => {
+            const start = minutesOfDay(a.start_time);
+            const end = minutesOfDay(a.end_time);
+            if (end <= from || start >= to) return null;
+            return (
+              <div
+                key={a.id}
+                className="absolute inset-y-1 rounded-sm opacity-80"
+                style={{ left: pct(start), width: width(start, end), backgroundColor: a.service?.color ?? "#2f6f5e" }}
+                title={`${formatTimeRu(a.start_time)}–${formatTimeRu(a.end_time)}`}
+              />
+            );
+          })}
+      </div>
+      <div className="relative h-3 text-[10px] text-muted-foreground">
+        {hours.map((m) => (
+          <span key={m} className="absolute -translate-x-1/2" style={{ left: pct(m) }}>
+            {String(Math.floor(m / 60)).padStart(2, "0")}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
 }
 
 function pickInitialDuration(services: ServiceLite[], selectedServiceId: string) {
@@ -292,6 +525,17 @@ export function BusinessCalendar() {
   });
 
   const [timelineDate, setTimelineDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [specialistFilter, setSpecialistFilter] = useState<string>("");
+  const [slotFinderOpen, setSlotFinderOpen] = useState(false);
+  const [bookingRulesOpen, setBookingRulesOpen] = useState(false);
+  const [seriesReport, setSeriesReport] = useState<SeriesReport | null>(null);
+  const [seriesScope, setSeriesScope] = useState<SeriesScope>("one");
+  const [pendingSeriesMove, setPendingSeriesMove] = useState<{
+    appointment: AppointmentRow;
+    start: Date;
+    end: Date;
+    revert: () => void;
+  } | null>(null);
 
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [editing, setEditing] = useState<AppointmentRow | null>(null);
@@ -316,6 +560,24 @@ export function BusinessCalendar() {
     enabled: Boolean(supabase),
   });
 
+  const workingHoursQuery = useQuery({
+    queryKey: ["business", "workingHours"],
+    queryFn: fetchWorkingHours,
+    enabled: Boolean(supabase),
+  });
+
+  const exceptionsQuery = useQuery({
+    queryKey: ["business", "scheduleExceptions", "calendar"],
+    queryFn: fetchScheduleExceptions,
+    enabled: Boolean(supabase),
+  });
+
+  const timeOffQuery = useQuery({
+    queryKey: ["business", "timeOffAffected", "calendar"],
+    queryFn: fetchTimeOffAppointments,
+    enabled: Boolean(supabase),
+  });
+
   const appointmentsQuery = useQuery({
     queryKey: ["business", "appointments", range.startIso, range.endIso],
     queryFn: () => fetchAppointments(range),
@@ -325,12 +587,25 @@ export function BusinessCalendar() {
   const children = childrenQuery.data ?? [];
   const therapists = therapistsQuery.data ?? [];
   const services = servicesQuery.data ?? [];
-  const appointments = appointmentsQuery.data ?? [];
+  const appointments = appointmentsQuery.data ?? EMPTY_APPOINTMENTS;
+  const workingHours = workingHoursQuery.data ?? EMPTY_WORKING_HOURS;
+  const exceptions = exceptionsQuery.data ?? EMPTY_EXCEPTIONS;
+  const timeOffAppointments = timeOffQuery.data ?? EMPTY_APPOINTMENTS;
 
-  const refresh = async () => {
+  const invalidateAppointments = async () => {
     await queryClient.invalidateQueries({ queryKey: ["business", "appointments"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "timeOffAffected"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "freeSlots"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "appointmentHistory"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "appointmentFee"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "transactions"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "childPackages"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "cancelRequests"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "bookingRequests"] });
   };
 
+  const refresh = invalidateAppointments;
+
   const canRender = Boolean(supabase);
   const hasPrerequisites = children.length > 0 && therapists.length > 0 && services.length > 0;
 
@@ -347,27 +622,38 @@ export function BusinessCalendar() {
       recurring_enabled: false,
       recurring_weekdays: [],
       recurring_until: "",
+      recurring_on_conflict: "skip",
+      outside_hours_override: false,
     },
   });
 
   const closeDrawer = () => {
     setDrawerOpen(false);
     setEditing(null);
+    setSeriesReport(null);
     setMessage(null);
     setCopied(false);
   };
 
-  const openCreate = (args: { start: Date; end: Date }) => {
+  const openCreate = (args: {
+    start: Date;
+    end: Date;
+    childId?: string;
+    serviceId?: string;
+    specialistId?: string;
+    durationMin?: number;
+  }) => {
     setEditing(null);
+    setSeriesReport(null);
     setMessage(null);
     setCopied(false);
 
-    const initialServiceId = services[0]?.id ?? "";
-    const durationMin = pickInitialDuration(services, initialServiceId);
+    const initialServiceId = args.serviceId ?? services[0]?.id ?? "";
+    const durationMin = args.durationMin ?? pickInitialDuration(services, initialServiceId);
 
     form.reset({
-      child_id: children[0]?.id ?? "",
-      specialist_id: therapists[0]?.id ?? "",
+      child_id: args.childId ?? children[0]?.id ?? "",
+      specialist_id: args.specialistId ?? (specialistFilter || therapists[0]?.id) ?? "",
       service_id: initialServiceId,
       start_local: toLocalDateTimeInputValue(args.start.toISOString()),
       duration_min: durationMin,
@@ -376,12 +662,16 @@ export function BusinessCalendar() {
       recurring_enabled: false,
       recurring_weekdays: [args.start.getDay()],
       recurring_until: "",
+      recurring_on_conflict: "skip",
+      outside_hours_override: false,
     });
     setDrawerOpen(true);
   };
 
   const openEdit = (a: AppointmentRow) => {
     setEditing(a);
+    setSeriesScope("one");
+    setSeriesReport(null);
     setMessage(null);
     setCopied(false);
 
@@ -401,6 +691,8 @@ export function BusinessCalendar() {
       recurring_enabled: false,
       recurring_weekdays: [],
       recurring_until: "",
+      recurring_on_conflict: "skip",
+      outside_hours_override: a.outside_hours_override,
     });
     setDrawerOpen(true);
   };
@@ -408,8 +700,73 @@ export function BusinessCalendar() {
   const openNewNow = () =>
     openCreate({ start: new Date(), end: new Date(Date.now() + 30 * 60_000) });
 
+  const openFromSlot = (pick: SlotPick) =>
+    openCreate({
+      start: pick.start,
+      end: new Date(pick.start.getTime() + pick.durationMin * 60_000),
+      childId: pick.childId,
+      serviceId: pick.serviceId,
+      specialistId: pick.specialistId,
+      durationMin: pick.durationMin,
+    });
+
+  const visibleAppointments = useMemo(
+    () => (specialistFilter ? appointments.filter((a) => a.specialist_id === specialistFilter) : appointments),
+    [appointments, specialistFilter],
+  );
+
+  // Без фильтра затеняется время, когда не работает ни один специалист.
+  const businessHours = useMemo(() => {
+    const rows = specialistFilter ? workingHours.filter((r) => r.specialist_id === specialistFilter) : workingHours;
+    return toBusinessHours(rows, new Date(range.startIso));
+  }, [workingHours, specialistFilter, range.startIso]);
+
+  const therapistName = (id: string) => {
+    const t = therapists.find((x) => x.id === id);
+    return t?.full_name || t?.email || "Специалист";
+  };
+
+  const rangeExceptions = useMemo(() => {
+    const fromKey = centerClock(new Date(range.startIso)).dateKey;
+    const toKey = centerClock(new Date(new Date(range.endIso).getTime() - 1)).dateKey;
+    return exceptions.filter((x) => x.start_date <= toKey && x.end_date >= fromKey);
+  }, [exceptions, range]);
+
+  // Блоки отсутствия рисуем фоном только для выбранного специалиста: без фильтра они закрыли бы весь день.
+  // Даты и часы исключений — время центра, в сетку они переводятся моментами (centerInstant).
+  const exceptionEvents = useMemo(() => {
+    if (!specialistFilter) return [];
+    const out: Array<{
+      id: string;
+      title: string;
+      start: Date;
+      end: Date;
+      display: "background";
+      backgroundColor: string;
+    }> = [];
+    const to = new Date(range.endIso);
+    const firstKey = centerClock(new Date(range.startIso)).dateKey;
+    for (let key = firstKey; centerInstant(key, 0) < to; key = addDaysToKey(key, 1)) {
+      const dayStart = centerInstant(key, 0);
+      const dayEnd = centerInstant(addDaysToKey(key, 1), 0);
+      exceptionsForKey(rangeExceptions, specialistFilter, key).forEach((x) => {
+        const title = exceptionReasonLabel(x.reason) + (x.note ? ` · ${x.note}` : "");
+        const common = { display: "background" as const, backgroundColor: "rgba(220,38,38,0.18)", title };
+        if (!x.start_time || !x.end_time) {
+          out.push({ id: `${x.id}-${key}`, start: dayStart, end: dayEnd, ...common });
+          return;
+        }
+        const workStart = centerInstant(key, timeToMinutes(x.start_time));
+        const workEnd = centerInstant(key, timeToMinutes(x.end_time));
+        out.push({ id: `${x.id}-${key}-a`, start: dayStart, end: workStart, ...common });
+        out.push({ id: `${x.id}-${key}-b`, start: workEnd, end: dayEnd, ...common });
+      });
+    }
+    return out;
+  }, [rangeExceptions, specialistFilter, range]);
+
   const events = useMemo(() => {
-    return appointments.map((a) => {
+    return visibleAppointments.map((a) => {
       const titleParts = [a.child?.name ?? "Ребёнок", a.service?.name ?? "Услуга"];
       const color = a.service?.color ?? "#2f6f5e";
       return {
@@ -422,7 +779,9 @@ export function BusinessCalendar() {
         extendedProps: { appointment: a },
       };
     });
-  }, [appointments]);
+  }, [visibleAppointments]);
+
+  const timelineDay = useMemo(() => parseDateYYYYMMDD(timelineDate), [timelineDate]);
 
   const timelineAppointments = useMemo(() => {
     const day = parseDateYYYYMMDD(timelineDate);
@@ -466,16 +825,54 @@ export function BusinessCalendar() {
     if (a) openEdit(a);
   };
 
+  // Перенос записи из серии: сначала спрашиваем, применить ли его к остальным записям.
+  const askSeriesScope = (arg: EventDropArg | EventResizeDoneArg) => {
+    const a = (arg.event.extendedProps as { appointment?: AppointmentRow }).appointment;
+    if (!a?.recurrence_group_id || !arg.event.start || !arg.event.end) return false;
+    pendingSeriesMove?.revert();
+    setPendingSeriesMove({ appointment: a, start: arg.event.start, end: arg.event.end, revert: arg.revert });
+    return true;
+  };
+
+  const applySeriesMove = async (scope: SeriesScope | null) => {
+    const pending = pendingSeriesMove;
+    if (!pending) return;
+    setPendingSeriesMove(null);
+    if (!scope) {
+      pending.revert();
+      return;
+    }
+    try {
+      if (scope === "one") {
+        await updateAppointment(pending.appointment.id, {
+          start_time: pending.start.toISOString(),
+          end_time: pending.end.toISOString(),
+        });
+      } else {
+        await updateAppointmentSeries(
+          pending.appointment.id,
+          scope,
+          buildTimePatch(pending.appointment, pending.start, pending.end),
+        );
+      }
+      await invalidateAppointments();
+    } catch (err: unknown) {
+      pending.revert();
+      setMessage(describeSaveError(err, "Не удалось перенести записи серии"));
+    }
+  };
+
   const handleEventDrop = async (arg: EventDropArg) => {
     const start = arg.event.start?.toISOString();
     const end = arg.event.end?.toISOString();
     if (!start || !end) return;
+    if (askSeriesScope(arg)) return;
     try {
       await updateAppointment(arg.event.id, { start_time: start, end_time: end });
-      await queryClient.invalidateQueries({ queryKey: ["business", "appointments"] });
+      await invalidateAppointments();
     } catch (err: unknown) {
       arg.revert();
-      setMessage(isConflictError(err) ? "Конфликт: специалист или ребёнок уже заняты." : "Не удалось перенести запись");
+      setMessage(describeSaveError(err, "Не удалось перенести запись"));
     }
   };
 
@@ -483,12 +880,13 @@ export function BusinessCalendar() {
     const start = arg.event.start?.toISOString();
     const end = arg.event.end?.toISOString();
     if (!start || !end) return;
+    if (askSeriesScope(arg)) return;
     try {
       await updateAppointment(arg.event.id, { start_time: start, end_time: end });
-      await queryClient.invalidateQueries({ queryKey: ["business", "appointments"] });
+      await invalidateAppointments();
     } catch (err: unknown) {
       arg.revert();
-      setMessage(isConflictError(err) ? "Конфликт: специалист или ребёнок уже заняты." : "Не удалось изменить длительность");
+      setMessage(describeSaveError(err, "Не удалось изменить длительность"));
     }
   };
 
@@ -504,6 +902,20 @@ export function BusinessCalendar() {
       const { data: sessionData } = await supabase.auth.getSession();
       const userId = sessionData.session?.user?.id ?? null;
 
+      if (editing && editing.recurrence_group_id && seriesScope !== "one") {
+        const patch: SeriesPatch = buildTimePatch(editing, start, end);
+        if (values.child_id !== editing.child_id) patch.child_id = values.child_id;
+        if (values.specialist_id !== editing.specialist_id) patch.specialist_id = values.specialist_id;
+        if (values.service_id !== editing.service_id) patch.service_id = values.service_id;
+        if (values.status !== editing.status) patch.status = values.status;
+        if ((values.notes || null) !== editing.notes) patch.notes = values.notes || null;
+        if (values.outside_hours_override !== editing.outside_hours_override) {
+          patch.outside_hours_override = values.outside_hours_override;
+        }
+        await updateAppointmentSeries(editing.id, seriesScope, patch);
+        return;
+      }
+
       if (editing) {
         await updateAppointment(editing.id, {
           child_id: values.child_id,
@@ -513,6 +925,7 @@ export function BusinessCalendar() {
           end_time: end.toISOString(),
           status: values.status,
           notes: values.notes ? values.notes : null,
+          outside_hours_override: values.outside_hours_override,
         });
         return;
       }
@@ -529,83 +942,115 @@ export function BusinessCalendar() {
             notes: values.notes ? values.notes : null,
             is_recurring: false,
             recurrence_group_id: null,
+            outside_hours_override: values.outside_hours_override,
             created_by: userId,
           },
         ]);
         return;
       }
 
-      const untilDay = values.recurring_until ? parseDateYYYYMMDD(values.recurring_until) : null;
-      if (!untilDay) throw new Error("Укажите дату окончания");
-
-      const groupId = crypto.randomUUID();
-      const occStarts = buildOccurrences({ start, until: untilDay, weekdays: values.recurring_weekdays });
-
-      const failed: Date[] = [];
-
-      for (const occStart of occStarts) {
-        const occEnd = new Date(occStart.getTime() + values.duration_min * 60_000);
-        try {
-          await insertAppointmentRows([
-            {
-              child_id: values.child_id,
-              specialist_id: values.specialist_id,
-              service_id: values.service_id,
-              start_time: occStart.toISOString(),
-              end_time: occEnd.toISOString(),
-              status: values.status,
-              notes: values.notes ? values.notes : null,
-              is_recurring: true,
-              recurrence_group_id: groupId,
-              created_by: userId,
-            },
-          ]);
-        } catch (err: unknown) {
-          if (isConflictError(err)) {
-            failed.push(occStart);
-            continue;
-          }
-          throw err;
-        }
-      }
-
-      if (failed.length > 0) {
-        const first = failed[0]!;
-        throw new Error(
-          `Серия создана частично. Есть конфликты, например: ${formatDateLongRu(first.toISOString())} ${formatTimeRu(first.toISOString())}`,
-        );
-      }
+      if (!values.recurring_until) throw new Error("Укажите дату окончания");
+
+      return createAppointmentSeries({
+        childId: values.child_id,
+        specialistId: values.specialist_id,
+        serviceId: values.service_id,
+        start,
+        durationMin: values.duration_min,
+        weekdays: values.recurring_weekdays,
+        until: values.recurring_until,
+        status: values.status,
+        notes: values.notes ? values.notes : null,
+        outsideHoursOverride: values.outside_hours_override,
+        onConflict: values.recurring_on_conflict,
+      });
     },
-    onSuccess: async () => {
+    onSuccess: async (report) => {
+      await invalidateAppointments();
+      // При конфликтах показываем отчёт по датам вместо закрытия формы.
+      if (report && report.rows.some((r) => r.result !== "created")) {
+        setSeriesReport(report);
+        return;
+      }
       closeDrawer();
-      await queryClient.invalidateQueries({ queryKey: ["business", "appointments"] });
     },
     onError: (err: unknown) => {
-      if (isConflictError(err)) {
-        setMessage("Конфликт: специалист или ребёнок уже заняты в это время.");
-        return;
-      }
-      setMessage(err instanceof Error ? err.message : "Не удалось сохранить запись");
+      setMessage(describeSaveError(err, "Не удалось сохранить запись"));
     },
   });
 
+  // Альтернативное время для пропущенной даты добавляется в ту же серию.
+  const bookAlternative = async (row: SeriesReportRow, pick: SlotPick) => {
+    if (!supabase) throw new Error("Supabase не настроен");
+    const values = form.getValues();
+    const { data: sessionData } = await supabase.auth.getSession();
+    try {
+      await insertAppointmentRows([
+        {
+          child_id: pick.childId,
+          specialist_id: pick.specialistId,
+          service_id: pick.serviceId,
+          start_time: pick.start.toISOString(),
+          end_time: new Date(pick.start.getTime() + pick.durationMin * 60_000).toISOString(),
+          status: values.status ?? "pending",
+          notes: values.notes ? values.notes : null,
+          is_recurring: true,
+          recurrence_group_id: row.recurrence_group_id,
+          outside_hours_override: false,
+          created_by: sessionData.session?.user?.id ?? null,
+        },
+      ]);
+    } catch (err: unknown) {
+      throw new Error(describeSaveError(err, "Не удалось записать на выбранное время"));
+    }
+    await invalidateAppointments();
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
       if (!editing) return;
+      if (editing.recurrence_group_id && seriesScope !== "one") {
+        await deleteAppointmentSeries(editing.id, seriesScope);
+        return;
+      }
       await deleteAppointment(editing.id);
     },
     onSuccess: async () => {
       closeDrawer();
-      await queryClient.invalidateQueries({ queryKey: ["business", "appointments"] });
+      await invalidateAppointments();
     },
     onError: (err: unknown) => {
-      setMessage(err instanceof Error ? err.message : "Не удалось удалить запись");
+      setMessage(describeSaveError(err, "Не удалось удалить запись"));
     },
   });
 
   const watchedChildId = form.watch("child_id");
   const watchedServiceId = form.watch("service_id");
   const watchedStartLocal = form.watch("start_local");
+  const watchedSpecialistId = form.watch("specialist_id");
+  const watchedDuration = form.watch("duration_min");
+  const watchedStatus = form.watch("status");
+
+  const childPackagesQuery = useQuery({
+    queryKey: ["business", "childPackages", watchedChildId, "calendar"],
+    queryFn: () => fetchChildPurchases(watchedChildId),
+    enabled: Boolean(supabase) && drawerOpen && Boolean(watchedChildId),
+  });
+
+  const sessionPackage = (() => {
+    const start = parseLocalDateTimeInputValue(watchedStartLocal);
+    if (!start || !watchedChildId || !watchedServiceId) return null;
+    return pickPurchaseForSession(childPackagesQuery.data ?? [], watchedChildId, watchedServiceId, start);
+  })();
+
+  const outsideHours = (() => {
+    if (watchedStatus === "canceled" || !watchedSpecialistId) return false;
+    const start = parseLocalDateTimeInputValue(watchedStartLocal);
+    const minutes = Number(watchedDuration);
+    if (!start || !Number.isFinite(minutes) || minutes <= 0) return false;
+    const end = new Date(start.getTime() + minutes * 60_000);
+    return !isWithinWorkingHours(workingHours, exceptions, watchedSpecialistId, start, end);
+  })();
 
   const reminderText = (() => {
     const start = parseLocalDateTimeInputValue(watchedStartLocal);
@@ -656,6 +1101,26 @@ export function BusinessCalendar() {
               <RefreshCcw className="size-4" />
               Обновить
             </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              className="h-10"
+              disabled={!canRender}
+              onClick={() => setBookingRulesOpen(true)}
+            >
+              <SlidersHorizontal className="size-4" />
+              Онлайн‑запись
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              className="h-10"
+              disabled={!canRender || !hasPrerequisites}
+              onClick={() => setSlotFinderOpen((v) => !v)}
+            >
+              <Search className="size-4" />
+              Найти время
+            </Button>
             <Button type="button" className="h-10" disabled={!canRender || !hasPrerequisites} onClick={openNewNow}>
               <Plus className="size-4" />
               Новая запись
@@ -677,6 +1142,27 @@ export function BusinessCalendar() {
         <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
       ) : null}
 
+      {pendingSeriesMove ? (
+        <div className="flex flex-col gap-3 rounded-xl border bg-card p-3 sm:flex-row sm:items-center sm:justify-between">
+          <div className="text-sm">
+            <span className="font-semibold">Запись из серии.</span> Перенести только её или остальные тоже?
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {seriesScopeOptions.map((o) => (
+              <Button key={o.value} type="button" variant="secondary" className="h-10" onClick={() => void applySeriesMove(o.value)}>
+                {o.label}
+              </Button>
+            ))}
+            <Button type="button" variant="ghost" className="h-10" onClick={() => void applySeriesMove(null)}>
+              Отмена
+            </Button>
+          </div>
+        </div>
+      ) : null}
+
+      {supabase ? <BookingRequestsQueue onResolved={invalidateAppointments} /> : null}
+      {supabase ? <CancelRequestsQueue onResolved={invalidateAppointments} /> : null}
+
       {supabase && !hasPrerequisites ? (
         <Alert>
           <AlertTitle>Нужно заполнить справочники</AlertTitle>
@@ -686,12 +1172,54 @@ export function BusinessCalendar() {
         </Alert>
       ) : null}
 
+      {slotFinderOpen && hasPrerequisites ? (
+        <SlotFinder
+          childrenList={children}
+          therapists={therapists}
+          services={services}
+          onPick={openFromSlot}
+          onClose={() => setSlotFinderOpen(false)}
+        />
+      ) : null}
+
+      {timeOffAppointments.length > 0 ? (
+        <Card className="border-destructive/40">
+          <CardContent className="grid gap-3 p-4">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <CalendarOff className="size-4 text-destructive" />
+              Записи на время отсутствия специалиста: {timeOffAppointments.length}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Специалист в отпуске, на больничном или работает по сокращённому графику. Перенесите запись или смените специалиста.
+            </div>
+            <div className="grid gap-2">
+              {timeOffAppointments.map((a) => (
+                <div key={a.id} className="flex items-center justify-between gap-3 rounded-lg border bg-background px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium">
+                      {(a.child?.name ?? "Ребёнок") + " · " + (a.service?.name ?? "Услуга")}
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {formatDateLongRu(a.start_time)}, {formatTimeRu(a.start_time)}–{formatTimeRu(a.end_time)} ·{" "}
+                      {a.specialist?.full_name || a.specialist?.email || "Специалист"}
+                    </div>
+                  </div>
+                  <Button type="button" variant="secondary" className="h-9 shrink-0" onClick={() => openEdit(a)}>
+                    Перенести
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
       {viewMode === "calendar" ? (
         <>
           <Card>
         <CardContent className="grid gap-3 p-4">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <div className="text-sm font-semibold">Вид</div>
               <Select
                 value={calendarView}
@@ -709,12 +1237,41 @@ export function BusinessCalendar() {
                   <SelectItem value="dayGridMonth">Месяц</SelectItem>
                 </SelectContent>
               </Select>
+              <Select
+                value={specialistFilter ? specialistFilter : "all"}
+                onValueChange={(v) => setSpecialistFilter(v === "all" ? "" : v)}
+              >
+                <SelectTrigger className="h-10 w-[220px]">
+                  <SelectValue placeholder="Все специалисты" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Все специалисты</SelectItem>
+                  {therapists.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.full_name || t.email || "Без имени"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="text-xs text-muted-foreground">
-              Перетаскивайте записи и тяните за край для изменения длительности.
+              Перетаскивайте записи и тяните за край для изменения длительности. Серым — нерабочее время.
             </div>
           </div>
 
+          {!specialistFilter && rangeExceptions.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <CalendarOff className="size-4" />
+              Отсутствуют:
+              {rangeExceptions.map((x) => (
+                <Badge key={x.id} variant="outline">
+                  {therapistName(x.specialist_id)} · {exceptionReasonLabel(x.reason)} ·{" "}
+                  {x.start_date === x.end_date ? x.start_date : `${x.start_date} – ${x.end_date}`}
+                </Badge>
+              ))}
+            </div>
+          ) : null}
+
           <div className={cn("rounded-xl border bg-background", !canRender && "opacity-60")}>
             {canRender ? (
               <FullCalendar
@@ -727,8 +1284,9 @@ export function BusinessCalendar() {
                 locale={ruLocale}
                 firstDay={1}
                 allDaySlot={false}
-                slotMinTime="07:00:00"
-                slotMaxTime="20:00:00"
+                slotMinTime={`${SLOT_MIN_TIME}:00`}
+                slotMaxTime={`${SLOT_MAX_TIME}:00`}
+                businessHours={businessHours}
                 nowIndicator
                 selectable
                 selectMirror
@@ -737,7 +1295,7 @@ export function BusinessCalendar() {
                 editable
                 eventDrop={handleEventDrop}
                 eventResize={handleEventResize}
-                events={events}
+                events={[...events, ...exceptionEvents]}
                 height="auto"
                 headerToolbar={false}
                 dayHeaderFormat={{ weekday: "short", day: "2-digit", month: "2-digit" }}
@@ -758,7 +1316,7 @@ export function BusinessCalendar() {
         <CardContent className="grid gap-3 p-4">
           <div className="text-sm font-semibold">Список (сегодня)</div>
           <div className="grid gap-2">
-            {appointments
+            {visibleAppointments
               .filter((a) => {
                 const startMs = new Date(a.start_time).getTime();
                 const endMs = new Date(a.end_time).getTime();
@@ -833,16 +1391,42 @@ export function BusinessCalendar() {
               ) : (
                 therapists.map((t) => {
                   const rows = timelineAppointments.filter((a) => a.specialist_id === t.id);
+                  const intervals = timelineDay ? hoursForDate(workingHours, exceptions, t.id, timelineDay) : [];
+                  const dayExceptions = timelineDay ? exceptionsForDate(exceptions, t.id, timelineDay) : [];
                   return (
                     <div key={t.id} className="rounded-xl border bg-card p-3">
                       <div className="flex items-center justify-between gap-2">
                         <div className="min-w-0">
                           <div className="truncate text-sm font-semibold">{t.full_name || "Без имени"}</div>
-                          <div className="truncate text-xs text-muted-foreground">{t.email}</div>
+                          <div className="truncate text-xs text-muted-foreground">
+                            {t.email}
+                            {" · "}
+                            {intervals.length > 0
+                              ? intervals
+                                  .map((i) => `${minutesToTime(i.start)}–${minutesToTime(i.end)}`)
+                                  .join(", ")
+                              : "Выходной"}
+                          </div>
+                          {dayExceptions.length > 0 ? (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {dayExceptions.map((x) => (
+                                <Badge key={x.id} variant="destructive">
+                                  {exceptionReasonLabel(x.reason)}
+                                  {x.start_time && x.end_time ? ` · ${hhmm(x.start_time)}–${hhmm(x.end_time)}` : ""}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : null}
                         </div>
                         <div className="text-xs text-muted-foreground">{rows.length} записей</div>
                       </div>
 
+                      {timelineDay ? (
+                        <div className="mt-2">
+                          <TimelineDayTrack intervals={intervals} rows={rows} day={timelineDay} />
+                        </div>
+                      ) : null}
+
                       {rows.length === 0 ? (
                         <div className="mt-2 text-sm text-muted-foreground">На этот день записей нет.</div>
                       ) : (
@@ -866,7 +1450,10 @@ export function BusinessCalendar() {
                                     {formatTimeRu(a.start_time)}–{formatTimeRu(a.end_time)}
                                   </div>
                                 </div>
-                                <Badge variant={statusBadgeVariant(a.status)}>{appointmentStatusLabel(a.status)}</Badge>
+                                <div className="flex shrink-0 items-center gap-1">
+                                  {a.outside_hours_override ? <Badge variant="outline">Вне графика</Badge> : null}
+                                  <Badge variant={statusBadgeVariant(a.status)}>{appointmentStatusLabel(a.status)}</Badge>
+                                </div>
                               </div>
                               {a.notes ? (
                                 <div className="mt-2 line-clamp-2 text-xs text-muted-foreground">{a.notes}</div>
@@ -894,297 +1481,396 @@ export function BusinessCalendar() {
               <div className="mb-3 rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
             ) : null}
 
-            <Form {...form}>
-              <form className="grid gap-4" onSubmit={form.handleSubmit((values) => upsertMutation.mutate(values))}>
-                <div className="grid gap-3 sm:grid-cols-2">
-                  <FormField
-                    control={form.control}
-                    name="child_id"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Ребёнок</FormLabel>
-                        <Select
-                          value={field.value}
-                          onValueChange={(v) => {
-                            field.onChange(v);
-                            if (!editing) {
-                              form.setValue("duration_min", pickInitialDuration(services, v), { shouldValidate: true });
-                            }
-                          }}
-                          disabled={!supabase}
-                        >
-                          <FormControl>
-                            <SelectTrigger className="h-11">
-                              <SelectValue placeholder="Выберите ребёнка" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {children.map((c) => (
-                              <SelectItem key={c.id} value={c.id}>
-                                {c.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+            {seriesReport ? (
+              <SeriesConflictReport
+                report={seriesReport}
+                childrenList={children}
+                therapists={therapists}
+                services={services}
+                onBookAlternative={bookAlternative}
+                onBack={() => setSeriesReport(null)}
+                onDone={closeDrawer}
+              />
+            ) : (
+              <Form {...form}>
+                <form className="grid gap-4" onSubmit={form.handleSubmit((values) => upsertMutation.mutate(values))}>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="child_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Ребёнок</FormLabel>
+                          <Select
+                            value={field.value}
+                            onValueChange={(v) => {
+                              field.onChange(v);
+                              if (!editing) {
+                                form.setValue("duration_min", pickInitialDuration(services, v), { shouldValidate: true });
+                              }
+                            }}
+                            disabled={!supabase}
+                          >
+                            <FormControl>
+                              <SelectTrigger className="h-11">
+                                <SelectValue placeholder="Выберите ребёнка" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {children.map((c) => (
+                                <SelectItem key={c.id} value={c.id}>
+                                  {c.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="specialist_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Специалист</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
+                            <FormControl>
+                              <SelectTrigger className="h-11">
+                                <SelectValue placeholder="Выберите специалиста" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {therapists.map((t) => (
+                                <SelectItem key={t.id} value={t.id}>
+                                  {(t.full_name || "Без имени") + (t.email ? ` · ${t.email}` : "")}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
 
-                  <FormField
-                    control={form.control}
-                    name="specialist_id"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Специалист</FormLabel>
-                        <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
-                          <FormControl>
-                            <SelectTrigger className="h-11">
-                              <SelectValue placeholder="Выберите специалиста" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {therapists.map((t) => (
-                              <SelectItem key={t.id} value={t.id}>
-                                {(t.full_name || "Без имени") + (t.email ? ` · ${t.email}` : "")}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="service_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Услуга</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
+                            <FormControl>
+                              <SelectTrigger className="h-11">
+                                <SelectValue placeholder="Выберите услугу" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {services.map((s) => (
+                                <SelectItem key={s.id} value={s.id}>
+                                  {s.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="status"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Статус</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
+                            <FormControl>
+                              <SelectTrigger className="h-11">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {(editing ? allowedStatusOptions(editing.status) : appointmentStatusOptions).map((s) => (
+                                <SelectItem key={s.value} value={s.value}>
+                                  {s.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {editing && isStatusRevert(editing.status) && field.value !== editing.status ? (
+                            <div className="text-xs text-muted-foreground">Связанное начисление будет аннулировано.</div>
+                          ) : null}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
 
-                <div className="grid gap-3 sm:grid-cols-2">
-                  <FormField
-                    control={form.control}
-                    name="service_id"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Услуга</FormLabel>
-                        <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="start_local"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Начало</FormLabel>
                           <FormControl>
-                            <SelectTrigger className="h-11">
-                              <SelectValue placeholder="Выберите услугу" />
-                            </SelectTrigger>
+                            <Input className="h-11" type="datetime-local" {...field} />
                           </FormControl>
-                          <SelectContent>
-                            {services.map((s) => (
-                              <SelectItem key={s.id} value={s.id}>
-                                {s.name}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="status"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Статус</FormLabel>
-                        <Select value={field.value} onValueChange={field.onChange} disabled={!supabase}>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="duration_min"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Длительность (мин)</FormLabel>
                           <FormControl>
-                            <SelectTrigger className="h-11">
-                              <SelectValue />
-                            </SelectTrigger>
+                            <Input
+                              className="h-11"
+                              type="number"
+                              inputMode="numeric"
+                              min={5}
+                              step={5}
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              value={
+                                typeof field.value === "number"
+                                  ? field.value
+                                  : Number.isFinite(Number(field.value))
+                                    ? Number(field.value)
+                                    : 0
+                              }
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
                           </FormControl>
-                          <SelectContent>
-                            {statusOptions.map((s) => (
-                              <SelectItem key={s.value} value={s.value}>
-                                {s.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
 
-                <div className="grid gap-3 sm:grid-cols-2">
-                  <FormField
-                    control={form.control}
-                    name="start_local"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Начало</FormLabel>
-                        <FormControl>
-                          <Input className="h-11" type="datetime-local" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {!editing ? (
+                    <div className="rounded-xl border bg-card p-3">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold">Повторять</div>
+                          <div className="text-xs text-muted-foreground">
+                            Например, вт/чт на 3 месяца.
+                          </div>
+                        </div>
+                        <FormField
+                          control={form.control}
+                          name="recurring_enabled"
+                          render={({ field }) => (
+                            <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(Boolean(v))} />
+                          )}
+                        />
+                      </div>
 
-                  <FormField
-                    control={form.control}
-                    name="duration_min"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Длительность (мин)</FormLabel>
-                        <FormControl>
-                          <Input
-                            className="h-11"
-                            type="number"
-                            inputMode="numeric"
-                            min={5}
-                            step={5}
-                            name={field.name}
-                            ref={field.ref}
-                            onBlur={field.onBlur}
-                            value={
-                              typeof field.value === "number"
-                                ? field.value
-                                : Number.isFinite(Number(field.value))
-                                  ? Number(field.value)
-                                  : 0
-                            }
-                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                      {form.watch("recurring_enabled") ? (
+                        <div className="mt-3 grid gap-3">
+                          <FormField
+                            control={form.control}
+                            name="recurring_weekdays"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Дни недели</FormLabel>
+                                <div className="flex flex-wrap gap-2">
+                                  {weekdayOptions.map((d) => {
+                                    const current = field.value ?? [];
+                                    const checked = current.includes(d.value);
+                                    return (
+                                      <Button
+                                        key={d.value}
+                                        type="button"
+                                        variant={checked ? "default" : "secondary"}
+                                        className="h-10 px-3"
+                                        onClick={() => {
+                                          const next = checked
+                                            ? current.filter((v) => v !== d.value)
+                                            : [...current, d.value];
+                                          field.onChange(next);
+                                        }}
+                                      >
+                                        {d.label}
+                                      </Button>
+                                    );
+                                  })}
+                                </div>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={form.control}
+                            name="recurring_until"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>До</FormLabel>
+                                <FormControl>
+                                  <Input className="h-11" type="date" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
 
-                {!editing ? (
-                  <div className="rounded-xl border bg-card p-3">
-                    <div className="flex items-center justify-between gap-3">
+                          <FormField
+                            control={form.control}
+                            name="recurring_on_conflict"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Если время занято</FormLabel>
+                                <Select value={field.value} onValueChange={field.onChange}>
+                                  <FormControl>
+                                    <SelectTrigger className="h-11">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    <SelectItem value="skip">Пропустить занятые даты</SelectItem>
+                                    <SelectItem value="abort">Не создавать серию</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {sessionPackage && watchedStatus !== "completed" ? (
+                    <div className="rounded-xl border bg-card p-3 text-sm">
+                      <span className="font-semibold">Абонемент «{sessionPackage.name}»:</span>{" "}
+                      осталось {remainingSessions(sessionPackage)} из {sessionPackage.sessions_total}, до{" "}
+                      {sessionPackage.expires_on.split("-").reverse().join(".")}. Занятие спишется с абонемента.
+                    </div>
+                  ) : null}
+
+                  {outsideHours || form.watch("outside_hours_override") ? (
+                    <div className="flex items-center justify-between gap-3 rounded-xl border bg-card p-3">
                       <div className="min-w-0">
-                        <div className="text-sm font-semibold">Повторять</div>
+                        <div className="text-sm font-semibold">Вне графика</div>
                         <div className="text-xs text-muted-foreground">
-                          Например, вт/чт на 3 месяца.
+                          {outsideHours
+                            ? "Время выходит за рабочие часы специалиста. Отметьте, чтобы записать всё равно."
+                            : "Запись разрешена вне рабочих часов специалиста."}
                         </div>
                       </div>
                       <FormField
                         control={form.control}
-                        name="recurring_enabled"
+                        name="outside_hours_override"
                         render={({ field }) => (
                           <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(Boolean(v))} />
                         )}
                       />
                     </div>
+                  ) : null}
 
-                    {form.watch("recurring_enabled") ? (
-                      <div className="mt-3 grid gap-3">
-                        <FormField
-                          control={form.control}
-                          name="recurring_weekdays"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Дни недели</FormLabel>
-                              <div className="flex flex-wrap gap-2">
-                                {weekdayOptions.map((d) => {
-                                  const current = field.value ?? [];
-                                  const checked = current.includes(d.value);
-                                  return (
-                                    <Button
-                                      key={d.value}
-                                      type="button"
-                                      variant={checked ? "default" : "secondary"}
-                                      className="h-10 px-3"
-                                      onClick={() => {
-                                        const next = checked
-                                          ? current.filter((v) => v !== d.value)
-                                          : [...current, d.value];
-                                        field.onChange(next);
-                                      }}
-                                    >
-                                      {d.label}
-                                    </Button>
-                                  );
-                                })}
-                              </div>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                  <FormField
+                    control={form.control}
+                    name="notes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Комментарий (опционально)</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Например: первый визит, просьба позвонить заранее…" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                        <FormField
-                          control={form.control}
-                          name="recurring_until"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>До</FormLabel>
-                              <FormControl>
-                                <Input className="h-11" type="date" {...field} />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                  {reminderText ? (
+                    <div className="grid gap-2 rounded-xl border bg-card p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-semibold">Текст напоминания</div>
+                        <Button type="button" variant="secondary" className="h-10" onClick={copyReminder}>
+                          {copied ? <CopyCheck className="size-4" /> : <ClipboardCopy className="size-4" />}
+                          {copied ? "Скопировано" : "Копировать"}
+                        </Button>
                       </div>
-                    ) : null}
-                  </div>
-                ) : null}
-
-                <FormField
-                  control={form.control}
-                  name="notes"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Комментарий (опционально)</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Например: первый визит, просьба позвонить заранее…" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                {reminderText ? (
-                  <div className="grid gap-2 rounded-xl border bg-card p-3">
-                    <div className="flex items-center justify-between gap-2">
-                      <div className="text-sm font-semibold">Текст напоминания</div>
-                      <Button type="button" variant="secondary" className="h-10" onClick={copyReminder}>
-                        {copied ? <CopyCheck className="size-4" /> : <ClipboardCopy className="size-4" />}
-                        {copied ? "Скопировано" : "Копировать"}
-                      </Button>
+                      <div className="text-sm text-muted-foreground">{reminderText}</div>
                     </div>
-                    <div className="text-sm text-muted-foreground">{reminderText}</div>
-                  </div>
-                ) : null}
-
-                <Separator />
-
-                <div className="flex flex-col-reverse gap-2 sm:flex-row sm:items-center sm:justify-between">
-                  <div className="flex items-center gap-2">
-                    {editing ? (
-                      <Button
-                        type="button"
-                        variant="destructive"
-                        className="h-11"
-                        onClick={() => deleteMutation.mutate()}
-                        disabled={deleteMutation.isPending || upsertMutation.isPending}
-                      >
-                        <Trash2 className="size-4" />
-                        Удалить
+                  ) : null}
+
+                  {editing && (editing.status === "canceled" || editing.status === "no_show") ? (
+                    <AppointmentFee appointmentId={editing.id} />
+                  ) : null}
+
+                  {editing ? <AppointmentStatusHistory appointmentId={editing.id} /> : null}
+
+                  {editing ? <AppointmentNotifications appointmentId={editing.id} /> : null}
+
+                  {editing?.recurrence_group_id ? (
+                    <div className="grid gap-2 rounded-xl border bg-card p-3">
+                      <div className="text-sm font-semibold">Применить к</div>
+                      <div className="flex flex-wrap gap-2">
+                        {seriesScopeOptions.map((o) => (
+                          <Button
+                            key={o.value}
+                            type="button"
+                            variant={seriesScope === o.value ? "default" : "secondary"}
+                            className="h-10"
+                            onClick={() => setSeriesScope(o.value)}
+                          >
+                            {o.label}
+                          </Button>
+                        ))}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Прошедшие, проведённые занятия и неявки в серии не меняются.
+                      </div>
+                    </div>
+                  ) : null}
+
+                  <Separator />
+
+                  <div className="flex flex-col-reverse gap-2 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="flex items-center gap-2">
+                      {editing ? (
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          className="h-11"
+                          onClick={() => deleteMutation.mutate()}
+                          disabled={deleteMutation.isPending || upsertMutation.isPending}
+                        >
+                          <Trash2 className="size-4" />
+                          Удалить
+                        </Button>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center justify-end gap-2">
+                      <Button type="button" variant="secondary" className="h-11" onClick={closeDrawer}>
+                        Отмена
                       </Button>
-                    ) : null}
-                  </div>
-                  <div className="flex items-center justify-end gap-2">
-                    <Button type="button" variant="secondary" className="h-11" onClick={closeDrawer}>
-                      Отмена
-                    </Button>
-                    <Button type="submit" className="h-11" disabled={upsertMutation.isPending}>
-                      Сохранить
-                    </Button>
+                      <Button type="submit" className="h-11" disabled={upsertMutation.isPending}>
+                        Сохранить
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </form>
-            </Form>
+                </form>
+              </Form>
+            )}
           </div>
         </DrawerContent>
       </Drawer>
+
+      {supabase ? (
+        <BookingRulesDrawer open={bookingRulesOpen} onOpenChange={setBookingRulesOpen} childrenList={children} />
+      ) : null}
     </div>
   );
 }
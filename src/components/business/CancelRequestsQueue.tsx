@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Inbox } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { supabase } from "@/lib/supabase/client";
+import type { AppointmentCancelRequest } from "@/types/models";
+
+type CancelRequestRow = Pick<AppointmentCancelRequest, "id" | "appointment_id" | "reason" | "late" | "created_at"> & {
+  requester: { full_name: string | null; email: string } | null;
+  appointment: {
+    start_time: string;
+    child: { name: string } | null;
+    service: { name: string } | null;
+  } | null;
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchPendingCancelRequests(): Promise<CancelRequestRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("appointment_cancel_requests")
+    .select(
+      "id,appointment_id,reason,late,created_at,requester:profiles!appointment_cancel_requests_requested_by_fkey(full_name,email)," +
+        "appointment:appointments(start_time,child:children(name),service:services(name))",
+    )
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => {
+    const appointment = normalizeOne<Record<string, unknown>>(r.appointment);
+    return {
+      ...(r as unknown as CancelRequestRow),
+      requester: normalizeOne<{ full_name: string | null; email: string }>(r.requester),
+      appointment: appointment
+        ? {
+            start_time: String(appointment.start_time),
+            child: normalizeOne<{ name: string }>(appointment.child),
+            service: normalizeOne<{ name: string }>(appointment.service),
+          }
+        : null,
+    };
+  });
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+// Запросы родителей на отмену. Одобрение отменяет запись; штраф — только если родитель опоздал со сроком.
+export function CancelRequestsQueue({ onResolved }: { onResolved: () => Promise<void> | void }) {
+  const queryClient = useQueryClient();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState<string | null>(null);
+
+  const requestsQuery = useQuery({
+    queryKey: ["business", "cancelRequests"],
+    queryFn: fetchPendingCancelRequests,
+    enabled: Boolean(supabase),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (input: { id: string; approve: boolean }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("resolve_cancel_request", {
+        request_uuid: input.id,
+        approve: input.approve,
+        note: notes[input.id]?.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["business", "cancelRequests"] });
+      await onResolved();
+    },
+    onError: (err: unknown) => {
+      const text = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+      if (text.includes("request_not_pending")) setMessage("Запрос уже рассмотрен или отозван.");
+      else if (text.includes("appointment_locked_by_payroll")) {
+        setMessage("Занятие входит в закрытый период расчёта зарплаты и не может быть изменено.");
+      } else setMessage(err instanceof Error ? err.message : "Не удалось обработать запрос");
+      void queryClient.invalidateQueries({ queryKey: ["business", "cancelRequests"] });
+    },
+  });
+
+  const requests = requestsQuery.data ?? [];
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <Inbox className="size-4 text-muted-foreground" />
+          Запросы на отмену от родителей
+          <Badge variant="secondary">{requests.length}</Badge>
+        </div>
+
+        {message ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        <div className="grid gap-2">
+          {requests.map((r) => (
+            <div key={r.id} className="grid gap-2 rounded-xl border bg-card p-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold">
+                    {r.appointment?.child?.name ?? "—"} · {r.appointment ? dateTimeRu(r.appointment.start_time) : "—"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {r.appointment?.service?.name ?? "Занятие"}
+                    {r.requester ? ` · ${r.requester.full_name || r.requester.email}` : ""} · запрошено{" "}
+                    {dateTimeRu(r.created_at)}
+                  </div>
+                </div>
+                <Badge variant={r.late ? "destructive" : "outline"}>{r.late ? "После срока" : "До срока"}</Badge>
+              </div>
+              {r.reason ? <div className="text-sm text-muted-foreground">{r.reason}</div> : null}
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <Input
+                  className="h-9"
+                  placeholder="Комментарий для родителя (опционально)"
+                  value={notes[r.id] ?? ""}
+                  onChange={(e) => setNotes((cur) => ({ ...cur, [r.id]: e.target.value }))}
+                />
+                <div className="flex shrink-0 gap-2">
+                  <Button
+                    type="button"
+                    className="h-9"
+                    onClick={() => resolveMutation.mutate({ id: r.id, approve: true })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    Отменить запись
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    className="h-9"
+                    onClick={() => resolveMutation.mutate({ id: r.id, approve: false })}
+                    disabled={resolveMutation.isPending}
+                  >
+                    Отклонить
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
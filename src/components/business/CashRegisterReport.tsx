@@ -0,0 +1,217 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Wallet } from "lucide-react";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { paymentMethodLabel, paymentMethodOptions } from "@/lib/payment-methods";
+import { supabase } from "@/lib/supabase/client";
+import { cn } from "@/lib/utils";
+import { localDateKey } from "@/lib/working-hours";
+import type { PaymentMethod } from "@/types/models";
+
+type CashPayment = {
+  id: string;
+  isRefund: boolean;
+  // Возврат хранится со знаком «−», чтобы итоги по кассе считались простой суммой.
+  amount: number;
+  date: string;
+  payment_method: PaymentMethod | null;
+  payment_reference: string | null;
+  childName: string;
+  receiverName: string;
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchDayPayments(day: string): Promise<CashPayment[]> {
+  if (!supabase) return [];
+  const from = new Date(`${day}T00:00:00`);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+
+  const { data, error } = await supabase
+    .from("transactions")
+    .select(
+      "id,type,amount,date,payment_method,payment_reference,child:children(name),receiver:profiles!transactions_received_by_fkey(full_name,email)",
+    )
+    .in("type", ["payment", "refund"])
+    .is("voided_at", null)
+    .gte("date", from.toISOString())
+    .lt("date", to.toISOString())
+    .order("date", { ascending: true });
+  if (error) throw error;
+
+  return ((data ?? []) as Array<Record<string, unknown>>).map((r) => {
+    const child = normalizeOne<{ name: string }>(r.child);
+    const receiver = normalizeOne<{ full_name: string | null; email: string }>(r.receiver);
+    const isRefund = r.type === "refund";
+    return {
+      id: String(r.id),
+      isRefund,
+      amount: isRefund ? -Number(r.amount) : Number(r.amount),
+      date: String(r.date),
+      payment_method: (r.payment_method as PaymentMethod | null) ?? null,
+      payment_reference: (r.payment_reference as string | null) ?? null,
+      childName: child?.name ?? "—",
+      receiverName: receiver?.full_name || receiver?.email || "—",
+    };
+  });
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+// Кассовый отчёт за день: итоги по способам оплаты (за вычетом возвратов) и сверка наличных с фактическим остатком.
+export function CashRegisterReport() {
+  const [day, setDay] = useState(() => localDateKey(new Date()));
+  const [countedCash, setCountedCash] = useState("");
+
+  const paymentsQuery = useQuery({
+    queryKey: ["business", "cashRegister", day],
+    queryFn: () => fetchDayPayments(day),
+    enabled: Boolean(supabase) && Boolean(day),
+  });
+
+  const payments = useMemo(() => paymentsQuery.data ?? [], [paymentsQuery.data]);
+
+  const byMethod = useMemo(() => {
+    const groups = [...paymentMethodOptions.map((o) => o.value), null] as Array<PaymentMethod | null>;
+    return groups
+      .map((method) => {
+        const rows = payments.filter((p) => p.payment_method === method);
+        return { method, count: rows.length, total: rows.reduce((sum, p) => sum + p.amount, 0) };
+      })
+      .filter((g) => g.method !== null || g.count > 0);
+  }, [payments]);
+
+  const total = payments.reduce((sum, p) => sum + p.amount, 0);
+  const cashTotal = byMethod.find((g) => g.method === "cash")?.total ?? 0;
+  const counted = countedCash.trim() === "" ? null : Number(countedCash);
+  const difference = counted !== null && Number.isFinite(counted) ? counted - cashTotal : null;
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Wallet className="size-4 text-muted-foreground" />
+            Касса за день
+          </div>
+          <Input className="h-10 sm:w-[180px]" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+        </div>
+        <Separator />
+
+        <div className="grid gap-3 sm:grid-cols-4">
+          {byMethod.map((g) => (
+            <div key={g.method ?? "none"} className="rounded-xl border bg-card p-3">
+              <div className="text-xs text-muted-foreground">{paymentMethodLabel(g.method)}</div>
+              <div className="mt-1 text-lg font-semibold">{moneyRu(g.total)}</div>
+              <div className="mt-1 text-xs text-muted-foreground">Операций: {g.count}</div>
+            </div>
+          ))}
+          <div className="rounded-xl border bg-card p-3">
+            <div className="text-xs text-muted-foreground">Всего</div>
+            <div className="mt-1 text-lg font-semibold">{moneyRu(total)}</div>
+            <div className="mt-1 text-xs text-muted-foreground">Операций: {payments.length}</div>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 rounded-xl border bg-card p-3 sm:flex-row sm:items-end sm:justify-between">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Наличные в кассе (пересчёт)</div>
+            <Input
+              className="h-10 sm:w-[200px]"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              placeholder={String(Math.round(cashTotal))}
+            />
+          </div>
+          {difference !== null ? (
+            <div
+              className={cn(
+                "text-sm font-semibold",
+                difference === 0 ? "text-foreground" : "text-destructive",
+              )}
+            >
+              {difference === 0
+                ? "Расхождений нет"
+                : difference > 0
+                  ? `Излишек ${moneyRu(difference)}`
+                  : `Недостача ${moneyRu(-difference)}`}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground">Ожидается наличными: {moneyRu(cashTotal)}</div>
+          )}
+        </div>
+
+        <div className="overflow-hidden rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ребёнок</TableHead>
+                <TableHead>Способ</TableHead>
+                <TableHead>Принял</TableHead>
+                <TableHead className="text-right">Сумма</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payments.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-muted-foreground">
+                    {paymentsQuery.isLoading ? "Загрузка…" : "Платежей и возвратов за день нет"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                payments.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell>
+                      {p.childName}
+                      {p.isRefund ? <span className="text-xs text-muted-foreground"> · возврат</span> : null}
+                    </TableCell>
+                    <TableCell>
+                      {paymentMethodLabel(p.payment_method)}
+                      {p.payment_reference ? (
+                        <span className="text-xs text-muted-foreground"> · № {p.payment_reference}</span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{p.receiverName}</TableCell>
+                    <TableCell className={cn("text-right font-semibold", p.isRefund && "text-destructive")}>
+                      {moneyRu(p.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
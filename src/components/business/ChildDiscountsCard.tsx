@@ -0,0 +1,274 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Percent, Plus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { ChildDiscount, Service } from "@/types/models";
+
+type ServiceLite = Pick<Service, "id" | "name">;
+
+const ALL_SERVICES = "all";
+
+async function fetchChildDiscounts(childId: string): Promise<ChildDiscount[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("child_discounts")
+    .select("*")
+    .eq("child_id", childId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as ChildDiscount[]).map((d) => ({ ...d, percent: Number(d.percent) }));
+}
+
+async function fetchServicesLite(): Promise<ServiceLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("services").select("id,name").order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ServiceLite[];
+}
+
+function dateRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+function isCurrent(d: ChildDiscount, today: string) {
+  return d.is_active && d.starts_on <= today && (!d.ends_on || d.ends_on >= today);
+}
+
+// Скидка применяется автоматически при завершении занятия; из нескольких действует наибольшая.
+export function ChildDiscountsCard({ childId }: { childId: string }) {
+  const queryClient = useQueryClient();
+
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [name, setName] = useState("Скидка для братьев и сестёр");
+  const [percent, setPercent] = useState("10");
+  const [serviceId, setServiceId] = useState(ALL_SERVICES);
+  const [startsOn, setStartsOn] = useState(() => localDateKey(new Date()));
+  const [endsOn, setEndsOn] = useState("");
+  const [notes, setNotes] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const discountsQuery = useQuery({
+    queryKey: ["business", "childDiscounts", childId],
+    queryFn: () => fetchChildDiscounts(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const servicesQuery = useQuery({
+    queryKey: ["business", "services-names"],
+    queryFn: fetchServicesLite,
+    enabled: Boolean(supabase),
+  });
+
+  const discounts = discountsQuery.data ?? [];
+  const services = servicesQuery.data ?? [];
+  const serviceName = (id: string | null) =>
+    id ? (services.find((s) => s.id === id)?.name ?? "Услуга") : "Все услуги";
+  const today = localDateKey(new Date());
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const value = Number(percent);
+      if (!name.trim()) throw new Error("Укажите название скидки");
+      if (!Number.isFinite(value) || value <= 0 || value > 100) throw new Error("Процент — от 1 до 100");
+      if (endsOn && endsOn < startsOn) throw new Error("Дата окончания раньше даты начала");
+      setMessage(null);
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const { error } = await supabase.from("child_discounts").insert({
+        child_id: childId,
+        name: name.trim(),
+        percent: value,
+        service_id: serviceId === ALL_SERVICES ? null : serviceId,
+        starts_on: startsOn,
+        ends_on: endsOn || null,
+        notes: notes.trim() || null,
+        created_by: sessionData.session?.user?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setDrawerOpen(false);
+      setNotes("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "childDiscounts", childId] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось добавить скидку");
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (d: ChildDiscount) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const { error } = await supabase.from("child_discounts").update({ is_active: !d.is_active }).eq("id", d.id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["business", "childDiscounts", childId] }),
+  });
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Percent className="size-4 text-muted-foreground" />
+            Скидки
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            className="h-10"
+            onClick={() => {
+              setMessage(null);
+              setStartsOn(localDateKey(new Date()));
+              setEndsOn("");
+              setDrawerOpen(true);
+            }}
+            disabled={!supabase || !childId}
+          >
+            <Plus className="size-4" />
+            Добавить
+          </Button>
+        </div>
+
+        {discounts.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            {discountsQuery.isLoading ? "Загрузка…" : "Скидок нет — занятия начисляются по полной цене"}
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {discounts.map((d) => (
+              <div key={d.id} className="flex items-center justify-between gap-3 rounded-xl border bg-card p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate text-sm font-semibold">{d.name}</span>
+                    <Badge variant={isCurrent(d, today) ? "secondary" : "outline"}>
+                      {d.is_active ? (isCurrent(d, today) ? "Действует" : "Не в сроке") : "Отключена"}
+                    </Badge>
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    −{d.percent}% · {serviceName(d.service_id)} · с {dateRu(d.starts_on)}
+                    {d.ends_on ? ` по ${dateRu(d.ends_on)}` : ""}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  className="h-9"
+                  onClick={() => toggleMutation.mutate(d)}
+                  disabled={toggleMutation.isPending}
+                >
+                  {d.is_active ? "Отключить" : "Включить"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Drawer open={drawerOpen} onOpenChange={setDrawerOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Новая скидка</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? (
+              <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
+            ) : null}
+
+            <div className="grid gap-3 sm:grid-cols-[1fr_120px]">
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Название</div>
+                <Input className="h-11" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Процент</div>
+                <Input
+                  className="h-11"
+                  type="number"
+                  inputMode="decimal"
+                  min={1}
+                  max={100}
+                  value={percent}
+                  onChange={(e) => setPercent(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Услуга</div>
+              <Select value={serviceId} onValueChange={setServiceId}>
+                <SelectTrigger className="h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SERVICES}>Все услуги</SelectItem>
+                  {services.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Действует с</div>
+                <Input className="h-11" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+              </div>
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">по (опционально)</div>
+                <Input className="h-11" type="date" value={endsOn} onChange={(e) => setEndsOn(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Комментарий (опционально)</div>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Скидка начисляется автоматически при завершении занятия. Штрафы и абонементы не дисконтируются.
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setDrawerOpen(false)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => createMutation.mutate()}
+                disabled={!startsOn || createMutation.isPending}
+              >
+                Добавить
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  );
+}
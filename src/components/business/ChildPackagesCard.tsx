@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Package, Plus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  packageExpiry,
+  purchaseState,
+  purchaseStateLabel,
+  remainingSessions,
+} from "@/lib/packages";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { PackagePurchase, ServicePackage } from "@/types/models";
+
+async function fetchChildPurchases(childId: string): Promise<PackagePurchase[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("package_purchases")
+    .select("*")
+    .eq("child_id", childId)
+    .order("expires_on", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as PackagePurchase[]).map((p) => ({ ...p, price: Number(p.price) }));
+}
+
+async function fetchActivePackages(): Promise<ServicePackage[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("service_packages")
+    .select("*")
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as ServicePackage[]).map((p) => ({ ...p, price: Number(p.price) }));
+}
+
+function dateRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+export function ChildPackagesCard({ childId }: { childId: string }) {
+  const queryClient = useQueryClient();
+
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [packageId, setPackageId] = useState("");
+  const [startsOn, setStartsOn] = useState(() => localDateKey(new Date()));
+  const [notes, setNotes] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const purchasesQuery = useQuery({
+    queryKey: ["business", "childPackages", childId],
+    queryFn: () => fetchChildPurchases(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const packagesQuery = useQuery({
+    queryKey: ["business", "packages", "active"],
+    queryFn: fetchActivePackages,
+    enabled: Boolean(supabase) && drawerOpen,
+  });
+
+  const purchases = purchasesQuery.data ?? [];
+  const packages = packagesQuery.data ?? [];
+  const selected = packages.find((p) => p.id === packageId) ?? null;
+
+  const sellMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!selected) throw new Error("Выберите абонемент");
+      setMessage(null);
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const { error } = await supabase.from("package_purchases").insert({
+        child_id: childId,
+        package_id: selected.id,
+        service_id: selected.service_id,
+        name: selected.name,
+        sessions_total: selected.sessions_count,
+        price: selected.price,
+        starts_on: startsOn,
+        expires_on: packageExpiry(startsOn, selected.validity_days),
+        notes: notes.trim() || null,
+        created_by: sessionData.session?.user?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setDrawerOpen(false);
+      setPackageId("");
+      setNotes("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "childPackages"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "transactions", childId] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось оформить абонемент");
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Package className="size-4 text-muted-foreground" />
+            Абонементы
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            className="h-10"
+            onClick={() => {
+              setMessage(null);
+              setStartsOn(localDateKey(new Date()));
+              setDrawerOpen(true);
+            }}
+            disabled={!supabase || !childId}
+          >
+            <Plus className="size-4" />
+            Оформить
+          </Button>
+        </div>
+
+        {purchases.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            {purchasesQuery.isLoading ? "Загрузка…" : "Абонементов нет — занятия начисляются по цене услуги"}
+          </div>
+        ) : (
+          <div className="grid gap-2 sm:grid-cols-2">
+            {purchases.map((p) => {
+              const state = purchaseState(p);
+              const left = remainingSessions(p);
+              return (
+                <div key={p.id} className="grid gap-2 rounded-xl border bg-card p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 truncate text-sm font-semibold">{p.name}</div>
+                    <Badge variant={state === "active" ? "secondary" : "outline"}>{purchaseStateLabel(state)}</Badge>
+                  </div>
+                  <Progress value={(p.sessions_used / p.sessions_total) * 100} />
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      Осталось {left} из {p.sessions_total}
+                    </span>
+                    <span>
+                      {dateRu(p.starts_on)} — {dateRu(p.expires_on)}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Drawer open={drawerOpen} onOpenChange={setDrawerOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Оформить абонемент</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? (
+              <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
+            ) : null}
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Абонемент</div>
+              <Select value={packageId} onValueChange={setPackageId}>
+                <SelectTrigger className="h-11">
+                  <SelectValue placeholder={packagesQuery.isLoading ? "Загрузка…" : "Выберите абонемент"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {packages.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name} · {p.sessions_count} зан. · {p.validity_days} дн.
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Начало действия</div>
+              <Input className="h-11" type="date" value={startsOn} onChange={(e) => setStartsOn(e.target.value)} />
+              {selected && startsOn ? (
+                <div className="text-xs text-muted-foreground">
+                  Действует до {dateRu(packageExpiry(startsOn, selected.validity_days))}. Стоимость будет начислена сразу.
+                </div>
+              ) : null}
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Комментарий (опционально)</div>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setDrawerOpen(false)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => sellMutation.mutate()}
+                disabled={!selected || !startsOn || sellMutation.isPending}
+              >
+                Оформить
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  );
+}
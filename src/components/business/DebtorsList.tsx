@@ -0,0 +1,468 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ClipboardCopy, CopyCheck, HandCoins, MessageSquareText } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { buildBalanceReminderText } from "@/lib/reminders";
+import { supabase } from "@/lib/supabase/client";
+import type { BalanceReminderChannel } from "@/types/models";
+
+type DebtorRow = {
+  child_id: string;
+  child_name: string;
+  parent_name: string | null;
+  debt: number;
+  debt_60_plus: number;
+  oldest_debt_date: string | null;
+  last_payment_at: string | null;
+  last_payment_amount: number | null;
+  last_reminder_at: string | null;
+  reminders_count: number;
+};
+
+type ReminderLogRow = {
+  id: string;
+  debt_amount: number;
+  channel: BalanceReminderChannel;
+  message: string;
+  sent_at: string;
+  child?: { name: string } | null;
+  sender?: { full_name: string | null; email: string } | null;
+};
+
+const channelOptions: Array<{ value: BalanceReminderChannel; label: string }> = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "sms", label: "SMS" },
+  { value: "call", label: "Звонок" },
+  { value: "other", label: "Другое" },
+];
+
+function channelLabel(v: BalanceReminderChannel) {
+  return channelOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchDebtors(minDebt: number, minDays: number): Promise<DebtorRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("debtors_list", { min_debt: minDebt, min_days: minDays });
+  if (error) throw error;
+  return ((data ?? []) as DebtorRow[]).map((r) => ({
+    ...r,
+    debt: Number(r.debt),
+    debt_60_plus: Number(r.debt_60_plus),
+    last_payment_amount: r.last_payment_amount === null ? null : Number(r.last_payment_amount),
+  }));
+}
+
+async function fetchReminderLog(): Promise<ReminderLogRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("balance_reminders")
+    .select("id,debt_amount,channel,message,sent_at,child:children(name),sender:profiles(full_name,email)")
+    .order("sent_at", { ascending: false })
+    .limit(50);
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as ReminderLogRow),
+    debt_amount: Number(r.debt_amount),
+    child: normalizeOne<{ name: string }>(r.child),
+    sender: normalizeOne<{ full_name: string | null; email: string }>(r.sender),
+  }));
+}
+
+async function fetchCenterName(): Promise<string | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase.from("center_settings").select("name").maybeSingle();
+  if (error) throw error;
+  return (data as { name: string } | null)?.name ?? null;
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function dateRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "2-digit", year: "2-digit" }).format(new Date(iso));
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+export function DebtorsList() {
+  const queryClient = useQueryClient();
+
+  const [minDebt, setMinDebt] = useState("0");
+  const [minDays, setMinDays] = useState("0");
+  const [target, setTarget] = useState<DebtorRow | null>(null);
+  const [channel, setChannel] = useState<BalanceReminderChannel>("whatsapp");
+  const [text, setText] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const minDebtValue = Math.max(0, Number(minDebt) || 0);
+  const minDaysValue = Math.max(0, Math.floor(Number(minDays) || 0));
+
+  const debtorsQuery = useQuery({
+    queryKey: ["business", "debtors", minDebtValue, minDaysValue],
+    queryFn: () => fetchDebtors(minDebtValue, minDaysValue),
+    enabled: Boolean(supabase),
+  });
+
+  const logQuery = useQuery({
+    queryKey: ["business", "balanceReminders"],
+    queryFn: fetchReminderLog,
+    enabled: Boolean(supabase),
+  });
+
+  const centerQuery = useQuery({
+    queryKey: ["business", "centerName"],
+    queryFn: fetchCenterName,
+    enabled: Boolean(supabase),
+  });
+
+  const debtors = debtorsQuery.data ?? [];
+  const log = logQuery.data ?? [];
+  const totalDebt = debtors.reduce((s, d) => s + d.debt, 0);
+
+  const openReminder = (d: DebtorRow) => {
+    setMessage(null);
+    setCopied(false);
+    setText(buildBalanceReminderText({ childName: d.child_name, debt: d.debt, centerName: centerQuery.data }));
+    setTarget(d);
+  };
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1200);
+    } catch {
+      setMessage("Не удалось скопировать текст");
+    }
+  };
+
+  const logMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!target) return;
+      if (!text.trim()) throw new Error("Текст напоминания пуст");
+      setMessage(null);
+      const { data: sessionData } = await supabase.auth.getSession();
+      const { error } = await supabase.from("balance_reminders").insert({
+        child_id: target.child_id,
+        debt_amount: target.debt,
+        channel,
+        message: text.trim(),
+        sent_by: sessionData.session?.user?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setTarget(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "balanceReminders"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "debtors"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сохранить отметку");
+    },
+  });
+
+  const enqueueMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!target) return;
+      setMessage(null);
+      const { data, error } = await supabase.rpc("enqueue_balance_reminder", { child_uuid: target.child_id });
+      if (error) {
+        if (error.message.includes("no_debt")) throw new Error("Долга больше нет");
+        throw error;
+      }
+      if (!data) throw new Error("Шаблон «Задолженность» отключён в разделе «Уведомления»");
+    },
+    onSuccess: async () => {
+      setTarget(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationQueue"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось поставить в очередь");
+    },
+  });
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <HandCoins className="size-5 text-muted-foreground" />
+            <h1 className="truncate text-lg font-semibold leading-tight">Должники</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">Отрицательные балансы по всем детям и напоминания об оплате.</p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Долг от, сом</div>
+            <Input
+              className="h-10 w-[120px]"
+              type="number"
+              inputMode="decimal"
+              min={0}
+              value={minDebt}
+              onChange={(e) => setMinDebt(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Старше, дней</div>
+            <Input
+              className="h-10 w-[120px]"
+              type="number"
+              inputMode="numeric"
+              min={0}
+              value={minDays}
+              onChange={(e) => setMinDays(e.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Демо-режим</AlertTitle>
+          <AlertDescription>Список должников доступен после подключения Supabase.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Должники: {debtors.length}</div>
+            <div className="text-sm font-semibold text-destructive">{moneyRu(totalDebt)}</div>
+          </div>
+
+          <div className="overflow-x-auto rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ребёнок</TableHead>
+                  <TableHead className="text-right">Долг</TableHead>
+                  <TableHead>Долг с</TableHead>
+                  <TableHead>Последняя оплата</TableHead>
+                  <TableHead>Напоминание</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {debtors.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-muted-foreground">
+                      {debtorsQuery.isLoading ? "Загрузка…" : "Должников нет"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  debtors.map((d) => (
+                    <TableRow key={d.child_id}>
+                      <TableCell>
+                        <Link className="font-medium hover:underline" href={`/app/business/finance?child=${d.child_id}`}>
+                          {d.child_name}
+                        </Link>
+                        {d.parent_name ? <div className="text-xs text-muted-foreground">{d.parent_name}</div> : null}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="font-semibold text-destructive">{moneyRu(d.debt)}</div>
+                        {d.debt_60_plus > 0 ? (
+                          <div className="text-xs text-muted-foreground">60+ дн.: {moneyRu(d.debt_60_plus)}</div>
+                        ) : null}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {d.oldest_debt_date ? dateRu(d.oldest_debt_date) : "—"}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {d.last_payment_at ? (
+                          <>
+                            {dateRu(d.last_payment_at)}
+                            {d.last_payment_amount !== null ? ` · ${moneyRu(d.last_payment_amount)}` : ""}
+                          </>
+                        ) : (
+                          "Не было"
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {d.last_reminder_at ? (
+                          <div className="flex items-center gap-2 text-muted-foreground">
+                            {dateRu(d.last_reminder_at)}
+                            <Badge variant="outline">{d.reminders_count}</Badge>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Button type="button" variant="secondary" className="h-9" onClick={() => openReminder(d)}>
+                          <MessageSquareText className="size-4" />
+                          Напомнить
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Журнал напоминаний</div>
+          <Separator />
+          {log.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {logQuery.isLoading ? "Загрузка…" : "Напоминаний ещё не отправляли"}
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {log.map((r) => (
+                <div key={r.id} className="grid gap-1 rounded-xl border bg-card p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 text-sm font-semibold">
+                      {r.child?.name ?? "—"}
+                      <Badge variant="outline">{channelLabel(r.channel)}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {dateTimeRu(r.sent_at)}
+                      {r.sender ? ` · ${r.sender.full_name || r.sender.email}` : ""}
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">Долг на момент отправки: {moneyRu(r.debt_amount)}</div>
+                  <div className="text-sm text-muted-foreground">{r.message}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Drawer
+        open={Boolean(target)}
+        onOpenChange={(open) => {
+          if (!open) setTarget(null);
+        }}
+      >
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Напоминание об оплате</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+            {target ? (
+              <div className="text-sm">
+                {target.child_name} · долг <span className="font-semibold">{moneyRu(target.debt)}</span>
+              </div>
+            ) : null}
+
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-medium">Текст</div>
+                <Button type="button" variant="secondary" className="h-9" onClick={copyText}>
+                  {copied ? <CopyCheck className="size-4" /> : <ClipboardCopy className="size-4" />}
+                  {copied ? "Скопировано" : "Копировать"}
+                </Button>
+              </div>
+              <Textarea rows={5} value={text} onChange={(e) => setText(e.target.value)} />
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Канал</div>
+              <Select value={channel} onValueChange={(v) => setChannel(v as BalanceReminderChannel)}>
+                <SelectTrigger className="h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {channelOptions.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Скопируйте текст, отправьте родителю и отметьте отправку — она попадёт в журнал. Либо поставьте
+              автоматическую отправку по шаблону «Задолженность».
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setTarget(null)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                className="h-11"
+                onClick={() => enqueueMutation.mutate()}
+                disabled={enqueueMutation.isPending}
+              >
+                В очередь
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => logMutation.mutate()}
+                disabled={!text.trim() || logMutation.isPending}
+              >
+                Отметить отправленным
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </div>
+  );
+}
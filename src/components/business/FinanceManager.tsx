@@ -3,9 +3,9 @@
 import { useMemo, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { CreditCard, Plus, Trash2 } from "lucide-react";
+import { Ban, CreditCard, Plus } from "lucide-react";
 import { useSearchParams } from "next/navigation";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import {
   Bar,
   BarChart,
@@ -17,6 +17,7 @@ import {
 } from "recharts";
 import { z } from "zod";
 
+import { BillingDocumentsCard } from "@/components/billing/BillingDocumentsCard";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -48,10 +49,16 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Textarea } from "@/components/ui/textarea";
+import { paymentMethodLabel, paymentMethodOptions } from "@/lib/payment-methods";
 import { supabase } from "@/lib/supabase/client";
+import { canVoidTransaction, signedAmount, transactionTypeLabel } from "@/lib/transactions";
 import { cn } from "@/lib/utils";
 import type { Child, Transaction, TransactionType } from "@/types/models";
 
+import { CashRegisterReport } from "./CashRegisterReport";
+import { ChildDiscountsCard } from "./ChildDiscountsCard";
+import { ChildPackagesCard } from "./ChildPackagesCard";
+
 type ChildLite = Pick<Child, "id" | "name">;
 
 type AppointmentLite = {
@@ -93,18 +100,29 @@ function dateTimeRu(iso: string) {
   }).format(new Date(iso));
 }
 
-function paymentMethodLabel(v: "cash" | "card" | "transfer") {
-  if (v === "cash") return "Наличные";
-  if (v === "card") return "Карта";
-  return "Перевод";
+function paymentDetails(t: Pick<Transaction, "payment_method" | "payment_reference">) {
+  return t.payment_reference
+    ? `${paymentMethodLabel(t.payment_method)} · № ${t.payment_reference}`
+    : paymentMethodLabel(t.payment_method);
 }
 
-function typeLabel(t: TransactionType) {
-  return t === "charge" ? "Начисление" : "Платёж";
+function typeBadgeVariant(t: TransactionType) {
+  return t === "charge" || t === "refund" ? ("outline" as const) : ("secondary" as const);
 }
 
-function typeBadgeVariant(t: TransactionType) {
-  return t === "charge" ? ("outline" as const) : ("secondary" as const);
+function signedMoneyRu(t: Pick<Transaction, "type" | "amount">) {
+  const v = signedAmount(t.type, t.amount);
+  return `${v < 0 ? "-" : "+"}${moneyRu(Math.abs(v))}`;
+}
+
+function describeVoidError(err: unknown) {
+  const msg = err instanceof Error ? err.message : "";
+  if (msg.includes("void_reason_required")) return "Укажите причину аннулирования";
+  if (msg.includes("already_voided")) return "Операция уже аннулирована";
+  if (msg.includes("appointment_charge_managed_by_status")) {
+    return "Начисление за занятие аннулируется сменой статуса записи";
+  }
+  return msg || "Не удалось аннулировать операцию";
 }
 
 function normalizeOne<T>(raw: unknown): T | null {
@@ -170,7 +188,8 @@ async function fetchIncome(fromIso: string, toIso: string): Promise<TransactionR
   const { data, error } = await supabase
     .from("transactions")
     .select("*, appointment:appointments(id,start_time,service:services(name),specialist:profiles(full_name,email))")
-    .eq("type", "charge")
+    .in("type", ["charge", "discount"])
+    .is("voided_at", null)
     .gte("date", fromIso)
     .lt("date", toIso)
     .order("date", { ascending: true });
@@ -186,15 +205,42 @@ async function fetchIncome(fromIso: string, toIso: string): Promise<TransactionR
   });
 }
 
-const paymentSchema = z.object({
-  amount: z.coerce.number().min(1, "Введите сумму").max(1_000_000),
-  date: z.string().min(1, "Укажите дату"),
-  method: z.enum(["cash", "card", "transfer"]),
-  description: z.string().max(2000).optional().or(z.literal("")),
-});
+// Ручные операции: начисления создаются только занятиями и абонементами.
+const operationKindOptions = [
+  { value: "payment", label: "Платёж" },
+  { value: "refund", label: "Возврат" },
+  { value: "adjustment", label: "Корректировка" },
+  { value: "discount", label: "Скидка" },
+] as const;
+
+const operationSchema = z
+  .object({
+    kind: z.enum(["payment", "refund", "adjustment", "discount"]),
+    amount: z.coerce.number().min(1, "Введите сумму").max(1_000_000),
+    date: z.string().min(1, "Укажите дату"),
+    method: z.enum(["cash", "card", "transfer"]),
+    reference: z.string().max(200).optional().or(z.literal("")),
+    direction: z.enum(["increase", "decrease"]),
+    description: z.string().max(2000).optional().or(z.literal("")),
+  })
+  .superRefine((v, ctx) => {
+    if ((v.kind === "adjustment" || v.kind === "discount") && !v.description?.trim()) {
+      ctx.addIssue({ code: "custom", message: "Укажите причину", path: ["description"] });
+    }
+  });
 
-type PaymentFormValues = z.input<typeof paymentSchema>;
-type PaymentValues = z.output<typeof paymentSchema>;
+type OperationFormValues = z.input<typeof operationSchema>;
+type OperationValues = z.output<typeof operationSchema>;
+
+const operationDefaults = (): OperationFormValues => ({
+  kind: "payment",
+  amount: 0,
+  date: new Date().toISOString().slice(0, 10),
+  method: "card",
+  reference: "",
+  direction: "increase",
+  description: "",
+});
 
 function firstDayIso(daysBack: number) {
   const d = new Date();
@@ -211,6 +257,9 @@ export function FinanceManager() {
   const [childId, setChildId] = useState<string>("");
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [voidTarget, setVoidTarget] = useState<TransactionRow | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+  const [voidError, setVoidError] = useState<string | null>(null);
 
   const [incomeView, setIncomeView] = useState<"specialists" | "services">("specialists");
   const [fromIso, setFromIso] = useState(() => firstDayIso(30));
@@ -242,14 +291,21 @@ export function FinanceManager() {
   const transactions = transactionsQuery.data ?? [];
 
   const totals = useMemo(() => {
-    let charges = 0;
-    let payments = 0;
+    const sums: Record<TransactionType, number> = { charge: 0, payment: 0, refund: 0, adjustment: 0, discount: 0 };
+    let balance = 0;
     for (const t of transactions) {
-      if (t.type === "charge") charges += t.amount;
-      else payments += t.amount;
+      if (t.voided_at) continue;
+      sums[t.type] += t.amount;
+      balance += signedAmount(t.type, t.amount);
     }
-    const balance = payments - charges;
-    return { charges, payments, balance };
+    return {
+      charges: sums.charge - sums.discount,
+      discounts: sums.discount,
+      payments: sums.payment - sums.refund,
+      refunds: sums.refund,
+      adjustments: sums.adjustment,
+      balance,
+    };
   }, [transactions]);
 
   const incomeData = useMemo(() => {
@@ -261,7 +317,7 @@ export function FinanceManager() {
         t.appointment?.specialist?.full_name || t.appointment?.specialist?.email || "Без специалиста";
 
       const key = incomeView === "services" ? serviceName : specialistName;
-      map.set(key, (map.get(key) ?? 0) + t.amount);
+      map.set(key, (map.get(key) ?? 0) - signedAmount(t.type, t.amount));
     });
 
     return Array.from(map.entries())
@@ -270,18 +326,15 @@ export function FinanceManager() {
       .slice(0, 10);
   }, [incomeQuery.data, incomeView]);
 
-  const paymentForm = useForm<PaymentFormValues, unknown, PaymentValues>({
-    resolver: zodResolver(paymentSchema),
-    defaultValues: {
-      amount: 0,
-      date: new Date().toISOString().slice(0, 10),
-      method: "card",
-      description: "",
-    },
+  const operationForm = useForm<OperationFormValues, unknown, OperationValues>({
+    resolver: zodResolver(operationSchema),
+    defaultValues: operationDefaults(),
   });
+  const operationKind = useWatch({ control: operationForm.control, name: "kind" });
+  const withMethod = operationKind === "payment" || operationKind === "refund";
 
-  const addPaymentMutation = useMutation({
-    mutationFn: async (values: PaymentValues) => {
+  const addOperationMutation = useMutation({
+    mutationFn: async (values: OperationValues) => {
       if (!supabase) throw new Error("Supabase не настроен");
       if (!effectiveChildId) throw new Error("Выберите ребёнка");
 
@@ -291,17 +344,18 @@ export function FinanceManager() {
       const userId = sessionData.session?.user?.id ?? null;
 
       const dateIso = new Date(values.date + "T12:00:00").toISOString();
-      const methodText = paymentMethodLabel(values.method);
-      const desc = values.description?.trim();
-      const description = desc ? `${methodText} · ${desc}` : methodText;
+      const withMoney = values.kind === "payment" || values.kind === "refund";
 
       const { error } = await supabase.from("transactions").insert({
         child_id: effectiveChildId,
         appointment_id: null,
-        amount: values.amount,
-        type: "payment",
+        amount: values.kind === "adjustment" && values.direction === "decrease" ? -values.amount : values.amount,
+        type: values.kind,
         date: dateIso,
-        description,
+        description: values.description?.trim() || null,
+        payment_method: withMoney ? values.method : null,
+        payment_reference: withMoney ? values.reference?.trim() || null : null,
+        received_by: withMoney ? userId : null,
         created_by: userId,
       });
 
@@ -309,28 +363,41 @@ export function FinanceManager() {
     },
     onSuccess: async () => {
       setDrawerOpen(false);
-      paymentForm.reset({
-        amount: 0,
-        date: new Date().toISOString().slice(0, 10),
-        method: "card",
-        description: "",
-      });
+      operationForm.reset(operationDefaults());
       await queryClient.invalidateQueries({ queryKey: ["business", "transactions", effectiveChildId] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "cashRegister"] });
     },
     onError: (err: unknown) => {
-      setMessage(err instanceof Error ? err.message : "Не удалось добавить платёж");
+      setMessage(err instanceof Error ? err.message : "Не удалось добавить операцию");
     },
   });
 
-  const deletePaymentMutation = useMutation({
-    mutationFn: async (id: string) => {
+  const voidMutation = useMutation({
+    mutationFn: async () => {
       if (!supabase) throw new Error("Supabase не настроен");
-      const { error } = await supabase.from("transactions").delete().eq("id", id).eq("type", "payment");
+      if (!voidTarget) return;
+      setVoidError(null);
+      const { error } = await supabase.rpc("void_transaction", {
+        transaction_uuid: voidTarget.id,
+        reason: voidReason.trim(),
+      });
       if (error) throw error;
     },
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["business", "transactions", effectiveChildId] }),
+    onSuccess: async () => {
+      setVoidTarget(null);
+      setVoidReason("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "transactions", effectiveChildId] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "cashRegister"] });
+    },
+    onError: (err: unknown) => setVoidError(describeVoidError(err)),
   });
 
+  const openVoid = (t: TransactionRow) => {
+    setVoidError(null);
+    setVoidReason("");
+    setVoidTarget(t);
+  };
+
   return (
     <div className="grid gap-4">
       <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
@@ -339,12 +406,12 @@ export function FinanceManager() {
             <CreditCard className="size-5 text-muted-foreground" />
             <h1 className="truncate text-lg font-semibold leading-tight">Финансы</h1>
           </div>
-          <p className="text-sm text-muted-foreground">Баланс, начисления и платежи.</p>
+          <p className="text-sm text-muted-foreground">Баланс, начисления, платежи, возвраты и скидки.</p>
         </div>
 
         <Button type="button" className="h-10" onClick={() => setDrawerOpen(true)} disabled={!supabase || !effectiveChildId}>
           <Plus className="size-4" />
-          Добавить платёж
+          Добавить операцию
         </Button>
       </div>
 
@@ -392,24 +459,35 @@ export function FinanceManager() {
               </div>
               <div className="mt-1 text-xs text-muted-foreground">
                 {totals.balance < 0 ? "Отрицательный = долг" : "Положительный = предоплата"}
+                {totals.adjustments ? ` · корректировки ${moneyRu(totals.adjustments)}` : ""}
               </div>
             </div>
 
             <div className="rounded-xl border bg-card p-3">
               <div className="text-xs text-muted-foreground">Начислено</div>
               <div className="mt-1 text-lg font-semibold">{moneyRu(totals.charges)}</div>
-              <div className="mt-1 text-xs text-muted-foreground">По завершённым занятиям</div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {totals.discounts ? `С учётом скидок ${moneyRu(totals.discounts)}` : "Занятия, штрафы, абонементы"}
+              </div>
             </div>
 
             <div className="rounded-xl border bg-card p-3">
               <div className="text-xs text-muted-foreground">Оплачено</div>
               <div className="mt-1 text-lg font-semibold">{moneyRu(totals.payments)}</div>
-              <div className="mt-1 text-xs text-muted-foreground">Ручные платежи</div>
+              <div className="mt-1 text-xs text-muted-foreground">
+                {totals.refunds ? `За вычетом возвратов ${moneyRu(totals.refunds)}` : "Ручные платежи"}
+              </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      {effectiveChildId ? <ChildPackagesCard childId={effectiveChildId} /> : null}
+
+      {effectiveChildId ? <ChildDiscountsCard childId={effectiveChildId} /> : null}
+
+      {effectiveChildId ? <BillingDocumentsCard childId={effectiveChildId} scope="business" /> : null}
+
       <Card>
         <CardContent className="grid gap-3 p-4">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -450,11 +528,13 @@ export function FinanceManager() {
             </ResponsiveContainer>
           </div>
           <div className="text-xs text-muted-foreground">
-            Отчёт строится по начислениям (тип `charge`) за выбранный период.
+            Отчёт строится по начислениям (тип `charge`) за вычетом скидок за выбранный период.
           </div>
         </CardContent>
       </Card>
 
+      <CashRegisterReport />
+
       <Card>
         <CardContent className="grid gap-3 p-4">
           <div className="text-sm font-semibold">Операции</div>
@@ -466,13 +546,20 @@ export function FinanceManager() {
               </div>
             ) : (
               transactions.map((t) => (
-                <div key={t.id} className="rounded-xl border bg-card p-3">
+                <div key={t.id} className={cn("rounded-xl border bg-card p-3", t.voided_at && "opacity-60")}>
                   <div className="flex items-start justify-between gap-2">
                     <div className="min-w-0">
                       <div className="flex items-center gap-2">
-                        <Badge variant={typeBadgeVariant(t.type)}>{typeLabel(t.type)}</Badge>
-                        <div className={cn("text-sm font-semibold", t.type === "charge" && "text-destructive")}>
-                          {t.type === "charge" ? "-" : "+"}{moneyRu(t.amount)}
+                        <Badge variant={typeBadgeVariant(t.type)}>{transactionTypeLabel(t.type, t.fee_kind)}</Badge>
+                        {t.voided_at ? <Badge variant="outline">Аннулировано</Badge> : null}
+                        <div
+                          className={cn(
+                            "text-sm font-semibold",
+                            signedAmount(t.type, t.amount) < 0 && "text-destructive",
+                            t.voided_at && "line-through",
+                          )}
+                        >
+                          {signedMoneyRu(t)}
                         </div>
                       </div>
                       <div className="mt-1 text-xs text-muted-foreground">{dateTimeRu(t.date)}</div>
@@ -484,22 +571,27 @@ export function FinanceManager() {
                             : ""}
                         </div>
                       ) : null}
+                      {t.payment_method ? (
+                        <div className="mt-1 text-xs text-muted-foreground">{paymentDetails(t)}</div>
+                      ) : null}
                       {t.description ? (
                         <div className="mt-1 text-xs text-muted-foreground">{t.description}</div>
                       ) : null}
+                      {t.void_reason ? (
+                        <div className="mt-1 text-xs text-muted-foreground">Аннулировано: {t.void_reason}</div>
+                      ) : null}
                     </div>
 
-                    {t.type === "payment" ? (
+                    {canVoidTransaction(t) ? (
                       <Button
                         type="button"
                         variant="secondary"
                         size="icon"
                         className="h-10 w-10"
-                        onClick={() => deletePaymentMutation.mutate(t.id)}
-                        disabled={deletePaymentMutation.isPending}
-                        aria-label="Удалить платёж"
+                        onClick={() => openVoid(t)}
+                        aria-label="Аннулировать операцию"
                       >
-                        <Trash2 className="size-4" />
+                        <Ban className="size-4" />
                       </Button>
                     ) : null}
                   </div>
@@ -528,13 +620,22 @@ export function FinanceManager() {
                   </TableRow>
                 ) : (
                   transactions.map((t) => (
-                    <TableRow key={t.id}>
+                    <TableRow key={t.id} className={cn(t.voided_at && "opacity-60")}>
                       <TableCell className="whitespace-nowrap text-muted-foreground">{dateTimeRu(t.date)}</TableCell>
                       <TableCell>
-                        <Badge variant={typeBadgeVariant(t.type)}>{typeLabel(t.type)}</Badge>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={typeBadgeVariant(t.type)}>{transactionTypeLabel(t.type, t.fee_kind)}</Badge>
+                          {t.voided_at ? <Badge variant="outline">Аннулировано</Badge> : null}
+                        </div>
                       </TableCell>
-                      <TableCell className={cn("font-semibold", t.type === "charge" && "text-destructive")}>
-                        {t.type === "charge" ? "-" : "+"}{moneyRu(t.amount)}
+                      <TableCell
+                        className={cn(
+                          "font-semibold",
+                          signedAmount(t.type, t.amount) < 0 && "text-destructive",
+                          t.voided_at && "line-through",
+                        )}
+                      >
+                        {signedMoneyRu(t)}
                       </TableCell>
                       <TableCell className="text-muted-foreground">
                         {t.appointment?.service?.name ? (
@@ -544,24 +645,27 @@ export function FinanceManager() {
                               ? ` · ${t.appointment.specialist?.full_name || t.appointment.specialist?.email}`
                               : ""}
                           </div>
-                        ) : t.description ? (
-                          <div className="truncate">{t.description}</div>
-                        ) : (
+                        ) : t.payment_method ? (
+                          <div className="truncate">{paymentDetails(t)}</div>
+                        ) : null}
+                        {t.description ? <div className="truncate text-xs">{t.description}</div> : null}
+                        {t.void_reason ? (
+                          <div className="truncate text-xs">Аннулировано: {t.void_reason}</div>
+                        ) : !t.appointment?.service?.name && !t.payment_method && !t.description ? (
                           "—"
-                        )}
+                        ) : null}
                       </TableCell>
                       <TableCell>
-                        {t.type === "payment" ? (
+                        {canVoidTransaction(t) ? (
                           <Button
                             type="button"
                             variant="secondary"
                             size="icon"
                             className="h-9 w-9"
-                            onClick={() => deletePaymentMutation.mutate(t.id)}
-                            disabled={deletePaymentMutation.isPending}
-                            aria-label="Удалить платёж"
+                            onClick={() => openVoid(t)}
+                            aria-label="Аннулировать операцию"
                           >
-                            <Trash2 className="size-4" />
+                            <Ban className="size-4" />
                           </Button>
                         ) : null}
                       </TableCell>
@@ -577,14 +681,42 @@ export function FinanceManager() {
       <Drawer open={drawerOpen} onOpenChange={setDrawerOpen}>
         <DrawerContent className="mx-auto w-full max-w-xl">
           <DrawerHeader className="pb-2">
-            <DrawerTitle className="text-lg">Добавить платёж</DrawerTitle>
+            <DrawerTitle className="text-lg">Добавить операцию</DrawerTitle>
           </DrawerHeader>
           <div className="px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
-            <Form {...paymentForm}>
-              <form className="grid gap-4" onSubmit={paymentForm.handleSubmit((v) => addPaymentMutation.mutate(v))}>
+            <Form {...operationForm}>
+              <form
+                className="grid gap-4"
+                onSubmit={operationForm.handleSubmit((v) => addOperationMutation.mutate(v))}
+              >
+                <FormField
+                  control={operationForm.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Операция</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {operationKindOptions.map((o) => (
+                            <SelectItem key={o.value} value={o.value}>
+                              {o.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid gap-3 sm:grid-cols-2">
                   <FormField
-                    control={paymentForm.control}
+                    control={operationForm.control}
                     name="amount"
                     render={({ field }) => (
                       <FormItem>
@@ -615,7 +747,7 @@ export function FinanceManager() {
                   />
 
                   <FormField
-                    control={paymentForm.control}
+                    control={operationForm.control}
                     name="date"
                     render={({ field }) => (
                       <FormItem>
@@ -629,37 +761,85 @@ export function FinanceManager() {
                   />
                 </div>
 
-                <FormField
-                  control={paymentForm.control}
-                  name="method"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Способ</FormLabel>
-                      <Select value={field.value} onValueChange={field.onChange}>
-                        <FormControl>
-                          <SelectTrigger className="h-11">
-                            <SelectValue />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="cash">Наличные</SelectItem>
-                          <SelectItem value="card">Карта</SelectItem>
-                          <SelectItem value="transfer">Перевод</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                {withMethod ? (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <FormField
+                      control={operationForm.control}
+                      name="method"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Способ</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger className="h-11">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {paymentMethodOptions.map((o) => (
+                                <SelectItem key={o.value} value={o.value}>
+                                  {o.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={operationForm.control}
+                      name="reference"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>№ чека / перевода</FormLabel>
+                          <FormControl>
+                            <Input className="h-11" placeholder="Опционально" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                ) : null}
+
+                {operationKind === "adjustment" ? (
+                  <FormField
+                    control={operationForm.control}
+                    name="direction"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Направление</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger className="h-11">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="increase">Увеличить баланс (в пользу клиента)</SelectItem>
+                            <SelectItem value="decrease">Уменьшить баланс (доначислить)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : null}
 
                 <FormField
-                  control={paymentForm.control}
+                  control={operationForm.control}
                   name="description"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Комментарий (опционально)</FormLabel>
+                      <FormLabel>
+                        {operationKind === "adjustment" || operationKind === "discount"
+                          ? "Причина"
+                          : "Комментарий (опционально)"}
+                      </FormLabel>
                       <FormControl>
-                        <Textarea placeholder="Например: чек №123, оплата за декабрь…" {...field} />
+                        <Textarea placeholder="Например: оплата за декабрь…" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -672,7 +852,7 @@ export function FinanceManager() {
                   <Button type="button" variant="secondary" className="h-11" onClick={() => setDrawerOpen(false)}>
                     Отмена
                   </Button>
-                  <Button type="submit" className="h-11" disabled={addPaymentMutation.isPending}>
+                  <Button type="submit" className="h-11" disabled={addOperationMutation.isPending}>
                     Сохранить
                   </Button>
                 </div>
@@ -681,6 +861,66 @@ export function FinanceManager() {
           </div>
         </DrawerContent>
       </Drawer>
+
+      <Drawer
+        open={Boolean(voidTarget)}
+        onOpenChange={(open) => {
+          if (!open) setVoidTarget(null);
+        }}
+      >
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Аннулировать операцию</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {voidTarget ? (
+              <div className="rounded-xl border bg-card p-3 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={typeBadgeVariant(voidTarget.type)}>
+                    {transactionTypeLabel(voidTarget.type, voidTarget.fee_kind)}
+                  </Badge>
+                  <span className="font-semibold">{signedMoneyRu(voidTarget)}</span>
+                </div>
+                <div className="mt-1 text-xs text-muted-foreground">{dateTimeRu(voidTarget.date)}</div>
+                {voidTarget.description ? (
+                  <div className="mt-1 text-xs text-muted-foreground">{voidTarget.description}</div>
+                ) : null}
+              </div>
+            ) : null}
+
+            <div className="text-xs text-muted-foreground">
+              Операция останется в истории с пометкой «Аннулировано» и перестанет влиять на баланс.
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Причина</div>
+              <Textarea
+                placeholder="Например: платёж внесён ошибочно"
+                value={voidReason}
+                onChange={(e) => setVoidReason(e.target.value)}
+              />
+            </div>
+
+            {voidError ? <div className="text-sm text-destructive">{voidError}</div> : null}
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setVoidTarget(null)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => voidMutation.mutate()}
+                disabled={!voidReason.trim() || voidMutation.isPending}
+              >
+                Аннулировать
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
     </div>
   );
 }
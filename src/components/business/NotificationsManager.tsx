@@ -0,0 +1,663 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BellRing, Pencil, Send } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  notificationChannelLabel,
+  notificationChannelOptions,
+  notificationErrorLabel,
+  notificationEventLabel,
+  notificationEventOptions,
+  notificationPlaceholders,
+  notificationStatusLabel,
+  notificationStatusOptions,
+} from "@/lib/notifications";
+import { supabase } from "@/lib/supabase/client";
+import type {
+  CenterSettings,
+  NotificationChannel,
+  NotificationContact,
+  NotificationStatus,
+  NotificationTemplate,
+  Profile,
+  QueuedNotification,
+} from "@/types/models";
+
+type ParentRow = Pick<Profile, "id" | "full_name" | "email"> & { contact: NotificationContact | null };
+
+type QueueRow = QueuedNotification & { child?: { name: string } | null };
+
+type ContactDraft = {
+  profileId: string;
+  name: string;
+  channel: NotificationChannel | "default";
+  phone: string;
+  telegramChatId: string;
+  optedOut: boolean;
+};
+
+const ALL_STATUSES = "all";
+
+async function fetchDeliverySettings(): Promise<Pick<CenterSettings, "notification_channel" | "reminder_send_time"> | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("center_settings")
+    .select("notification_channel,reminder_send_time")
+    .maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as Pick<CenterSettings, "notification_channel" | "reminder_send_time"> | null;
+}
+
+async function fetchTemplates(): Promise<NotificationTemplate[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("notification_templates").select("*");
+  if (error) throw error;
+  const order = notificationEventOptions.map((o) => o.value);
+  return ((data ?? []) as NotificationTemplate[]).sort((a, b) => order.indexOf(a.event) - order.indexOf(b.event));
+}
+
+async function fetchParents(): Promise<ParentRow[]> {
+  if (!supabase) return [];
+  const [{ data: profiles, error: profilesError }, { data: contacts, error: contactsError }] = await Promise.all([
+    supabase.from("profiles").select("id,full_name,email").eq("role", "parent").order("full_name", { ascending: true }),
+    supabase.from("notification_contacts").select("*"),
+  ]);
+  if (profilesError) throw profilesError;
+  if (contactsError) throw contactsError;
+  const byProfile = new Map(((contacts ?? []) as NotificationContact[]).map((c) => [c.profile_id, c]));
+  return ((profiles ?? []) as Array<Pick<Profile, "id" | "full_name" | "email">>).map((p) => ({
+    ...p,
+    contact: byProfile.get(p.id) ?? null,
+  }));
+}
+
+async function fetchQueue(status: string): Promise<QueueRow[]> {
+  if (!supabase) return [];
+  let query = supabase
+    .from("notification_queue")
+    .select("*, child:children(name)")
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (status !== ALL_STATUSES) query = query.eq("status", status);
+  const { data, error } = await query;
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as QueueRow),
+    child: normalizeOne<{ name: string }>(r.child),
+  }));
+}
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function statusVariant(status: NotificationStatus) {
+  if (status === "sent") return "secondary" as const;
+  if (status === "failed") return "destructive" as const;
+  return "outline" as const;
+}
+
+function contactSummary(p: ParentRow) {
+  const c = p.contact;
+  if (c?.opted_out) return "Отказ от уведомлений";
+  const parts = [c?.phone, c?.telegram_chat_id ? `tg: ${c.telegram_chat_id}` : null].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "Контакт не указан";
+}
+
+export function NotificationsManager() {
+  const queryClient = useQueryClient();
+
+  const [statusFilter, setStatusFilter] = useState(ALL_STATUSES);
+  const [templateDrafts, setTemplateDrafts] = useState<Record<string, string>>({});
+  const [settingsDraft, setSettingsDraft] = useState<{ channel: NotificationChannel; time: string } | null>(null);
+  const [contactDraft, setContactDraft] = useState<ContactDraft | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  const settingsQuery = useQuery({
+    queryKey: ["business", "notificationSettings"],
+    queryFn: fetchDeliverySettings,
+    enabled: Boolean(supabase),
+  });
+
+  const templatesQuery = useQuery({
+    queryKey: ["business", "notificationTemplates"],
+    queryFn: fetchTemplates,
+    enabled: Boolean(supabase),
+  });
+
+  const parentsQuery = useQuery({
+    queryKey: ["business", "notificationContacts"],
+    queryFn: fetchParents,
+    enabled: Boolean(supabase),
+  });
+
+  const queueQuery = useQuery({
+    queryKey: ["business", "notificationQueue", statusFilter],
+    queryFn: () => fetchQueue(statusFilter),
+    enabled: Boolean(supabase),
+  });
+
+  const templates = templatesQuery.data ?? [];
+  const parents = parentsQuery.data ?? [];
+  const queue = queueQuery.data ?? [];
+  const settings = settingsDraft ?? {
+    channel: settingsQuery.data?.notification_channel ?? "whatsapp",
+    time: (settingsQuery.data?.reminder_send_time ?? "18:00").slice(0, 5),
+  };
+
+  const reportError = (fallback: string) => (err: unknown) => {
+    setInfo(null);
+    setMessage(err instanceof Error ? err.message : fallback);
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase
+        .from("center_settings")
+        .update({ notification_channel: settings.channel, reminder_send_time: settings.time })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setSettingsDraft(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationSettings"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "centerSettings"] });
+    },
+    onError: reportError("Не удалось сохранить настройки"),
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (input: { event: NotificationTemplate["event"]; body?: string; is_active?: boolean }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (input.body !== undefined && !input.body.trim()) throw new Error("Текст шаблона пуст");
+      setMessage(null);
+      const patch: Partial<NotificationTemplate> = {};
+      if (input.body !== undefined) patch.body = input.body.trim();
+      if (input.is_active !== undefined) patch.is_active = input.is_active;
+      const { error } = await supabase.from("notification_templates").update(patch).eq("event", input.event);
+      if (error) throw error;
+    },
+    onSuccess: async (_data, input) => {
+      setTemplateDrafts((cur) => {
+        const next = { ...cur };
+        delete next[input.event];
+        return next;
+      });
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationTemplates"] });
+    },
+    onError: reportError("Не удалось сохранить шаблон"),
+  });
+
+  const saveContactMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!contactDraft) return;
+      setMessage(null);
+      const { error } = await supabase.from("notification_contacts").upsert(
+        {
+          profile_id: contactDraft.profileId,
+          channel: contactDraft.channel === "default" ? null : contactDraft.channel,
+          phone: contactDraft.phone.trim() || null,
+          telegram_chat_id: contactDraft.telegramChatId.trim() || null,
+          opted_out: contactDraft.optedOut,
+        },
+        { onConflict: "profile_id" },
+      );
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setContactDraft(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationContacts"] });
+    },
+    onError: reportError("Не удалось сохранить контакт"),
+  });
+
+  const enqueueMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { data, error } = await supabase.rpc("enqueue_appointment_reminders");
+      if (error) throw error;
+      return Number(data ?? 0);
+    },
+    onSuccess: async (count) => {
+      setInfo(count > 0 ? `Поставлено в очередь: ${count}` : "Новых напоминаний на завтра нет");
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationQueue"] });
+    },
+    onError: reportError("Не удалось сформировать напоминания"),
+  });
+
+  const dispatchMutation = useMutation({
+    mutationFn: async () => {
+      setMessage(null);
+      const res = await fetch("/api/notifications/dispatch", { method: "POST" });
+      const json = (await res.json().catch(() => null)) as
+        | { error?: string; sent?: number; failed?: number; retried?: number }
+        | null;
+      if (!res.ok) throw new Error(json?.error || "Не удалось отправить очередь");
+      return json;
+    },
+    onSuccess: async (json) => {
+      setInfo(`Отправлено: ${json?.sent ?? 0}, ошибок: ${json?.failed ?? 0}, повтор позже: ${json?.retried ?? 0}`);
+      await queryClient.invalidateQueries({ queryKey: ["business", "notificationQueue"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "appointmentNotifications"] });
+    },
+    onError: reportError("Не удалось отправить очередь"),
+  });
+
+  const queueActionMutation = useMutation({
+    mutationFn: async (input: { id: string; action: "cancel" | "retry" }) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const patch =
+        input.action === "cancel"
+          ? { status: "canceled" }
+          : { status: "queued", attempts: 0, last_error: null, scheduled_at: new Date().toISOString() };
+      const { error } = await supabase.from("notification_queue").update(patch).eq("id", input.id);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["business", "notificationQueue"] }),
+    onError: reportError("Не удалось изменить сообщение"),
+  });
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <BellRing className="size-5 text-muted-foreground" />
+            <h1 className="truncate text-lg font-semibold leading-tight">Уведомления</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">Шаблоны, контакты родителей и очередь исходящих сообщений.</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            className="h-10"
+            onClick={() => enqueueMutation.mutate()}
+            disabled={!supabase || enqueueMutation.isPending}
+          >
+            Напоминания на завтра
+          </Button>
+          <Button
+            type="button"
+            className="h-10"
+            onClick={() => dispatchMutation.mutate()}
+            disabled={!supabase || dispatchMutation.isPending}
+          >
+            <Send className="size-4" />
+            Отправить очередь
+          </Button>
+        </div>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Демо-режим</AlertTitle>
+          <AlertDescription>Уведомления доступны после подключения Supabase.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+      {info ? <div className="rounded-lg border bg-card p-3 text-sm">{info}</div> : null}
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Настройки отправки</div>
+          <div className="grid gap-3 sm:grid-cols-[1fr_160px_auto] sm:items-end">
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Канал по умолчанию</div>
+              <Select
+                value={settings.channel}
+                onValueChange={(v) => setSettingsDraft({ ...settings, channel: v as NotificationChannel })}
+              >
+                <SelectTrigger className="h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {notificationChannelOptions.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Напоминать накануне в</div>
+              <Input
+                className="h-11"
+                type="time"
+                value={settings.time}
+                onChange={(e) => setSettingsDraft({ ...settings, time: e.target.value })}
+              />
+            </div>
+            <Button
+              type="button"
+              className="h-11"
+              onClick={() => saveSettingsMutation.mutate()}
+              disabled={!settingsDraft || saveSettingsMutation.isPending}
+            >
+              Сохранить
+            </Button>
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Напоминания ставятся для записей «Ожидает» и «Подтверждено». Перенос или отмена будущей записи отправляет
+            родителю отдельное сообщение.
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Шаблоны</div>
+          <div className="text-xs text-muted-foreground">Подстановки: {notificationPlaceholders.join(", ")}</div>
+          <Separator />
+          {templates.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{templatesQuery.isLoading ? "Загрузка…" : "Шаблонов нет"}</div>
+          ) : (
+            <div className="grid gap-3">
+              {templates.map((t) => {
+                const draft = templateDrafts[t.event];
+                return (
+                  <div key={t.event} className="grid gap-2 rounded-xl border bg-card p-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm font-semibold">{notificationEventLabel(t.event)}</div>
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={t.is_active}
+                          onCheckedChange={(v) => saveTemplateMutation.mutate({ event: t.event, is_active: v === true })}
+                          disabled={saveTemplateMutation.isPending}
+                        />
+                        Отправлять
+                      </label>
+                    </div>
+                    <Textarea
+                      rows={3}
+                      value={draft ?? t.body}
+                      onChange={(e) => setTemplateDrafts((cur) => ({ ...cur, [t.event]: e.target.value }))}
+                    />
+                    {draft !== undefined && draft !== t.body ? (
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          className="h-9"
+                          onClick={() => saveTemplateMutation.mutate({ event: t.event, body: draft })}
+                          disabled={saveTemplateMutation.isPending}
+                        >
+                          Сохранить шаблон
+                        </Button>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Контакты родителей</div>
+          <div className="overflow-x-auto rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Родитель</TableHead>
+                  <TableHead>Канал</TableHead>
+                  <TableHead>Контакт</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {parents.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-muted-foreground">
+                      {parentsQuery.isLoading ? "Загрузка…" : "Родителей нет"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  parents.map((p) => (
+                    <TableRow key={p.id}>
+                      <TableCell>
+                        <div className="font-medium">{p.full_name || "—"}</div>
+                        <div className="text-xs text-muted-foreground">{p.email}</div>
+                      </TableCell>
+                      <TableCell>{notificationChannelLabel(p.contact?.channel)}</TableCell>
+                      <TableCell className={p.contact?.opted_out ? "text-destructive" : "text-muted-foreground"}>
+                        {contactSummary(p)}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Изменить контакт"
+                          onClick={() => {
+                            setMessage(null);
+                            setContactDraft({
+                              profileId: p.id,
+                              name: p.full_name || p.email,
+                              channel: p.contact?.channel ?? "default",
+                              phone: p.contact?.phone ?? "",
+                              telegramChatId: p.contact?.telegram_chat_id ?? "",
+                              optedOut: p.contact?.opted_out ?? false,
+                            });
+                          }}
+                        >
+                          <Pencil className="size-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-sm font-semibold">Очередь</div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="h-9 w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>Все статусы</SelectItem>
+                {notificationStatusOptions.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Separator />
+          {queue.length === 0 ? (
+            <div className="text-sm text-muted-foreground">{queueQuery.isLoading ? "Загрузка…" : "Сообщений нет"}</div>
+          ) : (
+            <div className="grid gap-2">
+              {queue.map((q) => (
+                <div key={q.id} className="grid gap-1 rounded-xl border bg-card p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 text-sm font-semibold">
+                      {q.child?.name ?? "—"}
+                      <Badge variant="outline">{notificationEventLabel(q.event)}</Badge>
+                      <Badge variant={statusVariant(q.status)}>{notificationStatusLabel(q.status)}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {dateTimeRu(q.sent_at ?? q.scheduled_at)} · {notificationChannelLabel(q.channel)}
+                      {q.recipient ? ` · ${q.recipient}` : ""}
+                    </div>
+                  </div>
+                  <div className="text-sm text-muted-foreground">{q.body}</div>
+                  {q.last_error ? (
+                    <div className="text-xs text-destructive">{notificationErrorLabel(q.last_error)}</div>
+                  ) : null}
+                  {q.status === "queued" || q.status === "failed" ? (
+                    <div className="flex justify-end gap-2">
+                      {q.status === "failed" ? (
+                        <Button
+                          type="button"
+                          variant="secondary"
+                          className="h-8"
+                          onClick={() => queueActionMutation.mutate({ id: q.id, action: "retry" })}
+                          disabled={queueActionMutation.isPending}
+                        >
+                          Повторить
+                        </Button>
+                      ) : null}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="h-8"
+                        onClick={() => queueActionMutation.mutate({ id: q.id, action: "cancel" })}
+                        disabled={queueActionMutation.isPending}
+                      >
+                        Отменить
+                      </Button>
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Drawer
+        open={Boolean(contactDraft)}
+        onOpenChange={(open) => {
+          if (!open) setContactDraft(null);
+        }}
+      >
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Контакт для уведомлений</DrawerTitle>
+          </DrawerHeader>
+          {contactDraft ? (
+            <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+              {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+              <div className="text-sm font-semibold">{contactDraft.name}</div>
+
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Канал</div>
+                <Select
+                  value={contactDraft.channel}
+                  onValueChange={(v) => setContactDraft({ ...contactDraft, channel: v as ContactDraft["channel"] })}
+                >
+                  <SelectTrigger className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">По умолчанию ({notificationChannelLabel(settings.channel)})</SelectItem>
+                    {notificationChannelOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="grid gap-2">
+                  <div className="text-sm font-medium">Телефон (SMS / WhatsApp)</div>
+                  <Input
+                    className="h-11"
+                    inputMode="tel"
+                    placeholder="+996…"
+                    value={contactDraft.phone}
+                    onChange={(e) => setContactDraft({ ...contactDraft, phone: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <div className="text-sm font-medium">Telegram chat id</div>
+                  <Input
+                    className="h-11"
+                    value={contactDraft.telegramChatId}
+                    onChange={(e) => setContactDraft({ ...contactDraft, telegramChatId: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={contactDraft.optedOut}
+                  onCheckedChange={(v) => setContactDraft({ ...contactDraft, optedOut: v === true })}
+                />
+                Родитель отказался от уведомлений
+              </label>
+
+              <div className="text-xs text-muted-foreground">Для email используется адрес учётной записи родителя.</div>
+
+              <Separator />
+
+              <div className="flex items-center justify-end gap-2">
+                <Button type="button" variant="secondary" className="h-11" onClick={() => setContactDraft(null)}>
+                  Отмена
+                </Button>
+                <Button
+                  type="button"
+                  className="h-11"
+                  onClick={() => saveContactMutation.mutate()}
+                  disabled={saveContactMutation.isPending}
+                >
+                  Сохранить
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </DrawerContent>
+      </Drawer>
+    </div>
+  );
+}
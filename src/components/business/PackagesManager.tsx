@@ -0,0 +1,439 @@
+"use client";
+
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Package, Plus, Save, Trash2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabase/client";
+import type { Service, ServicePackage } from "@/types/models";
+
+type ServiceLite = Pick<Service, "id" | "name">;
+
+const packageSchema = z.object({
+  name: z.string().trim().min(1, "Введите название").max(120),
+  service_id: z.string().uuid("Выберите услугу"),
+  sessions_count: z.coerce.number().int().min(1, "Минимум 1 занятие").max(200),
+  price: z.coerce.number().min(0, "Цена не может быть отрицательной").max(10_000_000),
+  validity_days: z.coerce.number().int().min(1, "Минимум 1 день").max(366, "Не больше года"),
+  is_active: z.boolean().default(true),
+});
+
+type PackageFormValues = z.input<typeof packageSchema>;
+type PackageValues = z.output<typeof packageSchema>;
+
+const EMPTY_PACKAGE: PackageFormValues = {
+  name: "",
+  service_id: "",
+  sessions_count: 8,
+  price: 0,
+  validity_days: 30,
+  is_active: true,
+};
+
+async function fetchPackages(): Promise<ServicePackage[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("service_packages").select("*").order("name", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as ServicePackage[]).map((p) => ({ ...p, price: Number(p.price) }));
+}
+
+async function fetchServicesLite(): Promise<ServiceLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("services").select("id,name").order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ServiceLite[];
+}
+
+async function upsertPackage(values: PackageValues & { id?: string }): Promise<void> {
+  if (!supabase) throw new Error("Supabase не настроен");
+  const payload = {
+    name: values.name,
+    service_id: values.service_id,
+    sessions_count: values.sessions_count,
+    price: values.price,
+    validity_days: values.validity_days,
+    is_active: values.is_active,
+  };
+  if (values.id) {
+    const { error } = await supabase.from("service_packages").update(payload).eq("id", values.id);
+    if (error) throw error;
+    return;
+  }
+  const { error } = await supabase.from("service_packages").insert(payload);
+  if (error) throw error;
+}
+
+async function deletePackage(id: string): Promise<void> {
+  if (!supabase) throw new Error("Supabase не настроен");
+  const { error } = await supabase.from("service_packages").delete().eq("id", id);
+  if (error) throw error;
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function numberFieldValue(v: unknown) {
+  if (typeof v === "number") return v;
+  return Number.isFinite(Number(v)) ? Number(v) : 0;
+}
+
+export function PackagesManager() {
+  const queryClient = useQueryClient();
+
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [editing, setEditing] = useState<ServicePackage | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const packagesQuery = useQuery({
+    queryKey: ["business", "packages"],
+    queryFn: fetchPackages,
+    enabled: Boolean(supabase),
+  });
+
+  const servicesQuery = useQuery({
+    queryKey: ["business", "services-names"],
+    queryFn: fetchServicesLite,
+    enabled: Boolean(supabase),
+  });
+
+  const packages = packagesQuery.data ?? [];
+  const services = servicesQuery.data ?? [];
+  const serviceName = (id: string) => services.find((s) => s.id === id)?.name ?? "—";
+
+  const form = useForm<PackageFormValues, unknown, PackageValues>({
+    resolver: zodResolver(packageSchema),
+    defaultValues: EMPTY_PACKAGE,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setMessage(null);
+    form.reset({ ...EMPTY_PACKAGE, service_id: services[0]?.id ?? "" });
+    setDrawerOpen(true);
+  };
+
+  const openEdit = (p: ServicePackage) => {
+    setEditing(p);
+    setMessage(null);
+    form.reset({
+      name: p.name,
+      service_id: p.service_id,
+      sessions_count: p.sessions_count,
+      price: p.price,
+      validity_days: p.validity_days,
+      is_active: p.is_active,
+    });
+    setDrawerOpen(true);
+  };
+
+  const upsertMutation = useMutation({
+    mutationFn: async (values: PackageValues) => {
+      setMessage(null);
+      await upsertPackage({ ...values, id: editing?.id });
+    },
+    onSuccess: async () => {
+      setDrawerOpen(false);
+      setEditing(null);
+      await queryClient.invalidateQueries({ queryKey: ["business", "packages"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось сохранить абонемент");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePackage,
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["business", "packages"] });
+    },
+  });
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <Package className="size-5 text-muted-foreground" />
+            <h1 className="text-xl font-semibold">Абонементы</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Пакеты занятий по услуге: количество, цена и срок действия. Продажа — в разделе «Финансы».
+          </p>
+        </div>
+        <Button type="button" className="h-11" onClick={openCreate} disabled={!supabase || services.length === 0}>
+          <Plus className="size-4" />
+          Добавить
+        </Button>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Нет подключения к Supabase</AlertTitle>
+          <AlertDescription>Настройте переменные окружения и миграции, чтобы управлять абонементами.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Список</div>
+          <Separator />
+
+          {packages.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {packagesQuery.isLoading ? "Загрузка…" : "Пока нет абонементов"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border bg-card">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Название</TableHead>
+                    <TableHead>Услуга</TableHead>
+                    <TableHead>Занятий</TableHead>
+                    <TableHead>Цена</TableHead>
+                    <TableHead>Срок</TableHead>
+                    <TableHead className="w-[200px]">Действия</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {packages.map((p) => (
+                    <TableRow key={p.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {p.name}
+                          {p.is_active ? null : <Badge variant="outline">Не продаётся</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{serviceName(p.service_id)}</TableCell>
+                      <TableCell className="text-muted-foreground">{p.sessions_count}</TableCell>
+                      <TableCell className="text-muted-foreground">{moneyRu(p.price)}</TableCell>
+                      <TableCell className="text-muted-foreground">{p.validity_days} дн.</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Button type="button" variant="secondary" className="h-9" onClick={() => openEdit(p)}>
+                            Редактировать
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="icon"
+                            className="h-9 w-9"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              const ok = window.confirm(`Удалить абонемент “${p.name}”? Проданные абонементы останутся.`);
+                              if (ok) deleteMutation.mutate(p.id);
+                            }}
+                            aria-label="Удалить"
+                          >
+                            <Trash2 className="size-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Drawer open={drawerOpen} onOpenChange={setDrawerOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">{editing ? "Редактирование абонемента" : "Новый абонемент"}</DrawerTitle>
+          </DrawerHeader>
+          <div className="px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? (
+              <div className="mb-3 rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
+            ) : null}
+
+            <Form {...form}>
+              <form className="grid gap-4" onSubmit={form.handleSubmit((values) => upsertMutation.mutate(values))}>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Название</FormLabel>
+                      <FormControl>
+                        <Input className="h-11" placeholder="Например: ABA — 8 занятий в месяц" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="service_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Услуга</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="h-11">
+                            <SelectValue placeholder="Выберите услугу" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {services.map((s) => (
+                            <SelectItem key={s.id} value={s.id}>
+                              {s.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid gap-3 sm:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="sessions_count"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Занятий</FormLabel>
+                        <FormControl>
+                          <Input
+                            className="h-11"
+                            type="number"
+                            inputMode="numeric"
+                            min={1}
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            value={numberFieldValue(field.value)}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Цена</FormLabel>
+                        <FormControl>
+                          <Input
+                            className="h-11"
+                            type="number"
+                            inputMode="decimal"
+                            min={0}
+                            step={50}
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            value={numberFieldValue(field.value)}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="validity_days"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Срок, дней</FormLabel>
+                        <FormControl>
+                          <Input
+                            className="h-11"
+                            type="number"
+                            inputMode="numeric"
+                            min={1}
+                            name={field.name}
+                            ref={field.ref}
+                            onBlur={field.onBlur}
+                            value={numberFieldValue(field.value)}
+                            onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="is_active"
+                  render={({ field }) => (
+                    <div className="flex items-center justify-between gap-3 rounded-xl border bg-card p-3">
+                      <div className="text-sm font-semibold">Доступен для продажи</div>
+                      <Checkbox checked={field.value} onCheckedChange={(v) => field.onChange(Boolean(v))} />
+                    </div>
+                  )}
+                />
+
+                <div className="flex items-center justify-end gap-2">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    className="h-11"
+                    onClick={() => setDrawerOpen(false)}
+                    disabled={upsertMutation.isPending}
+                  >
+                    Отмена
+                  </Button>
+                  <Button type="submit" className="h-11" disabled={upsertMutation.isPending}>
+                    <Save className="size-4" />
+                    Сохранить
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </div>
+  );
+}
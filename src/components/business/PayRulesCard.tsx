@@ -0,0 +1,355 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { PayRuleKind, Profile, Service, SpecialistPayRule } from "@/types/models";
+
+type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
+type ServiceLite = Pick<Service, "id" | "name">;
+
+const ALL_SERVICES = "all";
+
+export const payRuleKindOptions: Array<{ value: PayRuleKind; label: string }> = [
+  { value: "per_session", label: "Фикс за занятие" },
+  { value: "percent", label: "% от цены услуги" },
+  { value: "hourly", label: "Почасовая ставка" },
+];
+
+export function payRuleKindLabel(kind: PayRuleKind | null) {
+  if (!kind) return "Нет правила";
+  return payRuleKindOptions.find((o) => o.value === kind)?.label ?? kind;
+}
+
+export function payRuleAmountLabel(kind: PayRuleKind | null, amount: number | null) {
+  if (!kind || amount === null) return "—";
+  if (kind === "percent") return `${amount}%`;
+  const value = Math.round(amount).toLocaleString("ru-RU");
+  return kind === "hourly" ? `${value} сом/час` : `${value} сом`;
+}
+
+async function fetchPayRules(): Promise<SpecialistPayRule[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("specialist_pay_rules")
+    .select("*")
+    .order("effective_from", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as SpecialistPayRule[]).map((r) => ({ ...r, amount: Number(r.amount) }));
+}
+
+async function fetchTherapists(): Promise<TherapistLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id,full_name,email")
+    .eq("role", "therapist")
+    .order("full_name", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as TherapistLite[]).filter((t) => t.id);
+}
+
+async function fetchServicesLite(): Promise<ServiceLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("services").select("id,name").order("name", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ServiceLite[];
+}
+
+function dateRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+// Для занятия берётся правило по его услуге, иначе общее; из нескольких — самое позднее вступившее в силу.
+export function PayRulesCard() {
+  const queryClient = useQueryClient();
+
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [specialistId, setSpecialistId] = useState("");
+  const [serviceId, setServiceId] = useState(ALL_SERVICES);
+  const [kind, setKind] = useState<PayRuleKind>("per_session");
+  const [amount, setAmount] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState(() => localDateKey(new Date()));
+  const [message, setMessage] = useState<string | null>(null);
+
+  const rulesQuery = useQuery({
+    queryKey: ["business", "payRules"],
+    queryFn: fetchPayRules,
+    enabled: Boolean(supabase),
+  });
+
+  const therapistsQuery = useQuery({
+    queryKey: ["business", "therapists"],
+    queryFn: fetchTherapists,
+    enabled: Boolean(supabase),
+  });
+
+  const servicesQuery = useQuery({
+    queryKey: ["business", "services-names"],
+    queryFn: fetchServicesLite,
+    enabled: Boolean(supabase),
+  });
+
+  const rules = rulesQuery.data ?? [];
+  const therapists = therapistsQuery.data ?? [];
+  const services = servicesQuery.data ?? [];
+
+  const therapistName = (id: string) => {
+    const t = therapists.find((x) => x.id === id);
+    return t ? t.full_name || t.email : "Специалист";
+  };
+  const serviceName = (id: string | null) =>
+    id ? (services.find((s) => s.id === id)?.name ?? "Услуга") : "Все услуги";
+
+  const sortedRules = [...rules].sort(
+    (a, b) =>
+      therapistName(a.specialist_id).localeCompare(therapistName(b.specialist_id), "ru") ||
+      b.effective_from.localeCompare(a.effective_from),
+  );
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const value = Number(amount);
+      if (!specialistId) throw new Error("Выберите специалиста");
+      if (!Number.isFinite(value) || value <= 0) throw new Error("Укажите ставку больше нуля");
+      if (kind === "percent" && value > 100) throw new Error("Процент — не больше 100");
+      setMessage(null);
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const { error } = await supabase.from("specialist_pay_rules").insert({
+        specialist_id: specialistId,
+        service_id: serviceId === ALL_SERVICES ? null : serviceId,
+        kind,
+        amount: value,
+        effective_from: effectiveFrom,
+        created_by: sessionData.session?.user?.id ?? null,
+      });
+      if (error) {
+        if (error.code === "23505") throw new Error("Правило для этой услуги с этой даты уже есть");
+        throw error;
+      }
+    },
+    onSuccess: async () => {
+      setDrawerOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["business", "payRules"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "payroll"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(err instanceof Error ? err.message : "Не удалось добавить правило");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const { error } = await supabase.from("specialist_pay_rules").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["business", "payRules"] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "payroll"] });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm font-semibold">Правила оплаты</div>
+          <Button
+            type="button"
+            variant="secondary"
+            className="h-10"
+            onClick={() => {
+              setMessage(null);
+              setAmount("");
+              setEffectiveFrom(localDateKey(new Date()));
+              setDrawerOpen(true);
+            }}
+            disabled={!supabase}
+          >
+            <Plus className="size-4" />
+            Добавить
+          </Button>
+        </div>
+
+        <div className="overflow-x-auto rounded-lg border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Специалист</TableHead>
+                <TableHead>Услуга</TableHead>
+                <TableHead>Схема</TableHead>
+                <TableHead className="text-right">Ставка</TableHead>
+                <TableHead>С даты</TableHead>
+                <TableHead className="w-[1%]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRules.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-muted-foreground">
+                    {rulesQuery.isLoading ? "Загрузка…" : "Правил нет — оплата не рассчитывается"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sortedRules.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-medium">{therapistName(r.specialist_id)}</TableCell>
+                    <TableCell className="text-muted-foreground">{serviceName(r.service_id)}</TableCell>
+                    <TableCell>{payRuleKindLabel(r.kind)}</TableCell>
+                    <TableCell className="text-right">{payRuleAmountLabel(r.kind, r.amount)}</TableCell>
+                    <TableCell className="whitespace-nowrap text-muted-foreground">{dateRu(r.effective_from)}</TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Удалить правило"
+                        onClick={() => deleteMutation.mutate(r.id)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="size-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Drawer open={drawerOpen} onOpenChange={setDrawerOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Новое правило оплаты</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? (
+              <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
+            ) : null}
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Специалист</div>
+              <Select value={specialistId} onValueChange={setSpecialistId}>
+                <SelectTrigger className="h-11">
+                  <SelectValue placeholder="Выберите специалиста" />
+                </SelectTrigger>
+                <SelectContent>
+                  {therapists.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.full_name || t.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Услуга</div>
+              <Select value={serviceId} onValueChange={setServiceId}>
+                <SelectTrigger className="h-11">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_SERVICES}>Все услуги</SelectItem>
+                  {services.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-3 sm:grid-cols-[1fr_140px]">
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Схема</div>
+                <Select value={kind} onValueChange={(v) => setKind(v as PayRuleKind)}>
+                  <SelectTrigger className="h-11">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {payRuleKindOptions.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">{kind === "percent" ? "Процент" : "Сумма, сом"}</div>
+                <Input
+                  className="h-11"
+                  type="number"
+                  inputMode="decimal"
+                  min={0}
+                  max={kind === "percent" ? 100 : undefined}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Действует с</div>
+              <Input
+                className="h-11"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Новое правило не меняет уже закрытые периоды. Чтобы изменить ставку, добавьте правило с новой датой.
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setDrawerOpen(false)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => createMutation.mutate()}
+                disabled={!effectiveFrom || createMutation.isPending}
+              >
+                Добавить
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  );
+}
@@ -0,0 +1,520 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, Lock, Wallet } from "lucide-react";
+
+import { PayRulesCard, payRuleAmountLabel, payRuleKindLabel } from "@/components/business/PayRulesCard";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { downloadCsv, type CsvColumn } from "@/lib/csv";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { PayRuleKind, PayrollPeriod } from "@/types/models";
+
+type PayrollRow = {
+  appointment_id: string;
+  specialist_id: string | null;
+  specialist_name: string | null;
+  service_name: string | null;
+  child_name: string | null;
+  start_time: string;
+  duration_min: number;
+  service_price: number;
+  rule_kind: PayRuleKind | null;
+  rule_amount: number | null;
+  pay_amount: number;
+};
+
+type SpecialistTotal = {
+  specialist_id: string | null;
+  specialist_name: string;
+  sessions: number;
+  minutes: number;
+  pay: number;
+  missingRules: number;
+};
+
+const payrollCsvColumns: CsvColumn<PayrollRow>[] = [
+  { header: "Специалист", value: (r) => r.specialist_name ?? "" },
+  { header: "Дата", value: (r) => dateTimeRu(r.start_time) },
+  { header: "Ребёнок", value: (r) => r.child_name ?? "" },
+  { header: "Услуга", value: (r) => r.service_name ?? "" },
+  { header: "Минут", value: (r) => r.duration_min },
+  { header: "Цена услуги", value: (r) => r.service_price },
+  { header: "Схема", value: (r) => payRuleKindLabel(r.rule_kind) },
+  { header: "Ставка", value: (r) => r.rule_amount ?? "" },
+  { header: "К выплате", value: (r) => r.pay_amount },
+];
+
+function previousMonthRange() {
+  const now = new Date();
+  const from = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  const to = new Date(now.getFullYear(), now.getMonth(), 0);
+  return { from: localDateKey(from), to: localDateKey(to) };
+}
+
+function normalizeRow(r: Record<string, unknown>): PayrollRow {
+  return {
+    ...(r as unknown as PayrollRow),
+    duration_min: Number(r.duration_min),
+    service_price: Number(r.service_price),
+    rule_amount: r.rule_amount === null || r.rule_amount === undefined ? null : Number(r.rule_amount),
+    pay_amount: Number(r.pay_amount),
+  };
+}
+
+async function fetchPayrollPreview(from: string, to: string): Promise<PayrollRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("payroll_preview", { period_start: from, period_end: to });
+  if (error) throw error;
+  return ((data ?? []) as Array<Record<string, unknown>>).map(normalizeRow);
+}
+
+async function fetchPayrollPeriods(): Promise<PayrollPeriod[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("payroll_periods")
+    .select("*")
+    .order("period_start", { ascending: false });
+  if (error) throw error;
+  return ((data ?? []) as PayrollPeriod[]).map((p) => ({ ...p, total: Number(p.total) }));
+}
+
+async function fetchPeriodRows(periodId: string): Promise<PayrollRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("payroll_items")
+    .select(
+      "appointment_id,specialist_id,start_time,duration_min,service_price,rule_kind,rule_amount,pay_amount," +
+        "specialist:profiles(full_name,email),service:services(name),appointment:appointments(child:children(name))",
+    )
+    .eq("period_id", periodId)
+    .order("start_time", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => {
+    const specialist = normalizeOne<{ full_name: string | null; email: string }>(r.specialist);
+    const appointment = normalizeOne<{ child: unknown }>(r.appointment);
+    return normalizeRow({
+      ...r,
+      specialist_name: specialist ? specialist.full_name || specialist.email : null,
+      service_name: normalizeOne<{ name: string }>(r.service)?.name ?? null,
+      child_name: normalizeOne<{ name: string }>(appointment?.child)?.name ?? null,
+    });
+  });
+}
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function dateRu(key: string) {
+  const [y, m, d] = key.split("-");
+  return `${d}.${m}.${y}`;
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function hoursRu(minutes: number) {
+  return `${(minutes / 60).toLocaleString("ru-RU", { maximumFractionDigits: 1 })} ч`;
+}
+
+function describePayrollError(err: unknown, fallback: string) {
+  const message = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  if (message.includes("payroll_period_overlaps")) return "Период пересекается с уже закрытым.";
+  if (message.includes("forbidden")) return "Недостаточно прав для этого действия.";
+  return err instanceof Error ? err.message : fallback;
+}
+
+function totalsBySpecialist(rows: PayrollRow[]): SpecialistTotal[] {
+  const map = new Map<string, SpecialistTotal>();
+  for (const r of rows) {
+    const key = r.specialist_id ?? "none";
+    const cur = map.get(key) ?? {
+      specialist_id: r.specialist_id,
+      specialist_name: r.specialist_name ?? "Без специалиста",
+      sessions: 0,
+      minutes: 0,
+      pay: 0,
+      missingRules: 0,
+    };
+    cur.sessions += 1;
+    cur.minutes += r.duration_min;
+    cur.pay += r.pay_amount;
+    if (!r.rule_kind) cur.missingRules += 1;
+    map.set(key, cur);
+  }
+  return Array.from(map.values()).sort((a, b) => a.specialist_name.localeCompare(b.specialist_name, "ru"));
+}
+
+export function PayrollManager() {
+  const queryClient = useQueryClient();
+
+  const [from, setFrom] = useState(() => previousMonthRange().from);
+  const [to, setTo] = useState(() => previousMonthRange().to);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [closeOpen, setCloseOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const validRange = Boolean(from) && Boolean(to) && from <= to;
+
+  const previewQuery = useQuery({
+    queryKey: ["business", "payroll", "preview", from, to],
+    queryFn: () => fetchPayrollPreview(from, to),
+    enabled: Boolean(supabase) && validRange,
+  });
+
+  const periodsQuery = useQuery({
+    queryKey: ["business", "payroll", "periods"],
+    queryFn: fetchPayrollPeriods,
+    enabled: Boolean(supabase),
+  });
+
+  const rows = useMemo(() => previewQuery.data ?? [], [previewQuery.data]);
+  const periods = periodsQuery.data ?? [];
+  const totals = useMemo(() => totalsBySpecialist(rows), [rows]);
+  const grandTotal = totals.reduce((s, t) => s + t.pay, 0);
+  const missingRules = totals.reduce((s, t) => s + t.missingRules, 0);
+  const visibleRows = selected === null ? rows : rows.filter((r) => (r.specialist_id ?? "none") === selected);
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!validRange) throw new Error("Проверьте даты периода");
+      setMessage(null);
+      const { error } = await supabase.rpc("close_payroll_period", {
+        period_start: from,
+        period_end: to,
+        notes: notes.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setCloseOpen(false);
+      setNotes("");
+      await queryClient.invalidateQueries({ queryKey: ["business", "payroll"] });
+    },
+    onError: (err: unknown) => {
+      setMessage(describePayrollError(err, "Не удалось закрыть период"));
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (periodId: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("reopen_payroll_period", { period_uuid: periodId });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["business", "payroll"] }),
+    onError: (err: unknown) => {
+      setMessage(describePayrollError(err, "Не удалось переоткрыть период"));
+    },
+  });
+
+  const exportPeriod = async (p: PayrollPeriod) => {
+    try {
+      const periodRows = await fetchPeriodRows(p.id);
+      downloadCsv(`payroll_${p.period_start}_${p.period_end}.csv`, periodRows, payrollCsvColumns);
+    } catch (err) {
+      setMessage(describePayrollError(err, "Не удалось выгрузить период"));
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <Wallet className="size-5 text-muted-foreground" />
+            <h1 className="truncate text-lg font-semibold leading-tight">Зарплата специалистов</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">Ставки, расчёт по завершённым занятиям и закрытие периодов.</p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">С</div>
+            <Input className="h-10" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">По</div>
+            <Input className="h-10" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      {!supabase ? (
+        <Alert>
+          <AlertTitle>Демо-режим</AlertTitle>
+          <AlertDescription>Расчёт зарплаты доступен после подключения Supabase.</AlertDescription>
+        </Alert>
+      ) : null}
+
+      {message && !closeOpen ? (
+        <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div>
+      ) : null}
+
+      <PayRulesCard />
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm font-semibold">
+              Расчёт за период: <span className="text-primary">{moneyRu(grandTotal)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="secondary"
+                className="h-9"
+                onClick={() => downloadCsv(`payroll_${from}_${to}.csv`, rows, payrollCsvColumns)}
+                disabled={rows.length === 0}
+              >
+                <Download className="size-4" />
+                CSV
+              </Button>
+              <Button
+                type="button"
+                className="h-9"
+                onClick={() => {
+                  setMessage(null);
+                  setCloseOpen(true);
+                }}
+                disabled={!validRange || rows.length === 0}
+              >
+                <Lock className="size-4" />
+                Закрыть период
+              </Button>
+            </div>
+          </div>
+
+          {!validRange ? (
+            <div className="text-sm text-destructive">Дата начала позже даты окончания.</div>
+          ) : null}
+          {missingRules > 0 ? (
+            <div className="text-sm text-muted-foreground">
+              Занятий без правила оплаты: {missingRules}. Они войдут в период с нулевой суммой.
+            </div>
+          ) : null}
+
+          <div className="overflow-x-auto rounded-lg border bg-card">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Специалист</TableHead>
+                  <TableHead className="text-right">Занятий</TableHead>
+                  <TableHead className="text-right">Часов</TableHead>
+                  <TableHead className="text-right">К выплате</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {totals.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-muted-foreground">
+                      {previewQuery.isLoading ? "Загрузка…" : "Незакрытых завершённых занятий за период нет"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  totals.map((t) => {
+                    const key = t.specialist_id ?? "none";
+                    return (
+                      <TableRow
+                        key={key}
+                        className="cursor-pointer"
+                        data-state={selected === key ? "selected" : undefined}
+                        onClick={() => setSelected((cur) => (cur === key ? null : key))}
+                      >
+                        <TableCell className="font-medium">
+                          {t.specialist_name}
+                          {t.missingRules > 0 ? (
+                            <Badge variant="outline" className="ml-2">
+                              без правила: {t.missingRules}
+                            </Badge>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-right">{t.sessions}</TableCell>
+                        <TableCell className="text-right">{hoursRu(t.minutes)}</TableCell>
+                        <TableCell className="text-right font-semibold">{moneyRu(t.pay)}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          {rows.length > 0 ? (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-sm font-semibold">
+                  Занятия{selected !== null ? `: ${totals.find((t) => (t.specialist_id ?? "none") === selected)?.specialist_name ?? ""}` : ""}
+                </div>
+                {selected !== null ? (
+                  <Button type="button" variant="ghost" className="h-8" onClick={() => setSelected(null)}>
+                    Все специалисты
+                  </Button>
+                ) : null}
+              </div>
+              <div className="overflow-x-auto rounded-lg border bg-card">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Дата</TableHead>
+                      <TableHead>Специалист</TableHead>
+                      <TableHead>Ребёнок / услуга</TableHead>
+                      <TableHead className="text-right">Мин</TableHead>
+                      <TableHead>Схема</TableHead>
+                      <TableHead className="text-right">Сумма</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRows.map((r) => (
+                      <TableRow key={r.appointment_id}>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">{dateTimeRu(r.start_time)}</TableCell>
+                        <TableCell>{r.specialist_name ?? "—"}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{r.child_name ?? "—"}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {r.service_name ?? "Без услуги"} · {moneyRu(r.service_price)}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{r.duration_min}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          <div className={r.rule_kind ? undefined : "text-destructive"}>{payRuleKindLabel(r.rule_kind)}</div>
+                          <div className="text-xs text-muted-foreground">{payRuleAmountLabel(r.rule_kind, r.rule_amount)}</div>
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{moneyRu(r.pay_amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="grid gap-3 p-4">
+          <div className="text-sm font-semibold">Закрытые периоды</div>
+          <Separator />
+          {periods.length === 0 ? (
+            <div className="text-sm text-muted-foreground">
+              {periodsQuery.isLoading ? "Загрузка…" : "Периоды ещё не закрывали"}
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              {periods.map((p) => (
+                <div key={p.id} className="flex flex-wrap items-center justify-between gap-3 rounded-xl border bg-card p-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-semibold">
+                      {dateRu(p.period_start)} — {dateRu(p.period_end)}
+                      <Badge variant="secondary">{moneyRu(p.total)}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Закрыт {dateTimeRu(p.closed_at)}
+                      {p.notes ? ` · ${p.notes}` : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button type="button" variant="secondary" className="h-9" onClick={() => exportPeriod(p)}>
+                      <Download className="size-4" />
+                      CSV
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="h-9"
+                      onClick={() => reopenMutation.mutate(p.id)}
+                      disabled={reopenMutation.isPending}
+                    >
+                      Переоткрыть
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Drawer open={closeOpen} onOpenChange={setCloseOpen}>
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Закрыть период</DrawerTitle>
+          </DrawerHeader>
+          <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+            {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+            <div className="text-sm">
+              {validRange ? `${dateRu(from)} — ${dateRu(to)}` : "—"} · занятий {rows.length} · к выплате{" "}
+              <span className="font-semibold">{moneyRu(grandTotal)}</span>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="text-sm font-medium">Комментарий (опционально)</div>
+              <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              Суммы будут зафиксированы, а занятия периода заблокированы: их нельзя перенести, удалить или сменить
+              статус. Снять блокировку может администратор, переоткрыв период.
+            </div>
+
+            <Separator />
+
+            <div className="flex items-center justify-end gap-2">
+              <Button type="button" variant="secondary" className="h-11" onClick={() => setCloseOpen(false)}>
+                Отмена
+              </Button>
+              <Button
+                type="button"
+                className="h-11"
+                onClick={() => closeMutation.mutate()}
+                disabled={closeMutation.isPending}
+              >
+                Закрыть период
+              </Button>
+            </div>
+          </div>
+        </DrawerContent>
+      </Drawer>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { localDateKey } from "@/lib/working-hours";
+import type { Child, Profile, Service } from "@/types/models";
+
+import { SlotFinder, type SlotPick } from "./SlotFinder";
+
+type ChildLite = Pick<Child, "id" | "name">;
+type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
+type ServiceLite = Pick<Service, "id" | "name" | "duration_min">;
+
+export type SeriesOccurrenceResult = "created" | "skipped" | "rolled_back";
+export type SeriesSkipReason = "specialist_busy" | "child_busy" | "outside_working_hours";
+
+export type SeriesReportRow = {
+  occurrence_start: string;
+  occurrence_end: string;
+  result: SeriesOccurrenceResult;
+  reason: SeriesSkipReason | null;
+  appointment_id: string | null;
+  recurrence_group_id: string | null;
+};
+
+export type SeriesReport = {
+  rows: SeriesReportRow[];
+  groupId: string | null;
+  childId: string;
+  serviceId: string;
+  specialistId: string;
+};
+
+const reasonLabels: Record<SeriesSkipReason, string> = {
+  specialist_busy: "Специалист занят",
+  child_busy: "Ребёнок занят",
+  outside_working_hours: "Вне рабочих часов",
+};
+
+function formatDateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function addDaysKey(iso: string, days: number) {
+  const d = new Date(iso);
+  d.setDate(d.getDate() + days);
+  return localDateKey(d);
+}
+
+export function SeriesConflictReport({
+  report,
+  childrenList,
+  therapists,
+  services,
+  onBookAlternative,
+  onBack,
+  onDone,
+}: {
+  report: SeriesReport;
+  childrenList: ChildLite[];
+  therapists: TherapistLite[];
+  services: ServiceLite[];
+  onBookAlternative: (row: SeriesReportRow, pick: SlotPick) => Promise<void>;
+  onBack: () => void;
+  onDone: () => void;
+}) {
+  const [alternativeFor, setAlternativeFor] = useState<string | null>(null);
+  const [rebooked, setRebooked] = useState<Record<string, string>>({});
+  const [bookingError, setBookingError] = useState<string | null>(null);
+
+  const created = report.rows.filter((r) => r.result === "created").length;
+  const skipped = report.rows.filter((r) => r.result === "skipped").length;
+  const rolledBack = report.groupId === null;
+  const alternativeRow = report.rows.find((r) => r.occurrence_start === alternativeFor) ?? null;
+
+  const pick = async (row: SeriesReportRow, slot: SlotPick) => {
+    setBookingError(null);
+    try {
+      await onBookAlternative(row, slot);
+      setRebooked((prev) => ({ ...prev, [row.occurrence_start]: slot.start.toISOString() }));
+      setAlternativeFor(null);
+    } catch (err: unknown) {
+      setBookingError(err instanceof Error ? err.message : "Не удалось записать на выбранное время");
+    }
+  };
+
+  return (
+    <div className="grid gap-4">
+      <div className="rounded-xl border bg-card p-3 text-sm">
+        {rolledBack ? (
+          <>
+            <div className="font-semibold">Серия не создана</div>
+            <div className="text-muted-foreground">
+              Конфликтов: {skipped}. Измените время или дни недели и попробуйте снова либо разрешите пропуск занятых дат.
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="font-semibold">Серия создана частично</div>
+            <div className="text-muted-foreground">
+              Создано: {created}, пропущено: {skipped}. Для пропущенных дат можно подобрать другое время.
+            </div>
+          </>
+        )}
+      </div>
+
+      {bookingError ? (
+        <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{bookingError}</div>
+      ) : null}
+
+      <div className="max-h-[360px] overflow-y-auto rounded-xl border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Дата</TableHead>
+              <TableHead>Результат</TableHead>
+              <TableHead className="w-[160px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.rows.map((row) => {
+              const movedTo = rebooked[row.occurrence_start];
+              return (
+                <TableRow key={row.occurrence_start}>
+                  <TableCell className="whitespace-nowrap">{formatDateTimeRu(row.occurrence_start)}</TableCell>
+                  <TableCell>
+                    {movedTo ? (
+                      <Badge variant="secondary">Перенесена на {formatDateTimeRu(movedTo)}</Badge>
+                    ) : row.result === "created" ? (
+                      <Badge variant="secondary">Создана</Badge>
+                    ) : row.result === "rolled_back" ? (
+                      <Badge variant="outline">Отменена</Badge>
+                    ) : (
+                      <Badge variant="outline">{row.reason ? reasonLabels[row.reason] : "Пропущена"}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.result === "skipped" && !rolledBack && !movedTo ? (
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        className="h-9"
+                        onClick={() => {
+                          setBookingError(null);
+                          setAlternativeFor(row.occurrence_start);
+                        }}
+                      >
+                        <CalendarClock className="size-4" />
+                        Другое время
+                      </Button>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      {alternativeRow ? (
+        <SlotFinder
+          key={alternativeRow.occurrence_start}
+          childrenList={childrenList}
+          therapists={therapists}
+          services={services}
+          initial={{
+            childId: report.childId,
+            serviceId: report.serviceId,
+            specialistId: report.specialistId,
+            from: localDateKey(new Date(alternativeRow.occurrence_start)),
+            to: addDaysKey(alternativeRow.occurrence_start, 6),
+          }}
+          onPick={(slot) => void pick(alternativeRow, slot)}
+          onClose={() => setAlternativeFor(null)}
+        />
+      ) : null}
+
+      <div className="flex items-center justify-end gap-2">
+        {rolledBack ? (
+          <Button type="button" variant="secondary" className="h-11" onClick={onBack}>
+            Изменить параметры
+          </Button>
+        ) : null}
+        <Button type="button" className="h-11" onClick={onDone}>
+          Готово
+        </Button>
+      </div>
+    </div>
+  );
+}
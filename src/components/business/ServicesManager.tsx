@@ -41,8 +41,17 @@ const serviceSchema = z.object({
     .string()
     .trim()
     .regex(/^#[0-9a-fA-F]{6}$/, "Цвет должен быть в формате #RRGGBB"),
+  late_cancel_hours: z.coerce.number().int().min(0, "Не может быть отрицательным").max(168, "Не больше недели"),
+  late_cancel_fee_percent: z.coerce.number().min(0, "От 0 до 100").max(100, "От 0 до 100"),
+  no_show_fee_percent: z.coerce.number().min(0, "От 0 до 100").max(100, "От 0 до 100"),
 });
 
+const DEFAULT_CANCELLATION_RULES = {
+  late_cancel_hours: 24,
+  late_cancel_fee_percent: 50,
+  no_show_fee_percent: 100,
+};
+
 type ServiceFormValues = z.input<typeof serviceSchema>;
 type ServiceValues = z.output<typeof serviceSchema>;
 
@@ -61,6 +70,9 @@ async function upsertService(values: ServiceValues & { id?: string }): Promise<v
     duration_min: values.duration_min,
     price: values.price,
     color: values.color,
+    late_cancel_hours: values.late_cancel_hours,
+    late_cancel_fee_percent: values.late_cancel_fee_percent,
+    no_show_fee_percent: values.no_show_fee_percent,
   };
   if (values.id) {
     const { error } = await supabase.from("services").update(payload).eq("id", values.id);
@@ -81,6 +93,10 @@ function moneyRu(value: number) {
   return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "RUB", maximumFractionDigits: 0 }).format(value);
 }
 
+function cancellationRulesText(s: Service) {
+  return `Отмена < ${s.late_cancel_hours} ч: ${s.late_cancel_fee_percent}% · неявка: ${s.no_show_fee_percent}%`;
+}
+
 export function ServicesManager() {
   const queryClient = useQueryClient();
 
@@ -114,6 +130,7 @@ export function ServicesManager() {
       duration_min: 30,
       price: 0,
       color: "#2f6f5e",
+      ...DEFAULT_CANCELLATION_RULES,
     },
   });
 
@@ -122,7 +139,7 @@ export function ServicesManager() {
   const openCreate = () => {
     setEditing(null);
     setMessage(null);
-    form.reset({ name: "", duration_min: 30, price: 0, color: "#2f6f5e" });
+    form.reset({ name: "", duration_min: 30, price: 0, color: "#2f6f5e", ...DEFAULT_CANCELLATION_RULES });
     setDrawerOpen(true);
   };
 
@@ -134,6 +151,9 @@ export function ServicesManager() {
       duration_min: s.duration_min,
       price: s.price,
       color: s.color,
+      late_cancel_hours: s.late_cancel_hours,
+      late_cancel_fee_percent: s.late_cancel_fee_percent,
+      no_show_fee_percent: s.no_show_fee_percent,
     });
     setDrawerOpen(true);
   };
@@ -218,6 +238,7 @@ export function ServicesManager() {
                         <div className="mt-1 text-xs text-muted-foreground">
                           {s.duration_min} мин · {moneyRu(s.price)}
                         </div>
+                        <div className="mt-1 text-xs text-muted-foreground">{cancellationRulesText(s)}</div>
                       </div>
                       <div className="flex items-center gap-2">
                         <Button type="button" variant="secondary" className="h-10" onClick={() => openEdit(s)}>
@@ -248,6 +269,7 @@ export function ServicesManager() {
                       <TableHead>Название</TableHead>
                       <TableHead>Длительность</TableHead>
                       <TableHead>Цена</TableHead>
+                      <TableHead>Отмена / неявка</TableHead>
                       <TableHead>Цвет</TableHead>
                       <TableHead className="w-[220px]">Действия</TableHead>
                     </TableRow>
@@ -255,13 +277,13 @@ export function ServicesManager() {
                   <TableBody>
                     {noData ? (
                       <TableRow>
-                        <TableCell colSpan={5} className="text-muted-foreground">
+                        <TableCell colSpan={6} className="text-muted-foreground">
                           {servicesQuery.isLoading ? "Загрузка…" : "Пока нет услуг"}
                         </TableCell>
                       </TableRow>
                     ) : noMatch ? (
                       <TableRow>
-                        <TableCell colSpan={5} className="text-muted-foreground">
+                        <TableCell colSpan={6} className="text-muted-foreground">
                           Ничего не найдено
                         </TableCell>
                       </TableRow>
@@ -271,6 +293,7 @@ export function ServicesManager() {
                           <TableCell className="font-medium">{s.name}</TableCell>
                           <TableCell className="text-muted-foreground">{s.duration_min} мин</TableCell>
                         <TableCell className="text-muted-foreground">{moneyRu(s.price)}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">{cancellationRulesText(s)}</TableCell>
                         <TableCell>
                           <div className="flex items-center gap-2">
                             <span className="size-3 rounded-full" style={{ backgroundColor: s.color }} />
@@ -431,6 +454,110 @@ export function ServicesManager() {
                   )}
                 />
 
+                <div className="grid gap-3 rounded-xl border bg-card p-3">
+                  <div>
+                    <div className="text-sm font-semibold">Правила отмены</div>
+                    <div className="text-xs text-muted-foreground">
+                      Штраф начисляется автоматически в процентах от цены услуги.
+                    </div>
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    <FormField
+                      control={form.control}
+                      name="late_cancel_hours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Поздняя отмена, ч</FormLabel>
+                          <FormControl>
+                            <Input
+                              className="h-11"
+                              type="number"
+                              inputMode="numeric"
+                              min={0}
+                              max={168}
+                              step={1}
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              value={
+                                typeof field.value === "number"
+                                  ? field.value
+                                  : Number.isFinite(Number(field.value))
+                                    ? Number(field.value)
+                                    : 0
+                              }
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="late_cancel_fee_percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Штраф за отмену, %</FormLabel>
+                          <FormControl>
+                            <Input
+                              className="h-11"
+                              type="number"
+                              inputMode="numeric"
+                              min={0}
+                              max={100}
+                              step={5}
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              value={
+                                typeof field.value === "number"
+                                  ? field.value
+                                  : Number.isFinite(Number(field.value))
+                                    ? Number(field.value)
+                                    : 0
+                              }
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="no_show_fee_percent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Штраф за неявку, %</FormLabel>
+                          <FormControl>
+                            <Input
+                              className="h-11"
+                              type="number"
+                              inputMode="numeric"
+                              min={0}
+                              max={100}
+                              step={5}
+                              name={field.name}
+                              ref={field.ref}
+                              onBlur={field.onBlur}
+                              value={
+                                typeof field.value === "number"
+                                  ? field.value
+                                  : Number.isFinite(Number(field.value))
+                                    ? Number(field.value)
+                                    : 0
+                              }
+                              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+
                 <div className="flex items-center justify-end gap-2">
                   <Button
                     type="button"
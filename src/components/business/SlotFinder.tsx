@@ -0,0 +1,255 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { Child, Profile, Service } from "@/types/models";
+
+type ChildLite = Pick<Child, "id" | "name">;
+type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
+type ServiceLite = Pick<Service, "id" | "name" | "duration_min">;
+
+export type FreeSlot = { specialist_id: string; slot_start: string; slot_end: string };
+
+export type SlotPick = {
+  childId: string;
+  serviceId: string;
+  specialistId: string;
+  start: Date;
+  durationMin: number;
+};
+
+export type SlotSearchParams = {
+  childId: string;
+  serviceId: string;
+  specialistId: string;
+  from: string;
+  to: string;
+};
+
+async function fetchFreeSlots(params: SlotSearchParams): Promise<FreeSlot[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.rpc("find_free_slots", {
+    child_uuid: params.childId,
+    service_uuid: params.serviceId,
+    specialist_uuid: params.specialistId || null,
+    from_date: params.from,
+    to_date: params.to,
+  });
+  if (error) throw error;
+  return (data ?? []) as FreeSlot[];
+}
+
+function addDaysKey(days: number) {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return localDateKey(d);
+}
+
+function formatDayRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { weekday: "short", day: "2-digit", month: "long" }).format(new Date(iso));
+}
+
+function formatTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { hour: "2-digit", minute: "2-digit" }).format(new Date(iso));
+}
+
+export function SlotFinder({
+  childrenList,
+  therapists,
+  services,
+  initial,
+  onPick,
+  onClose,
+}: {
+  childrenList: ChildLite[];
+  therapists: TherapistLite[];
+  services: ServiceLite[];
+  // Если задано — поиск запускается сразу с этими параметрами.
+  initial?: SlotSearchParams;
+  onPick: (pick: SlotPick) => void;
+  onClose: () => void;
+}) {
+  const [childId, setChildId] = useState(initial?.childId ?? childrenList[0]?.id ?? "");
+  const [serviceId, setServiceId] = useState(initial?.serviceId ?? services[0]?.id ?? "");
+  const [specialistId, setSpecialistId] = useState(initial?.specialistId ?? "");
+  const [from, setFrom] = useState(() => initial?.from ?? addDaysKey(0));
+  const [to, setTo] = useState(() => initial?.to ?? addDaysKey(7));
+  const [params, setParams] = useState<SlotSearchParams | null>(initial ?? null);
+
+  const slotsQuery = useQuery({
+    queryKey: ["business", "freeSlots", params],
+    queryFn: () => fetchFreeSlots(params!),
+    enabled: Boolean(supabase) && Boolean(params),
+  });
+
+  const service = services.find((s) => s.id === (params?.serviceId ?? serviceId));
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, FreeSlot[]>();
+    (slotsQuery.data ?? []).forEach((slot) => {
+      const key = localDateKey(new Date(slot.slot_start));
+      map.set(key, [...(map.get(key) ?? []), slot]);
+    });
+    return Array.from(map.entries());
+  }, [slotsQuery.data]);
+
+  const therapistName = (id: string) => {
+    const t = therapists.find((x) => x.id === id);
+    return t?.full_name || t?.email || "Специалист";
+  };
+
+  const canSearch = Boolean(childId && serviceId && from && to && to >= from);
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <Search className="size-4 text-muted-foreground" />
+            Найти свободное время
+          </div>
+          <Button type="button" variant="ghost" size="icon" className="h-9 w-9" aria-label="Закрыть" onClick={onClose}>
+            <X className="size-4" />
+          </Button>
+        </div>
+        <Separator />
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Ребёнок</div>
+            <Select value={childId} onValueChange={setChildId}>
+              <SelectTrigger className="h-10">
+                <SelectValue placeholder="Выберите ребёнка" />
+              </SelectTrigger>
+              <SelectContent>
+                {childrenList.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Услуга</div>
+            <Select value={serviceId} onValueChange={setServiceId}>
+              <SelectTrigger className="h-10">
+                <SelectValue placeholder="Выберите услугу" />
+              </SelectTrigger>
+              <SelectContent>
+                {services.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} · {s.duration_min} мин
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Специалист</div>
+            <Select value={specialistId ? specialistId : "any"} onValueChange={(v) => setSpecialistId(v === "any" ? "" : v)}>
+              <SelectTrigger className="h-10">
+                <SelectValue placeholder="Любой" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Любой</SelectItem>
+                {therapists.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.full_name || t.email || "Без имени"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">С</div>
+            <Input className="h-10" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">По</div>
+            <Input className="h-10" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div className="flex items-end">
+            <Button
+              type="button"
+              className="h-10 w-full"
+              disabled={!supabase || !canSearch || slotsQuery.isFetching}
+              onClick={() => setParams({ childId, serviceId, specialistId, from, to })}
+            >
+              <Search className="size-4" />
+              Найти
+            </Button>
+          </div>
+        </div>
+
+        {params ? (
+          slotsQuery.isLoading ? (
+            <div className="text-sm text-muted-foreground">Поиск…</div>
+          ) : slotsQuery.isError ? (
+            <div className="text-sm text-destructive">Не удалось найти окна. Проверьте период (не больше 2 месяцев).</div>
+          ) : byDay.length === 0 ? (
+            <div className="text-sm text-muted-foreground">Свободных окон нет. Попробуйте другой период или специалиста.</div>
+          ) : (
+            <div className="grid max-h-[420px] gap-3 overflow-y-auto">
+              {byDay.map(([day, slots]) => (
+                <div key={day} className="grid gap-2">
+                  <div className="text-xs font-semibold uppercase text-muted-foreground">
+                    {formatDayRu(slots[0]!.slot_start)}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {slots.map((slot) => (
+                      <Button
+                        key={`${slot.specialist_id}-${slot.slot_start}`}
+                        type="button"
+                        variant="secondary"
+                        className="h-auto flex-col items-start gap-0 px-3 py-2"
+                        onClick={() =>
+                          onPick({
+                            childId: params.childId,
+                            serviceId: params.serviceId,
+                            specialistId: slot.specialist_id,
+                            start: new Date(slot.slot_start),
+                            durationMin: service?.duration_min ?? 30,
+                          })
+                        }
+                      >
+                        <span className="text-sm font-semibold">
+                          {formatTimeRu(slot.slot_start)}–{formatTimeRu(slot.slot_end)}
+                        </span>
+                        {params.specialistId ? null : (
+                          <span className="text-xs text-muted-foreground">{therapistName(slot.specialist_id)}</span>
+                        )}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            Учитываются рабочие часы и отсутствия специалистов, а также занятость специалиста и ребёнка.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
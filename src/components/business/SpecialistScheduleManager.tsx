@@ -2,9 +2,10 @@
 
 import { useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Save, UsersRound } from "lucide-react";
+import { CalendarOff, Plus, Save, Trash2, UsersRound } from "lucide-react";
 
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -18,11 +19,21 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { supabase } from "@/lib/supabase/client";
-import type { Profile, SpecialistWorkingHours } from "@/types/models";
+import {
+  exceptionReasonLabel,
+  exceptionReasonOptions,
+  hhmm,
+  localDateKey,
+  minutesToTime,
+  timeToMinutes,
+  toDbTime,
+} from "@/lib/working-hours";
+import type { Profile, ScheduleExceptionReason, SpecialistScheduleException, SpecialistWorkingHours } from "@/types/models";
 
 type TherapistLite = Pick<Profile, "id" | "full_name" | "email">;
 
-type DayDraft = { enabled: boolean; start: string; end: string };
+type IntervalDraft = { start: string; end: string };
+type DayDraft = { enabled: boolean; intervals: IntervalDraft[] };
 
 const WEEKDAYS: Array<{ value: number; label: string; full: string }> = [
   { value: 1, label: "Пн", full: "Понедельник" },
@@ -34,45 +45,45 @@ const WEEKDAYS: Array<{ value: number; label: string; full: string }> = [
   { value: 0, label: "Вс", full: "Воскресенье" },
 ];
 
-function hhmm(v: string | null | undefined) {
-  const s = (v ?? "").trim();
-  if (!s) return "";
-  return s.length >= 5 ? s.slice(0, 5) : s;
-}
-
-function timeToMinutes(v: string) {
-  const [hRaw, mRaw] = v.split(":");
-  const h = Number(hRaw ?? 0);
-  const m = Number(mRaw ?? 0);
-  return h * 60 + m;
-}
-
-function toDbTime(v: string) {
-  const s = v.trim();
-  if (!s) return s;
-  return s.length === 5 ? `${s}:00` : s;
-}
+const DEFAULT_INTERVAL: IntervalDraft = { start: "09:00", end: "18:00" };
 
 function buildDefaultDraft(): Record<number, DayDraft> {
   const out: Record<number, DayDraft> = {};
   WEEKDAYS.forEach((d) => {
-    out[d.value] = { enabled: false, start: "09:00", end: "18:00" };
+    out[d.value] = { enabled: false, intervals: [{ ...DEFAULT_INTERVAL }] };
   });
   return out;
 }
 
 function buildDraftFromRows(rows: SpecialistWorkingHours[]) {
   const next = buildDefaultDraft();
-  rows.forEach((row) => {
-    next[row.weekday] = {
-      enabled: true,
-      start: hhmm(row.start_time),
-      end: hhmm(row.end_time),
-    };
+  const sorted = [...rows].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  sorted.forEach((row) => {
+    const interval = { start: hhmm(row.start_time), end: hhmm(row.end_time) };
+    const day = next[row.weekday]!;
+    next[row.weekday] = day.enabled
+      ? { enabled: true, intervals: [...day.intervals, interval] }
+      : { enabled: true, intervals: [interval] };
   });
   return next;
 }
 
+// Возвращает текст ошибки для дня или null, если интервалы корректны и не пересекаются.
+function validateDay(day: DayDraft, label: string) {
+  const parsed = day.intervals.map((i) => ({ ...i, s: timeToMinutes(i.start), e: timeToMinutes(i.end) }));
+  for (const i of parsed) {
+    if (!i.start || !i.end) return `Заполните время для: ${label}`;
+    if (i.e <= i.s) return `Некорректный интервал ${i.start}–${i.end} для: ${label}`;
+  }
+  const sorted = [...parsed].sort((a, b) => a.s - b.s);
+  for (let k = 1; k < sorted.length; k++) {
+    if (sorted[k]!.s < sorted[k - 1]!.e) {
+      return `Интервалы пересекаются (${sorted[k - 1]!.start}–${sorted[k - 1]!.end} и ${sorted[k]!.start}–${sorted[k]!.end}): ${label}`;
+    }
+  }
+  return null;
+}
+
 async function fetchTherapists(): Promise<TherapistLite[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
@@ -94,6 +105,260 @@ async function fetchHours(specialistId: string): Promise<SpecialistWorkingHours[
   return (data ?? []) as SpecialistWorkingHours[];
 }
 
+async function fetchExceptions(specialistId: string): Promise<SpecialistScheduleException[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("specialist_schedule_exceptions")
+    .select("*")
+    .eq("specialist_id", specialistId)
+    .gte("end_date", localDateKey(new Date()))
+    .order("start_date", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as SpecialistScheduleException[];
+}
+
+async function fetchAffectedCounts(specialistId: string): Promise<Record<string, number>> {
+  if (!supabase) return {};
+  const { data, error } = await supabase
+    .from("appointments_in_time_off")
+    .select("exception_id")
+    .eq("specialist_id", specialistId)
+    .gte("start_time", new Date().toISOString());
+  if (error) throw error;
+  const out: Record<string, number> = {};
+  ((data ?? []) as Array<{ exception_id: string }>).forEach((r) => {
+    out[r.exception_id] = (out[r.exception_id] ?? 0) + 1;
+  });
+  return out;
+}
+
+function formatDateRu(v: string) {
+  return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "2-digit", year: "numeric" }).format(
+    new Date(v + "T00:00:00"),
+  );
+}
+
+type ExceptionDraft = {
+  startDate: string;
+  endDate: string;
+  reason: ScheduleExceptionReason;
+  partial: boolean;
+  start: string;
+  end: string;
+  note: string;
+};
+
+function buildExceptionDraft(): ExceptionDraft {
+  const today = localDateKey(new Date());
+  return { startDate: today, endDate: today, reason: "vacation", partial: false, start: "09:00", end: "13:00", note: "" };
+}
+
+function SpecialistExceptionsEditor({ specialistId }: { specialistId: string }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ExceptionDraft>(buildExceptionDraft);
+  const [errorText, setErrorText] = useState<string | null>(null);
+
+  const exceptionsQuery = useQuery({
+    queryKey: ["business", "scheduleExceptions", specialistId],
+    queryFn: () => fetchExceptions(specialistId),
+    enabled: Boolean(supabase) && Boolean(specialistId),
+  });
+
+  const affectedQuery = useQuery({
+    queryKey: ["business", "timeOffAffected", specialistId],
+    queryFn: () => fetchAffectedCounts(specialistId),
+    enabled: Boolean(supabase) && Boolean(specialistId),
+  });
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["business", "scheduleExceptions"] });
+    await queryClient.invalidateQueries({ queryKey: ["business", "timeOffAffected"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setErrorText(null);
+      if (!draft.startDate || !draft.endDate) throw new Error("Укажите период");
+      if (draft.endDate < draft.startDate) throw new Error("Дата окончания раньше даты начала");
+      if (draft.partial && timeToMinutes(draft.end) <= timeToMinutes(draft.start)) {
+        throw new Error("Некорректный интервал рабочего времени");
+      }
+
+      const { data: sessionData } = await supabase.auth.getSession();
+      const { error } = await supabase.from("specialist_schedule_exceptions").insert({
+        specialist_id: specialistId,
+        start_date: draft.startDate,
+        end_date: draft.endDate,
+        reason: draft.reason,
+        start_time: draft.partial ? toDbTime(draft.start) : null,
+        end_time: draft.partial ? toDbTime(draft.end) : null,
+        note: draft.note.trim() || null,
+        created_by: sessionData.session?.user?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setDraft(buildExceptionDraft());
+      await invalidate();
+    },
+    onError: (err: unknown) => {
+      setErrorText(err instanceof Error ? err.message : "Не удалось сохранить исключение");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      const { error } = await supabase.from("specialist_schedule_exceptions").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: unknown) => {
+      setErrorText(err instanceof Error ? err.message : "Не удалось удалить исключение");
+    },
+  });
+
+  const exceptions = exceptionsQuery.data ?? [];
+  const affected = affectedQuery.data ?? {};
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid gap-2 rounded-xl border bg-card p-3">
+        <div className="grid gap-2 sm:grid-cols-3">
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">С</div>
+            <Input
+              type="date"
+              className="h-11"
+              value={draft.startDate}
+              onChange={(e) => setDraft((prev) => ({ ...prev, startDate: e.target.value }))}
+            />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">По (включительно)</div>
+            <Input
+              type="date"
+              className="h-11"
+              value={draft.endDate}
+              onChange={(e) => setDraft((prev) => ({ ...prev, endDate: e.target.value }))}
+            />
+          </div>
+          <div className="grid gap-1">
+            <div className="text-xs font-medium text-muted-foreground">Причина</div>
+            <Select
+              value={draft.reason}
+              onValueChange={(v) => setDraft((prev) => ({ ...prev, reason: v as ScheduleExceptionReason }))}
+            >
+              <SelectTrigger className="h-11">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exceptionReasonOptions.map((o) => (
+                  <SelectItem key={o.value} value={o.value}>
+                    {o.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+          <label className="flex items-center gap-3 text-sm">
+            <Checkbox
+              checked={draft.partial}
+              onCheckedChange={(v) => setDraft((prev) => ({ ...prev, partial: Boolean(v) }))}
+            />
+            Работает часть дня
+          </label>
+          <div className="grid grid-cols-2 gap-2 sm:w-[320px]">
+            <Input
+              type="time"
+              className="h-11"
+              value={draft.start}
+              disabled={!draft.partial}
+              onChange={(e) => setDraft((prev) => ({ ...prev, start: e.target.value }))}
+            />
+            <Input
+              type="time"
+              className="h-11"
+              value={draft.end}
+              disabled={!draft.partial}
+              onChange={(e) => setDraft((prev) => ({ ...prev, end: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <Input
+          className="h-11"
+          placeholder="Комментарий (опционально)"
+          value={draft.note}
+          onChange={(e) => setDraft((prev) => ({ ...prev, note: e.target.value }))}
+        />
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            className="h-11"
+            disabled={!supabase || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            <Plus className="size-4" />
+            Добавить
+          </Button>
+        </div>
+      </div>
+
+      {errorText ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{errorText}</div> : null}
+
+      {exceptions.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          {exceptionsQuery.isLoading ? "Загрузка…" : "Нет запланированных отсутствий."}
+        </div>
+      ) : (
+        <div className="grid gap-2">
+          {exceptions.map((x) => {
+            const count = affected[x.id] ?? 0;
+            return (
+              <div key={x.id} className="flex items-start justify-between gap-3 rounded-xl border bg-card px-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <div className="text-sm font-semibold">
+                      {x.start_date === x.end_date
+                        ? formatDateRu(x.start_date)
+                        : `${formatDateRu(x.start_date)} – ${formatDateRu(x.end_date)}`}
+                    </div>
+                    <Badge variant="secondary">{exceptionReasonLabel(x.reason)}</Badge>
+                    {count > 0 ? <Badge variant="destructive">Записей к переносу: {count}</Badge> : null}
+                  </div>
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {x.start_time && x.end_time
+                      ? `Работает ${hhmm(x.start_time)}–${hhmm(x.end_time)}`
+                      : "Не работает весь день"}
+                    {x.note ? ` · ${x.note}` : ""}
+                  </div>
+                </div>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  aria-label="Удалить"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(x.id)}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function SpecialistHoursEditor({
   specialistId,
   initialRows,
@@ -106,6 +371,18 @@ function SpecialistHoursEditor({
   const [errorText, setErrorText] = useState<string | null>(null);
   const [savedHint, setSavedHint] = useState<string | null>(null);
 
+  const updateDay = (weekday: number, fn: (day: DayDraft) => DayDraft) =>
+    setDraft((prev) => ({
+      ...prev,
+      [weekday]: fn(prev[weekday] ?? { enabled: false, intervals: [{ ...DEFAULT_INTERVAL }] }),
+    }));
+
+  const updateInterval = (weekday: number, index: number, patch: Partial<IntervalDraft>) =>
+    updateDay(weekday, (day) => ({
+      ...day,
+      intervals: day.intervals.map((i, k) => (k === index ? { ...i, ...patch } : i)),
+    }));
+
   const saveMutation = useMutation({
     mutationFn: async () => {
       if (!supabase) throw new Error("Supabase не настроен");
@@ -115,42 +392,32 @@ function SpecialistHoursEditor({
       setSavedHint(null);
 
       for (const d of WEEKDAYS) {
-        const row = draft[d.value];
-        if (!row?.enabled) continue;
-        if (!row.start || !row.end) throw new Error(`Заполните время для: ${d.full}`);
-        if (timeToMinutes(row.end) <= timeToMinutes(row.start)) {
-          throw new Error(`Некорректный интервал для: ${d.full}`);
-        }
+        const day = draft[d.value];
+        if (!day?.enabled) continue;
+        const problem = validateDay(day, d.full);
+        if (problem) throw new Error(problem);
       }
 
-      const enabled = WEEKDAYS.filter((d) => draft[d.value]?.enabled);
-      const disabled = WEEKDAYS.filter((d) => !draft[d.value]?.enabled);
-
-      if (enabled.length > 0) {
-        const rows = enabled.map((d) => ({
-          specialist_id: specialistId,
+      const intervals = WEEKDAYS.flatMap((d) => {
+        const day = draft[d.value];
+        if (!day?.enabled) return [];
+        return day.intervals.map((i) => ({
           weekday: d.value,
-          start_time: toDbTime(draft[d.value]!.start),
-          end_time: toDbTime(draft[d.value]!.end),
+          start_time: toDbTime(i.start),
+          end_time: toDbTime(i.end),
         }));
-        const { error: upsertError } = await supabase
-          .from("specialist_working_hours")
-          .upsert(rows, { onConflict: "specialist_id,weekday" });
-        if (upsertError) throw upsertError;
-      }
+      });
 
-      if (disabled.length > 0) {
-        const { error: deleteError } = await supabase
-          .from("specialist_working_hours")
-          .delete()
-          .eq("specialist_id", specialistId)
-          .in("weekday", disabled.map((d) => d.value));
-        if (deleteError) throw deleteError;
-      }
+      const { error } = await supabase.rpc("replace_specialist_working_hours", {
+        specialist_uuid: specialistId,
+        intervals,
+      });
+      if (error) throw error;
     },
     onSuccess: async () => {
       setSavedHint("Сохранено");
       await queryClient.invalidateQueries({ queryKey: ["business", "specialistHours", specialistId] });
+      await queryClient.invalidateQueries({ queryKey: ["business", "workingHours"] });
       window.setTimeout(() => setSavedHint(null), 2000);
     },
     onError: (err: unknown) => {
@@ -162,63 +429,80 @@ function SpecialistHoursEditor({
     <>
       <div className="grid gap-2">
         {WEEKDAYS.map((d) => {
-          const row = draft[d.value];
-          const enabled = row?.enabled ?? false;
+          const day = draft[d.value];
+          const enabled = day?.enabled ?? false;
+          const intervals = day?.intervals ?? [DEFAULT_INTERVAL];
           return (
             <div
               key={d.value}
-              className="flex flex-col gap-2 rounded-xl border bg-card p-3 sm:flex-row sm:items-center sm:justify-between"
+              className="flex flex-col gap-2 rounded-xl border bg-card p-3 sm:flex-row sm:items-start sm:justify-between"
             >
-              <div className="flex items-center gap-3">
+              <div className="flex items-center gap-3 sm:pt-2.5">
                 <Checkbox
                   checked={enabled}
-                  onCheckedChange={(v) =>
-                    setDraft((prev) => ({
-                      ...prev,
-                      [d.value]: {
-                        ...(prev[d.value] ?? { enabled: false, start: "09:00", end: "18:00" }),
-                        enabled: Boolean(v),
-                      },
-                    }))
-                  }
+                  onCheckedChange={(v) => updateDay(d.value, (prev) => ({ ...prev, enabled: Boolean(v) }))}
                 />
                 <div className="min-w-0">
                   <div className="text-sm font-semibold">{d.full}</div>
-                  <div className="text-xs text-muted-foreground">{enabled ? "Работает" : "Выходной"}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {enabled ? (intervals.length > 1 ? `Работает · интервалов: ${intervals.length}` : "Работает") : "Выходной"}
+                  </div>
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-2 sm:w-[320px]">
-                <Input
-                  type="time"
-                  className="h-11"
-                  value={row?.start ?? "09:00"}
-                  disabled={!enabled}
-                  onChange={(e) =>
-                    setDraft((prev) => ({
-                      ...prev,
-                      [d.value]: {
-                        ...(prev[d.value] ?? { enabled: false, start: "09:00", end: "18:00" }),
-                        start: e.target.value,
-                      },
-                    }))
-                  }
-                />
-                <Input
-                  type="time"
-                  className="h-11"
-                  value={row?.end ?? "18:00"}
-                  disabled={!enabled}
-                  onChange={(e) =>
-                    setDraft((prev) => ({
-                      ...prev,
-                      [d.value]: {
-                        ...(prev[d.value] ?? { enabled: false, start: "09:00", end: "18:00" }),
-                        end: e.target.value,
-                      },
-                    }))
-                  }
-                />
+              <div className="grid gap-2 sm:w-[380px]">
+                {intervals.map((interval, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                    <Input
+                      type="time"
+                      className="h-11"
+                      value={interval.start}
+                      disabled={!enabled}
+                      onChange={(e) => updateInterval(d.value, index, { start: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      className="h-11"
+                      value={interval.end}
+                      disabled={!enabled}
+                      onChange={(e) => updateInterval(d.value, index, { end: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      variant="secondary"
+                      size="icon"
+                      className="h-11 w-11"
+                      aria-label="Удалить интервал"
+                      disabled={!enabled || intervals.length <= 1}
+                      onClick={() =>
+                        updateDay(d.value, (prev) => ({
+                          ...prev,
+                          intervals: prev.intervals.filter((_, k) => k !== index),
+                        }))
+                      }
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                ))}
+                {enabled ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="h-9 justify-start"
+                    onClick={() =>
+                      updateDay(d.value, (prev) => {
+                        const last = prev.intervals[prev.intervals.length - 1];
+                        const start = last ? last.end : DEFAULT_INTERVAL.start;
+                        const end = minutesToTime(Math.min(timeToMinutes(start) + 180, 23 * 60 + 59));
+                        return { ...prev, intervals: [...prev.intervals, { start, end }] };
+                      })
+                    }
+                  >
+                    <Plus className="size-4" />
+                    Добавить интервал
+                  </Button>
+                ) : null}
               </div>
             </div>
           );
@@ -262,7 +546,8 @@ export function SpecialistScheduleManager() {
       <div>
         <h1 className="text-xl font-semibold">Расписание специалистов</h1>
         <p className="text-sm text-muted-foreground">
-          Рабочие часы нужны для быстрого планирования и проверки доступности.
+          Рабочие часы нужны для быстрого планирования и проверки доступности. В один день можно задать
+          несколько интервалов, например 09:00–12:00 и 15:00–19:00.
         </p>
       </div>
 
@@ -307,6 +592,24 @@ export function SpecialistScheduleManager() {
           )}
         </CardContent>
       </Card>
+
+      {effectiveId ? (
+        <Card>
+          <CardContent className="grid gap-4 p-4">
+            <div className="grid gap-1">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                <CalendarOff className="size-4 text-muted-foreground" />
+                Отпуска, больничные и исключения
+              </div>
+              <div className="text-xs text-muted-foreground">
+                На эти даты недельный график не действует. Записи, попавшие на отсутствие, видны в календаре.
+              </div>
+            </div>
+            <Separator />
+            <SpecialistExceptionsEditor key={effectiveId} specialistId={effectiveId} />
+          </CardContent>
+        </Card>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarSync, ClipboardCopy, CopyCheck, Link2Off, Plus } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/lib/supabase/client";
+import type { CalendarFeed, CalendarFeedKind } from "@/types/models";
+
+type FeedRow = Pick<CalendarFeed, "id" | "token" | "label" | "created_at" | "last_accessed_at">;
+
+async function fetchFeeds(kind: CalendarFeedKind, targetId: string): Promise<FeedRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("calendar_feeds")
+    .select("id,token,label,created_at,last_accessed_at")
+    .eq(kind === "specialist" ? "specialist_id" : "child_id", targetId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as FeedRow[];
+}
+
+function dateTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function feedUrl(token: string) {
+  return `${window.location.origin}/api/calendar/${token}.ics`;
+}
+
+// Ссылки-подписки .ics: календарь телефона сам подтягивает изменения и отмены.
+export function CalendarFeedsCard({
+  kind,
+  targetId,
+  title = "Календарь на телефоне",
+}: {
+  kind: CalendarFeedKind;
+  targetId: string;
+  title?: string;
+}) {
+  const queryClient = useQueryClient();
+  const [label, setLabel] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const feedsQuery = useQuery({
+    queryKey: ["calendarFeeds", kind, targetId],
+    queryFn: () => fetchFeeds(kind, targetId),
+    enabled: Boolean(supabase) && Boolean(targetId),
+  });
+
+  const feeds = feedsQuery.data ?? [];
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["calendarFeeds", kind, targetId] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.from("calendar_feeds").insert({
+        kind,
+        specialist_id: kind === "specialist" ? targetId : null,
+        child_id: kind === "child" ? targetId : null,
+        label: label.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setLabel("");
+      await invalidate();
+    },
+    onError: (err: unknown) => setMessage(err instanceof Error ? err.message : "Не удалось создать ссылку"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("revoke_calendar_feed", { feed_uuid: id });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: unknown) => setMessage(err instanceof Error ? err.message : "Не удалось отозвать ссылку"),
+  });
+
+  const copyLink = async (feed: FeedRow) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed.token));
+      setCopiedId(feed.id);
+      window.setTimeout(() => setCopiedId(null), 1200);
+    } catch {
+      setMessage("Не удалось скопировать ссылку");
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <CalendarSync className="size-4 text-muted-foreground" />
+          {title}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Скопируйте ссылку и добавьте её в Google / Apple Календарь как подписку. Переносы и отмены подтянутся
+          автоматически. Если ссылка попала к чужим — отзовите её и создайте новую.
+        </div>
+        <Separator />
+
+        {message ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        {feeds.length === 0 ? (
+          <div className="text-sm text-muted-foreground">{feedsQuery.isLoading ? "Загрузка…" : "Активных ссылок нет"}</div>
+        ) : (
+          <div className="grid gap-2">
+            {feeds.map((f) => (
+              <div key={f.id} className="flex flex-wrap items-center justify-between gap-2 rounded-xl border bg-card p-3">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold">{f.label || "Ссылка"}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Создана {dateTimeRu(f.created_at)}
+                    {f.last_accessed_at ? ` · обновлялась ${dateTimeRu(f.last_accessed_at)}` : " · ещё не использовалась"}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button type="button" variant="secondary" className="h-9" onClick={() => void copyLink(f)}>
+                    {copiedId === f.id ? <CopyCheck className="size-4" /> : <ClipboardCopy className="size-4" />}
+                    {copiedId === f.id ? "Скопировано" : "Копировать"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="h-9"
+                    onClick={() => revokeMutation.mutate(f.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Link2Off className="size-4" />
+                    Отозвать
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            className="h-10"
+            placeholder="Подпись, например «Телефон»"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+          />
+          <Button
+            type="button"
+            className="h-10 shrink-0"
+            onClick={() => createMutation.mutate()}
+            disabled={!supabase || !targetId || createMutation.isPending}
+          >
+            <Plus className="size-4" />
+            Создать ссылку
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
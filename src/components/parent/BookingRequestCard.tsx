@@ -0,0 +1,397 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/lib/supabase/client";
+import { localDateKey } from "@/lib/working-hours";
+import type { BookingRequest, BookingRequestStatus, BookingSlot, CenterSettings, Service } from "@/types/models";
+
+type ServiceLite = Pick<Service, "id" | "name" | "duration_min" | "price">;
+type BookingSettings = Pick<CenterSettings, "booking_enabled" | "booking_min_notice_hours" | "booking_horizon_days">;
+type BookingRequestRow = Pick<
+  BookingRequest,
+  "id" | "start_time" | "end_time" | "status" | "note" | "created_at" | "resolution_note"
+> & {
+  service: { name: string } | null;
+};
+
+const SLOT_DAYS = 7;
+const REQUESTS_LIMIT = 10;
+
+const bookingStatusLabels: Record<BookingRequestStatus, string> = {
+  pending: "На рассмотрении",
+  approved: "Записаны",
+  rejected: "Отклонён",
+  canceled: "Отозван",
+};
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchBookingSettings(): Promise<BookingSettings | null> {
+  if (!supabase) return null;
+  const { data, error } = await supabase
+    .from("center_settings")
+    .select("booking_enabled,booking_min_notice_hours,booking_horizon_days")
+    .maybeSingle();
+  if (error) throw error;
+  return (data ?? null) as BookingSettings | null;
+}
+
+async function fetchBookableServices(): Promise<ServiceLite[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase.from("services").select("id,name,duration_min,price").order("name");
+  if (error) throw error;
+  return (data ?? []) as ServiceLite[];
+}
+
+async function fetchBookingSlots(childId: string, serviceId: string, from: string): Promise<BookingSlot[]> {
+  if (!supabase) return [];
+  const to = new Date(`${from}T00:00:00`);
+  to.setDate(to.getDate() + SLOT_DAYS - 1);
+  const { data, error } = await supabase.rpc("parent_booking_slots", {
+    child_uuid: childId,
+    service_uuid: serviceId,
+    from_date: from,
+    to_date: localDateKey(to),
+  });
+  if (error) throw error;
+  return (data ?? []) as BookingSlot[];
+}
+
+async function fetchBookingRequests(childId: string): Promise<BookingRequestRow[]> {
+  if (!supabase) return [];
+  const { data, error } = await supabase
+    .from("booking_requests")
+    .select("id,start_time,end_time,status,note,created_at,resolution_note,service:services(name)")
+    .eq("child_id", childId)
+    .order("created_at", { ascending: false })
+    .limit(REQUESTS_LIMIT);
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as BookingRequestRow),
+    service: normalizeOne<{ name: string }>(r.service),
+  }));
+}
+
+function formatDayRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { weekday: "short", day: "2-digit", month: "long" }).format(new Date(iso));
+}
+
+function formatTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { hour: "2-digit", minute: "2-digit" }).format(new Date(iso));
+}
+
+function moneyRu(value: number) {
+  try {
+    return new Intl.NumberFormat("ru-RU", { style: "currency", currency: "KGS", maximumFractionDigits: 0 }).format(
+      value,
+    );
+  } catch {
+    return `C. ${Math.round(value).toLocaleString("ru-RU")}`;
+  }
+}
+
+function describeBookingError(err: unknown, fallback: string) {
+  const message = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  if (message.includes("slot_unavailable")) return "Это время уже занято. Выберите другое окно.";
+  if (message.includes("booking_rate_limited")) return "Слишком много запросов за сутки. Попробуйте позже.";
+  if (message.includes("booking_too_many_pending")) {
+    return "У ребёнка уже есть несколько запросов на рассмотрении. Дождитесь ответа администратора.";
+  }
+  if (message.includes("booking_weekly_limit")) return "Достигнут лимит занятий ребёнка на эту неделю.";
+  if (message.includes("booking_blocked_for_child")) return "Онлайн-запись для ребёнка закрыта. Свяжитесь с центром.";
+  if (message.includes("booking_too_soon")) return "Это время слишком близко — запишитесь через администратора.";
+  if (message.includes("booking_too_far")) return "Запись на эту дату ещё не открыта.";
+  if (message.includes("booking_disabled")) return "Онлайн-запись временно недоступна.";
+  if (message.includes("request_not_pending")) return "Запрос уже рассмотрен.";
+  return err instanceof Error ? err.message : fallback;
+}
+
+// Запись на занятие: родитель выбирает окно, администратор подтверждает запрос в календаре.
+export function BookingRequestCard({ childId }: { childId: string }) {
+  const queryClient = useQueryClient();
+
+  const [serviceId, setServiceId] = useState("");
+  const [from, setFrom] = useState(() => localDateKey(new Date()));
+  const [target, setTarget] = useState<BookingSlot | null>(null);
+  const [note, setNote] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const settingsQuery = useQuery({
+    queryKey: ["parent", "bookingSettings"],
+    queryFn: fetchBookingSettings,
+    enabled: Boolean(supabase),
+  });
+
+  const servicesQuery = useQuery({
+    queryKey: ["parent", "bookingServices"],
+    queryFn: fetchBookableServices,
+    enabled: Boolean(supabase),
+  });
+
+  const services = useMemo(() => servicesQuery.data ?? [], [servicesQuery.data]);
+  const activeServiceId = serviceId || services[0]?.id || "";
+  const bookingEnabled = settingsQuery.data?.booking_enabled ?? false;
+
+  const slotsQuery = useQuery({
+    queryKey: ["parent", "bookingSlots", childId, activeServiceId, from],
+    queryFn: () => fetchBookingSlots(childId, activeServiceId, from),
+    enabled: Boolean(supabase) && bookingEnabled && Boolean(childId && activeServiceId && from),
+  });
+
+  const requestsQuery = useQuery({
+    queryKey: ["parent", "bookingRequests", childId],
+    queryFn: () => fetchBookingRequests(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, BookingSlot[]>();
+    (slotsQuery.data ?? []).forEach((slot) => {
+      const key = localDateKey(new Date(slot.slot_start));
+      map.set(key, [...(map.get(key) ?? []), slot]);
+    });
+    return Array.from(map.entries());
+  }, [slotsQuery.data]);
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["parent", "bookingSlots", childId] });
+    await queryClient.invalidateQueries({ queryKey: ["parent", "bookingRequests", childId] });
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!target) return;
+      setMessage(null);
+      const { error } = await supabase.rpc("create_booking_request", {
+        child_uuid: childId,
+        service_uuid: activeServiceId,
+        specialist_uuid: target.specialist_id,
+        slot_start: target.slot_start,
+        note: note.trim() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setTarget(null);
+      setNote("");
+      await invalidate();
+    },
+    onError: (err: unknown) => {
+      setMessage(describeBookingError(err, "Не удалось отправить запрос"));
+      void queryClient.invalidateQueries({ queryKey: ["parent", "bookingSlots", childId] });
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.rpc("cancel_booking_request", { request_uuid: requestId });
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: unknown) => setMessage(describeBookingError(err, "Не удалось отозвать запрос")),
+  });
+
+  const requests = requestsQuery.data ?? [];
+  if (!bookingEnabled && requests.length === 0) return null;
+
+  const selectedService = services.find((s) => s.id === activeServiceId) ?? null;
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <CalendarPlus className="size-4 text-muted-foreground" />
+          Записаться на занятие
+        </div>
+        <Separator />
+
+        {message && !target ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        {bookingEnabled ? (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="grid gap-1">
+                <div className="text-xs font-medium text-muted-foreground">Услуга</div>
+                <Select value={activeServiceId} onValueChange={setServiceId}>
+                  <SelectTrigger className="h-10">
+                    <SelectValue placeholder="Выберите услугу" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {services.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name} · {s.duration_min} мин
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1">
+                <div className="text-xs font-medium text-muted-foreground">Неделя с</div>
+                <Input className="h-10" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+            </div>
+
+            {!activeServiceId ? (
+              <div className="text-sm text-muted-foreground">Центр ещё не добавил услуги.</div>
+            ) : slotsQuery.isLoading ? (
+              <div className="text-sm text-muted-foreground">Поиск свободного времени…</div>
+            ) : slotsQuery.isError ? (
+              <div className="text-sm text-destructive">Не удалось загрузить свободное время.</div>
+            ) : byDay.length === 0 ? (
+              <div className="text-sm text-muted-foreground">
+                Свободных окон на эти дни нет. Выберите другую неделю
+                {settingsQuery.data ? ` (запись открыта на ${settingsQuery.data.booking_horizon_days} дн. вперёд)` : ""}.
+              </div>
+            ) : (
+              <div className="grid max-h-[360px] gap-3 overflow-y-auto">
+                {byDay.map(([day, slots]) => (
+                  <div key={day} className="grid gap-2">
+                    <div className="text-xs font-semibold uppercase text-muted-foreground">
+                      {formatDayRu(slots[0]!.slot_start)}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {slots.map((slot) => (
+                        <Button
+                          key={`${slot.specialist_id}-${slot.slot_start}`}
+                          type="button"
+                          variant="secondary"
+                          className="h-auto flex-col items-start gap-0 px-3 py-2"
+                          onClick={() => {
+                            setMessage(null);
+                            setNote("");
+                            setTarget(slot);
+                          }}
+                        >
+                          <span className="text-sm font-semibold">{formatTimeRu(slot.slot_start)}</span>
+                          <span className="text-xs text-muted-foreground">{slot.specialist_name}</span>
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-sm text-muted-foreground">Онлайн-запись временно недоступна.</div>
+        )}
+
+        {requests.length > 0 ? (
+          <>
+            <Separator />
+            <div className="text-xs font-semibold uppercase text-muted-foreground">Мои запросы</div>
+            <div className="grid gap-2">
+              {requests.map((r) => (
+                <div key={r.id} className="grid gap-1 rounded-xl border bg-card p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0 text-sm">
+                      <span className="font-semibold">
+                        {formatDayRu(r.start_time)}, {formatTimeRu(r.start_time)}
+                      </span>{" "}
+                      · {r.service?.name ?? "Занятие"}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={r.status === "approved" ? "secondary" : r.status === "rejected" ? "destructive" : "outline"}>
+                        {bookingStatusLabels[r.status]}
+                      </Badge>
+                      {r.status === "pending" ? (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          className="h-8"
+                          onClick={() => withdrawMutation.mutate(r.id)}
+                          disabled={withdrawMutation.isPending}
+                        >
+                          Отозвать
+                        </Button>
+                      ) : null}
+                    </div>
+                  </div>
+                  {r.resolution_note ? <div className="text-xs text-muted-foreground">{r.resolution_note}</div> : null}
+                </div>
+              ))}
+            </div>
+          </>
+        ) : null}
+      </CardContent>
+
+      <Drawer
+        open={Boolean(target)}
+        onOpenChange={(open) => {
+          if (!open) setTarget(null);
+        }}
+      >
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Запрос на запись</DrawerTitle>
+          </DrawerHeader>
+          {target ? (
+            <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+              {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+              <div className="grid gap-1 text-sm">
+                <div className="font-semibold">
+                  {formatDayRu(target.slot_start)}, {formatTimeRu(target.slot_start)}–{formatTimeRu(target.slot_end)}
+                </div>
+                <div className="text-muted-foreground">
+                  {selectedService?.name ?? "Занятие"} · {target.specialist_name}
+                  {selectedService ? ` · ${moneyRu(Number(selectedService.price))}` : ""}
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Комментарий (опционально)</div>
+                <Textarea value={note} onChange={(e) => setNote(e.target.value)} />
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                Занятие появится в расписании после подтверждения администратором — ответ будет в списке «Мои запросы».
+              </div>
+
+              <Separator />
+
+              <div className="flex items-center justify-end gap-2">
+                <Button type="button" variant="secondary" className="h-11" onClick={() => setTarget(null)}>
+                  Назад
+                </Button>
+                <Button
+                  type="button"
+                  className="h-11"
+                  onClick={() => submitMutation.mutate()}
+                  disabled={submitMutation.isPending}
+                >
+                  Отправить запрос
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  );
+}
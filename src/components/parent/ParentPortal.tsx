@@ -5,9 +5,11 @@ import { useQuery } from "@tanstack/react-query";
 import {
   AlarmClock,
   CalendarDays,
+  MessageSquareText,
   Moon,
   Siren,
   Smile,
+  Toilet,
   Utensils,
 } from "lucide-react";
 import {
@@ -32,18 +34,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { BillingDocumentsCard } from "@/components/billing/BillingDocumentsCard";
+import { CalendarFeedsCard } from "@/components/calendar/CalendarFeedsCard";
 import { HomeNotesThread } from "@/components/notes/HomeNotesThread";
+import { BookingRequestCard } from "@/components/parent/BookingRequestCard";
+import { ToiletProgressCard } from "@/components/parent/ToiletProgressCard";
+import { UpcomingSessionsCard } from "@/components/parent/UpcomingSessionsCard";
+import { customEventIcon, formatCustomEventText, parseCustomEventPayload } from "@/lib/custom-events";
+import { sleepDurationLabel } from "@/lib/sleep";
 import { supabase } from "@/lib/supabase/client";
+import { parseToiletData, toiletResultLabel, toiletResultOptions } from "@/lib/toileting";
 import { cn } from "@/lib/utils";
 import type {
   BehaviorIncident,
   Child,
+  CustomEventType,
   DailyLog,
   FoodIntake,
   SkillGoal,
   SkillTracking,
   TimelineEvent,
   TimelineEventType,
+  ToiletResult,
 } from "@/types/models";
 
 type TimelineItem =
@@ -85,7 +97,9 @@ function foodLabel(v: FoodIntake) {
   }
 }
 
-function timelineIcon(item: TimelineItem) {
+type CustomTypesById = Map<string, CustomEventType>;
+
+function timelineIcon(item: TimelineItem, customTypes: CustomTypesById) {
   if (item.kind === "incident") return <Siren className="size-4 text-destructive" />;
   switch (item.type) {
     case "food":
@@ -95,12 +109,21 @@ function timelineIcon(item: TimelineItem) {
     case "nap_start":
     case "nap_end":
       return <Moon className="size-4 text-muted-foreground" />;
+    case "toilet":
+      return <Toilet className="size-4 text-muted-foreground" />;
+    case "note":
+      return <MessageSquareText className="size-4 text-muted-foreground" />;
+    case "custom": {
+      const type = customTypes.get(parseCustomEventPayload(item.payload).typeId ?? "");
+      const Icon = customEventIcon(type?.icon);
+      return <Icon className="size-4" style={{ color: type?.color }} />;
+    }
     default:
       return <AlarmClock className="size-4 text-muted-foreground" />;
   }
 }
 
-function timelineText(item: TimelineItem) {
+function timelineText(item: TimelineItem, customTypes: CustomTypesById) {
   if (item.kind === "incident") {
     const intensity = item.intensity ? `${item.intensity}/10` : "—";
     return `Инцидент (ABC), интенсивность: ${intensity}`;
@@ -120,6 +143,18 @@ function timelineText(item: TimelineItem) {
     const minutes = payload.minutes as number | undefined;
     return minutes ? `Сон закончился (+${minutes} мин)` : "Сон закончился";
   }
+  if (item.type === "toilet") {
+    const result = payload.result as ToiletResult | undefined;
+    return result ? `Туалет: ${toiletResultLabel(result)}` : "Туалет отмечен";
+  }
+  if (item.type === "note") {
+    const text = payload.text as string | undefined;
+    return text ? `Заметка: ${text}` : "Заметка";
+  }
+  if (item.type === "custom") {
+    const { typeId, values } = parseCustomEventPayload(payload);
+    return formatCustomEventText(typeId ? customTypes.get(typeId) : undefined, values);
+  }
   return "Событие";
 }
 
@@ -232,6 +267,39 @@ async function fetchMoodWeek(childId: string): Promise<Array<{ date: string; lab
   }));
 }
 
+// Неактивные типы тоже нужны: по ним уже могут быть события в ленте.
+async function fetchCustomEventTypes(): Promise<CustomEventType[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase.from("custom_event_types").select("*");
+  if (error) throw error;
+  return (data ?? []) as CustomEventType[];
+}
+
+async function fetchSleepWeek(childId: string): Promise<Array<{ date: string; label: string; hours: number | null }>> {
+  if (!supabase) return [];
+
+  const dates = lastNDates(7);
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select("date,sleep_duration")
+    .eq("child_id", childId)
+    .gte("date", dates[0]!)
+    .lte("date", dates[dates.length - 1]!);
+
+  if (error) throw error;
+
+  const map = new Map<string, number | null>();
+  (data ?? []).forEach((row) => {
+    map.set(row.date as string, (row.sleep_duration as number | null) ?? null);
+  });
+
+  return dates.map((d) => {
+    const minutes = map.get(d);
+    return { date: d, label: dateLabelRu(d), hours: minutes == null ? null : Math.round((minutes / 60) * 10) / 10 };
+  });
+}
+
 async function fetchGoalsAndTracking(childId: string): Promise<{
   goals: SkillGoal[];
   tracking: SkillTracking[];
@@ -316,6 +384,23 @@ export function ParentPortal() {
     enabled: Boolean(supabase) && Boolean(selectedChild?.id),
   });
 
+  const customTypesQuery = useQuery({
+    queryKey: ["parent", "customEventTypes"],
+    queryFn: fetchCustomEventTypes,
+    enabled: Boolean(supabase),
+  });
+
+  const customTypes = useMemo(
+    () => new Map((customTypesQuery.data ?? []).map((t) => [t.id, t])),
+    [customTypesQuery.data],
+  );
+
+  const sleepWeekQuery = useQuery({
+    queryKey: ["parent", "sleepWeek", selectedChild?.id],
+    queryFn: () => fetchSleepWeek(selectedChild!.id),
+    enabled: Boolean(supabase) && Boolean(selectedChild?.id),
+  });
+
   const goalsQuery = useQuery({
     queryKey: ["parent", "goals", selectedChild?.id],
     queryFn: () => fetchGoalsAndTracking(selectedChild!.id),
@@ -335,7 +420,15 @@ export function ParentPortal() {
     mood: [4, 5, 3, 4, 4, 2, 4][idx] ?? null,
   }));
 
+  const sleepWeek = supabase ? sleepWeekQuery.data ?? [] : lastNDates(7).map((d, idx) => ({
+    date: d,
+    label: dateLabelRu(d),
+    hours: [1.5, 2, 1.2, 1.8, 2.2, 1, 1.6][idx] ?? null,
+  }));
+
   const dailyLog = dailyLogQuery.data ?? null;
+  const toiletData = parseToiletData(dailyLog?.toilet_data);
+  const toiletTotal = toiletResultOptions.reduce((sum, o) => sum + (toiletData[o.value] ?? 0), 0);
 
   const goalsData = goalsQuery.data;
   const goals = goalsData?.goals ?? EMPTY_GOALS;
@@ -399,6 +492,9 @@ export function ParentPortal() {
         </Alert>
       ) : null}
 
+      {selectedChild ? <UpcomingSessionsCard childId={selectedChild.id} /> : null}
+      {selectedChild ? <BookingRequestCard childId={selectedChild.id} /> : null}
+
       <div className="grid gap-3 lg:grid-cols-[1.1fr_0.9fr]">
         <Card>
           <CardContent className="grid gap-3 p-4">
@@ -423,9 +519,9 @@ export function ParentPortal() {
                           "flex items-start gap-3 rounded-xl border bg-card px-3 py-3",
                         )}
                       >
-                        <div className="mt-0.5">{timelineIcon(item)}</div>
+                        <div className="mt-0.5">{timelineIcon(item, customTypes)}</div>
                         <div className="min-w-0">
-                          <div className="text-sm font-medium">{timelineText(item)}</div>
+                          <div className="text-sm font-medium">{timelineText(item, customTypes)}</div>
                           <div className="text-xs text-muted-foreground">
                             {timeRu(item.timestamp)}
                           </div>
@@ -484,6 +580,44 @@ export function ParentPortal() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardContent className="grid gap-3 p-4">
+              <div className="flex items-center gap-2 text-sm font-semibold">
+                <Moon className="size-4 text-muted-foreground" />
+                Дневной сон, ч (7 дней)
+              </div>
+              <Separator />
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={sleepWeek} margin={{ left: 8, right: 8, top: 8, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="4 4" />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals tickLine={false} axisLine={false} width={24} />
+                    <Tooltip
+                      formatter={(v) =>
+                        typeof v === "number" ? [sleepDurationLabel(Math.round(v * 60)), "Сон"] : ["—", "Сон"]
+                      }
+                      labelFormatter={(l) => `Дата: ${l}`}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="hours"
+                      stroke="var(--chart-2)"
+                      strokeWidth={3}
+                      dot={{ r: 3 }}
+                      connectNulls={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              {supabase && sleepWeekQuery.isError ? (
+                <div className="text-xs text-muted-foreground">
+                  Не удалось загрузить данные сна
+                </div>
+              ) : null}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="grid gap-3 p-4">
               <div className="flex items-center gap-2 text-sm font-semibold">
@@ -508,7 +642,18 @@ export function ParentPortal() {
                 <div className="flex items-center justify-between gap-3">
                   <span className="text-muted-foreground">Сон</span>
                   <span className="font-medium">
-                    {dailyLog?.sleep_duration != null ? `${dailyLog.sleep_duration} мин` : "—"}
+                    {sleepDurationLabel(dailyLog?.sleep_duration)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-muted-foreground">Туалет</span>
+                  <span className="text-right font-medium">
+                    {toiletTotal > 0
+                      ? toiletResultOptions
+                          .filter((o) => toiletData[o.value])
+                          .map((o) => `${o.short} ${toiletData[o.value]}`)
+                          .join(" · ")
+                      : "—"}
                   </span>
                 </div>
               </div>
@@ -517,6 +662,8 @@ export function ParentPortal() {
         </div>
       </div>
 
+      {selectedChild && supabase ? <ToiletProgressCard childId={selectedChild.id} /> : null}
+
       <Card>
         <CardContent className="grid gap-3 p-4">
           <div className="text-sm font-semibold">Прогресс навыков</div>
@@ -569,6 +716,11 @@ export function ParentPortal() {
           )}
         </CardContent>
       </Card>
+
+      {selectedChild ? <BillingDocumentsCard childId={selectedChild.id} scope="parent" /> : null}
+      {selectedChild && supabase ? (
+        <CalendarFeedsCard kind="child" targetId={selectedChild.id} title="Расписание в календаре телефона" />
+      ) : null}
     </div>
   );
 }
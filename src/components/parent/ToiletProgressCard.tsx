@@ -0,0 +1,111 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { Toilet } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { Card, CardContent } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { supabase } from "@/lib/supabase/client";
+import { parseToiletData, toiletSuccessRate } from "@/lib/toileting";
+import type { Json } from "@/types/models";
+
+type ToiletDay = { date: string; label: string; success: number; accident: number; wet: number; dry: number };
+
+const PROGRESS_DAYS = 14;
+
+function lastNDates(n: number) {
+  const out: string[] = [];
+  const now = new Date();
+  for (let i = n - 1; i >= 0; i--) {
+    const d = new Date(now);
+    d.setDate(now.getDate() - i);
+    out.push(d.toISOString().slice(0, 10));
+  }
+  return out;
+}
+
+function dateLabelRu(date: string) {
+  return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "2-digit" }).format(new Date(date + "T00:00:00"));
+}
+
+async function fetchToiletProgress(childId: string): Promise<ToiletDay[]> {
+  if (!supabase) return [];
+
+  const dates = lastNDates(PROGRESS_DAYS);
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select("date,toilet_data")
+    .eq("child_id", childId)
+    .gte("date", dates[0]!)
+    .lte("date", dates[dates.length - 1]!);
+  if (error) throw error;
+
+  const byDate = new Map<string, Json>();
+  (data ?? []).forEach((row) => byDate.set(row.date as string, row.toilet_data as Json));
+
+  return dates.map((d) => {
+    const t = parseToiletData(byDate.get(d));
+    return {
+      date: d,
+      label: dateLabelRu(d),
+      success: t.success ?? 0,
+      accident: t.accident ?? 0,
+      wet: t.wet ?? 0,
+      dry: t.dry ?? 0,
+    };
+  });
+}
+
+// Приучение к горшку: успехи и аварии по дням, общий процент успеха за период.
+export function ToiletProgressCard({ childId }: { childId: string }) {
+  const progressQuery = useQuery({
+    queryKey: ["parent", "toiletProgress", childId],
+    queryFn: () => fetchToiletProgress(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const days = progressQuery.data ?? [];
+  const totals = days.reduce(
+    (acc, d) => ({ success: acc.success + d.success, accident: acc.accident + d.accident }),
+    { success: 0, accident: 0 },
+  );
+  const rate = toiletSuccessRate(totals);
+  const hasData = days.some((d) => d.success + d.accident + d.wet + d.dry > 0);
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <Toilet className="size-4 text-muted-foreground" />
+          Приучение к горшку ({PROGRESS_DAYS} дней)
+          <span className="ml-auto text-xs font-normal text-muted-foreground">
+            {rate === null ? "Успех: —" : `Успех: ${rate}%`}
+          </span>
+        </div>
+        <Separator />
+        {hasData ? (
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={days} margin={{ left: 8, right: 8, top: 8, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="4 4" />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                <Tooltip labelFormatter={(l) => `Дата: ${l}`} />
+                <Bar dataKey="success" name="Успех" stackId="toilet" fill="var(--chart-1)" />
+                <Bar dataKey="accident" name="Авария" stackId="toilet" fill="var(--chart-4)" radius={[6, 6, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            {progressQuery.isLoading ? "Загрузка…" : "Пока нет отметок о туалете"}
+          </div>
+        )}
+        {progressQuery.isError ? (
+          <div className="text-xs text-muted-foreground">Не удалось загрузить данные</div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
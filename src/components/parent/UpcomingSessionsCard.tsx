@@ -0,0 +1,294 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarClock, CheckCircle2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { appointmentStatusLabel } from "@/lib/appointment-status";
+import { supabase } from "@/lib/supabase/client";
+import type { AppointmentCancelRequest, AppointmentStatus } from "@/types/models";
+
+type UpcomingSession = {
+  id: string;
+  start_time: string;
+  end_time: string;
+  status: AppointmentStatus;
+  service: { name: string; late_cancel_hours: number } | null;
+  specialist: { full_name: string | null; email: string } | null;
+  requests: Array<Pick<AppointmentCancelRequest, "id" | "status" | "late" | "created_at" | "resolution_note">>;
+};
+
+const UPCOMING_DAYS = 60;
+
+function normalizeOne<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  if (Array.isArray(raw)) return (raw[0] as T) ?? null;
+  if (typeof raw === "object") return raw as T;
+  return null;
+}
+
+async function fetchUpcomingSessions(childId: string): Promise<UpcomingSession[]> {
+  if (!supabase) return [];
+  const from = new Date();
+  const to = new Date(from);
+  to.setDate(to.getDate() + UPCOMING_DAYS);
+  const { data, error } = await supabase
+    .from("appointments")
+    .select(
+      "id,start_time,end_time,status,service:services(name,late_cancel_hours),specialist:profiles!appointments_specialist_id_fkey(full_name,email)," +
+        "requests:appointment_cancel_requests(id,status,late,created_at,resolution_note)",
+    )
+    .eq("child_id", childId)
+    .in("status", ["pending", "confirmed"])
+    .gte("start_time", from.toISOString())
+    .lt("start_time", to.toISOString())
+    .order("start_time", { ascending: true });
+  if (error) throw error;
+  return ((data ?? []) as unknown as Array<Record<string, unknown>>).map((r) => ({
+    ...(r as unknown as UpcomingSession),
+    service: normalizeOne<{ name: string; late_cancel_hours: number }>(r.service),
+    specialist: normalizeOne<{ full_name: string | null; email: string }>(r.specialist),
+    requests: ((r.requests ?? []) as UpcomingSession["requests"]).sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  }));
+}
+
+function dateTimeLongRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", {
+    weekday: "short",
+    day: "2-digit",
+    month: "long",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+// Срок бесплатной отмены: за late_cancel_hours до начала (по умолчанию 24 ч).
+function freeCancelUntil(s: UpcomingSession) {
+  const d = new Date(s.start_time);
+  d.setHours(d.getHours() - (s.service?.late_cancel_hours ?? 24));
+  return d;
+}
+
+function describeRequestError(err: unknown, fallback: string) {
+  const message = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  const code = err && typeof err === "object" ? ((err as { code?: string }).code ?? "") : "";
+  if (code === "23505") return "Запрос на отмену уже отправлен.";
+  if (message.includes("appointment_not_cancelable")) return "Эту запись уже нельзя отменить.";
+  return err instanceof Error ? err.message : fallback;
+}
+
+export function UpcomingSessionsCard({ childId }: { childId: string }) {
+  const queryClient = useQueryClient();
+
+  const [target, setTarget] = useState<UpcomingSession | null>(null);
+  const [reason, setReason] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const sessionsQuery = useQuery({
+    queryKey: ["parent", "upcomingSessions", childId],
+    queryFn: () => fetchUpcomingSessions(childId),
+    enabled: Boolean(supabase) && Boolean(childId),
+  });
+
+  const sessions = sessionsQuery.data ?? [];
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["parent", "upcomingSessions", childId] });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { data, error } = await supabase
+        .from("appointments")
+        .update({ status: "confirmed" })
+        .eq("id", id)
+        .select("id");
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error("Запись уже нельзя подтвердить");
+    },
+    onSuccess: invalidate,
+    onError: (err: unknown) => setMessage(describeRequestError(err, "Не удалось подтвердить запись")),
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      if (!target) return;
+      setMessage(null);
+      const { error } = await supabase
+        .from("appointment_cancel_requests")
+        .insert({ appointment_id: target.id, reason: reason.trim() || null });
+      if (error) throw error;
+    },
+    onSuccess: async () => {
+      setTarget(null);
+      setReason("");
+      await invalidate();
+    },
+    onError: (err: unknown) => setMessage(describeRequestError(err, "Не удалось отправить запрос")),
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      if (!supabase) throw new Error("Supabase не настроен");
+      setMessage(null);
+      const { error } = await supabase.from("appointment_cancel_requests").delete().eq("id", requestId);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (err: unknown) => setMessage(describeRequestError(err, "Не удалось отозвать запрос")),
+  });
+
+  const targetLate = target ? freeCancelUntil(target) < new Date() : false;
+
+  return (
+    <Card>
+      <CardContent className="grid gap-3 p-4">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <CalendarClock className="size-4 text-muted-foreground" />
+          Ближайшие занятия
+        </div>
+        <Separator />
+
+        {message && !target ? <div className="text-sm text-destructive">{message}</div> : null}
+
+        {sessions.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            {sessionsQuery.isLoading ? "Загрузка…" : "Запланированных занятий нет"}
+          </div>
+        ) : (
+          <div className="grid gap-2">
+            {sessions.map((s) => {
+              const pendingRequest = s.requests.find((r) => r.status === "pending") ?? null;
+              const lastRejected = pendingRequest ? null : (s.requests.find((r) => r.status === "rejected") ?? null);
+              return (
+                <div key={s.id} className="grid gap-2 rounded-xl border bg-card p-3">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-semibold">{dateTimeLongRu(s.start_time)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {s.service?.name ?? "Занятие"}
+                        {s.specialist ? ` · ${s.specialist.full_name || s.specialist.email}` : ""}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={s.status === "confirmed" ? "secondary" : "outline"}>
+                        {appointmentStatusLabel(s.status)}
+                      </Badge>
+                      {pendingRequest ? <Badge variant="outline">Запрошена отмена</Badge> : null}
+                    </div>
+                  </div>
+
+                  {lastRejected ? (
+                    <div className="text-xs text-muted-foreground">
+                      Отмена отклонена{lastRejected.resolution_note ? `: ${lastRejected.resolution_note}` : ""}
+                    </div>
+                  ) : null}
+
+                  <div className="flex flex-wrap justify-end gap-2">
+                    {s.status === "pending" && !pendingRequest ? (
+                      <Button
+                        type="button"
+                        className="h-9"
+                        onClick={() => confirmMutation.mutate(s.id)}
+                        disabled={confirmMutation.isPending}
+                      >
+                        <CheckCircle2 className="size-4" />
+                        Подтвердить
+                      </Button>
+                    ) : null}
+                    {pendingRequest ? (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="h-9"
+                        onClick={() => withdrawMutation.mutate(pendingRequest.id)}
+                        disabled={withdrawMutation.isPending}
+                      >
+                        Отозвать запрос
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        className="h-9"
+                        onClick={() => {
+                          setMessage(null);
+                          setReason("");
+                          setTarget(s);
+                        }}
+                      >
+                        Отменить…
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Drawer
+        open={Boolean(target)}
+        onOpenChange={(open) => {
+          if (!open) setTarget(null);
+        }}
+      >
+        <DrawerContent className="mx-auto w-full max-w-xl">
+          <DrawerHeader className="pb-2">
+            <DrawerTitle className="text-lg">Запрос на отмену</DrawerTitle>
+          </DrawerHeader>
+          {target ? (
+            <div className="grid gap-4 px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+              {message ? <div className="rounded-lg border bg-card p-3 text-sm text-destructive">{message}</div> : null}
+
+              <div className="text-sm">
+                {target.service?.name ?? "Занятие"} · {dateTimeLongRu(target.start_time)}
+              </div>
+
+              {targetLate ? (
+                <div className="rounded-lg border border-destructive/40 bg-card p-3 text-sm">
+                  Срок бесплатной отмены прошёл ({dateTimeLongRu(freeCancelUntil(target).toISOString())}). При отмене может
+                  быть начислен штраф по правилам центра.
+                </div>
+              ) : (
+                <div className="text-xs text-muted-foreground">
+                  Бесплатная отмена до {dateTimeLongRu(freeCancelUntil(target).toISOString())}.
+                </div>
+              )}
+
+              <div className="grid gap-2">
+                <div className="text-sm font-medium">Причина (опционально)</div>
+                <Textarea value={reason} onChange={(e) => setReason(e.target.value)} />
+              </div>
+
+              <div className="text-xs text-muted-foreground">Запись будет отменена после подтверждения администратором.</div>
+
+              <Separator />
+
+              <div className="flex items-center justify-end gap-2">
+                <Button type="button" variant="secondary" className="h-11" onClick={() => setTarget(null)}>
+                  Назад
+                </Button>
+                <Button
+                  type="button"
+                  className="h-11"
+                  onClick={() => requestMutation.mutate()}
+                  disabled={requestMutation.isPending}
+                >
+                  Отправить запрос
+                </Button>
+              </div>
+            </div>
+          ) : null}
+        </DrawerContent>
+      </Drawer>
+    </Card>
+  );
+}
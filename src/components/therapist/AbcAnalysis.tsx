@@ -24,11 +24,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import {
+  CHILD_GROUPS_SELECT,
+  collectGroups,
+  filterByGroup,
+  normalizeChildGroups,
+  type WithGroups,
+} from "@/lib/child-groups";
 import { supabase } from "@/lib/supabase/client";
 import type { BehaviorIncident, Child } from "@/types/models";
 
 type IncidentLite = Pick<BehaviorIncident, "child_id" | "timestamp">;
+type ChildLite = WithGroups<Pick<Child, "id" | "name">>;
 const EMPTY_INCIDENTS: IncidentLite[] = [];
+const EMPTY_CHILDREN: ChildLite[] = [];
 
 function startIso(date: string) {
   return new Date(date + "T00:00:00.000").toISOString();
@@ -137,18 +146,20 @@ function HeatmapTooltip({
   );
 }
 
-async function fetchChildrenLite(): Promise<Array<Pick<Child, "id" | "name">>> {
+async function fetchChildrenLite(): Promise<ChildLite[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
     .from("children")
-    .select("id,name")
+    .select(`id,name, ${CHILD_GROUPS_SELECT}`)
     .order("name", { ascending: true });
   if (error) throw error;
-  return (data ?? []) as Array<Pick<Child, "id" | "name">>;
+  const rows = (data ?? []) as Array<Pick<Child, "id" | "name"> & { group_children?: unknown }>;
+  return rows.map((r) => ({ id: r.id, name: r.name, groups: normalizeChildGroups(r.group_children) }));
 }
 
 async function fetchIncidents(params: {
   childId?: string;
+  childIds?: string[];
   from: string;
   to: string;
 }): Promise<IncidentLite[]> {
@@ -163,6 +174,7 @@ async function fetchIncidents(params: {
     .limit(2000);
 
   if (params.childId) q = q.eq("child_id", params.childId);
+  else if (params.childIds) q = q.in("child_id", params.childIds);
   const { data, error } = await q;
   if (error) throw error;
   return (data ?? []) as IncidentLite[];
@@ -170,6 +182,7 @@ async function fetchIncidents(params: {
 
 export function AbcAnalysis() {
   const range = useMemo(() => lastDaysRange(7), []);
+  const [groupId, setGroupId] = useState<string>("");
   const [childId, setChildId] = useState<string>("");
   const [from, setFrom] = useState(range.from);
   const [to, setTo] = useState(range.to);
@@ -180,11 +193,17 @@ export function AbcAnalysis() {
     enabled: Boolean(supabase),
   });
 
+  const allChildren = childrenQuery.data ?? EMPTY_CHILDREN;
+  const groups = useMemo(() => collectGroups(allChildren), [allChildren]);
+  const children = useMemo(() => filterByGroup(allChildren, groupId), [allChildren, groupId]);
+  const groupChildIds = groupId ? children.map((c) => c.id) : undefined;
+
   const incidentsQuery = useQuery({
-    queryKey: ["therapist", "abc-heatmap", { childId, from, to }],
+    queryKey: ["therapist", "abc-heatmap", { childId, groupChildIds, from, to }],
     queryFn: () =>
       fetchIncidents({
         childId: childId || undefined,
+        childIds: groupChildIds,
         from,
         to,
       }),
@@ -222,8 +241,6 @@ export function AbcAnalysis() {
     return points.reduce((m, p) => Math.max(m, p.value), 0);
   }, [points]);
 
-  const children = childrenQuery.data ?? [];
-
   return (
     <div className="grid gap-4">
       <div>
@@ -248,7 +265,32 @@ export function AbcAnalysis() {
           </div>
           <Separator />
 
-          <div className="grid gap-3 md:grid-cols-3">
+          <div className={groups.length > 0 ? "grid gap-3 md:grid-cols-4" : "grid gap-3 md:grid-cols-3"}>
+            {groups.length > 0 ? (
+              <div className="grid gap-1">
+                <div className="text-xs font-medium text-muted-foreground">Группа</div>
+                <Select
+                  value={groupId ? groupId : "all"}
+                  onValueChange={(v) => {
+                    setGroupId(v === "all" ? "" : v);
+                    setChildId("");
+                  }}
+                >
+                  <SelectTrigger className="h-10">
+                    <SelectValue placeholder="Все группы" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Все группы</SelectItem>
+                    {groups.map((g) => (
+                      <SelectItem key={g.id} value={g.id}>
+                        {g.name || "Группа"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : null}
+
             <div className="grid gap-1">
               <div className="text-xs font-medium text-muted-foreground">Ребёнок</div>
               <Select
@@ -29,10 +29,19 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import {
+  CHILD_GROUPS_SELECT,
+  collectGroups,
+  filterByGroup,
+  normalizeChildGroups,
+  type WithGroups,
+} from "@/lib/child-groups";
 import { supabase } from "@/lib/supabase/client";
 import type { Child, SkillGoal } from "@/types/models";
 
-const EMPTY_CHILDREN: Array<Pick<Child, "id" | "name">> = [];
+type ChildLite = WithGroups<Pick<Child, "id" | "name">>;
+
+const EMPTY_CHILDREN: ChildLite[] = [];
 
 const goalSchema = z.object({
   child_id: z.string().uuid("Выберите ребёнка"),
@@ -46,14 +55,15 @@ function statusLabel(status: SkillGoal["status"]) {
   return status === "mastered" ? "Освоено" : "В процессе";
 }
 
-async function fetchChildrenLite(): Promise<Array<Pick<Child, "id" | "name">>> {
+async function fetchChildrenLite(): Promise<ChildLite[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
     .from("children")
-    .select("id,name")
+    .select(`id,name, ${CHILD_GROUPS_SELECT}`)
     .order("name", { ascending: true });
   if (error) throw error;
-  return (data ?? []) as Array<Pick<Child, "id" | "name">>;
+  const rows = (data ?? []) as Array<Pick<Child, "id" | "name"> & { group_children?: unknown }>;
+  return rows.map((r) => ({ id: r.id, name: r.name, groups: normalizeChildGroups(r.group_children) }));
 }
 
 async function fetchGoals(childId: string): Promise<SkillGoal[]> {
@@ -69,6 +79,7 @@ async function fetchGoals(childId: string): Promise<SkillGoal[]> {
 
 export function GoalsManager() {
   const queryClient = useQueryClient();
+  const [groupId, setGroupId] = useState<string>("");
   const [selectedChildId, setSelectedChildId] = useState<string>("");
   const [message, setMessage] = useState<string | null>(null);
 
@@ -78,8 +89,12 @@ export function GoalsManager() {
     enabled: Boolean(supabase),
   });
 
-  const children = childrenQuery.data ?? EMPTY_CHILDREN;
-  const effectiveChildId = selectedChildId || children[0]?.id || "";
+  const allChildren = childrenQuery.data ?? EMPTY_CHILDREN;
+  const groups = useMemo(() => collectGroups(allChildren), [allChildren]);
+  const children = useMemo(() => filterByGroup(allChildren, groupId), [allChildren, groupId]);
+  const effectiveChildId = children.some((c) => c.id === selectedChildId)
+    ? selectedChildId
+    : children[0]?.id || "";
   const selectedChild = useMemo(
     () => children.find((c) => c.id === effectiveChildId) ?? null,
     [children, effectiveChildId],
@@ -150,6 +165,21 @@ export function GoalsManager() {
             Ребёнок
           </div>
           <Separator />
+          {groups.length > 0 ? (
+            <Select value={groupId ? groupId : "all"} onValueChange={(v) => setGroupId(v === "all" ? "" : v)}>
+              <SelectTrigger className="h-11">
+                <SelectValue placeholder="Все группы" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Все группы</SelectItem>
+                {groups.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name || "Группа"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
           <Select
             value={effectiveChildId}
             onValueChange={setSelectedChildId}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MessageSquareText, Smile, Utensils, UtensilsCrossed } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import type { GroupLite } from "@/lib/child-groups";
+import { createTimelineEvent, foodOptions, moodOptions, upsertDailyLog } from "@/lib/quick-log";
+import { isSupabaseConfigured, supabase } from "@/lib/supabase/client";
+import { cn } from "@/lib/utils";
+import type { Child, DailyLog, FoodIntake } from "@/types/models";
+
+type ChildLite = Pick<Child, "id" | "name">;
+
+type BulkAction =
+  | { kind: "food"; value: FoodIntake }
+  | { kind: "mood"; score: number }
+  | { kind: "note"; text: string };
+
+type BulkResult = { done: number; queued: number; failed: string[] };
+
+function dateKeyToday() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function fetchGroupDailyLogs(childIds: string[], date: string): Promise<DailyLog[]> {
+  if (!supabase || childIds.length === 0) return [];
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) return [];
+
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select("*")
+    .in("child_id", childIds)
+    .eq("date", date);
+
+  if (error) throw error;
+  return (data ?? []) as DailyLog[];
+}
+
+// Те же записи, что и в карточке ребёнка: upsert дневника + событие ленты, по каждому ребёнку отдельно.
+async function applyToChild(childId: string, date: string, action: BulkAction) {
+  if (action.kind === "note") {
+    return (await createTimelineEvent(childId, "note", { text: action.text })) === "queued";
+  }
+
+  const patch = action.kind === "food" ? { food_intake: action.value } : { mood_score: action.score };
+  const log = await upsertDailyLog({ childId, date, patch });
+  const status = await createTimelineEvent(childId, action.kind, patch);
+  return log === null || status === "queued";
+}
+
+async function applyBulk({
+  children,
+  date,
+  action,
+}: {
+  children: ChildLite[];
+  date: string;
+  action: BulkAction;
+}): Promise<BulkResult> {
+  const result: BulkResult = { done: 0, queued: 0, failed: [] };
+
+  // По одному ребёнку: ошибка у одного не отменяет запись остальным, а очередь сохраняет порядок.
+  for (const child of children) {
+    try {
+      const queued = await applyToChild(child.id, date, action);
+      result.done += 1;
+      if (queued) result.queued += 1;
+    } catch {
+      result.failed.push(child.name);
+    }
+  }
+
+  return result;
+}
+
+function describeBulkResult(result: BulkResult) {
+  const parts = [`Сохранено: ${result.done}`];
+  if (result.queued > 0) parts.push(`офлайн: ${result.queued}`);
+  if (result.failed.length > 0) parts.push(`не удалось: ${result.failed.join(", ")}`);
+  return parts.join(" · ");
+}
+
+// Групповой ввод: одна отметка еды, настроения или общая заметка сразу для выбранных детей группы.
+export function GroupLogDrawer({
+  open,
+  onOpenChange,
+  group,
+  childrenList,
+  hasSession,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  group: GroupLite | null;
+  childrenList: ChildLite[];
+  hasSession: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const date = useMemo(() => dateKeyToday(), []);
+
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [lastAction, setLastAction] = useState<string | null>(null);
+
+  const demoMode = !isSupabaseConfigured || !hasSession;
+  const childIds = useMemo(() => childrenList.map((c) => c.id), [childrenList]);
+  const selected = childrenList.filter((c) => !excludedIds.includes(c.id));
+
+  const logsKey = ["groupDailyLogs", group?.id, date] as const;
+  const logsQuery = useQuery({
+    queryKey: logsKey,
+    queryFn: () => fetchGroupDailyLogs(childIds, date),
+    enabled: open && Boolean(group) && isSupabaseConfigured && hasSession,
+  });
+
+  const logByChild = new Map((logsQuery.data ?? []).map((l) => [l.child_id, l]));
+
+  useEffect(() => {
+    if (!lastAction) return;
+    const t = window.setTimeout(() => setLastAction(null), 4000);
+    return () => window.clearTimeout(t);
+  }, [lastAction]);
+
+  const bulkMutation = useMutation({
+    mutationFn: applyBulk,
+    onMutate: async ({ children, action }) => {
+      if (action.kind === "note") return { previous: undefined };
+
+      await queryClient.cancelQueries({ queryKey: logsKey });
+      const previous = queryClient.getQueryData<DailyLog[]>(logsKey);
+
+      const nowIso = new Date().toISOString();
+      const patch = action.kind === "food" ? { food_intake: action.value } : { mood_score: action.score };
+      const rows = new Map((previous ?? []).map((l) => [l.child_id, l]));
+      children.forEach((c) => {
+        const prev = rows.get(c.id);
+        rows.set(c.id, {
+          id: prev?.id ?? crypto.randomUUID(),
+          child_id: c.id,
+          date,
+          mood_score: prev?.mood_score ?? null,
+          food_intake: prev?.food_intake ?? null,
+          sleep_duration: prev?.sleep_duration ?? null,
+          toilet_data: prev?.toilet_data ?? {},
+          created_by: prev?.created_by ?? null,
+          created_at: prev?.created_at ?? nowIso,
+          updated_at: nowIso,
+          ...patch,
+        });
+      });
+
+      queryClient.setQueryData<DailyLog[]>(logsKey, Array.from(rows.values()));
+      return { previous };
+    },
+    onError: (_err, _input, context) => {
+      if (context?.previous) queryClient.setQueryData(logsKey, context.previous);
+      setLastAction("Не удалось сохранить. Проверьте подключение.");
+    },
+    onSuccess: async (result, input) => {
+      setLastAction(describeBulkResult(result));
+      if (input.action.kind === "note" && result.failed.length === 0) setNote("");
+      if (demoMode || result.queued === result.done) return;
+      await queryClient.invalidateQueries({ queryKey: ["groupDailyLogs", group?.id, date] });
+      await queryClient.invalidateQueries({ queryKey: ["dailyLog"] });
+    },
+  });
+
+  const run = (action: BulkAction) => {
+    if (selected.length === 0) return;
+    bulkMutation.mutate({ children: selected, date, action });
+  };
+
+  const toggleChild = (id: string) =>
+    setExcludedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+  const disabled = selected.length === 0 || bulkMutation.isPending;
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent className="mx-auto w-full max-w-2xl data-[vaul-drawer-direction=bottom]:max-h-[92vh]">
+        <DrawerHeader className="pb-2">
+          <DrawerTitle className="text-lg">Групповой ввод: {group?.name || "Группа"}</DrawerTitle>
+          {lastAction ? <div className="text-sm text-muted-foreground">{lastAction}</div> : null}
+        </DrawerHeader>
+
+        <div className="overflow-y-auto px-4 pb-[calc(env(safe-area-inset-bottom)+1rem)]">
+          {demoMode ? (
+            <div className="mb-3 rounded-lg border bg-card p-3 text-sm text-muted-foreground">
+              Демо-режим — данные не синхронизируются с Supabase.
+            </div>
+          ) : null}
+
+          <div className="grid gap-4">
+            <section className="rounded-xl border bg-card p-3">
+              <div className="flex items-center gap-2">
+                <h2 className="text-sm font-semibold">Дети</h2>
+                <span className="text-xs text-muted-foreground">
+                  выбрано {selected.length} из {childrenList.length}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => setExcludedIds(selected.length === childrenList.length ? childIds : [])}
+                >
+                  {selected.length === childrenList.length ? "Снять всех" : "Выбрать всех"}
+                </Button>
+              </div>
+              <Separator className="my-3" />
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                {childrenList.map((c) => {
+                  const isSelected = !excludedIds.includes(c.id);
+                  const log = logByChild.get(c.id);
+                  const food = foodOptions.find((o) => o.value === log?.food_intake);
+                  const mood = moodOptions.find((m) => m.score === log?.mood_score);
+                  return (
+                    <button
+                      key={c.id}
+                      type="button"
+                      aria-pressed={isSelected}
+                      className={cn(
+                        "rounded-lg border p-2 text-left transition-colors",
+                        isSelected ? "border-primary bg-primary/5" : "opacity-60",
+                      )}
+                      onClick={() => toggleChild(c.id)}
+                    >
+                      <div className="truncate text-sm font-semibold">{c.name}</div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {food ? food.label : "Еда —"} · {mood ? mood.emoji : "—"}
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+
+            <section className="rounded-xl border bg-card p-3">
+              <div className="flex items-center gap-2">
+                <Utensils className="size-4 text-muted-foreground" />
+                <h2 className="text-sm font-semibold">Еда</h2>
+              </div>
+              <Separator className="my-3" />
+              <div className="grid grid-cols-2 gap-2">
+                {foodOptions.map((opt) => (
+                  <Button
+                    key={opt.value}
+                    type="button"
+                    variant="secondary"
+                    className="h-14 justify-start text-base"
+                    disabled={disabled}
+                    onClick={() => run({ kind: "food", value: opt.value })}
+                  >
+                    {opt.icon === "refusal" ? <UtensilsCrossed className="size-5" /> : <Utensils className="size-5" />}
+                    {opt.label}
+                  </Button>
+                ))}
+              </div>
+            </section>
+
+            <section className="rounded-xl border bg-card p-3">
+              <div className="flex items-center gap-2">
+                <Smile className="size-4 text-muted-foreground" />
+                <h2 className="text-sm font-semibold">Настроение</h2>
+              </div>
+              <Separator className="my-3" />
+              <div className="grid grid-cols-5 gap-2">
+                {moodOptions.map((m) => (
+                  <Button
+                    key={m.score}
+                    type="button"
+                    variant="secondary"
+                    className="h-14 px-0 text-2xl"
+                    aria-label={m.label}
+                    title={m.label}
+                    disabled={disabled}
+                    onClick={() => run({ kind: "mood", score: m.score })}
+                  >
+                    {m.emoji}
+                  </Button>
+                ))}
+              </div>
+            </section>
+
+            <section className="rounded-xl border bg-card p-3">
+              <div className="flex items-center gap-2">
+                <MessageSquareText className="size-4 text-muted-foreground" />
+                <h2 className="text-sm font-semibold">Общая заметка</h2>
+              </div>
+              <Separator className="my-3" />
+              <div className="grid gap-2">
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Например: занимались лепкой, все дети участвовали"
+                  rows={3}
+                />
+                <Button
+                  type="button"
+                  className="h-11"
+                  disabled={disabled || !note.trim()}
+                  onClick={() => run({ kind: "note", text: note.trim() })}
+                >
+                  Добавить в ленту выбранным детям
+                </Button>
+              </div>
+            </section>
+          </div>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -18,6 +18,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import {
+  CHILD_GROUPS_SELECT,
+  collectGroups,
+  filterByGroup,
+  normalizeChildGroups,
+  type WithGroups,
+} from "@/lib/child-groups";
 import { supabase } from "@/lib/supabase/client";
 import type { BehaviorIncident, Child } from "@/types/models";
 
@@ -26,6 +33,10 @@ type IncidentRow = Pick<
   "id" | "child_id" | "timestamp" | "intensity" | "antecedent" | "behavior" | "consequence"
 > & { child?: Pick<Child, "name"> | null };
 
+type ChildLite = WithGroups<Pick<Child, "id" | "name">>;
+
+const EMPTY_CHILDREN: ChildLite[] = [];
+
 function startIso(date: string) {
   return new Date(date + "T00:00:00.000").toISOString();
 }
@@ -44,18 +55,20 @@ function dateTimeRu(iso: string) {
   }).format(d);
 }
 
-async function fetchChildrenLite(): Promise<Array<Pick<Child, "id" | "name">>> {
+async function fetchChildrenLite(): Promise<ChildLite[]> {
   if (!supabase) return [];
   const { data, error } = await supabase
     .from("children")
-    .select("id,name")
+    .select(`id,name, ${CHILD_GROUPS_SELECT}`)
     .order("name", { ascending: true });
   if (error) throw error;
-  return (data ?? []) as Array<Pick<Child, "id" | "name">>;
+  const rows = (data ?? []) as Array<Pick<Child, "id" | "name"> & { group_children?: unknown }>;
+  return rows.map((r) => ({ id: r.id, name: r.name, groups: normalizeChildGroups(r.group_children) }));
 }
 
 async function fetchIncidents(params: {
   childId?: string;
+  childIds?: string[];
   from?: string;
   to?: string;
 }): Promise<IncidentRow[]> {
@@ -68,6 +81,7 @@ async function fetchIncidents(params: {
     .limit(200);
 
   if (params.childId) q = q.eq("child_id", params.childId);
+  else if (params.childIds) q = q.in("child_id", params.childIds);
   if (params.from) q = q.gte("timestamp", startIso(params.from));
   if (params.to) q = q.lte("timestamp", endIso(params.to));
 
@@ -111,6 +125,7 @@ function hasDetails(i: IncidentRow) {
 export function IncidentsList() {
   const today = useMemo(() => new Date().toISOString().slice(0, 10), []);
 
+  const [groupId, setGroupId] = useState<string>("");
   const [childId, setChildId] = useState<string>("");
   const [from, setFrom] = useState<string>(today);
   const [to, setTo] = useState<string>(today);
@@ -121,18 +136,23 @@ export function IncidentsList() {
     enabled: Boolean(supabase),
   });
 
+  const allChildren = childrenQuery.data ?? EMPTY_CHILDREN;
+  const groups = useMemo(() => collectGroups(allChildren), [allChildren]);
+  const children = useMemo(() => filterByGroup(allChildren, groupId), [allChildren, groupId]);
+  const groupChildIds = groupId ? children.map((c) => c.id) : undefined;
+
   const incidentsQuery = useQuery({
-    queryKey: ["therapist", "incidents", { childId, from, to }],
+    queryKey: ["therapist", "incidents", { childId, groupChildIds, from, to }],
     queryFn: () =>
       fetchIncidents({
         childId: childId || undefined,
+        childIds: groupChildIds,
         from: from || undefined,
         to: to || undefined,
       }),
     enabled: Boolean(supabase),
   });
 
-  const children = childrenQuery.data ?? [];
   const incidents = incidentsQuery.data ?? [];
 
   return (
@@ -158,7 +178,32 @@ export function IncidentsList() {
             Фильтры
           </div>
           <Separator />
-          <div className="grid gap-3 md:grid-cols-3">
+          <div className={groups.length > 0 ? "grid gap-3 md:grid-cols-4" : "grid gap-3 md:grid-cols-3"}>
+            {groups.length > 0 ? (
+              <div className="grid gap-1">
+                <div className="text-xs font-medium text-muted-foreground">Группа</div>
+                <Select
+                  value={groupId ? groupId : "all"}
+                  onValueChange={(v) => {
+                    setGroupId(v === "all" ? "" : v);
+                    setChildId("");
+                  }}
+                >
+                  <SelectTrigger className="h-10">
+                    <SelectValue placeholder="Все группы" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Все группы</SelectItem>
+                    {groups.map((g) => (
+                      <SelectItem key={g.id} value={g.id}>
+                        {g.name || "Группа"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : null}
+
             <div className="grid gap-1">
               <div className="text-xs font-medium text-muted-foreground">Ребёнок</div>
               <Select
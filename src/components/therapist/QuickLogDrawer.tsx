@@ -5,39 +5,81 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import {
   AlarmClock,
   Moon,
+  Pencil,
   Siren,
+  Sparkles,
+  Toilet,
   Utensils,
   UtensilsCrossed,
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@/components/ui/drawer";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import {
+  customEventIcon,
+  describeCustomEventError,
+  validateCustomEventValues,
+  type CustomEventValues,
+} from "@/lib/custom-events";
+import { submitOperation } from "@/lib/offline-outbox";
+import { createTimelineEvent, foodOptions, moodOptions, upsertDailyLog } from "@/lib/quick-log";
+import {
+  fromTimeInputValue,
+  sleepDurationLabel,
+  sleepSessionMinutes,
+  toTimeInputValue,
+} from "@/lib/sleep";
 import { isSupabaseConfigured, supabase } from "@/lib/supabase/client";
+import { parseToiletData, toiletResultLabel, toiletResultOptions } from "@/lib/toileting";
 import { cn } from "@/lib/utils";
 import type {
   BehaviorIncident,
   Child,
+  CustomEventType,
   DailyLog,
-  FoodIntake,
+  SleepSession,
   TimelineEventType,
+  ToiletResult,
 } from "@/types/models";
 
-type UpsertDailyLogInput = {
-  childId: string;
-  date: string; // YYYY-MM-DD
-  patch: Partial<Pick<DailyLog, "food_intake" | "mood_score" | "sleep_duration">>;
-};
-
 function dateKeyToday() {
   return new Date().toISOString().slice(0, 10);
 }
 
+function startOfTodayIso() {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.toISOString();
+}
+
 function formatTimeRu(iso: string) {
   const d = new Date(iso);
   return new Intl.DateTimeFormat("ru-RU", { hour: "2-digit", minute: "2-digit" }).format(d);
 }
 
+async function fetchCustomEventTypes(): Promise<CustomEventType[]> {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("custom_event_types")
+    .select("*")
+    .eq("is_active", true)
+    .order("sort_order")
+    .order("name");
+
+  if (error) throw error;
+  return (data ?? []) as CustomEventType[];
+}
+
 async function fetchDailyLog(childId: string, date: string): Promise<DailyLog | null> {
   if (!supabase) return null;
 
@@ -55,57 +97,43 @@ async function fetchDailyLog(childId: string, date: string): Promise<DailyLog |
   return (data ?? null) as DailyLog | null;
 }
 
-async function upsertDailyLog(input: UpsertDailyLogInput): Promise<DailyLog> {
-  const nowIso = new Date().toISOString();
-
-  if (!supabase) {
-    return {
-      id: crypto.randomUUID(),
-      child_id: input.childId,
-      date: input.date,
-      mood_score: input.patch.mood_score ?? null,
-      sleep_duration: input.patch.sleep_duration ?? null,
-      food_intake: input.patch.food_intake ?? null,
-      toilet_data: {},
-      created_by: null,
-      created_at: nowIso,
-      updated_at: nowIso,
-    };
-  }
+// Эпизоды сна, задевающие сегодняшний день, плюс незакрытый (ребёнок ещё спит).
+async function fetchSleepSessions(childId: string, dayStartIso: string): Promise<SleepSession[]> {
+  if (!supabase) return [];
 
   const { data: sessionData } = await supabase.auth.getSession();
-  if (!sessionData.session) {
-    return {
-      id: crypto.randomUUID(),
-      child_id: input.childId,
-      date: input.date,
-      mood_score: input.patch.mood_score ?? null,
-      sleep_duration: input.patch.sleep_duration ?? null,
-      food_intake: input.patch.food_intake ?? null,
-      toilet_data: {},
-      created_by: null,
-      created_at: nowIso,
-      updated_at: nowIso,
-    };
-  }
-
-  const payload = {
-    child_id: input.childId,
-    date: input.date,
-    ...input.patch,
-  };
+  if (!sessionData.session) return [];
 
   const { data, error } = await supabase
-    .from("daily_logs")
-    .upsert(payload, { onConflict: "child_id,date" })
+    .from("sleep_sessions")
     .select("*")
-    .single();
+    .eq("child_id", childId)
+    .or(`end_time.is.null,end_time.gte.${dayStartIso}`)
+    .order("start_time");
+
+  if (error) throw error;
+  return (data ?? []) as SleepSession[];
+}
+
+async function updateSleepSession(input: Pick<SleepSession, "id" | "start_time" | "end_time">) {
+  if (!supabase) throw new Error("Supabase не настроен");
+
+  const { error } = await supabase
+    .from("sleep_sessions")
+    .update({ start_time: input.start_time, end_time: input.end_time })
+    .eq("id", input.id);
 
   if (error) throw error;
-  return data as DailyLog;
 }
 
-async function createBehaviorIncident(childId: string): Promise<BehaviorIncident> {
+async function deleteSleepSession(id: string) {
+  if (!supabase) throw new Error("Supabase не настроен");
+
+  const { error } = await supabase.from("sleep_sessions").delete().eq("id", id);
+  if (error) throw error;
+}
+
+async function createBehaviorIncident(childId: string): Promise<BehaviorIncident | null> {
   const nowIso = new Date().toISOString();
 
   if (!supabase) {
@@ -137,55 +165,151 @@ async function createBehaviorIncident(childId: string): Promise<BehaviorIncident
     };
   }
 
+  // id и время задаются на устройстве: при отправке из очереди сохраняется момент нажатия.
   const payload = {
+    id: crypto.randomUUID(),
     child_id: childId,
     timestamp: nowIso,
     intensity: 5,
   };
 
-  const { data, error } = await supabase
-    .from("behavior_incidents")
-    .insert(payload)
-    .select("*")
-    .single();
+  const result = await submitOperation({ id: payload.id, kind: "behavior_incident", payload });
+  if (result.status === "queued") return null;
 
-  if (error) throw error;
-  return data as BehaviorIncident;
+  return {
+    ...payload,
+    antecedent: null,
+    behavior: null,
+    consequence: null,
+    created_by: sessionData.session.user.id,
+    created_at: nowIso,
+  };
 }
 
-async function createTimelineEvent(childId: string, type: TimelineEventType, payload: Record<string, unknown> = {}) {
-  if (!supabase) return;
-
-  const { data: sessionData } = await supabase.auth.getSession();
-  if (!sessionData.session) return;
-
-  const { error } = await supabase.from("timeline_events").insert({
-    child_id: childId,
-    type,
-    payload,
-    created_by: sessionData.session.user.id,
-  });
+function SleepSessionEditor({
+  session,
+  pending,
+  onSave,
+  onDelete,
+  onCancel,
+}: {
+  session: SleepSession;
+  pending: boolean;
+  onSave: (input: Pick<SleepSession, "id" | "start_time" | "end_time">) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}) {
+  const [start, setStart] = useState(toTimeInputValue(session.start_time));
+  const [end, setEnd] = useState(session.end_time ? toTimeInputValue(session.end_time) : "");
+
+  const save = () => {
+    if (!start) return;
+    const startIso = fromTimeInputValue(session.start_time, start);
+    let endIso: string | null = null;
+    if (end) {
+      endIso = fromTimeInputValue(session.start_time, end);
+      // Конец раньше начала — сон через полночь.
+      if (new Date(endIso).getTime() <= new Date(startIso).getTime()) {
+        endIso = new Date(new Date(endIso).getTime() + 24 * 60 * 60 * 1000).toISOString();
+      }
+    }
+    onSave({ id: session.id, start_time: startIso, end_time: endIso });
+  };
 
-  if (error) throw error;
+  return (
+    <div className="grid gap-2 rounded-lg border p-2">
+      <div className="grid grid-cols-2 gap-2">
+        <label className="grid gap-1 text-xs text-muted-foreground">
+          Уснул
+          <Input type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+        </label>
+        <label className="grid gap-1 text-xs text-muted-foreground">
+          Проснулся
+          <Input type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" size="sm" disabled={pending || !start} onClick={save}>
+          Сохранить
+        </Button>
+        <Button type="button" size="sm" variant="secondary" disabled={pending} onClick={onCancel}>
+          Отмена
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="ml-auto text-destructive" disabled={pending} onClick={onDelete}>
+          Удалить
+        </Button>
+      </div>
+    </div>
+  );
 }
 
-type MoodOption = { score: 1 | 2 | 3 | 4 | 5; emoji: string; label: string };
+function CustomEventForm({
+  type,
+  pending,
+  onSubmit,
+  onCancel,
+}: {
+  type: CustomEventType;
+  pending: boolean;
+  onSubmit: (values: CustomEventValues) => void;
+  onCancel: () => void;
+}) {
+  const [input, setInput] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
 
-const moodOptions: MoodOption[] = [
-  { score: 5, emoji: "😊", label: "Очень хорошо" },
-  { score: 4, emoji: "🙂", label: "Хорошо" },
-  { score: 3, emoji: "😐", label: "Нейтрально" },
-  { score: 2, emoji: "😟", label: "Тревожно" },
-  { score: 1, emoji: "😣", label: "Мелтдаун" },
-];
+  const submit = () => {
+    const result = validateCustomEventValues(type.fields, input);
+    setErrors(result.errors);
+    if (Object.keys(result.errors).length === 0) onSubmit(result.values);
+  };
 
-const foodOptions: Array<{ value: FoodIntake; label: string; icon: "full" | "half" | "none" | "refusal" }> =
-  [
-    { value: "all", label: "Всё съел", icon: "full" },
-    { value: "half", label: "Половина", icon: "half" },
-    { value: "none", label: "Не ел", icon: "none" },
-    { value: "refusal", label: "Отказ", icon: "refusal" },
-  ];
+  const setValue = (key: string, value: string) => setInput((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="mt-3 grid gap-3 rounded-lg border p-3">
+      <div className="text-sm font-semibold">{type.name}</div>
+      {type.fields.map((f) => (
+        <div key={f.key} className="grid gap-1">
+          <div className="text-xs font-medium text-muted-foreground">
+            {f.label}
+            {f.type === "number" && f.unit ? `, ${f.unit}` : ""}
+            {f.required ? " *" : ""}
+          </div>
+          {f.type === "select" ? (
+            <Select value={input[f.key] ?? ""} onValueChange={(v) => setValue(f.key, v)}>
+              <SelectTrigger className="h-10">
+                <SelectValue placeholder="Выберите" />
+              </SelectTrigger>
+              <SelectContent>
+                {(f.options ?? []).map((o) => (
+                  <SelectItem key={o} value={o}>
+                    {o}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              className="h-10"
+              inputMode={f.type === "number" ? "decimal" : undefined}
+              value={input[f.key] ?? ""}
+              onChange={(e) => setValue(f.key, e.target.value)}
+            />
+          )}
+          {errors[f.key] ? <div className="text-xs text-destructive">{errors[f.key]}</div> : null}
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button type="button" disabled={pending} onClick={submit}>
+          Сохранить
+        </Button>
+        <Button type="button" variant="secondary" disabled={pending} onClick={onCancel}>
+          Отмена
+        </Button>
+      </div>
+    </div>
+  );
+}
 
 export function QuickLogDrawer({
   open,
@@ -201,8 +325,10 @@ export function QuickLogDrawer({
   const queryClient = useQueryClient();
   const date = useMemo(() => dateKeyToday(), []);
 
-  const [napStartedAt, setNapStartedAt] = useState<string | null>(null);
+  const dayStartIso = useMemo(() => startOfTodayIso(), []);
   const [lastAction, setLastAction] = useState<string | null>(null);
+  const [editingSleepId, setEditingSleepId] = useState<string | null>(null);
+  const [customFormType, setCustomFormType] = useState<CustomEventType | null>(null);
 
   const childId = child?.id ?? null;
   const demoMode = !isSupabaseConfigured || !hasSession;
@@ -215,6 +341,24 @@ export function QuickLogDrawer({
 
   const dailyLog = dailyLogQuery.data ?? null;
 
+  const customTypesQuery = useQuery({
+    queryKey: ["customEventTypes"],
+    queryFn: fetchCustomEventTypes,
+    enabled: isSupabaseConfigured && hasSession,
+  });
+
+  const customTypes = customTypesQuery.data ?? [];
+
+  const sleepKey = ["sleepSessions", childId, date] as const;
+  const sleepSessionsQuery = useQuery({
+    queryKey: sleepKey,
+    queryFn: () => fetchSleepSessions(childId as string, dayStartIso),
+    enabled: Boolean(childId) && isSupabaseConfigured && hasSession,
+  });
+
+  const sleepSessions = sleepSessionsQuery.data ?? [];
+  const openSleep = sleepSessions.find((s) => !s.end_time) ?? null;
+
   useEffect(() => {
     if (!lastAction) return;
     const t = window.setTimeout(() => setLastAction(null), 2000);
@@ -251,6 +395,10 @@ export function QuickLogDrawer({
       setLastAction("Не удалось сохранить. Проверьте подключение.");
     },
     onSuccess: (data) => {
+      if (!data) {
+        setLastAction("Сохранено офлайн — отправим при подключении");
+        return;
+      }
       queryClient.setQueryData(["dailyLog", data.child_id, data.date], data);
       setLastAction("Сохранено");
     },
@@ -258,7 +406,8 @@ export function QuickLogDrawer({
 
   const incidentMutation = useMutation({
     mutationFn: (childIdArg: string) => createBehaviorIncident(childIdArg),
-    onSuccess: () => setLastAction("Инцидент зафиксирован"),
+    onSuccess: (data) =>
+      setLastAction(data === null ? "Инцидент сохранён офлайн — отправим при подключении" : "Инцидент зафиксирован"),
     onError: () => setLastAction("Не удалось зафиксировать инцидент"),
   });
 
@@ -274,16 +423,183 @@ export function QuickLogDrawer({
     }) => createTimelineEvent(childIdArg, type, payload),
   });
 
+  // Сводку за день пересчитывает сервер; здесь — только оптимистичный +1 до ответа.
+  const toiletMutation = useMutation({
+    mutationFn: ({ childId: childIdArg, result }: { childId: string; result: ToiletResult }) =>
+      createTimelineEvent(childIdArg, "toilet", { result }),
+    onMutate: async ({ childId: childIdArg, result }) => {
+      const key = ["dailyLog", childIdArg, date] as const;
+
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<DailyLog | null>(key);
+
+      const nowIso = new Date().toISOString();
+      const toilet = parseToiletData(previous?.toilet_data);
+      const next: DailyLog = {
+        id: previous?.id ?? crypto.randomUUID(),
+        child_id: childIdArg,
+        date,
+        mood_score: previous?.mood_score ?? null,
+        food_intake: previous?.food_intake ?? null,
+        sleep_duration: previous?.sleep_duration ?? null,
+        toilet_data: { ...toilet, [result]: (toilet[result] ?? 0) + 1, last_at: nowIso },
+        created_by: previous?.created_by ?? null,
+        created_at: previous?.created_at ?? nowIso,
+        updated_at: nowIso,
+      };
+
+      queryClient.setQueryData(key, next);
+      return { previous };
+    },
+    onError: (_err, input, context) => {
+      queryClient.setQueryData(["dailyLog", input.childId, date], context?.previous ?? null);
+      setLastAction("Не удалось сохранить. Проверьте подключение.");
+    },
+    onSuccess: async (status, input) => {
+      if (status === "queued") {
+        setLastAction(`Отмечено офлайн: ${toiletResultLabel(input.result)}`);
+        return;
+      }
+      setLastAction(`Отмечено: ${toiletResultLabel(input.result)}`);
+      if (!demoMode) await queryClient.invalidateQueries({ queryKey: ["dailyLog", input.childId, date] });
+    },
+  });
+
+  // Эпизод сна собирает сервер из событий nap_start / nap_end; в кэше — оптимистичная копия.
+  const napStartMutation = useMutation({
+    mutationFn: ({ childId: childIdArg }: { childId: string }) => createTimelineEvent(childIdArg, "nap_start"),
+    onMutate: async ({ childId: childIdArg }) => {
+      const key = ["sleepSessions", childIdArg, date] as const;
+
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<SleepSession[]>(key);
+
+      const nowIso = new Date().toISOString();
+      const local: SleepSession = {
+        id: `local-${crypto.randomUUID()}`,
+        child_id: childIdArg,
+        start_time: nowIso,
+        end_time: null,
+        start_event_id: null,
+        end_event_id: null,
+        created_by: null,
+        created_at: nowIso,
+        updated_at: nowIso,
+      };
+
+      queryClient.setQueryData<SleepSession[]>(key, [...(previous ?? []), local]);
+      return { previous };
+    },
+    onError: (_err, input, context) => {
+      queryClient.setQueryData(["sleepSessions", input.childId, date], context?.previous ?? []);
+      setLastAction("Не удалось сохранить. Проверьте подключение.");
+    },
+    onSuccess: async (status, input) => {
+      setLastAction(status === "queued" ? "Сон начался (офлайн)" : "Сон начался");
+      if (status === "sent") await queryClient.invalidateQueries({ queryKey: ["sleepSessions", input.childId, date] });
+    },
+  });
+
+  const napEndMutation = useMutation({
+    mutationFn: ({ childId: childIdArg, minutes }: { childId: string; minutes: number }) =>
+      createTimelineEvent(childIdArg, "nap_end", { minutes }),
+    onMutate: async ({ childId: childIdArg, minutes }) => {
+      const sleepKeyArg = ["sleepSessions", childIdArg, date] as const;
+      const logKey = ["dailyLog", childIdArg, date] as const;
+
+      await queryClient.cancelQueries({ queryKey: sleepKeyArg });
+      await queryClient.cancelQueries({ queryKey: logKey });
+      const previousSessions = queryClient.getQueryData<SleepSession[]>(sleepKeyArg);
+      const previousLog = queryClient.getQueryData<DailyLog | null>(logKey);
+
+      const nowIso = new Date().toISOString();
+      queryClient.setQueryData<SleepSession[]>(
+        sleepKeyArg,
+        (previousSessions ?? []).map((s) => (s.end_time ? s : { ...s, end_time: nowIso })),
+      );
+      queryClient.setQueryData<DailyLog>(logKey, {
+        id: previousLog?.id ?? crypto.randomUUID(),
+        child_id: childIdArg,
+        date,
+        mood_score: previousLog?.mood_score ?? null,
+        food_intake: previousLog?.food_intake ?? null,
+        sleep_duration: (previousLog?.sleep_duration ?? 0) + minutes,
+        toilet_data: previousLog?.toilet_data ?? {},
+        created_by: previousLog?.created_by ?? null,
+        created_at: previousLog?.created_at ?? nowIso,
+        updated_at: nowIso,
+      });
+      return { previousSessions, previousLog };
+    },
+    onError: (_err, input, context) => {
+      queryClient.setQueryData(["sleepSessions", input.childId, date], context?.previousSessions ?? []);
+      queryClient.setQueryData(["dailyLog", input.childId, date], context?.previousLog ?? null);
+      setLastAction("Не удалось сохранить. Проверьте подключение.");
+    },
+    onSuccess: async (status, input) => {
+      const label = `Сон закончился: ${sleepDurationLabel(input.minutes)}`;
+      setLastAction(status === "queued" ? `${label} (офлайн)` : label);
+      if (status !== "sent") return;
+      await queryClient.invalidateQueries({ queryKey: ["sleepSessions", input.childId, date] });
+      await queryClient.invalidateQueries({ queryKey: ["dailyLog", input.childId, date] });
+    },
+  });
+
+  const invalidateSleep = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["sleepSessions", childId, date] });
+    await queryClient.invalidateQueries({ queryKey: ["dailyLog", childId, date] });
+  };
+
+  const updateSleepMutation = useMutation({
+    mutationFn: updateSleepSession,
+    onSuccess: async () => {
+      setEditingSleepId(null);
+      setLastAction("Время сна исправлено");
+      await invalidateSleep();
+    },
+    onError: () => setLastAction("Не удалось сохранить: конец сна должен быть позже начала, не более суток"),
+  });
+
+  const deleteSleepMutation = useMutation({
+    mutationFn: deleteSleepSession,
+    onSuccess: async () => {
+      setEditingSleepId(null);
+      setLastAction("Эпизод сна удалён");
+      await invalidateSleep();
+    },
+    onError: () => setLastAction("Не удалось удалить эпизод сна"),
+  });
+
+  // Схему проверяет и сервер (триггер на timeline_events); здесь — до отправки, с подсказками по полям.
+  const customEventMutation = useMutation({
+    mutationFn: ({
+      childId: childIdArg,
+      type,
+      values,
+    }: {
+      childId: string;
+      type: CustomEventType;
+      values: CustomEventValues;
+    }) => createTimelineEvent(childIdArg, "custom", { type_id: type.id, values }),
+    onSuccess: (status, input) => {
+      setCustomFormType(null);
+      setLastAction(status === "queued" ? `Отмечено офлайн: ${input.type.name}` : `Отмечено: ${input.type.name}`);
+    },
+    onError: (err) => setLastAction(describeCustomEventError(err)),
+  });
+
   const canInteract = Boolean(childId);
 
   const moodValue = dailyLog?.mood_score ?? null;
   const foodValue = dailyLog?.food_intake ?? null;
   const sleepMinutes = dailyLog?.sleep_duration ?? null;
 
-  const sleepLabel =
-    sleepMinutes == null
-      ? "Сон за день: —"
-      : `Сон за день: ${Math.round(sleepMinutes)} мин`;
+  const toiletData = parseToiletData(dailyLog?.toilet_data);
+  const toiletSummary = toiletResultOptions
+    .map((o) => `${o.short.toLowerCase()}: ${toiletData[o.value] ?? 0}`)
+    .join(" · ");
+
+  const sleepLabel = `Сон за день: ${sleepDurationLabel(sleepMinutes)}`;
 
   return (
     <Drawer open={open} onOpenChange={onOpenChange}>
@@ -412,16 +728,10 @@ export function QuickLogDrawer({
                   type="button"
                   variant="secondary"
                   className="h-14 justify-start text-base"
-                  disabled={!canInteract || Boolean(napStartedAt)}
+                  disabled={!canInteract || Boolean(openSleep) || napStartMutation.isPending}
                   onClick={() => {
                     if (!childId) return;
-                    const nowIso = new Date().toISOString();
-                    setNapStartedAt(nowIso);
-                    setLastAction("Сон начался");
-                    timelineEventMutation.mutate({
-                      childId,
-                      type: "nap_start",
-                    });
+                    napStartMutation.mutate({ childId });
                   }}
                 >
                   <Moon className="size-5" />
@@ -431,43 +741,136 @@ export function QuickLogDrawer({
                   type="button"
                   variant="secondary"
                   className="h-14 justify-start text-base"
-                  disabled={!canInteract || !napStartedAt || upsertDailyLogMutation.isPending}
+                  disabled={!canInteract || !openSleep || napEndMutation.isPending}
                   onClick={() => {
-                    if (!childId || !napStartedAt) return;
-                    const endIso = new Date().toISOString();
-                    const minutes = Math.max(
-                      0,
-                      Math.round(
-                        (new Date(endIso).getTime() - new Date(napStartedAt).getTime()) / 60000,
-                      ),
-                    );
-                    const next = (sleepMinutes ?? 0) + minutes;
-                    setNapStartedAt(null);
-
-                    upsertDailyLogMutation.mutate({
-                      childId,
-                      date,
-                      patch: { sleep_duration: next },
-                    });
-
-                    timelineEventMutation.mutate({
-                      childId,
-                      type: "nap_end",
-                      payload: { minutes },
-                    });
+                    if (!childId || !openSleep) return;
+                    napEndMutation.mutate({ childId, minutes: sleepSessionMinutes(openSleep, new Date().toISOString()) });
                   }}
                 >
                   <AlarmClock className="size-5" />
                   Сон закончился
                 </Button>
               </div>
-              {napStartedAt ? (
+              {openSleep ? (
                 <div className="mt-2 text-sm text-muted-foreground">
-                  В процессе: с {formatTimeRu(napStartedAt)}
+                  В процессе: с {formatTimeRu(openSleep.start_time)}
+                </div>
+              ) : null}
+              {sleepSessions.length > 0 ? (
+                <div className="mt-3 grid gap-2">
+                  {sleepSessions.map((s) =>
+                    editingSleepId === s.id ? (
+                      <SleepSessionEditor
+                        key={s.id}
+                        session={s}
+                        pending={updateSleepMutation.isPending || deleteSleepMutation.isPending}
+                        onSave={(input) => updateSleepMutation.mutate(input)}
+                        onDelete={() => deleteSleepMutation.mutate(s.id)}
+                        onCancel={() => setEditingSleepId(null)}
+                      />
+                    ) : (
+                      <div key={s.id} className="flex items-center gap-2 text-sm">
+                        <span>
+                          {formatTimeRu(s.start_time)} – {s.end_time ? formatTimeRu(s.end_time) : "спит"}
+                        </span>
+                        {s.end_time ? (
+                          <span className="text-muted-foreground">· {sleepDurationLabel(sleepSessionMinutes(s))}</span>
+                        ) : null}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="ml-auto size-8"
+                          aria-label="Исправить время сна"
+                          disabled={demoMode || s.id.startsWith("local-")}
+                          onClick={() => setEditingSleepId(s.id)}
+                        >
+                          <Pencil className="size-4" />
+                        </Button>
+                      </div>
+                    ),
+                  )}
                 </div>
               ) : null}
             </section>
 
+            <section className="rounded-xl border bg-card p-3">
+              <div className="flex items-center gap-2">
+                <Toilet className="size-4 text-muted-foreground" />
+                <h2 className="text-sm font-semibold">Туалет</h2>
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {toiletData.last_at ? `Последний раз: ${formatTimeRu(toiletData.last_at)}` : "Не заполнено"}
+                </span>
+              </div>
+              <Separator className="my-3" />
+              <div className="grid grid-cols-2 gap-2">
+                {toiletResultOptions.map((opt) => (
+                  <Button
+                    key={opt.value}
+                    type="button"
+                    variant={opt.value === "accident" ? "outline" : "secondary"}
+                    className="h-14 justify-start text-base"
+                    disabled={!canInteract || toiletMutation.isPending}
+                    onClick={() => {
+                      if (!childId) return;
+                      toiletMutation.mutate({ childId, result: opt.value });
+                    }}
+                  >
+                    <Toilet className="size-5" />
+                    {opt.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="mt-2 text-xs text-muted-foreground">Сегодня — {toiletSummary}</div>
+            </section>
+
+            {customTypes.length > 0 ? (
+              <section className="rounded-xl border bg-card p-3">
+                <div className="flex items-center gap-2">
+                  <Sparkles className="size-4 text-muted-foreground" />
+                  <h2 className="text-sm font-semibold">Другие события</h2>
+                </div>
+                <Separator className="my-3" />
+                <div className="grid grid-cols-2 gap-2">
+                  {customTypes.map((t) => {
+                    const Icon = customEventIcon(t.icon);
+                    return (
+                      <Button
+                        key={t.id}
+                        type="button"
+                        variant={customFormType?.id === t.id ? "default" : "secondary"}
+                        className="h-14 justify-start text-base"
+                        disabled={!canInteract || customEventMutation.isPending}
+                        onClick={() => {
+                          if (!childId) return;
+                          if (t.fields.length === 0) {
+                            customEventMutation.mutate({ childId, type: t, values: {} });
+                            return;
+                          }
+                          setCustomFormType(t);
+                        }}
+                      >
+                        <Icon className="size-5" style={{ color: t.color }} />
+                        <span className="truncate">{t.name}</span>
+                      </Button>
+                    );
+                  })}
+                </div>
+                {customFormType ? (
+                  <CustomEventForm
+                    key={customFormType.id}
+                    type={customFormType}
+                    pending={customEventMutation.isPending}
+                    onSubmit={(values) => {
+                      if (!childId) return;
+                      customEventMutation.mutate({ childId, type: customFormType, values });
+                    }}
+                    onCancel={() => setCustomFormType(null)}
+                  />
+                ) : null}
+              </section>
+            ) : null}
+
             <section className="rounded-xl border bg-card p-3">
               <div className="flex items-center gap-2">
                 <Siren className="size-4 text-destructive" />
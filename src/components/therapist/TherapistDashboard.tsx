@@ -2,17 +2,29 @@
 
 import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { CalendarDays, UsersRound } from "lucide-react";
+import { CalendarDays, ListChecks, UsersRound } from "lucide-react";
 
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  CHILD_GROUPS_SELECT,
+  collectGroups,
+  filterByGroup,
+  normalizeChildGroups,
+  type WithGroups,
+} from "@/lib/child-groups";
+import { CalendarFeedsCard } from "@/components/calendar/CalendarFeedsCard";
 import { cn } from "@/lib/utils";
 import { isSupabaseConfigured, supabase } from "@/lib/supabase/client";
 import type { Child } from "@/types/models";
 
+import { GroupLogDrawer } from "./GroupLogDrawer";
 import { QuickLogDrawer } from "./QuickLogDrawer";
 
-const demoChildren: Child[] = [
+type ChildRow = WithGroups<Child>;
+
+const demoChildren: ChildRow[] = [
   {
     id: "demo-1",
     name: "Артём",
@@ -23,6 +35,7 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
   {
     id: "demo-2",
@@ -34,6 +47,7 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
   {
     id: "demo-3",
@@ -45,6 +59,7 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
   {
     id: "demo-4",
@@ -56,6 +71,7 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
   {
     id: "demo-5",
@@ -67,6 +83,7 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
   {
     id: "demo-6",
@@ -78,22 +95,30 @@ const demoChildren: Child[] = [
     parent_id: null,
     created_at: new Date().toISOString(),
     updated_at: new Date().toISOString(),
+    groups: [],
   },
 ];
 
-async function fetchChildren(): Promise<Child[]> {
+const EMPTY_CHILDREN: ChildRow[] = [];
+
+async function fetchChildren(): Promise<ChildRow[]> {
   if (!supabase) return demoChildren;
 
   const { data: sessionData } = await supabase.auth.getSession();
   if (!sessionData.session) return demoChildren;
 
+  // RLS отдаёт и назначенных детей, и детей из групп сотрудника.
   const { data, error } = await supabase
     .from("children")
-    .select("*")
+    .select(`*, ${CHILD_GROUPS_SELECT}`)
     .order("name", { ascending: true });
 
   if (error) throw error;
-  return (data ?? []) as Child[];
+  const rows = (data ?? []) as Array<Child & { group_children?: unknown }>;
+  return rows.map(({ group_children, ...child }) => ({
+    ...child,
+    groups: normalizeChildGroups(group_children),
+  }));
 }
 
 function getInitials(name: string) {
@@ -114,6 +139,8 @@ function formatTodayLongRu(date: Date) {
 export function TherapistDashboard() {
   const [drawerOpen, setDrawerOpen] = useState(false);
   const [selectedChild, setSelectedChild] = useState<Child | null>(null);
+  const [groupId, setGroupId] = useState<string>("");
+  const [groupLogOpen, setGroupLogOpen] = useState(false);
 
   const todayLabel = useMemo(() => formatTodayLongRu(new Date()), []);
 
@@ -138,7 +165,11 @@ export function TherapistDashboard() {
     initialData: demoChildren,
   });
 
-  const children = childrenQuery.data ?? [];
+  const allChildren = childrenQuery.data ?? EMPTY_CHILDREN;
+  const groups = useMemo(() => collectGroups(allChildren), [allChildren]);
+  const effectiveGroupId = groups.some((g) => g.id === groupId) ? groupId : "";
+  const children = filterByGroup(allChildren, effectiveGroupId);
+  const selectedGroup = groups.find((g) => g.id === effectiveGroupId) ?? null;
 
   return (
     <div className="grid gap-4">
@@ -165,6 +196,42 @@ export function TherapistDashboard() {
         ) : null}
       </div>
 
+      {groups.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          <Button
+            type="button"
+            variant={effectiveGroupId ? "secondary" : "default"}
+            className="h-9 px-3"
+            onClick={() => setGroupId("")}
+          >
+            Все дети
+          </Button>
+          {groups.map((g) => (
+            <Button
+              key={g.id}
+              type="button"
+              variant={effectiveGroupId === g.id ? "default" : "secondary"}
+              className="h-9 px-3"
+              onClick={() => setGroupId(g.id)}
+            >
+              {g.name || "Группа"}
+            </Button>
+          ))}
+          {selectedGroup ? (
+            <Button
+              type="button"
+              variant="outline"
+              className="h-9 px-3 sm:ml-auto"
+              disabled={children.length === 0}
+              onClick={() => setGroupLogOpen(true)}
+            >
+              <ListChecks className="size-4" />
+              Ввод для всей группы
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+
       <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
         {children.map((child) => (
           <button
@@ -207,6 +274,10 @@ export function TherapistDashboard() {
         ))}
       </div>
 
+      {sessionQuery.data?.user ? (
+        <CalendarFeedsCard kind="specialist" targetId={sessionQuery.data.user.id} title="Мои занятия в календаре телефона" />
+      ) : null}
+
       <QuickLogDrawer
         key={selectedChild?.id ?? "no-child"}
         open={drawerOpen}
@@ -214,6 +285,15 @@ export function TherapistDashboard() {
         child={selectedChild}
         hasSession={hasSession}
       />
+
+      <GroupLogDrawer
+        key={selectedGroup?.id ?? "no-group"}
+        open={groupLogOpen && Boolean(selectedGroup)}
+        onOpenChange={setGroupLogOpen}
+        group={selectedGroup}
+        childrenList={children}
+        hasSession={hasSession}
+      />
     </div>
   );
 }
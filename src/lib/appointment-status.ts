@@ -0,0 +1,35 @@
+import type { AppointmentStatus } from "@/types/models";
+
+export const appointmentStatusOptions: Array<{ value: AppointmentStatus; label: string }> = [
+  { value: "pending", label: "Ожидает" },
+  { value: "confirmed", label: "Подтверждено" },
+  { value: "completed", label: "Завершено" },
+  { value: "no_show", label: "Не явился" },
+  { value: "canceled", label: "Отменено" },
+];
+
+export function appointmentStatusLabel(v: AppointmentStatus) {
+  return appointmentStatusOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+// Зеркалит public.appointment_status_transition_allowed.
+const transitions: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ["confirmed", "canceled", "completed", "no_show"],
+  confirmed: ["pending", "canceled", "completed", "no_show"],
+  canceled: ["pending", "confirmed"],
+  completed: ["confirmed"],
+  no_show: ["confirmed"],
+};
+
+// Откат завершения и неявки разрешён только admin/manager.
+export function isStatusRevert(from: AppointmentStatus) {
+  return from === "completed" || from === "no_show";
+}
+
+export function canTransitionStatus(from: AppointmentStatus, to: AppointmentStatus) {
+  return from === to || transitions[from].includes(to);
+}
+
+export function allowedStatusOptions(from: AppointmentStatus) {
+  return appointmentStatusOptions.filter((o) => canTransitionStatus(from, o.value));
+}
@@ -0,0 +1,34 @@
+import type { Group } from "@/types/models";
+
+export type GroupLite = Pick<Group, "id" | "name">;
+
+export type WithGroups<T> = T & { groups: GroupLite[] };
+
+// Встраивается в select по children: группы ребёнка, видимые текущему пользователю (RLS).
+export const CHILD_GROUPS_SELECT = "group_children(group:groups(id,name))";
+
+export function normalizeChildGroups(raw: unknown): GroupLite[] {
+  if (!Array.isArray(raw)) return [];
+  const out: GroupLite[] = [];
+  raw.forEach((row) => {
+    if (!row || typeof row !== "object") return;
+    const groupRaw = (row as { group?: unknown }).group;
+    const g = Array.isArray(groupRaw) ? groupRaw[0] : groupRaw;
+    if (!g || typeof g !== "object") return;
+    const { id, name } = g as { id?: unknown; name?: unknown };
+    if (typeof id !== "string") return;
+    out.push({ id, name: typeof name === "string" ? name : "" });
+  });
+  return out;
+}
+
+export function collectGroups(children: Array<{ groups: GroupLite[] }>): GroupLite[] {
+  const map = new Map<string, GroupLite>();
+  children.forEach((c) => c.groups.forEach((g) => map.set(g.id, g)));
+  return Array.from(map.values()).sort((a, b) => a.name.localeCompare(b.name, "ru"));
+}
+
+export function filterByGroup<T extends { groups: GroupLite[] }>(children: T[], groupId: string): T[] {
+  if (!groupId) return children;
+  return children.filter((c) => c.groups.some((g) => g.id === groupId));
+}
@@ -0,0 +1,25 @@
+export type CsvColumn<T> = { header: string; value: (row: T) => string | number | null | undefined };
+
+function escapeCell(v: string | number | null | undefined) {
+  const s = v === null || v === undefined ? "" : String(v);
+  return /[";\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Разделитель «;» и BOM — так файл корректно открывается в Excel с русской локалью.
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [
+    columns.map((c) => escapeCell(c.header)).join(";"),
+    ...rows.map((r) => columns.map((c) => escapeCell(c.value(r))).join(";")),
+  ];
+  return "\uFEFF" + lines.join("\r\n");
+}
+
+export function downloadCsv<T>(filename: string, rows: T[], columns: CsvColumn<T>[]) {
+  const blob = new Blob([toCsv(rows, columns)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,107 @@
+import {
+  Activity,
+  Droplet,
+  Hand,
+  Headphones,
+  HeartPulse,
+  ListChecks,
+  Pill,
+  Puzzle,
+  Sparkles,
+  Star,
+  Thermometer,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+import type { CustomEventField, CustomEventFieldType, CustomEventType } from "@/types/models";
+
+// Иконки, доступные в каталоге; в базе хранится ключ (custom_event_types.icon).
+export const customEventIconOptions: Array<{ value: string; label: string; Icon: LucideIcon }> = [
+  { value: "sparkles", label: "Общее", Icon: Sparkles },
+  { value: "pill", label: "Лекарство", Icon: Pill },
+  { value: "headphones", label: "Сенсорный перерыв", Icon: Headphones },
+  { value: "zap", label: "Приступ", Icon: Zap },
+  { value: "list-checks", label: "Визуальное расписание", Icon: ListChecks },
+  { value: "hand", label: "Моторика", Icon: Hand },
+  { value: "puzzle", label: "Игра", Icon: Puzzle },
+  { value: "droplet", label: "Питьё", Icon: Droplet },
+  { value: "thermometer", label: "Температура", Icon: Thermometer },
+  { value: "heart-pulse", label: "Самочувствие", Icon: HeartPulse },
+  { value: "activity", label: "Активность", Icon: Activity },
+  { value: "star", label: "Достижение", Icon: Star },
+];
+
+export const customEventFieldTypeOptions: Array<{ value: CustomEventFieldType; label: string }> = [
+  { value: "number", label: "Число" },
+  { value: "select", label: "Выбор из списка" },
+  { value: "text", label: "Текст" },
+];
+
+export const CUSTOM_EVENT_TEXT_MAX = 500;
+
+export function customEventIcon(key: string | null | undefined): LucideIcon {
+  return customEventIconOptions.find((o) => o.value === key)?.Icon ?? Sparkles;
+}
+
+export type CustomEventValues = Record<string, string | number>;
+
+export function parseCustomEventPayload(raw: unknown): { typeId: string | null; values: CustomEventValues } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { typeId: null, values: {} };
+  const { type_id, values } = raw as { type_id?: unknown; values?: unknown };
+  return {
+    typeId: typeof type_id === "string" ? type_id : null,
+    values: values && typeof values === "object" && !Array.isArray(values) ? (values as CustomEventValues) : {},
+  };
+}
+
+// Та же проверка, что и в триггере validate_custom_timeline_event, чтобы ошибка была видна до отправки.
+export function validateCustomEventValues(fields: CustomEventField[], input: Record<string, string>) {
+  const values: CustomEventValues = {};
+  const errors: Record<string, string> = {};
+
+  fields.forEach((f) => {
+    const raw = (input[f.key] ?? "").trim();
+    if (!raw) {
+      if (f.required) errors[f.key] = "Обязательное поле";
+      return;
+    }
+
+    if (f.type === "number") {
+      const n = Number(raw.replace(",", "."));
+      if (!Number.isFinite(n)) errors[f.key] = "Введите число";
+      else if (f.min != null && n < f.min) errors[f.key] = `Не меньше ${f.min}`;
+      else if (f.max != null && n > f.max) errors[f.key] = `Не больше ${f.max}`;
+      else values[f.key] = n;
+      return;
+    }
+
+    if (f.type === "select") {
+      if (!(f.options ?? []).includes(raw)) errors[f.key] = "Выберите значение из списка";
+      else values[f.key] = raw;
+      return;
+    }
+
+    if (raw.length > CUSTOM_EVENT_TEXT_MAX) errors[f.key] = `Не длиннее ${CUSTOM_EVENT_TEXT_MAX} символов`;
+    else values[f.key] = raw;
+  });
+
+  return { values, errors };
+}
+
+// «Лекарство: Доза 5 мг · Препарат Мелатонин»; для удалённого типа — общий текст.
+export function formatCustomEventText(type: CustomEventType | undefined, values: CustomEventValues) {
+  if (!type) return "Событие";
+  const parts = type.fields
+    .filter((f) => values[f.key] != null && values[f.key] !== "")
+    .map((f) => `${f.label} ${values[f.key]}${f.type === "number" && f.unit ? ` ${f.unit}` : ""}`);
+  return parts.length > 0 ? `${type.name}: ${parts.join(" · ")}` : type.name;
+}
+
+export function describeCustomEventError(err: unknown) {
+  const message = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  if (message.includes("custom_event_type_not_found")) return "Тип события отключён или удалён";
+  if (message.includes("custom_event_field_required")) return "Заполните обязательные поля";
+  if (message.includes("custom_event_")) return "Значения не подходят под настройки типа события";
+  return "Не удалось сохранить. Проверьте подключение.";
+}
@@ -0,0 +1,76 @@
+export type IcalStatus = "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+
+export type IcalEvent = {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: IcalStatus;
+  // Растёт при каждом изменении записи — по нему календарь понимает, что событие обновилось.
+  sequence: number;
+  lastModified: string;
+};
+
+function escapeText(v: string) {
+  return v.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function formatUtc(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545: строки длиннее 75 октетов переносятся, продолжение начинается с пробела.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const chSize = encoder.encode(ch).length;
+    if (size + chSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function buildIcalendar({ name, events }: { name: string; events: IcalEvent[] }) {
+  const stamp = formatUtc(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//RAS CRM//Calendar//RU",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const e of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(e.start)}`,
+      `DTEND:${formatUtc(e.end)}`,
+      `SUMMARY:${escapeText(e.summary)}`,
+      `STATUS:${e.status}`,
+      `SEQUENCE:${e.sequence}`,
+      `LAST-MODIFIED:${formatUtc(e.lastModified)}`,
+    );
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    if (e.location) lines.push(`LOCATION:${escapeText(e.location)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
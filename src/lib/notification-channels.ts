@@ -0,0 +1,94 @@
+import "server-only";
+
+import type { NotificationChannel } from "@/types/models";
+
+export type OutgoingMessage = {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  body: string;
+};
+
+export type DeliveryResult = { providerMessageId: string | null };
+
+export interface NotificationChannelAdapter {
+  name: string;
+  send(message: OutgoingMessage): Promise<DeliveryResult>;
+}
+
+export class ChannelNotConfiguredError extends Error {
+  constructor(readonly channel: NotificationChannel) {
+    super("channel_not_configured");
+    this.name = "ChannelNotConfiguredError";
+  }
+}
+
+// Для разработки: ничего не отправляет, только пишет в лог сервера.
+export const logOnlyAdapter: NotificationChannelAdapter = {
+  name: "log",
+  async send(message) {
+    console.info(`[notifications] ${message.channel} → ${message.recipient}: ${message.body}`);
+    return { providerMessageId: `log:${message.id}` };
+  },
+};
+
+function telegramAdapter(token: string): NotificationChannelAdapter {
+  return {
+    name: "telegram",
+    async send(message) {
+      const res = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: message.recipient, text: message.body }),
+      });
+      const json = (await res.json().catch(() => null)) as
+        | { ok?: boolean; description?: string; result?: { message_id?: number } }
+        | null;
+      if (!res.ok || !json?.ok) throw new Error(json?.description || `telegram_http_${res.status}`);
+      return { providerMessageId: json.result?.message_id ? String(json.result.message_id) : null };
+    },
+  };
+}
+
+// SMS, WhatsApp и email уходят через HTTP‑шлюз провайдера: { channel, to, text } → { id }.
+function webhookAdapter(channel: NotificationChannel, url: string, token: string | undefined): NotificationChannelAdapter {
+  return {
+    name: `webhook:${channel}`,
+    async send(message) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({ channel, to: message.recipient, text: message.body }),
+      });
+      const json = (await res.json().catch(() => null)) as { id?: string | number; error?: string } | null;
+      if (!res.ok) throw new Error(json?.error || `webhook_http_${res.status}`);
+      return { providerMessageId: json?.id !== undefined ? String(json.id) : null };
+    },
+  };
+}
+
+const webhookEnv: Record<Exclude<NotificationChannel, "telegram">, string> = {
+  sms: "NOTIFY_SMS_WEBHOOK_URL",
+  whatsapp: "NOTIFY_WHATSAPP_WEBHOOK_URL",
+  email: "NOTIFY_EMAIL_WEBHOOK_URL",
+};
+
+export const isLiveDelivery = process.env.NOTIFICATIONS_DELIVERY === "live";
+
+// Пока NOTIFICATIONS_DELIVERY не равен "live", все каналы идут в лог.
+export function resolveChannelAdapter(channel: NotificationChannel): NotificationChannelAdapter {
+  if (!isLiveDelivery) return logOnlyAdapter;
+
+  if (channel === "telegram") {
+    const token = process.env.TELEGRAM_BOT_TOKEN;
+    if (!token) throw new ChannelNotConfiguredError(channel);
+    return telegramAdapter(token);
+  }
+
+  const url = process.env[webhookEnv[channel]];
+  if (!url) throw new ChannelNotConfiguredError(channel);
+  return webhookAdapter(channel, url, process.env.NOTIFY_WEBHOOK_TOKEN);
+}
@@ -0,0 +1,57 @@
+import type { NotificationChannel, NotificationEvent, NotificationStatus } from "@/types/models";
+
+export const notificationChannelOptions: Array<{ value: NotificationChannel; label: string }> = [
+  { value: "whatsapp", label: "WhatsApp" },
+  { value: "sms", label: "SMS" },
+  { value: "telegram", label: "Telegram" },
+  { value: "email", label: "Email" },
+];
+
+export const notificationEventOptions: Array<{ value: NotificationEvent; label: string }> = [
+  { value: "appointment_tomorrow", label: "Занятие завтра" },
+  { value: "appointment_changed", label: "Запись перенесена" },
+  { value: "appointment_canceled", label: "Запись отменена" },
+  { value: "balance_due", label: "Задолженность" },
+];
+
+export const notificationStatusOptions: Array<{ value: NotificationStatus; label: string }> = [
+  { value: "queued", label: "В очереди" },
+  { value: "sending", label: "Отправляется" },
+  { value: "sent", label: "Отправлено" },
+  { value: "failed", label: "Ошибка" },
+  { value: "skipped", label: "Пропущено" },
+  { value: "canceled", label: "Отменено" },
+];
+
+// Подстановки, которые понимает render_notification_template.
+export const notificationPlaceholders = ["{child}", "{service}", "{date}", "{time}", "{debt}", "{center}"];
+
+export function notificationChannelLabel(v: NotificationChannel | null | undefined) {
+  if (!v) return "По умолчанию";
+  return notificationChannelOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+export function notificationEventLabel(v: NotificationEvent) {
+  return notificationEventOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+export function notificationStatusLabel(v: NotificationStatus) {
+  return notificationStatusOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+export function notificationErrorLabel(code: string | null) {
+  switch (code) {
+    case null:
+      return null;
+    case "no_parent":
+      return "У ребёнка не указан родитель";
+    case "no_recipient":
+      return "Нет контакта для выбранного канала";
+    case "opted_out":
+      return "Родитель отказался от уведомлений";
+    case "channel_not_configured":
+      return "Канал не настроен на сервере";
+    default:
+      return code;
+  }
+}
@@ -0,0 +1,221 @@
+import { supabase } from "@/lib/supabase/client";
+import type { DailyLog, Json, TimelineEventType } from "@/types/models";
+
+// Очередь записей быстрого ввода, сделанных без сети. Хранится в IndexedDB, отправляется по порядку.
+// id операции служит ключом идемпотентности: для событий и инцидентов это id строки,
+// поэтому повторная отправка после обрыва связи не создаёт дублей.
+
+// failed — сервер отклонил запись MAX_ATTEMPTS раз; она хранится, пока пользователь не повторит или не удалит её.
+export type OutboxOperationStatus = "pending" | "failed";
+
+type OutboxBase = { id: string; createdAt: string; attempts: number; lastError: string | null; status: OutboxOperationStatus };
+
+export type OutboxOperation =
+  | (OutboxBase & {
+      kind: "daily_log";
+      payload: { child_id: string; date: string; patch: Partial<Pick<DailyLog, "food_intake" | "mood_score" | "sleep_duration">> };
+    })
+  | (OutboxBase & {
+      kind: "behavior_incident";
+      payload: { id: string; child_id: string; timestamp: string; intensity: number };
+    })
+  | (OutboxBase & {
+      kind: "timeline_event";
+      payload: {
+        id: string;
+        child_id: string;
+        type: TimelineEventType;
+        payload: Record<string, unknown>;
+        timestamp: string;
+        created_by: string;
+      };
+    });
+
+type WithoutMeta<T> = T extends unknown ? Omit<T, "createdAt" | "attempts" | "lastError" | "status"> : never;
+
+export type OutboxOperationInput = WithoutMeta<OutboxOperation>;
+
+export type SubmitResult = { status: "sent"; data: unknown } | { status: "queued" };
+
+const DB_NAME = "rascrm-offline";
+const STORE = "outbox";
+const CHANGE_EVENT = "rascrm:outbox-change";
+// После стольких отказов сервера (не сети) операция откладывается в failed, чтобы не блокировать очередь.
+const MAX_ATTEMPTS = 5;
+
+export function isOutboxAvailable() {
+  return typeof window !== "undefined" && typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+export function subscribeOutbox(listener: () => void) {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+export async function listOperations(): Promise<OutboxOperation[]> {
+  if (!isOutboxAvailable()) return [];
+  const all = await withStore("readonly", (store) => store.getAll() as IDBRequest<OutboxOperation[]>);
+  return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function countOperations(): Promise<{ pending: number; failed: number }> {
+  const all = await listOperations();
+  const failed = all.filter((op) => op.status === "failed").length;
+  return { pending: all.length - failed, failed };
+}
+
+export async function listFailedOperations() {
+  return (await listOperations()).filter((op) => op.status === "failed");
+}
+
+async function putOperation(op: OutboxOperation) {
+  await withStore("readwrite", (store) => store.put(op));
+  notifyChange();
+}
+
+async function removeOperation(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+export function isNetworkError(err: unknown) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = err && typeof err === "object" ? ((err as { message?: string }).message ?? "") : "";
+  return err instanceof TypeError || /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+async function sendOperation(op: OutboxOperationInput): Promise<unknown> {
+  if (!supabase) throw new Error("Supabase не настроен");
+
+  switch (op.kind) {
+    case "daily_log": {
+      const { data, error } = await supabase
+        .from("daily_logs")
+        .upsert({ child_id: op.payload.child_id, date: op.payload.date, ...op.payload.patch }, { onConflict: "child_id,date" })
+        .select("*")
+        .single();
+      if (error) throw error;
+      return data as DailyLog;
+    }
+    case "behavior_incident": {
+      const { error } = await supabase
+        .from("behavior_incidents")
+        .upsert(op.payload, { onConflict: "id", ignoreDuplicates: true });
+      if (error) throw error;
+      return null;
+    }
+    case "timeline_event": {
+      const { error } = await supabase
+        .from("timeline_events")
+        .upsert({ ...op.payload, payload: op.payload.payload as Json }, { onConflict: "id", ignoreDuplicates: true });
+      if (error) throw error;
+      return null;
+    }
+  }
+}
+
+async function enqueueOperation(op: OutboxOperationInput) {
+  await putOperation({
+    ...op,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    lastError: null,
+    status: "pending",
+  } as OutboxOperation);
+}
+
+// Пока в очереди что-то есть, новые записи тоже встают в очередь — иначе нарушится порядок правок.
+export async function submitOperation(op: OutboxOperationInput): Promise<SubmitResult> {
+  const canQueue = isOutboxAvailable();
+  if (canQueue && (!navigator.onLine || (await countOperations()).pending > 0)) {
+    await enqueueOperation(op);
+    void flushOutbox();
+    return { status: "queued" };
+  }
+
+  try {
+    return { status: "sent", data: await sendOperation(op) };
+  } catch (err) {
+    if (!canQueue || !isNetworkError(err)) throw err;
+    await enqueueOperation(op);
+    return { status: "queued" };
+  }
+}
+
+type FlushResult = { sent: number; pending: number; failed: number };
+
+let flushing: Promise<FlushResult> | null = null;
+
+async function runFlush(): Promise<FlushResult> {
+  let sent = 0;
+  for (const op of await listOperations()) {
+    if (op.status === "failed") continue;
+    try {
+      await sendOperation(op);
+      await removeOperation(op.id);
+      sent += 1;
+    } catch (err) {
+      if (isNetworkError(err)) break;
+      const attempts = op.attempts + 1;
+      const lastError = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err);
+      if (attempts >= MAX_ATTEMPTS) {
+        await putOperation({ ...op, attempts, lastError, status: "failed" });
+        continue;
+      }
+      await putOperation({ ...op, attempts, lastError });
+      break;
+    }
+  }
+  return { sent, ...(await countOperations()) };
+}
+
+export function flushOutbox() {
+  if (!isOutboxAvailable() || !supabase) return Promise.resolve({ sent: 0, pending: 0, failed: 0 });
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+// Вернуть отклонённую запись в очередь с чистым счётчиком попыток.
+export async function retryOperation(id: string) {
+  const op = (await listOperations()).find((x) => x.id === id);
+  if (!op) return;
+  await putOperation({ ...op, attempts: 0, lastError: null, status: "pending" });
+}
+
+export async function discardOperation(id: string) {
+  await removeOperation(id);
+}
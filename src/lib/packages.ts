@@ -0,0 +1,57 @@
+import { localDateKey } from "@/lib/working-hours";
+import type { PackagePurchase } from "@/types/models";
+
+export type PackagePurchaseLite = Pick<
+  PackagePurchase,
+  "id" | "child_id" | "service_id" | "name" | "sessions_total" | "sessions_used" | "starts_on" | "expires_on"
+>;
+
+export type PurchaseState = "active" | "used_up" | "expired" | "upcoming";
+
+export function remainingSessions(p: PackagePurchaseLite) {
+  return Math.max(p.sessions_total - p.sessions_used, 0);
+}
+
+export function purchaseState(p: PackagePurchaseLite, day: Date = new Date()): PurchaseState {
+  const key = localDateKey(day);
+  if (p.expires_on < key) return "expired";
+  if (p.starts_on > key) return "upcoming";
+  if (remainingSessions(p) === 0) return "used_up";
+  return "active";
+}
+
+export function purchaseStateLabel(state: PurchaseState) {
+  if (state === "active") return "Действует";
+  if (state === "used_up") return "Израсходован";
+  if (state === "upcoming") return "Ещё не начался";
+  return "Истёк";
+}
+
+// Последний день действия: срок считается включая день начала.
+export function packageExpiry(startsOn: string, validityDays: number) {
+  const [y, m, d] = startsOn.split("-").map(Number);
+  const end = new Date(y ?? 1970, (m ?? 1) - 1, (d ?? 1) + validityDays - 1);
+  return localDateKey(end);
+}
+
+// Зеркалит public.consume_package_session: абонемент, который спишется первым на эту дату.
+export function pickPurchaseForSession(
+  purchases: PackagePurchaseLite[],
+  childId: string,
+  serviceId: string,
+  day: Date,
+) {
+  const key = localDateKey(day);
+  return (
+    purchases
+      .filter(
+        (p) =>
+          p.child_id === childId &&
+          p.service_id === serviceId &&
+          p.starts_on <= key &&
+          p.expires_on >= key &&
+          remainingSessions(p) > 0,
+      )
+      .sort((a, b) => a.expires_on.localeCompare(b.expires_on))[0] ?? null
+  );
+}
@@ -0,0 +1,12 @@
+import type { PaymentMethod } from "@/types/models";
+
+export const paymentMethodOptions: Array<{ value: PaymentMethod; label: string }> = [
+  { value: "cash", label: "Наличные" },
+  { value: "card", label: "Карта" },
+  { value: "transfer", label: "Перевод" },
+];
+
+export function paymentMethodLabel(v: PaymentMethod | null | undefined) {
+  if (!v) return "Не указан";
+  return paymentMethodOptions.find((o) => o.value === v)?.label ?? v;
+}
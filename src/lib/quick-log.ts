@@ -0,0 +1,97 @@
+import { submitOperation } from "@/lib/offline-outbox";
+import { supabase } from "@/lib/supabase/client";
+import type { DailyLog, FoodIntake, TimelineEventType } from "@/types/models";
+
+// Записи быстрого ввода — общие для карточки ребёнка и группового ввода.
+// Без Supabase или сессии возвращаются демо-данные, без сети запись встаёт в офлайн-очередь.
+
+export type UpsertDailyLogInput = {
+  childId: string;
+  date: string; // YYYY-MM-DD
+  patch: Partial<Pick<DailyLog, "food_intake" | "mood_score" | "sleep_duration">>;
+};
+
+// null — запись ушла в офлайн-очередь и будет отправлена при подключении.
+export async function upsertDailyLog(input: UpsertDailyLogInput): Promise<DailyLog | null> {
+  const nowIso = new Date().toISOString();
+
+  if (!supabase) {
+    return {
+      id: crypto.randomUUID(),
+      child_id: input.childId,
+      date: input.date,
+      mood_score: input.patch.mood_score ?? null,
+      sleep_duration: input.patch.sleep_duration ?? null,
+      food_intake: input.patch.food_intake ?? null,
+      toilet_data: {},
+      created_by: null,
+      created_at: nowIso,
+      updated_at: nowIso,
+    };
+  }
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) {
+    return {
+      id: crypto.randomUUID(),
+      child_id: input.childId,
+      date: input.date,
+      mood_score: input.patch.mood_score ?? null,
+      sleep_duration: input.patch.sleep_duration ?? null,
+      food_intake: input.patch.food_intake ?? null,
+      toilet_data: {},
+      created_by: null,
+      created_at: nowIso,
+      updated_at: nowIso,
+    };
+  }
+
+  const result = await submitOperation({
+    id: crypto.randomUUID(),
+    kind: "daily_log",
+    payload: { child_id: input.childId, date: input.date, patch: input.patch },
+  });
+
+  return result.status === "sent" ? (result.data as DailyLog) : null;
+}
+
+export async function createTimelineEvent(childId: string, type: TimelineEventType, payload: Record<string, unknown> = {}) {
+  if (!supabase) return null;
+
+  const { data: sessionData } = await supabase.auth.getSession();
+  if (!sessionData.session) return null;
+
+  const id = crypto.randomUUID();
+  const result = await submitOperation({
+    id,
+    kind: "timeline_event",
+    payload: {
+      id,
+      child_id: childId,
+      type,
+      payload,
+      timestamp: new Date().toISOString(),
+      created_by: sessionData.session.user.id,
+    },
+  });
+
+  return result.status;
+}
+
+export type MoodOption = { score: 1 | 2 | 3 | 4 | 5; emoji: string; label: string };
+
+export const moodOptions: MoodOption[] = [
+  { score: 5, emoji: "😊", label: "Очень хорошо" },
+  { score: 4, emoji: "🙂", label: "Хорошо" },
+  { score: 3, emoji: "😐", label: "Нейтрально" },
+  { score: 2, emoji: "😟", label: "Тревожно" },
+  { score: 1, emoji: "😣", label: "Мелтдаун" },
+];
+
+export const foodOptions: Array<{ value: FoodIntake; label: string; icon: "full" | "half" | "none" | "refusal" }> =
+  [
+    { value: "all", label: "Всё съел", icon: "full" },
+    { value: "half", label: "Половина", icon: "half" },
+    { value: "none", label: "Не ел", icon: "none" },
+    { value: "refusal", label: "Отказ", icon: "refusal" },
+  ];
@@ -0,0 +1,27 @@
+// Тексты напоминаний для отправки вручную (SMS / WhatsApp): менеджер копирует готовую строку.
+
+function formatTimeRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { hour: "2-digit", minute: "2-digit" }).format(new Date(iso));
+}
+
+function formatDateLongRu(iso: string) {
+  return new Intl.DateTimeFormat("ru-RU", { day: "2-digit", month: "long", year: "numeric" }).format(new Date(iso));
+}
+
+function formatMoneyRu(value: number) {
+  return `${Math.round(value).toLocaleString("ru-RU")} сом`;
+}
+
+export function buildReminderText(input: { childName: string; serviceName: string; startIso: string }) {
+  const date = formatDateLongRu(input.startIso);
+  const time = formatTimeRu(input.startIso);
+  return `Напоминание: ${input.childName} записан(а) на «${input.serviceName}» ${date} в ${time}.`;
+}
+
+export function buildBalanceReminderText(input: { childName: string; debt: number; centerName?: string | null }) {
+  const center = input.centerName ? `${input.centerName}. ` : "";
+  return (
+    `${center}Напоминаем: задолженность за занятия (${input.childName}) составляет ${formatMoneyRu(input.debt)}. ` +
+    "Пожалуйста, внесите оплату. Если оплата уже произведена — просим не учитывать это сообщение."
+  );
+}
@@ -0,0 +1,30 @@
+import type { SleepSession } from "@/types/models";
+
+export function sleepSessionMinutes(session: Pick<SleepSession, "start_time" | "end_time">, nowIso?: string) {
+  const end = session.end_time ?? nowIso;
+  if (!end) return 0;
+  return Math.max(0, Math.round((new Date(end).getTime() - new Date(session.start_time).getTime()) / 60000));
+}
+
+// 95 → «1 ч 35 мин»; null — «—».
+export function sleepDurationLabel(minutes: number | null | undefined) {
+  if (minutes == null) return "—";
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m} мин`;
+  return m === 0 ? `${h} ч` : `${h} ч ${m} мин`;
+}
+
+// Значение для <input type="time"> в локальном времени устройства.
+export function toTimeInputValue(iso: string) {
+  const d = new Date(iso);
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+// Время «ЧЧ:ММ» в тот же календарный день, что и baseIso.
+export function fromTimeInputValue(baseIso: string, value: string) {
+  const [h, m] = value.split(":").map(Number);
+  const d = new Date(baseIso);
+  d.setHours(h ?? 0, m ?? 0, 0, 0);
+  return d.toISOString();
+}
@@ -0,0 +1,25 @@
+import type { Json, ToiletData, ToiletResult } from "@/types/models";
+
+export const toiletResultOptions: Array<{ value: ToiletResult; label: string; short: string }> = [
+  { value: "success", label: "Сходил на горшок", short: "Успех" },
+  { value: "accident", label: "Авария", short: "Авария" },
+  { value: "wet", label: "Мокрый", short: "Мокрый" },
+  { value: "dry", label: "Сухой", short: "Сухой" },
+];
+
+export function toiletResultLabel(v: ToiletResult) {
+  return toiletResultOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+export function parseToiletData(raw: Json | null | undefined): ToiletData {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  return raw as ToiletData;
+}
+
+// Доля успехов среди попыток «на горшке» и аварий; null — если за день их не было.
+export function toiletSuccessRate(data: ToiletData) {
+  const success = data.success ?? 0;
+  const accident = data.accident ?? 0;
+  const total = success + accident;
+  return total > 0 ? Math.round((success / total) * 100) : null;
+}
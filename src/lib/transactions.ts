@@ -0,0 +1,27 @@
+import type { FeeKind, TransactionType } from "@/types/models";
+
+export const transactionTypeOptions: Array<{ value: TransactionType; label: string }> = [
+  { value: "charge", label: "Начисление" },
+  { value: "payment", label: "Платёж" },
+  { value: "refund", label: "Возврат" },
+  { value: "adjustment", label: "Корректировка" },
+  { value: "discount", label: "Скидка" },
+];
+
+export function transactionTypeLabel(t: TransactionType, feeKind?: FeeKind | null) {
+  if (feeKind) return "Штраф";
+  return transactionTypeOptions.find((o) => o.value === t)?.label ?? t;
+}
+
+// Зеркалит public.transaction_signed_amount: «+» увеличивает баланс (предоплата), «−» — долг.
+// Корректировка уже хранится со знаком.
+export function signedAmount(t: TransactionType, amount: number) {
+  if (t === "payment" || t === "discount" || t === "adjustment") return amount;
+  return -amount;
+}
+
+// Начисления по занятиям меняются только через статус записи (и списание штрафа).
+export function canVoidTransaction(t: { type: TransactionType; appointment_id: string | null; voided_at: string | null }) {
+  if (t.voided_at) return false;
+  return !(t.type === "charge" && t.appointment_id);
+}
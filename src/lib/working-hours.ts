@@ -0,0 +1,181 @@
+import type { ScheduleExceptionReason, SpecialistScheduleException, SpecialistWorkingHours } from "@/types/models";
+
+export type WorkingHoursLite = Pick<SpecialistWorkingHours, "specialist_id" | "weekday" | "start_time" | "end_time">;
+
+export type ScheduleExceptionLite = Pick<
+  SpecialistScheduleException,
+  "id" | "specialist_id" | "start_date" | "end_date" | "reason" | "start_time" | "end_time" | "note"
+>;
+
+export type Interval = { start: number; end: number };
+
+// Зеркало public.center_timezone(): рабочие часы заданы по местному времени центра, а не браузера.
+export const CENTER_TIMEZONE = "Asia/Bishkek";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const centerClockFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: CENTER_TIMEZONE,
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+  weekday: "short",
+});
+
+// Дата (YYYY-MM-DD), день недели (0 = вс) и минуты от полуночи момента d в поясе центра.
+export function centerClock(d: Date) {
+  const parts: Record<string, string> = {};
+  centerClockFormat.formatToParts(d).forEach((p) => {
+    parts[p.type] = p.value;
+  });
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: WEEKDAYS.indexOf(parts.weekday ?? ""),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+function wallClockMs(dateKey: string, minutes: number) {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return Date.UTC(y ?? 1970, (m ?? 1) - 1, d ?? 1) + minutes * 60_000;
+}
+
+// Смещение пояса центра от UTC в минутах в момент at.
+function centerOffsetMinutes(at: Date) {
+  const c = centerClock(at);
+  return Math.round((wallClockMs(c.dateKey, c.minutes) - Math.floor(at.getTime() / 60_000) * 60_000) / 60_000);
+}
+
+// Момент, когда в поясе центра наступает dateKey + minutes от полуночи.
+export function centerInstant(dateKey: string, minutes: number) {
+  const ms = wallClockMs(dateKey, minutes);
+  return new Date(ms - centerOffsetMinutes(new Date(ms)) * 60_000);
+}
+
+export function addDaysToKey(dateKey: string, days: number) {
+  return new Date(wallClockMs(dateKey, days * 24 * 60)).toISOString().slice(0, 10);
+}
+
+export const exceptionReasonOptions: Array<{ value: ScheduleExceptionReason; label: string }> = [
+  { value: "vacation", label: "Отпуск" },
+  { value: "sick_leave", label: "Больничный" },
+  { value: "day_off", label: "Выходной" },
+  { value: "training", label: "Обучение" },
+  { value: "other", label: "Другое" },
+];
+
+export function exceptionReasonLabel(v: ScheduleExceptionReason) {
+  return exceptionReasonOptions.find((o) => o.value === v)?.label ?? v;
+}
+
+export function hhmm(v: string | null | undefined) {
+  const s = (v ?? "").trim();
+  if (!s) return "";
+  return s.length >= 5 ? s.slice(0, 5) : s;
+}
+
+export function timeToMinutes(v: string) {
+  const [hRaw, mRaw] = v.split(":");
+  const h = Number(hRaw ?? 0);
+  const m = Number(mRaw ?? 0);
+  return h * 60 + m;
+}
+
+export function minutesToTime(total: number) {
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+export function toDbTime(v: string) {
+  const s = v.trim();
+  if (!s) return s;
+  return s.length === 5 ? `${s}:00` : s;
+}
+
+export function localDateKey(d: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function hoursForDay(rows: WorkingHoursLite[], specialistId: string, weekday: number): Interval[] {
+  return rows
+    .filter((r) => r.specialist_id === specialistId && r.weekday === weekday)
+    .map((r) => ({ start: timeToMinutes(r.start_time), end: timeToMinutes(r.end_time) }))
+    .sort((a, b) => a.start - b.start);
+}
+
+export function exceptionsForKey(exceptions: ScheduleExceptionLite[], specialistId: string, key: string) {
+  return exceptions.filter((x) => x.specialist_id === specialistId && x.start_date <= key && x.end_date >= key);
+}
+
+export function exceptionsForDate(exceptions: ScheduleExceptionLite[], specialistId: string, day: Date) {
+  return exceptionsForKey(exceptions, specialistId, localDateKey(day));
+}
+
+// Исключения на дату заменяют недельный график целиком.
+function hoursForKey(
+  rows: WorkingHoursLite[],
+  exceptions: ScheduleExceptionLite[],
+  specialistId: string,
+  key: string,
+  weekday: number,
+): Interval[] {
+  const dayExceptions = exceptionsForKey(exceptions, specialistId, key);
+  if (dayExceptions.length === 0) return hoursForDay(rows, specialistId, weekday);
+  return dayExceptions
+    .filter((x) => x.start_time && x.end_time)
+    .map((x) => ({ start: timeToMinutes(x.start_time!), end: timeToMinutes(x.end_time!) }))
+    .sort((a, b) => a.start - b.start);
+}
+
+// day — календарный день, как его показывает сетка (дата без времени).
+export function hoursForDate(
+  rows: WorkingHoursLite[],
+  exceptions: ScheduleExceptionLite[],
+  specialistId: string,
+  day: Date,
+): Interval[] {
+  return hoursForKey(rows, exceptions, specialistId, localDateKey(day), day.getDay());
+}
+
+// Зеркалит public.is_within_working_hours: запись целиком в одном интервале одного дня (в поясе центра).
+export function isWithinWorkingHours(
+  rows: WorkingHoursLite[],
+  exceptions: ScheduleExceptionLite[],
+  specialistId: string,
+  start: Date,
+  end: Date,
+) {
+  const local = centerClock(start);
+  if (local.dateKey !== centerClock(new Date(end.getTime() - 1)).dateKey) return false;
+  const startMin = local.minutes;
+  const endMin = startMin + Math.round((end.getTime() - start.getTime()) / 60000);
+  return hoursForKey(rows, exceptions, specialistId, local.dateKey, local.weekday).some(
+    (i) => startMin >= i.start && endMin <= i.end,
+  );
+}
+
+// Формат FullCalendar businessHours: рабочее время видно, остальное затеняется.
+// Сетка календаря идёт по времени браузера, поэтому интервалы центра сдвигаются на разницу поясов
+// в момент at (начало видимого периода); интервал, перешедший через полночь, делится на два дня.
+export function toBusinessHours(rows: WorkingHoursLite[], at: Date) {
+  const shift = -at.getTimezoneOffset() - centerOffsetMinutes(at);
+  const day = 24 * 60;
+  return rows.flatMap((r) => {
+    const start = timeToMinutes(r.start_time) + shift;
+    const end = timeToMinutes(r.end_time) + shift;
+    const out: Array<{ daysOfWeek: number[]; startTime: string; endTime: string }> = [];
+    for (let offset = Math.floor(start / day); offset * day < end; offset += 1) {
+      out.push({
+        daysOfWeek: [(((r.weekday + offset) % 7) + 7) % 7],
+        startTime: minutesToTime(Math.max(start, offset * day) - offset * day),
+        endTime: minutesToTime(Math.min(end, (offset + 1) * day) - offset * day),
+      });
+    }
+    return out;
+  });
+}
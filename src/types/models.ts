@@ -12,7 +12,12 @@ export type TimelineEventType =
   | "nap_start"
   | "nap_end"
   | "note"
-  | "custom";
+  | "custom"
+  | "toilet";
+
+export type ToiletResult = "wet" | "dry" | "accident" | "success";
+
+export type CustomEventFieldType = "number" | "select" | "text";
 
 export type AppointmentStatus =
   | "pending"
@@ -21,7 +26,36 @@ export type AppointmentStatus =
   | "completed"
   | "no_show";
 
-export type TransactionType = "charge" | "payment";
+export type TransactionType = "charge" | "payment" | "refund" | "adjustment" | "discount";
+
+export type FeeKind = "late_cancel" | "no_show";
+
+export type PaymentMethod = "cash" | "card" | "transfer";
+
+export type BillingDocumentKind = "invoice" | "statement";
+
+export type BalanceReminderChannel = "sms" | "whatsapp" | "call" | "other";
+
+export type PayRuleKind = "per_session" | "percent" | "hourly";
+
+export type NotificationChannel = "sms" | "whatsapp" | "telegram" | "email";
+
+export type NotificationEvent = "appointment_tomorrow" | "appointment_changed" | "appointment_canceled" | "balance_due";
+
+export type CancelRequestStatus = "pending" | "approved" | "rejected";
+
+export type BookingRequestStatus = "pending" | "approved" | "rejected" | "canceled";
+
+export type CalendarFeedKind = "specialist" | "child";
+
+export type NotificationStatus = "queued" | "sending" | "sent" | "failed" | "skipped" | "canceled";
+
+export type ScheduleExceptionReason =
+  | "vacation"
+  | "sick_leave"
+  | "day_off"
+  | "training"
+  | "other";
 
 export type Json =
   | string
@@ -59,12 +93,40 @@ export interface TherapistChild {
   created_at: string;
 }
 
+export interface Group {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface GroupChild {
+  group_id: string;
+  child_id: string;
+  added_at: string;
+}
+
+export interface GroupStaff {
+  group_id: string;
+  therapist_id: string;
+  added_at: string;
+}
+
+// Сводка daily_logs.toilet_data — пересчитывается триггером из событий type = 'toilet'.
+export interface ToiletData {
+  wet?: number;
+  dry?: number;
+  accident?: number;
+  success?: number;
+  last_at?: string;
+}
+
 export interface DailyLog {
   id: string;
   child_id: string;
   date: string; // YYYY-MM-DD
   mood_score: number | null; // 1..5
-  sleep_duration: number | null; // минуты (MVP)
+  sleep_duration: number | null; // минуты, сумма эпизодов сна (считает сервер)
   food_intake: FoodIntake | null;
   toilet_data: Json;
   created_by: string | null;
@@ -72,6 +134,19 @@ export interface DailyLog {
   updated_at: string;
 }
 
+// Эпизод сна: пара nap_start / nap_end; end_time = null — ребёнок ещё спит.
+export interface SleepSession {
+  id: string;
+  child_id: string;
+  start_time: string;
+  end_time: string | null;
+  start_event_id: string | null;
+  end_event_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface BehaviorIncident {
   id: string;
   child_id: string;
@@ -115,6 +190,30 @@ export interface TimelineEvent {
   created_at: string;
 }
 
+// Поле своего типа события; key хранится в payload.values события.
+export interface CustomEventField {
+  key: string;
+  label: string;
+  type: CustomEventFieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  unit?: string;
+  options?: string[];
+}
+
+export interface CustomEventType {
+  id: string;
+  name: string;
+  icon: string;
+  color: string; // #RRGGBB
+  fields: CustomEventField[];
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface HomeNote {
   id: string;
   child_id: string;
@@ -130,6 +229,9 @@ export interface Service {
   duration_min: number;
   price: number;
   color: string;
+  late_cancel_hours: number;
+  late_cancel_fee_percent: number;
+  no_show_fee_percent: number;
   created_at: string;
   updated_at: string;
 }
@@ -144,6 +246,20 @@ export interface SpecialistWorkingHours {
   updated_at: string;
 }
 
+export interface SpecialistScheduleException {
+  id: string;
+  specialist_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD (включительно)
+  reason: ScheduleExceptionReason;
+  start_time: string | null; // HH:MM:SS — если задано, работает только в этом интервале
+  end_time: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Appointment {
   id: string;
   child_id: string;
@@ -155,11 +271,21 @@ export interface Appointment {
   notes: string | null;
   is_recurring: boolean;
   recurrence_group_id: string | null;
+  outside_hours_override: boolean;
   created_by: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface AppointmentStatusHistory {
+  id: string;
+  appointment_id: string;
+  from_status: AppointmentStatus | null;
+  to_status: AppointmentStatus;
+  changed_by: string | null;
+  changed_at: string;
+}
+
 export interface Transaction {
   id: string;
   child_id: string;
@@ -170,4 +296,243 @@ export interface Transaction {
   description: string | null;
   created_by: string | null;
   created_at: string;
+  voided_at: string | null;
+  voided_by: string | null;
+  void_reason: string | null;
+  fee_kind: FeeKind | null;
+  package_purchase_id: string | null;
+  payment_method: PaymentMethod | null;
+  payment_reference: string | null;
+  received_by: string | null;
+}
+
+export interface ChildDiscount {
+  id: string;
+  child_id: string;
+  name: string;
+  percent: number;
+  service_id: string | null;
+  starts_on: string;
+  ends_on: string | null;
+  is_active: boolean;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ServicePackage {
+  id: string;
+  name: string;
+  service_id: string;
+  sessions_count: number;
+  price: number;
+  validity_days: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PackagePurchase {
+  id: string;
+  child_id: string;
+  package_id: string | null;
+  service_id: string;
+  name: string;
+  sessions_total: number;
+  sessions_used: number;
+  price: number;
+  starts_on: string;
+  expires_on: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CenterSettings {
+  id: boolean;
+  name: string;
+  legal_name: string | null;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  tax_id: string | null;
+  bank_details: string | null;
+  invoice_prefix: string;
+  statement_prefix: string;
+  notification_channel: NotificationChannel;
+  reminder_send_time: string;
+  booking_enabled: boolean;
+  booking_min_notice_hours: number;
+  booking_horizon_days: number;
+  booking_max_pending_per_child: number;
+  booking_max_requests_per_day: number;
+  updated_at: string;
+}
+
+export interface BillingDocumentLine {
+  date: string;
+  type: TransactionType;
+  description: string | null;
+  service: string | null;
+  specialist: string | null;
+  appointment_start: string | null;
+  amount: number;
+}
+
+export interface BillingDocument {
+  id: string;
+  number: string;
+  kind: BillingDocumentKind;
+  child_id: string;
+  period_start: string;
+  period_end: string;
+  lines: BillingDocumentLine[];
+  opening_balance: number;
+  charges_total: number;
+  payments_total: number;
+  closing_balance: number;
+  issued_at: string;
+  created_by: string | null;
+}
+
+export interface BalanceReminder {
+  id: string;
+  child_id: string;
+  debt_amount: number;
+  channel: BalanceReminderChannel;
+  message: string;
+  sent_at: string;
+  sent_by: string | null;
+}
+
+export interface SpecialistPayRule {
+  id: string;
+  specialist_id: string;
+  service_id: string | null;
+  kind: PayRuleKind;
+  amount: number;
+  effective_from: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayrollPeriod {
+  id: string;
+  period_start: string;
+  period_end: string;
+  total: number;
+  notes: string | null;
+  closed_at: string;
+  closed_by: string | null;
+}
+
+export interface PayrollItem {
+  id: string;
+  period_id: string;
+  appointment_id: string;
+  specialist_id: string | null;
+  service_id: string | null;
+  start_time: string;
+  duration_min: number;
+  service_price: number;
+  rule_kind: PayRuleKind | null;
+  rule_amount: number | null;
+  pay_amount: number;
+}
+
+export interface NotificationTemplate {
+  event: NotificationEvent;
+  body: string;
+  is_active: boolean;
+  updated_at: string;
+}
+
+export interface NotificationContact {
+  profile_id: string;
+  channel: NotificationChannel | null;
+  phone: string | null;
+  telegram_chat_id: string | null;
+  opted_out: boolean;
+  updated_at: string;
+}
+
+export interface QueuedNotification {
+  id: string;
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  recipient: string | null;
+  recipient_profile_id: string | null;
+  child_id: string | null;
+  appointment_id: string | null;
+  body: string;
+  status: NotificationStatus;
+  attempts: number;
+  last_error: string | null;
+  provider_message_id: string | null;
+  dedupe_key: string | null;
+  scheduled_at: string;
+  sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface AppointmentCancelRequest {
+  id: string;
+  appointment_id: string;
+  requested_by: string | null;
+  reason: string | null;
+  status: CancelRequestStatus;
+  late: boolean;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+}
+
+export interface BookingRequest {
+  id: string;
+  child_id: string;
+  service_id: string;
+  specialist_id: string;
+  start_time: string;
+  end_time: string;
+  note: string | null;
+  status: BookingRequestStatus;
+  requested_by: string | null;
+  appointment_id: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+}
+
+export interface ChildBookingRule {
+  child_id: string;
+  blocked: boolean;
+  max_per_week: number | null;
+  note: string | null;
+  updated_at: string;
+}
+
+export interface BookingSlot {
+  specialist_id: string;
+  specialist_name: string;
+  slot_start: string;
+  slot_end: string;
+}
+
+export interface CalendarFeed {
+  id: string;
+  token: string;
+  kind: CalendarFeedKind;
+  specialist_id: string | null;
+  child_id: string | null;
+  label: string | null;
+  created_by: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
 }
@@ -0,0 +1,136 @@
+-- =========================
+-- Доступ сотрудников группы к детям группы
+-- =========================
+
+-- Проверка членства в группе вынесена в SECURITY DEFINER функции:
+-- политики group_* ссылаются друг на друга, и без этого получится рекурсия RLS.
+create or replace function public.is_group_staff(group_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.group_staff gs
+    where gs.group_id = group_uuid
+      and gs.therapist_id = auth.uid()
+  );
+$$;
+
+create or replace function public.is_group_staff_of_child(child_uuid uuid, staff_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.group_children gc
+    join public.group_staff gs on gs.group_id = gc.group_id
+    where gc.child_id = child_uuid
+      and gs.therapist_id = staff_uuid
+  );
+$$;
+
+-- Все политики по ребёнку (daily_logs, behavior_incidents, skill_goals,
+-- skill_tracking, timeline_events, home_notes, appointments, transactions)
+-- проверяют доступ через эти две функции, поэтому группы подключаются здесь.
+create or replace function public.can_read_child(child_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.is_admin_or_manager()
+    or exists (
+      select 1
+      from public.children c
+      where c.id = child_uuid
+        and c.parent_id = auth.uid()
+    )
+    or exists (
+      select 1
+      from public.therapist_children tc
+      where tc.child_id = child_uuid
+        and tc.therapist_id = auth.uid()
+    )
+    or public.is_group_staff_of_child(child_uuid, auth.uid());
+$$;
+
+create or replace function public.can_write_child(child_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    public.is_admin_or_manager()
+    or exists (
+      select 1
+      from public.therapist_children tc
+      where tc.child_id = child_uuid
+        and tc.therapist_id = auth.uid()
+    )
+    or public.is_group_staff_of_child(child_uuid, auth.uid());
+$$;
+
+-- =========================
+-- Чтение групп сотрудниками: свои группы, их состав и коллеги
+-- =========================
+drop policy if exists "groups_select_admin_manager" on public.groups;
+drop policy if exists "groups_select_admin_manager_or_staff" on public.groups;
+create policy "groups_select_admin_manager_or_staff"
+on public.groups
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.is_group_staff(id));
+
+drop policy if exists "group_children_select_admin_manager" on public.group_children;
+drop policy if exists "group_children_select_admin_manager_or_staff" on public.group_children;
+create policy "group_children_select_admin_manager_or_staff"
+on public.group_children
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.is_group_staff(group_id));
+
+drop policy if exists "group_staff_select_admin_manager" on public.group_staff;
+drop policy if exists "group_staff_select_admin_manager_or_staff" on public.group_staff;
+create policy "group_staff_select_admin_manager_or_staff"
+on public.group_staff
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.is_group_staff(group_id));
+
+-- =========================
+-- Профили: родитель видит имена сотрудников групп своего ребёнка (чат)
+-- =========================
+drop policy if exists "profiles_select_related_by_child_access" on public.profiles;
+create policy "profiles_select_related_by_child_access"
+on public.profiles
+for select
+to authenticated
+using (
+  public.is_admin()
+  or id = auth.uid()
+  or exists (
+    select 1
+    from public.children c
+    where public.can_read_child(c.id)
+      and (
+        c.parent_id = id
+        or exists (
+          select 1
+          from public.therapist_children tc
+          where tc.child_id = c.id
+            and tc.therapist_id = id
+        )
+        or public.is_group_staff_of_child(c.id, id)
+      )
+  )
+);
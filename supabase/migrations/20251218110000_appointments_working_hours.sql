@@ -0,0 +1,96 @@
+-- =========================
+-- Запись только в рабочие часы специалиста
+-- =========================
+
+-- Часовой пояс центра: рабочие часы хранятся как локальное время (time),
+-- а записи — как timestamptz, поэтому сравниваем в одном поясе.
+-- Центр работает в Бишкеке; та же константа на клиенте — CENTER_TIMEZONE (src/lib/working-hours.ts).
+create or replace function public.center_timezone()
+returns text
+language sql
+immutable
+as $$
+  select 'Asia/Bishkek'::text;
+$$;
+
+-- Менеджер может осознанно записать вне графика (подмена, доп. занятие).
+alter table public.appointments
+  add column if not exists outside_hours_override boolean not null default false;
+
+create or replace function public.is_within_working_hours(
+  specialist_uuid uuid,
+  start_ts timestamptz,
+  end_ts timestamptz
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with local as (
+    select
+      (start_ts at time zone public.center_timezone()) as s,
+      (end_ts at time zone public.center_timezone()) as e
+  )
+  select exists (
+    select 1
+    from local l
+    join public.specialist_working_hours wh
+      on wh.specialist_id = specialist_uuid
+     and wh.weekday = extract(dow from l.s)::smallint
+    where l.s::date = (l.e - interval '1 microsecond')::date
+      and l.s::time >= wh.start_time
+      and (l.e - interval '1 microsecond')::time < wh.end_time
+  );
+$$;
+
+create or replace function public.check_appointment_working_hours()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'canceled'::public.appointment_status then
+    return new;
+  end if;
+
+  if new.outside_hours_override then
+    if (tg_op = 'INSERT' or not old.outside_hours_override)
+       and not public.is_admin_or_manager() then
+      raise exception using
+        errcode = 'P0001',
+        message = 'outside_hours_override_forbidden',
+        detail = 'Только администратор или менеджер может записывать вне рабочего времени.';
+    end if;
+    return new;
+  end if;
+
+  -- Существующие записи (например, смена статуса) не блокируем,
+  -- пока не меняются время/специалист и запись не восстанавливается из отмены.
+  if tg_op = 'UPDATE'
+     and new.start_time = old.start_time
+     and new.end_time = old.end_time
+     and new.specialist_id = old.specialist_id
+     and old.status <> 'canceled'::public.appointment_status
+     and not old.outside_hours_override then
+    return new;
+  end if;
+
+  if not public.is_within_working_hours(new.specialist_id, new.start_time, new.end_time) then
+    raise exception using
+      errcode = 'P0001',
+      message = 'outside_working_hours',
+      detail = 'Время записи выходит за рабочие часы специалиста.';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_check_working_hours on public.appointments;
+create trigger appointments_check_working_hours
+before insert or update on public.appointments
+for each row
+execute function public.check_appointment_working_hours();
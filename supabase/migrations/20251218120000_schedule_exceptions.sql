@@ -0,0 +1,136 @@
+-- =========================
+-- Исключения из расписания: отпуска, больничные, сокращённые дни
+-- =========================
+
+do $$ begin
+  create type public.schedule_exception_reason as enum (
+    'vacation',
+    'sick_leave',
+    'day_off',
+    'training',
+    'other'
+  );
+exception
+  when duplicate_object then null;
+end $$;
+
+-- Без start_time/end_time — специалист не работает весь период.
+-- С временем — в эти даты работает только в указанном интервале (вместо недельного графика).
+create table if not exists public.specialist_schedule_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  specialist_id uuid not null references public.profiles(id) on delete cascade,
+  start_date date not null,
+  end_date date not null,
+  reason public.schedule_exception_reason not null default 'day_off',
+  start_time time,
+  end_time time,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (end_date >= start_date),
+  check ((start_time is null) = (end_time is null)),
+  check (start_time is null or end_time > start_time)
+);
+
+create index if not exists specialist_schedule_exceptions_specialist_dates_idx
+  on public.specialist_schedule_exceptions(specialist_id, start_date, end_date);
+
+drop trigger if exists specialist_schedule_exceptions_set_updated_at on public.specialist_schedule_exceptions;
+create trigger specialist_schedule_exceptions_set_updated_at
+before update on public.specialist_schedule_exceptions
+for each row
+execute function public.set_updated_at();
+
+alter table public.specialist_schedule_exceptions enable row level security;
+
+drop policy if exists "specialist_exceptions_select" on public.specialist_schedule_exceptions;
+create policy "specialist_exceptions_select"
+on public.specialist_schedule_exceptions
+for select
+to authenticated
+using (public.is_admin_or_manager() or specialist_id = auth.uid());
+
+drop policy if exists "specialist_exceptions_write_admin_or_manager" on public.specialist_schedule_exceptions;
+create policy "specialist_exceptions_write_admin_or_manager"
+on public.specialist_schedule_exceptions
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+-- =========================
+-- Проверка рабочих часов с учётом исключений
+-- =========================
+create or replace function public.is_within_working_hours(
+  specialist_uuid uuid,
+  start_ts timestamptz,
+  end_ts timestamptz
+)
+returns boolean
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  s timestamp := start_ts at time zone public.center_timezone();
+  e timestamp := (end_ts at time zone public.center_timezone()) - interval '1 microsecond';
+begin
+  if s::date <> e::date then
+    return false;
+  end if;
+
+  if exists (
+    select 1
+    from public.specialist_schedule_exceptions x
+    where x.specialist_id = specialist_uuid
+      and s::date between x.start_date and x.end_date
+  ) then
+    return exists (
+      select 1
+      from public.specialist_schedule_exceptions x
+      where x.specialist_id = specialist_uuid
+        and s::date between x.start_date and x.end_date
+        and x.start_time is not null
+        and s::time >= x.start_time
+        and e::time < x.end_time
+    );
+  end if;
+
+  return exists (
+    select 1
+    from public.specialist_working_hours wh
+    where wh.specialist_id = specialist_uuid
+      and wh.weekday = extract(dow from s)::smallint
+      and s::time >= wh.start_time
+      and e::time < wh.end_time
+  );
+end;
+$$;
+
+-- Активные записи, которые попали на отсутствие специалиста (нужно перенести).
+create or replace view public.appointments_in_time_off
+with (security_invoker = true)
+as
+select
+  a.id as appointment_id,
+  a.child_id,
+  a.specialist_id,
+  a.service_id,
+  a.start_time,
+  a.end_time,
+  a.status,
+  x.id as exception_id,
+  x.reason,
+  x.note
+from public.appointments a
+join public.specialist_schedule_exceptions x
+  on x.specialist_id = a.specialist_id
+ and (a.start_time at time zone public.center_timezone())::date between x.start_date and x.end_date
+where a.status in ('pending'::public.appointment_status, 'confirmed'::public.appointment_status)
+  and (
+    x.start_time is null
+    or (a.start_time at time zone public.center_timezone())::time < x.start_time
+    or ((a.end_time at time zone public.center_timezone()) - interval '1 microsecond')::time >= x.end_time
+  );
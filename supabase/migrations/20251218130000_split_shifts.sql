@@ -0,0 +1,55 @@
+-- =========================
+-- Несколько рабочих интервалов в день (смена с перерывом)
+-- =========================
+
+do $$ begin
+  create type public.timerange as range (subtype = time);
+exception
+  when duplicate_object then null;
+end $$;
+
+alter table public.specialist_working_hours
+  drop constraint if exists specialist_working_hours_specialist_id_weekday_key;
+
+-- Интервалы одного дня не должны пересекаться (касание концами допустимо).
+alter table public.specialist_working_hours
+  drop constraint if exists specialist_working_hours_no_overlap;
+alter table public.specialist_working_hours
+  add constraint specialist_working_hours_no_overlap
+  exclude using gist (
+    specialist_id with =,
+    weekday with =,
+    public.timerange(start_time, end_time, '[)') with &&
+  );
+
+create index if not exists specialist_working_hours_specialist_weekday_idx
+  on public.specialist_working_hours(specialist_id, weekday, start_time);
+
+-- Сохранение недельного графика одной транзакцией: удалить старые интервалы и вставить новые.
+-- intervals: [{ "weekday": 1, "start_time": "09:00", "end_time": "12:00" }, ...]
+create or replace function public.replace_specialist_working_hours(
+  specialist_uuid uuid,
+  intervals jsonb
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  delete from public.specialist_working_hours
+  where specialist_id = specialist_uuid;
+
+  insert into public.specialist_working_hours (specialist_id, weekday, start_time, end_time)
+  select
+    specialist_uuid,
+    (r ->> 'weekday')::smallint,
+    (r ->> 'start_time')::time,
+    (r ->> 'end_time')::time
+  from jsonb_array_elements(coalesce(intervals, '[]'::jsonb)) r;
+end;
+$$;
@@ -0,0 +1,111 @@
+-- =========================
+-- Поиск свободных окон для записи
+-- =========================
+
+-- Окна строятся по рабочим интервалам (с учётом исключений из расписания)
+-- с шагом step_min и отбрасываются, если пересекаются с активными записями
+-- специалиста или ребёнка — те же правила, что у appointments_no_overlap_*.
+create or replace function public.find_free_slots(
+  child_uuid uuid,
+  service_uuid uuid,
+  specialist_uuid uuid default null,
+  from_date date default current_date,
+  to_date date default current_date + 7,
+  step_min integer default 15,
+  max_results integer default 300
+)
+returns table (
+  specialist_id uuid,
+  slot_start timestamptz,
+  slot_end timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  slot_duration interval;
+  step interval := make_interval(mins => greatest(step_min, 5));
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if to_date < from_date or to_date - from_date > 62 then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  select make_interval(mins => s.duration_min) into slot_duration
+  from public.services s
+  where s.id = service_uuid;
+
+  if slot_duration is null then
+    raise exception using errcode = 'P0002', message = 'service_not_found';
+  end if;
+
+  return query
+  with days as (
+    select d::date as day
+    from generate_series(from_date::timestamp, to_date::timestamp, interval '1 day') d
+  ),
+  specialists as (
+    select p.id
+    from public.profiles p
+    where p.role = 'therapist'::public.user_role
+      and (specialist_uuid is null or p.id = specialist_uuid)
+  ),
+  intervals as (
+    select sp.id as sid, dd.day, x.start_time as s, x.end_time as e
+    from specialists sp
+    cross join days dd
+    join public.specialist_schedule_exceptions x
+      on x.specialist_id = sp.id
+     and dd.day between x.start_date and x.end_date
+    where x.start_time is not null
+    union all
+    select sp.id, dd.day, wh.start_time, wh.end_time
+    from specialists sp
+    cross join days dd
+    join public.specialist_working_hours wh
+      on wh.specialist_id = sp.id
+     and wh.weekday = extract(dow from dd.day)::smallint
+    where not exists (
+      select 1
+      from public.specialist_schedule_exceptions x
+      where x.specialist_id = sp.id
+        and dd.day between x.start_date and x.end_date
+    )
+  ),
+  candidates as (
+    select i.sid, ((i.day + i.s) + n * step) at time zone tz as st
+    from intervals i
+    cross join lateral generate_series(
+      0,
+      floor(extract(epoch from ((i.e - i.s) - slot_duration)) / extract(epoch from step))::int
+    ) n
+    where i.e - i.s >= slot_duration
+  )
+  select c.sid, c.st, c.st + slot_duration
+  from candidates c
+  where c.st > now()
+    and not exists (
+      select 1
+      from public.appointments a
+      where a.specialist_id = c.sid
+        and a.status <> 'canceled'::public.appointment_status
+        and tstzrange(a.start_time, a.end_time, '[)') && tstzrange(c.st, c.st + slot_duration, '[)')
+    )
+    and not exists (
+      select 1
+      from public.appointments a
+      where a.child_id = child_uuid
+        and a.status <> 'canceled'::public.appointment_status
+        and tstzrange(a.start_time, a.end_time, '[)') && tstzrange(c.st, c.st + slot_duration, '[)')
+    )
+  order by c.st, c.sid
+  limit max_results;
+end;
+$$;
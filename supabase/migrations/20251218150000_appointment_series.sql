@@ -0,0 +1,99 @@
+-- =========================
+-- Операции над серией повторяющихся записей
+-- =========================
+
+-- scope: 'one' — только эта запись, 'following' — эта и следующие, 'all' — вся серия.
+-- Для серии затрагиваются только будущие записи, кроме завершённых и неявок:
+-- прошедшие занятия и их начисления остаются как есть.
+create or replace function public.appointment_series_target_ids(appointment_uuid uuid, scope text)
+returns setof uuid
+language sql
+stable
+set search_path = public
+as $$
+  select a.id
+  from public.appointments anchor
+  join public.appointments a
+    on a.id = anchor.id
+    or (
+      scope in ('following', 'all')
+      and anchor.recurrence_group_id is not null
+      and a.recurrence_group_id = anchor.recurrence_group_id
+      and a.start_time >= now()
+      and (scope = 'all' or a.start_time >= anchor.start_time)
+    )
+  where anchor.id = appointment_uuid
+    and (
+      scope = 'one'
+      or a.status not in ('completed'::public.appointment_status, 'no_show'::public.appointment_status)
+    );
+$$;
+
+-- patch (все поля опциональны):
+--   shift_minutes — сдвиг начала каждой записи, duration_min — новая длительность,
+--   child_id, specialist_id, service_id, status, notes, outside_hours_override.
+create or replace function public.update_appointment_series(
+  appointment_uuid uuid,
+  scope text,
+  patch jsonb
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  shift interval := make_interval(mins => coalesce((patch ->> 'shift_minutes')::int, 0));
+  affected integer;
+begin
+  if scope not in ('one', 'following', 'all') then
+    raise exception using errcode = '22023', message = 'invalid_scope';
+  end if;
+
+  if not exists (select 1 from public.appointments where id = appointment_uuid) then
+    raise exception using errcode = 'P0002', message = 'appointment_not_found';
+  end if;
+
+  update public.appointments a
+  set
+    start_time = a.start_time + shift,
+    end_time = case
+      when patch ? 'duration_min' then a.start_time + shift + make_interval(mins => (patch ->> 'duration_min')::int)
+      else a.end_time + shift
+    end,
+    child_id = coalesce((patch ->> 'child_id')::uuid, a.child_id),
+    specialist_id = coalesce((patch ->> 'specialist_id')::uuid, a.specialist_id),
+    service_id = coalesce((patch ->> 'service_id')::uuid, a.service_id),
+    status = coalesce((patch ->> 'status')::public.appointment_status, a.status),
+    notes = case when patch ? 'notes' then nullif(patch ->> 'notes', '') else a.notes end,
+    outside_hours_override = coalesce((patch ->> 'outside_hours_override')::boolean, a.outside_hours_override)
+  where a.id in (select public.appointment_series_target_ids(appointment_uuid, scope));
+
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
+
+create or replace function public.delete_appointment_series(
+  appointment_uuid uuid,
+  scope text
+)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  if scope not in ('one', 'following', 'all') then
+    raise exception using errcode = '22023', message = 'invalid_scope';
+  end if;
+
+  delete from public.appointments a
+  where a.id in (select public.appointment_series_target_ids(appointment_uuid, scope));
+
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
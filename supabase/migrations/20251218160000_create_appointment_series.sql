@@ -0,0 +1,145 @@
+-- =========================
+-- Создание повторяющейся серии записей одной транзакцией
+-- =========================
+
+-- Даты серии считаются в часовом поясе центра: время первой записи
+-- повторяется в выбранные дни недели (0 = вс … 6 = сб) до until_date включительно.
+-- on_conflict:
+--   'skip'  — занятые даты пропускаются, остальные записи создаются;
+--   'abort' — при любом конфликте ничего не создаётся.
+-- Возвращает отчёт по каждой дате:
+--   result = 'created' | 'skipped' | 'rolled_back',
+--   reason = 'specialist_busy' | 'child_busy' | 'outside_working_hours' (для пропущенных).
+create or replace function public.create_appointment_series(
+  child_uuid uuid,
+  specialist_uuid uuid,
+  service_uuid uuid,
+  first_start timestamptz,
+  duration_min integer,
+  weekdays integer[],
+  until_date date,
+  initial_status public.appointment_status default 'pending',
+  notes text default null,
+  outside_hours_override boolean default false,
+  on_conflict text default 'skip'
+)
+returns table (
+  occurrence_start timestamptz,
+  occurrence_end timestamptz,
+  result text,
+  reason text,
+  appointment_id uuid,
+  recurrence_group_id uuid
+)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_variable
+declare
+  tz text := public.center_timezone();
+  group_uuid uuid := gen_random_uuid();
+  duration interval := make_interval(mins => duration_min);
+  local_start timestamp := first_start at time zone tz;
+  occ timestamptz;
+  new_id uuid;
+  fail_reason text;
+  constraint_hit text;
+  report jsonb := '[]'::jsonb;
+  failures integer := 0;
+begin
+  if on_conflict not in ('skip', 'abort') then
+    raise exception using errcode = '22023', message = 'invalid_on_conflict';
+  end if;
+
+  if duration_min is null or duration_min < 5 then
+    raise exception using errcode = '22023', message = 'invalid_duration';
+  end if;
+
+  if until_date < local_start::date or until_date - local_start::date > 366 then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  begin
+    for occ in
+      select first_start
+      union
+      select (d::date + local_start::time) at time zone tz
+      from generate_series(local_start::date::timestamp, until_date::timestamp, interval '1 day') d
+      where extract(dow from d)::integer = any(weekdays)
+        and (d::date + local_start::time) at time zone tz >= first_start
+      order by 1
+    loop
+      fail_reason := null;
+      new_id := null;
+
+      begin
+        insert into public.appointments (
+          child_id, specialist_id, service_id, start_time, end_time, status, notes,
+          is_recurring, recurrence_group_id, outside_hours_override, created_by
+        )
+        values (
+          child_uuid, specialist_uuid, service_uuid, occ, occ + duration, initial_status, nullif(notes, ''),
+          true, group_uuid, coalesce(outside_hours_override, false), auth.uid()
+        )
+        returning id into new_id;
+      exception
+        when exclusion_violation then
+          get stacked diagnostics constraint_hit = constraint_name;
+          fail_reason := case
+            when constraint_hit = 'appointments_no_overlap_child' then 'child_busy'
+            else 'specialist_busy'
+          end;
+        when raise_exception then
+          get stacked diagnostics constraint_hit = message_text;
+          if constraint_hit <> 'outside_working_hours' then
+            raise;
+          end if;
+          fail_reason := 'outside_working_hours';
+      end;
+
+      if fail_reason is not null then
+        failures := failures + 1;
+      end if;
+
+      report := report || jsonb_build_object(
+        'occurrence_start', occ,
+        'occurrence_end', occ + duration,
+        'result', case when fail_reason is null then 'created' else 'skipped' end,
+        'reason', fail_reason,
+        'appointment_id', new_id
+      );
+    end loop;
+
+    -- Откат всех вставок блока; отчёт в переменной сохраняется.
+    if on_conflict = 'abort' and failures > 0 then
+      raise exception using errcode = 'P0001', message = 'series_rolled_back';
+    end if;
+  exception
+    when raise_exception then
+      get stacked diagnostics constraint_hit = message_text;
+      if constraint_hit <> 'series_rolled_back' then
+        raise;
+      end if;
+      select coalesce(jsonb_agg(
+        r || jsonb_build_object(
+          'result', case when r ->> 'result' = 'created' then 'rolled_back' else r ->> 'result' end,
+          'appointment_id', null
+        )
+      ), '[]'::jsonb)
+      into report
+      from jsonb_array_elements(report) r;
+      group_uuid := null;
+  end;
+
+  return query
+  select
+    (r ->> 'occurrence_start')::timestamptz,
+    (r ->> 'occurrence_end')::timestamptz,
+    r ->> 'result',
+    r ->> 'reason',
+    (r ->> 'appointment_id')::uuid,
+    group_uuid
+  from jsonb_array_elements(report) r;
+end;
+$$;
@@ -0,0 +1,196 @@
+-- =========================
+-- Переходы статусов записи и история изменений
+-- =========================
+
+-- Допустимые переходы (зеркалится в src/lib/appointment-status.ts):
+--   pending   → confirmed, canceled, completed, no_show
+--   confirmed → pending, canceled, completed, no_show
+--   canceled  → pending, confirmed
+--   completed → confirmed   (откат завершения, только admin/manager)
+--   no_show   → confirmed   (откат неявки, только admin/manager)
+create or replace function public.appointment_status_transition_allowed(
+  from_status public.appointment_status,
+  to_status public.appointment_status
+)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select from_status = to_status or (from_status::text, to_status::text) in (
+    ('pending', 'confirmed'), ('pending', 'canceled'), ('pending', 'completed'), ('pending', 'no_show'),
+    ('confirmed', 'pending'), ('confirmed', 'canceled'), ('confirmed', 'completed'), ('confirmed', 'no_show'),
+    ('canceled', 'pending'), ('canceled', 'confirmed'),
+    ('completed', 'confirmed'),
+    ('no_show', 'confirmed')
+  );
+$$;
+
+create or replace function public.check_appointment_status_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status = old.status then
+    return new;
+  end if;
+
+  if not public.appointment_status_transition_allowed(old.status, new.status) then
+    raise exception using
+      errcode = 'P0001',
+      message = 'invalid_status_transition',
+      detail = old.status::text || ' -> ' || new.status::text;
+  end if;
+
+  if old.status in ('completed'::public.appointment_status, 'no_show'::public.appointment_status)
+     and not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'status_revert_forbidden';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_check_status_transition on public.appointments;
+create trigger appointments_check_status_transition
+before update of status on public.appointments
+for each row
+execute function public.check_appointment_status_transition();
+
+-- =========================
+-- APPOINTMENT STATUS HISTORY
+-- =========================
+create table if not exists public.appointment_status_history (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references public.appointments(id) on delete cascade,
+  from_status public.appointment_status,
+  to_status public.appointment_status not null,
+  changed_by uuid references public.profiles(id) on delete set null,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists appointment_status_history_appointment_idx
+  on public.appointment_status_history(appointment_id, changed_at);
+
+create or replace function public.log_appointment_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into public.appointment_status_history (appointment_id, from_status, to_status, changed_by)
+    values (new.id, case when tg_op = 'INSERT' then null else old.status end, new.status, auth.uid());
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_log_status_change on public.appointments;
+create trigger appointments_log_status_change
+after insert or update of status on public.appointments
+for each row
+execute function public.log_appointment_status_change();
+
+alter table public.appointment_status_history enable row level security;
+
+-- Историю видит тот, кто видит саму запись; пишет только триггер.
+drop policy if exists "appointment_status_history_select_by_appointment" on public.appointment_status_history;
+create policy "appointment_status_history_select_by_appointment"
+on public.appointment_status_history
+for select
+to authenticated
+using (
+  exists (
+    select 1
+    from public.appointments a
+    where a.id = appointment_id
+  )
+);
+
+-- =========================
+-- Аннулирование начислений
+-- =========================
+alter table public.transactions
+  add column if not exists voided_at timestamptz,
+  add column if not exists voided_by uuid references public.profiles(id) on delete set null,
+  add column if not exists void_reason text;
+
+-- Одно действующее начисление на занятие; аннулированные остаются в истории.
+alter table public.transactions
+  drop constraint if exists transactions_appointment_id_type_key;
+
+create unique index if not exists transactions_active_appointment_type_key
+  on public.transactions(appointment_id, type)
+  where voided_at is null;
+
+-- Начисление при завершении; при откате завершения начисление аннулируется.
+create or replace function public.handle_appointment_completed_charge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  svc record;
+  child_name text;
+  descr text;
+begin
+  if new.status = 'completed'::public.appointment_status
+     and (old.status is distinct from new.status) then
+
+    select s.name, s.price, s.duration_min into svc
+    from public.services s
+    where s.id = new.service_id;
+
+    select c.name into child_name
+    from public.children c
+    where c.id = new.child_id;
+
+    descr :=
+      'Начисление: '
+      || coalesce(svc.name, 'Услуга')
+      || ' — '
+      || coalesce(child_name, 'ребёнок')
+      || ' ('
+      || to_char(new.start_time, 'DD.MM.YYYY HH24:MI')
+      || ')';
+
+    insert into public.transactions (
+      child_id,
+      appointment_id,
+      amount,
+      type,
+      date,
+      description,
+      created_by
+    )
+    values (
+      new.child_id,
+      new.id,
+      coalesce(svc.price, 0),
+      'charge'::public.transaction_type,
+      new.end_time,
+      descr,
+      auth.uid()
+    )
+    on conflict (appointment_id, type) where voided_at is null do nothing;
+  end if;
+
+  if old.status = 'completed'::public.appointment_status
+     and new.status is distinct from old.status then
+    update public.transactions
+    set
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = 'Отмена завершения занятия'
+    where appointment_id = new.id
+      and type = 'charge'::public.transaction_type
+      and voided_at is null;
+  end if;
+
+  return new;
+end;
+$$;
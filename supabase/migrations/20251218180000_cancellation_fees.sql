@@ -0,0 +1,149 @@
+-- =========================
+-- Штрафы за позднюю отмену и неявку
+-- =========================
+
+-- Правила отмены задаются для каждой услуги.
+alter table public.services
+  add column if not exists late_cancel_hours integer not null default 24 check (late_cancel_hours >= 0),
+  add column if not exists late_cancel_fee_percent numeric(5,2) not null default 50
+    check (late_cancel_fee_percent between 0 and 100),
+  add column if not exists no_show_fee_percent numeric(5,2) not null default 100
+    check (no_show_fee_percent between 0 and 100);
+
+-- fee_kind отличает штраф от обычного начисления за проведённое занятие.
+alter table public.transactions
+  add column if not exists fee_kind text check (fee_kind in ('late_cancel', 'no_show'));
+
+create or replace function public.handle_appointment_completed_charge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  svc record;
+  child_name text;
+  descr text;
+  kind text;
+  charge_amount numeric(12,2);
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  -- Уход из completed / canceled / no_show: аннулируем начисление или штраф прежнего статуса.
+  if old.status in (
+    'completed'::public.appointment_status,
+    'canceled'::public.appointment_status,
+    'no_show'::public.appointment_status
+  ) then
+    update public.transactions
+    set
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = case
+        when old.status = 'completed'::public.appointment_status then 'Отмена завершения занятия'
+        else 'Статус записи изменён'
+      end
+    where appointment_id = new.id
+      and type = 'charge'::public.transaction_type
+      and voided_at is null;
+  end if;
+
+  select s.name, s.price, s.late_cancel_hours, s.late_cancel_fee_percent, s.no_show_fee_percent into svc
+  from public.services s
+  where s.id = new.service_id;
+
+  if new.status = 'completed'::public.appointment_status then
+    kind := null;
+    charge_amount := coalesce(svc.price, 0);
+    descr := 'Начисление: ';
+  elsif new.status = 'no_show'::public.appointment_status then
+    kind := 'no_show';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.no_show_fee_percent, 100) / 100, 2);
+    descr := 'Неявка (' || trim(to_char(coalesce(svc.no_show_fee_percent, 100), 'FM990.##')) || '%): ';
+  elsif new.status = 'canceled'::public.appointment_status
+        and now() > new.start_time - make_interval(hours => coalesce(svc.late_cancel_hours, 24)) then
+    kind := 'late_cancel';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.late_cancel_fee_percent, 50) / 100, 2);
+    descr :=
+      'Поздняя отмена (менее '
+      || coalesce(svc.late_cancel_hours, 24)
+      || ' ч, '
+      || trim(to_char(coalesce(svc.late_cancel_fee_percent, 50), 'FM990.##'))
+      || '%): ';
+  else
+    return new;
+  end if;
+
+  if charge_amount <= 0 and kind is not null then
+    return new;
+  end if;
+
+  select c.name into child_name
+  from public.children c
+  where c.id = new.child_id;
+
+  descr :=
+    descr
+    || coalesce(svc.name, 'Услуга')
+    || ' — '
+    || coalesce(child_name, 'ребёнок')
+    || ' ('
+    || to_char(new.start_time at time zone public.center_timezone(), 'DD.MM.YYYY HH24:MI')
+    || ')';
+
+  insert into public.transactions (
+    child_id,
+    appointment_id,
+    amount,
+    type,
+    date,
+    description,
+    fee_kind,
+    created_by
+  )
+  values (
+    new.child_id,
+    new.id,
+    charge_amount,
+    'charge'::public.transaction_type,
+    case when kind = 'late_cancel' then now() else new.end_time end,
+    descr,
+    kind,
+    auth.uid()
+  )
+  on conflict (appointment_id, type) where voided_at is null do nothing;
+
+  return new;
+end;
+$$;
+
+-- Списание штрафа менеджером: штраф аннулируется, запись остаётся в истории операций.
+create or replace function public.waive_appointment_fee(appointment_uuid uuid, reason text default null)
+returns integer
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  update public.transactions
+  set
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = coalesce(nullif(trim(reason), ''), 'Штраф списан')
+  where appointment_id = appointment_uuid
+    and type = 'charge'::public.transaction_type
+    and fee_kind is not null
+    and voided_at is null;
+
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
@@ -0,0 +1,341 @@
+-- =========================
+-- Абонементы: пакеты занятий по услуге
+-- =========================
+
+-- =========================
+-- SERVICE PACKAGES (каталог)
+-- =========================
+create table if not exists public.service_packages (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  service_id uuid not null references public.services(id) on delete restrict,
+  sessions_count integer not null check (sessions_count > 0),
+  price numeric(12,2) not null default 0 check (price >= 0),
+  validity_days integer not null default 30 check (validity_days > 0),
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique(name)
+);
+
+drop trigger if exists service_packages_set_updated_at on public.service_packages;
+create trigger service_packages_set_updated_at
+before update on public.service_packages
+for each row
+execute function public.set_updated_at();
+
+-- =========================
+-- PACKAGE PURCHASES (проданные абонементы)
+-- =========================
+create table if not exists public.package_purchases (
+  id uuid primary key default gen_random_uuid(),
+  child_id uuid not null references public.children(id) on delete cascade,
+  package_id uuid references public.service_packages(id) on delete set null,
+  service_id uuid not null references public.services(id) on delete restrict,
+  name text not null,
+  sessions_total integer not null check (sessions_total > 0),
+  sessions_used integer not null default 0,
+  price numeric(12,2) not null default 0 check (price >= 0),
+  starts_on date not null default current_date,
+  expires_on date not null,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (sessions_used between 0 and sessions_total),
+  check (expires_on >= starts_on)
+);
+
+create index if not exists package_purchases_child_service_idx
+  on public.package_purchases(child_id, service_id, expires_on);
+
+drop trigger if exists package_purchases_set_updated_at on public.package_purchases;
+create trigger package_purchases_set_updated_at
+before update on public.package_purchases
+for each row
+execute function public.set_updated_at();
+
+-- Списанные по абонементу занятия (одно занятие — одно списание).
+create table if not exists public.package_usages (
+  appointment_id uuid primary key references public.appointments(id) on delete cascade,
+  purchase_id uuid not null references public.package_purchases(id) on delete cascade,
+  used_at timestamptz not null default now()
+);
+
+create index if not exists package_usages_purchase_idx on public.package_usages(purchase_id);
+
+-- Продажа абонемента — одно начисление на его стоимость.
+alter table public.transactions
+  add column if not exists package_purchase_id uuid references public.package_purchases(id) on delete set null;
+
+create or replace function public.handle_package_purchase_charge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.price > 0 then
+    insert into public.transactions (child_id, amount, type, date, description, package_purchase_id, created_by)
+    values (
+      new.child_id,
+      new.price,
+      'charge'::public.transaction_type,
+      now(),
+      'Абонемент: ' || new.name || ' (' || new.sessions_total || ' зан., до ' || to_char(new.expires_on, 'DD.MM.YYYY') || ')',
+      new.id,
+      auth.uid()
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists package_purchases_charge_on_insert on public.package_purchases;
+create trigger package_purchases_charge_on_insert
+after insert on public.package_purchases
+for each row
+execute function public.handle_package_purchase_charge();
+
+-- Списать занятие с подходящего абонемента (раньше всех истекающий).
+-- Возвращает id абонемента или null, если подходящего нет.
+create or replace function public.consume_package_session(appointment_uuid uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  appt record;
+  purchase_uuid uuid;
+begin
+  select a.id, a.child_id, a.service_id, (a.start_time at time zone public.center_timezone())::date as day
+  into appt
+  from public.appointments a
+  where a.id = appointment_uuid;
+
+  if appt.id is null then
+    return null;
+  end if;
+
+  select pu.purchase_id into purchase_uuid
+  from public.package_usages pu
+  where pu.appointment_id = appointment_uuid;
+
+  if purchase_uuid is not null then
+    return purchase_uuid;
+  end if;
+
+  select p.id into purchase_uuid
+  from public.package_purchases p
+  where p.child_id = appt.child_id
+    and p.service_id = appt.service_id
+    and appt.day between p.starts_on and p.expires_on
+    and p.sessions_used < p.sessions_total
+  order by p.expires_on, p.created_at
+  limit 1
+  for update;
+
+  if purchase_uuid is null then
+    return null;
+  end if;
+
+  update public.package_purchases
+  set sessions_used = sessions_used + 1
+  where id = purchase_uuid;
+
+  insert into public.package_usages (appointment_id, purchase_id)
+  values (appointment_uuid, purchase_uuid);
+
+  return purchase_uuid;
+end;
+$$;
+
+create or replace function public.release_package_session(appointment_uuid uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  purchase_uuid uuid;
+begin
+  delete from public.package_usages
+  where appointment_id = appointment_uuid
+  returning purchase_id into purchase_uuid;
+
+  if purchase_uuid is not null then
+    update public.package_purchases
+    set sessions_used = greatest(sessions_used - 1, 0)
+    where id = purchase_uuid;
+  end if;
+end;
+$$;
+
+-- Списание и возврат занятия делают только триггеры завершения и отмены; через RPC они недоступны.
+revoke execute on function public.consume_package_session(uuid) from public, anon, authenticated;
+revoke execute on function public.release_package_session(uuid) from public, anon, authenticated;
+
+-- Завершение занятия: сначала абонемент, и только без него — начисление по цене услуги.
+create or replace function public.handle_appointment_completed_charge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  svc record;
+  child_name text;
+  descr text;
+  kind text;
+  charge_amount numeric(12,2);
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  -- Уход из completed / canceled / no_show: аннулируем начисление или штраф прежнего статуса.
+  if old.status in (
+    'completed'::public.appointment_status,
+    'canceled'::public.appointment_status,
+    'no_show'::public.appointment_status
+  ) then
+    update public.transactions
+    set
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = case
+        when old.status = 'completed'::public.appointment_status then 'Отмена завершения занятия'
+        else 'Статус записи изменён'
+      end
+    where appointment_id = new.id
+      and type = 'charge'::public.transaction_type
+      and voided_at is null;
+
+    if old.status = 'completed'::public.appointment_status then
+      perform public.release_package_session(new.id);
+    end if;
+  end if;
+
+  select s.name, s.price, s.late_cancel_hours, s.late_cancel_fee_percent, s.no_show_fee_percent into svc
+  from public.services s
+  where s.id = new.service_id;
+
+  if new.status = 'completed'::public.appointment_status then
+    if public.consume_package_session(new.id) is not null then
+      return new;
+    end if;
+    kind := null;
+    charge_amount := coalesce(svc.price, 0);
+    descr := 'Начисление: ';
+  elsif new.status = 'no_show'::public.appointment_status then
+    kind := 'no_show';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.no_show_fee_percent, 100) / 100, 2);
+    descr := 'Неявка (' || trim(to_char(coalesce(svc.no_show_fee_percent, 100), 'FM990.##')) || '%): ';
+  elsif new.status = 'canceled'::public.appointment_status
+        and now() > new.start_time - make_interval(hours => coalesce(svc.late_cancel_hours, 24)) then
+    kind := 'late_cancel';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.late_cancel_fee_percent, 50) / 100, 2);
+    descr :=
+      'Поздняя отмена (менее '
+      || coalesce(svc.late_cancel_hours, 24)
+      || ' ч, '
+      || trim(to_char(coalesce(svc.late_cancel_fee_percent, 50), 'FM990.##'))
+      || '%): ';
+  else
+    return new;
+  end if;
+
+  if charge_amount <= 0 and kind is not null then
+    return new;
+  end if;
+
+  select c.name into child_name
+  from public.children c
+  where c.id = new.child_id;
+
+  descr :=
+    descr
+    || coalesce(svc.name, 'Услуга')
+    || ' — '
+    || coalesce(child_name, 'ребёнок')
+    || ' ('
+    || to_char(new.start_time at time zone public.center_timezone(), 'DD.MM.YYYY HH24:MI')
+    || ')';
+
+  insert into public.transactions (
+    child_id,
+    appointment_id,
+    amount,
+    type,
+    date,
+    description,
+    fee_kind,
+    created_by
+  )
+  values (
+    new.child_id,
+    new.id,
+    charge_amount,
+    'charge'::public.transaction_type,
+    case when kind = 'late_cancel' then now() else new.end_time end,
+    descr,
+    kind,
+    auth.uid()
+  )
+  on conflict (appointment_id, type) where voided_at is null do nothing;
+
+  return new;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.service_packages enable row level security;
+alter table public.package_purchases enable row level security;
+alter table public.package_usages enable row level security;
+
+drop policy if exists "service_packages_select_authenticated" on public.service_packages;
+create policy "service_packages_select_authenticated"
+on public.service_packages
+for select
+to authenticated
+using (true);
+
+drop policy if exists "service_packages_write_admin_or_manager" on public.service_packages;
+create policy "service_packages_write_admin_or_manager"
+on public.service_packages
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+drop policy if exists "package_purchases_select_by_child_access" on public.package_purchases;
+create policy "package_purchases_select_by_child_access"
+on public.package_purchases
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.can_read_child(child_id));
+
+drop policy if exists "package_purchases_write_admin_or_manager" on public.package_purchases;
+create policy "package_purchases_write_admin_or_manager"
+on public.package_purchases
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+-- Списания пишет только триггер.
+drop policy if exists "package_usages_select_by_purchase" on public.package_usages;
+create policy "package_usages_select_by_purchase"
+on public.package_usages
+for select
+to authenticated
+using (
+  exists (
+    select 1
+    from public.package_purchases p
+    where p.id = purchase_id
+  )
+);
@@ -0,0 +1,195 @@
+-- =========================
+-- Счета и ежемесячные выписки по ребёнку
+-- =========================
+
+-- =========================
+-- CENTER SETTINGS (реквизиты центра, одна строка)
+-- =========================
+create table if not exists public.center_settings (
+  id boolean primary key default true check (id),
+  name text not null default 'Центр',
+  legal_name text,
+  address text,
+  phone text,
+  email text,
+  tax_id text,
+  bank_details text,
+  invoice_prefix text not null default 'СЧ',
+  statement_prefix text not null default 'ВП',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.center_settings (id) values (true) on conflict (id) do nothing;
+
+drop trigger if exists center_settings_set_updated_at on public.center_settings;
+create trigger center_settings_set_updated_at
+before update on public.center_settings
+for each row
+execute function public.set_updated_at();
+
+-- =========================
+-- BILLING DOCUMENTS
+-- =========================
+do $$ begin
+  create type public.billing_document_kind as enum ('invoice', 'statement');
+exception
+  when duplicate_object then null;
+end $$;
+
+create sequence if not exists public.billing_invoice_number_seq;
+create sequence if not exists public.billing_statement_number_seq;
+
+-- Документ хранит снимок строк на момент выпуска: последующие правки операций его не меняют.
+create table if not exists public.billing_documents (
+  id uuid primary key default gen_random_uuid(),
+  number text not null unique,
+  kind public.billing_document_kind not null,
+  child_id uuid not null references public.children(id) on delete cascade,
+  period_start date not null,
+  period_end date not null,
+  lines jsonb not null default '[]'::jsonb,
+  opening_balance numeric(12,2) not null default 0,
+  charges_total numeric(12,2) not null default 0,
+  payments_total numeric(12,2) not null default 0,
+  closing_balance numeric(12,2) not null default 0,
+  issued_at timestamptz not null default now(),
+  created_by uuid references public.profiles(id) on delete set null,
+  check (period_end >= period_start)
+);
+
+create index if not exists billing_documents_child_issued_idx
+  on public.billing_documents(child_id, issued_at desc);
+
+-- Знак операции для баланса: положительный баланс — предоплата, отрицательный — долг.
+create or replace function public.transaction_signed_amount(t public.transaction_type, amount numeric)
+returns numeric
+language sql
+immutable
+set search_path = public
+as $$
+  select case when t = 'payment'::public.transaction_type then amount else -amount end;
+$$;
+
+-- invoice — начисления за период; statement — все операции за период с входящим и исходящим балансом.
+create or replace function public.issue_billing_document(
+  child_uuid uuid,
+  doc_kind public.billing_document_kind,
+  period_start date,
+  period_end date
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+  from_ts timestamptz := period_start::timestamp at time zone tz;
+  to_ts timestamptz := (period_end + 1)::timestamp at time zone tz;
+  settings record;
+  doc_number text;
+  doc_lines jsonb;
+  opening numeric(12,2);
+  charges numeric(12,2);
+  payments numeric(12,2);
+  doc_id uuid;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if period_end < period_start then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  select * into settings from public.center_settings where id;
+
+  select coalesce(sum(public.transaction_signed_amount(t.type, t.amount)), 0) into opening
+  from public.transactions t
+  where t.child_id = child_uuid
+    and t.voided_at is null
+    and t.date < from_ts;
+
+  select
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'date', t.date,
+        'type', t.type,
+        'description', t.description,
+        'service', s.name,
+        'specialist', coalesce(p.full_name, p.email),
+        'appointment_start', a.start_time,
+        'amount', t.amount
+      )
+      order by t.date, t.created_at
+    ), '[]'::jsonb),
+    coalesce(sum(t.amount) filter (where t.type = 'charge'::public.transaction_type), 0),
+    coalesce(sum(t.amount) filter (where t.type = 'payment'::public.transaction_type), 0)
+  into doc_lines, charges, payments
+  from public.transactions t
+  left join public.appointments a on a.id = t.appointment_id
+  left join public.services s on s.id = a.service_id
+  left join public.profiles p on p.id = a.specialist_id
+  where t.child_id = child_uuid
+    and t.voided_at is null
+    and t.date >= from_ts
+    and t.date < to_ts
+    and (doc_kind = 'statement'::public.billing_document_kind or t.type = 'charge'::public.transaction_type);
+
+  if doc_kind = 'invoice'::public.billing_document_kind then
+    doc_number := coalesce(settings.invoice_prefix, 'СЧ') || '-' || to_char(now() at time zone tz, 'YYYY') || '-'
+      || lpad(nextval('public.billing_invoice_number_seq')::text, 5, '0');
+  else
+    doc_number := coalesce(settings.statement_prefix, 'ВП') || '-' || to_char(now() at time zone tz, 'YYYY') || '-'
+      || lpad(nextval('public.billing_statement_number_seq')::text, 5, '0');
+  end if;
+
+  insert into public.billing_documents (
+    number, kind, child_id, period_start, period_end, lines,
+    opening_balance, charges_total, payments_total, closing_balance, created_by
+  )
+  values (
+    doc_number, doc_kind, child_uuid, period_start, period_end, doc_lines,
+    opening, charges, payments, opening + payments - charges, auth.uid()
+  )
+  returning id into doc_id;
+
+  return doc_id;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.center_settings enable row level security;
+alter table public.billing_documents enable row level security;
+
+drop policy if exists "center_settings_select_authenticated" on public.center_settings;
+create policy "center_settings_select_authenticated"
+on public.center_settings
+for select
+to authenticated
+using (true);
+
+drop policy if exists "center_settings_write_admin_or_manager" on public.center_settings;
+create policy "center_settings_write_admin_or_manager"
+on public.center_settings
+for update
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+-- Документы видят admin/manager и родители ребёнка; выпускаются только через issue_billing_document.
+drop policy if exists "billing_documents_select_by_child_access" on public.billing_documents;
+create policy "billing_documents_select_by_child_access"
+on public.billing_documents
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.can_read_child(child_id));
+
+drop policy if exists "billing_documents_delete_admin_or_manager" on public.billing_documents;
+create policy "billing_documents_delete_admin_or_manager"
+on public.billing_documents
+for delete
+to authenticated
+using (public.is_admin_or_manager());
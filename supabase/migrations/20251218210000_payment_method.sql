@@ -0,0 +1,37 @@
+-- =========================
+-- Способ оплаты, номер документа и принявший сотрудник — отдельными полями
+-- =========================
+
+alter table public.transactions
+  add column if not exists payment_method text check (payment_method in ('cash', 'card', 'transfer')),
+  add column if not exists payment_reference text,
+  add column if not exists received_by uuid references public.profiles(id) on delete set null;
+
+-- Раньше способ оплаты дописывался в начало описания: «Карта» или «Карта · комментарий».
+-- Переносим его в payment_method и оставляем в описании только комментарий.
+with parsed as (
+  select
+    t.id,
+    case split_part(t.description, ' · ', 1)
+      when 'Наличные' then 'cash'
+      when 'Карта' then 'card'
+      when 'Перевод' then 'transfer'
+    end as method,
+    nullif(btrim(substr(t.description, length(split_part(t.description, ' · ', 1)) + 4)), '') as rest
+  from public.transactions t
+  where t.type = 'payment'::public.transaction_type
+    and t.payment_method is null
+    and t.description is not null
+)
+update public.transactions t
+set
+  payment_method = p.method,
+  description = p.rest,
+  received_by = coalesce(t.received_by, t.created_by)
+from parsed p
+where p.id = t.id
+  and p.method is not null;
+
+create index if not exists transactions_payments_method_date_idx
+  on public.transactions(date, payment_method)
+  where type = 'payment'::public.transaction_type;
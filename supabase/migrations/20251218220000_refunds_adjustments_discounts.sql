@@ -0,0 +1,395 @@
+-- =========================
+-- Возвраты, корректировки и скидки; аннулирование вместо удаления
+-- =========================
+
+alter type public.transaction_type add value if not exists 'refund';
+alter type public.transaction_type add value if not exists 'adjustment';
+alter type public.transaction_type add value if not exists 'discount';
+
+-- Новые значения enum нельзя использовать в той же транзакции, поэтому ниже сравниваем type::text.
+
+-- Корректировка хранится со знаком: «+» увеличивает баланс, «−» уменьшает. Остальные суммы неотрицательны.
+alter table public.transactions drop constraint if exists transactions_amount_check;
+alter table public.transactions
+  add constraint transactions_amount_check check (amount >= 0 or type::text = 'adjustment');
+
+-- Знак операции для баланса: положительный баланс — предоплата, отрицательный — долг.
+create or replace function public.transaction_signed_amount(t public.transaction_type, amount numeric)
+returns numeric
+language sql
+immutable
+set search_path = public
+as $$
+  select case
+    when t::text in ('payment', 'discount', 'adjustment') then amount
+    else -amount
+  end;
+$$;
+
+-- =========================
+-- CHILD DISCOUNTS
+-- =========================
+create table if not exists public.child_discounts (
+  id uuid primary key default gen_random_uuid(),
+  child_id uuid not null references public.children(id) on delete cascade,
+  name text not null,
+  percent numeric(5,2) not null check (percent > 0 and percent <= 100),
+  -- null — скидка на все услуги
+  service_id uuid references public.services(id) on delete cascade,
+  starts_on date not null default current_date,
+  ends_on date,
+  is_active boolean not null default true,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (ends_on is null or ends_on >= starts_on)
+);
+
+create index if not exists child_discounts_child_idx on public.child_discounts(child_id);
+
+drop trigger if exists child_discounts_set_updated_at on public.child_discounts;
+create trigger child_discounts_set_updated_at
+before update on public.child_discounts
+for each row
+execute function public.set_updated_at();
+
+-- Скидки не суммируются: применяется наибольшая из действующих на дату занятия.
+create or replace function public.child_discount_for(child_uuid uuid, service_uuid uuid, on_date date)
+returns table (discount_id uuid, discount_name text, discount_percent numeric)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select d.id, d.name, d.percent
+  from public.child_discounts d
+  where d.child_id = child_uuid
+    and d.is_active
+    and (d.service_id is null or d.service_id = service_uuid)
+    and d.starts_on <= on_date
+    and (d.ends_on is null or d.ends_on >= on_date)
+  order by d.percent desc, d.created_at
+  limit 1;
+$$;
+
+-- Нужна только триггеру начисления; скидки читаются через RLS child_discounts.
+revoke execute on function public.child_discount_for(uuid, uuid, date) from public, anon, authenticated;
+
+-- =========================
+-- Начисление при завершении: + скидка ребёнка
+-- =========================
+create or replace function public.handle_appointment_completed_charge()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  svc record;
+  disc record;
+  child_name text;
+  descr text;
+  suffix text;
+  kind text;
+  charge_amount numeric(12,2);
+  discount_amount numeric(12,2);
+begin
+  if new.status is not distinct from old.status then
+    return new;
+  end if;
+
+  -- Уход из completed / canceled / no_show: аннулируем начисление (и скидку) прежнего статуса.
+  if old.status in (
+    'completed'::public.appointment_status,
+    'canceled'::public.appointment_status,
+    'no_show'::public.appointment_status
+  ) then
+    update public.transactions
+    set
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = case
+        when old.status = 'completed'::public.appointment_status then 'Отмена завершения занятия'
+        else 'Статус записи изменён'
+      end
+    where appointment_id = new.id
+      and type::text in ('charge', 'discount')
+      and voided_at is null;
+
+    if old.status = 'completed'::public.appointment_status then
+      perform public.release_package_session(new.id);
+    end if;
+  end if;
+
+  select s.name, s.price, s.late_cancel_hours, s.late_cancel_fee_percent, s.no_show_fee_percent into svc
+  from public.services s
+  where s.id = new.service_id;
+
+  if new.status = 'completed'::public.appointment_status then
+    if public.consume_package_session(new.id) is not null then
+      return new;
+    end if;
+    kind := null;
+    charge_amount := coalesce(svc.price, 0);
+    descr := 'Начисление: ';
+  elsif new.status = 'no_show'::public.appointment_status then
+    kind := 'no_show';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.no_show_fee_percent, 100) / 100, 2);
+    descr := 'Неявка (' || trim(to_char(coalesce(svc.no_show_fee_percent, 100), 'FM990.##')) || '%): ';
+  elsif new.status = 'canceled'::public.appointment_status
+        and now() > new.start_time - make_interval(hours => coalesce(svc.late_cancel_hours, 24)) then
+    kind := 'late_cancel';
+    charge_amount := round(coalesce(svc.price, 0) * coalesce(svc.late_cancel_fee_percent, 50) / 100, 2);
+    descr :=
+      'Поздняя отмена (менее '
+      || coalesce(svc.late_cancel_hours, 24)
+      || ' ч, '
+      || trim(to_char(coalesce(svc.late_cancel_fee_percent, 50), 'FM990.##'))
+      || '%): ';
+  else
+    return new;
+  end if;
+
+  if charge_amount <= 0 and kind is not null then
+    return new;
+  end if;
+
+  select c.name into child_name
+  from public.children c
+  where c.id = new.child_id;
+
+  suffix :=
+    coalesce(svc.name, 'Услуга')
+    || ' — '
+    || coalesce(child_name, 'ребёнок')
+    || ' ('
+    || to_char(new.start_time at time zone public.center_timezone(), 'DD.MM.YYYY HH24:MI')
+    || ')';
+
+  insert into public.transactions (
+    child_id,
+    appointment_id,
+    amount,
+    type,
+    date,
+    description,
+    fee_kind,
+    created_by
+  )
+  values (
+    new.child_id,
+    new.id,
+    charge_amount,
+    'charge'::public.transaction_type,
+    case when kind = 'late_cancel' then now() else new.end_time end,
+    descr || suffix,
+    kind,
+    auth.uid()
+  )
+  on conflict (appointment_id, type) where voided_at is null do nothing;
+
+  -- Скидка ребёнка применяется только к начислению за проведённое занятие, не к штрафам.
+  if found and kind is null and charge_amount > 0 then
+    select * into disc
+    from public.child_discount_for(
+      new.child_id,
+      new.service_id,
+      (new.start_time at time zone public.center_timezone())::date
+    );
+
+    if disc.discount_id is not null then
+      discount_amount := round(charge_amount * disc.discount_percent / 100, 2);
+      if discount_amount > 0 then
+        insert into public.transactions (
+          child_id,
+          appointment_id,
+          amount,
+          type,
+          date,
+          description,
+          created_by
+        )
+        values (
+          new.child_id,
+          new.id,
+          discount_amount,
+          'discount'::public.transaction_type,
+          new.end_time,
+          'Скидка «' || disc.discount_name || '» ('
+            || trim(to_char(disc.discount_percent, 'FM990.##')) || '%): ' || suffix,
+          auth.uid()
+        )
+        on conflict (appointment_id, type) where voided_at is null do nothing;
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- =========================
+-- Аннулирование операции (удаление запрещено)
+-- =========================
+-- Начисления по занятиям управляются статусом записи и списанием штрафа, поэтому здесь не аннулируются.
+create or replace function public.void_transaction(transaction_uuid uuid, reason text)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  tx record;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if nullif(trim(reason), '') is null then
+    raise exception using errcode = '22023', message = 'void_reason_required';
+  end if;
+
+  select t.id, t.type, t.appointment_id, t.voided_at into tx
+  from public.transactions t
+  where t.id = transaction_uuid
+  for update;
+
+  if tx.id is null then
+    raise exception using errcode = 'P0002', message = 'transaction_not_found';
+  end if;
+
+  if tx.voided_at is not null then
+    raise exception using errcode = '22023', message = 'already_voided';
+  end if;
+
+  if tx.type::text = 'charge' and tx.appointment_id is not null then
+    raise exception using errcode = '22023', message = 'appointment_charge_managed_by_status';
+  end if;
+
+  update public.transactions
+  set
+    voided_at = now(),
+    voided_by = auth.uid(),
+    void_reason = trim(reason)
+  where id = transaction_uuid;
+end;
+$$;
+
+drop policy if exists "transactions_delete_admin_or_manager" on public.transactions;
+
+-- =========================
+-- Документы: итоги с учётом новых типов
+-- =========================
+-- charges_total — начисления за вычетом скидок, payments_total — платежи за вычетом возвратов;
+-- корректировки входят только в исходящий баланс.
+create or replace function public.issue_billing_document(
+  child_uuid uuid,
+  doc_kind public.billing_document_kind,
+  period_start date,
+  period_end date
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+  from_ts timestamptz := period_start::timestamp at time zone tz;
+  to_ts timestamptz := (period_end + 1)::timestamp at time zone tz;
+  settings record;
+  doc_number text;
+  doc_lines jsonb;
+  opening numeric(12,2);
+  charges numeric(12,2);
+  payments numeric(12,2);
+  period_delta numeric(12,2);
+  doc_id uuid;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if period_end < period_start then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  select * into settings from public.center_settings where id;
+
+  select coalesce(sum(public.transaction_signed_amount(t.type, t.amount)), 0) into opening
+  from public.transactions t
+  where t.child_id = child_uuid
+    and t.voided_at is null
+    and t.date < from_ts;
+
+  select
+    coalesce(jsonb_agg(
+      jsonb_build_object(
+        'date', t.date,
+        'type', t.type,
+        'description', t.description,
+        'service', s.name,
+        'specialist', coalesce(p.full_name, p.email),
+        'appointment_start', a.start_time,
+        'amount', t.amount
+      )
+      order by t.date, t.created_at
+    ), '[]'::jsonb),
+    coalesce(sum(t.amount) filter (where t.type::text = 'charge'), 0)
+      - coalesce(sum(t.amount) filter (where t.type::text = 'discount'), 0),
+    coalesce(sum(t.amount) filter (where t.type::text = 'payment'), 0)
+      - coalesce(sum(t.amount) filter (where t.type::text = 'refund'), 0),
+    coalesce(sum(public.transaction_signed_amount(t.type, t.amount)), 0)
+  into doc_lines, charges, payments, period_delta
+  from public.transactions t
+  left join public.appointments a on a.id = t.appointment_id
+  left join public.services s on s.id = a.service_id
+  left join public.profiles p on p.id = a.specialist_id
+  where t.child_id = child_uuid
+    and t.voided_at is null
+    and t.date >= from_ts
+    and t.date < to_ts
+    and (doc_kind = 'statement'::public.billing_document_kind or t.type::text in ('charge', 'discount'));
+
+  if doc_kind = 'invoice'::public.billing_document_kind then
+    doc_number := coalesce(settings.invoice_prefix, 'СЧ') || '-' || to_char(now() at time zone tz, 'YYYY') || '-'
+      || lpad(nextval('public.billing_invoice_number_seq')::text, 5, '0');
+  else
+    doc_number := coalesce(settings.statement_prefix, 'ВП') || '-' || to_char(now() at time zone tz, 'YYYY') || '-'
+      || lpad(nextval('public.billing_statement_number_seq')::text, 5, '0');
+  end if;
+
+  insert into public.billing_documents (
+    number, kind, child_id, period_start, period_end, lines,
+    opening_balance, charges_total, payments_total, closing_balance, created_by
+  )
+  values (
+    doc_number, doc_kind, child_uuid, period_start, period_end, doc_lines,
+    opening, charges, payments, opening + period_delta, auth.uid()
+  )
+  returning id into doc_id;
+
+  return doc_id;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.child_discounts enable row level security;
+
+drop policy if exists "child_discounts_select_by_child_access" on public.child_discounts;
+create policy "child_discounts_select_by_child_access"
+on public.child_discounts
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.can_read_child(child_id));
+
+drop policy if exists "child_discounts_write_admin_or_manager" on public.child_discounts;
+create policy "child_discounts_write_admin_or_manager"
+on public.child_discounts
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
@@ -0,0 +1,190 @@
+-- =========================
+-- Финансовая аналитика: выручка/оплаты по месяцам, возраст задолженности, загрузка и неявки
+-- =========================
+
+-- revenue — начисления за вычетом скидок, collected — платежи за вычетом возвратов. Корректировки не учитываются.
+create or replace function public.finance_monthly_summary(from_month date, to_month date)
+returns table (month date, revenue numeric, collected numeric)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if to_month < from_month then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  return query
+  select
+    m.month_start::date,
+    coalesce(sum(-public.transaction_signed_amount(t.type, t.amount))
+      filter (where t.type::text in ('charge', 'discount')), 0)::numeric,
+    coalesce(sum(public.transaction_signed_amount(t.type, t.amount))
+      filter (where t.type::text in ('payment', 'refund')), 0)::numeric
+  from generate_series(
+    date_trunc('month', from_month::timestamp),
+    date_trunc('month', to_month::timestamp),
+    interval '1 month'
+  ) as m(month_start)
+  left join public.transactions t
+    on t.voided_at is null
+   and t.date >= m.month_start at time zone tz
+   and t.date < (m.month_start + interval '1 month') at time zone tz
+  group by m.month_start
+  order by m.month_start;
+end;
+$$;
+
+-- Оплаты и скидки гасят самые старые долговые операции (FIFO); остаток каждой операции
+-- раскладывается по возрасту от её даты до as_of.
+create or replace function public.debt_aging(as_of date default current_date)
+returns table (
+  child_id uuid,
+  child_name text,
+  debt_total numeric,
+  debt_0_30 numeric,
+  debt_31_60 numeric,
+  debt_60_plus numeric,
+  oldest_debt_date date
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  return query
+  with tx as (
+    select
+      t.child_id,
+      t.date,
+      t.created_at,
+      public.transaction_signed_amount(t.type, t.amount) as signed
+    from public.transactions t
+    where t.voided_at is null
+      and t.date < (as_of + 1)::timestamp at time zone tz
+  ),
+  credits as (
+    select tx.child_id, sum(tx.signed) as credit
+    from tx
+    where tx.signed > 0
+    group by tx.child_id
+  ),
+  debits as (
+    select
+      tx.child_id,
+      (tx.date at time zone tz)::date as debit_date,
+      -tx.signed as amount,
+      sum(-tx.signed) over (
+        partition by tx.child_id
+        order by tx.date, tx.created_at
+        rows between unbounded preceding and current row
+      ) as running
+    from tx
+    where tx.signed < 0
+  ),
+  open_debits as (
+    select
+      d.child_id,
+      d.debit_date,
+      greatest(0, least(d.amount, d.running - coalesce(c.credit, 0))) as open_amount
+    from debits d
+    left join credits c on c.child_id = d.child_id
+  )
+  select
+    ch.id,
+    ch.name,
+    sum(o.open_amount),
+    coalesce(sum(o.open_amount) filter (where as_of - o.debit_date <= 30), 0),
+    coalesce(sum(o.open_amount) filter (where as_of - o.debit_date between 31 and 60), 0),
+    coalesce(sum(o.open_amount) filter (where as_of - o.debit_date > 60), 0),
+    min(o.debit_date) filter (where o.open_amount > 0)
+  from open_debits o
+  join public.children ch on ch.id = o.child_id
+  group by ch.id, ch.name
+  having sum(o.open_amount) > 0
+  order by sum(o.open_amount) desc;
+end;
+$$;
+
+-- =========================
+-- Загрузка специалистов и неявки: агрегаты по записям за период
+-- =========================
+
+-- Записи за период считаются в базе: выборка строк через API обрезается лимитом max-rows.
+-- Занято — все записи, кроме отменённых; период — целые месяцы в поясе центра.
+create or replace function public.specialist_booked_minutes(from_month date, to_month date)
+returns table (specialist_id uuid, booked_minutes numeric)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if to_month < from_month then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  return query
+  select
+    a.specialist_id,
+    sum(extract(epoch from (a.end_time - a.start_time)) / 60)::numeric
+  from public.appointments a
+  where a.status <> 'canceled'::public.appointment_status
+    and a.start_time >= date_trunc('month', from_month::timestamp) at time zone tz
+    and a.start_time < (date_trunc('month', to_month::timestamp) + interval '1 month') at time zone tz
+  group by a.specialist_id;
+end;
+$$;
+
+create or replace function public.service_attendance_summary(from_month date, to_month date)
+returns table (service_id uuid, service_name text, completed bigint, no_show bigint, canceled bigint)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if to_month < from_month then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  return query
+  select
+    a.service_id,
+    coalesce(s.name, 'Без услуги'),
+    count(*) filter (where a.status = 'completed'::public.appointment_status),
+    count(*) filter (where a.status = 'no_show'::public.appointment_status),
+    count(*) filter (where a.status = 'canceled'::public.appointment_status)
+  from public.appointments a
+  left join public.services s on s.id = a.service_id
+  where a.start_time >= date_trunc('month', from_month::timestamp) at time zone tz
+    and a.start_time < (date_trunc('month', to_month::timestamp) + interval '1 month') at time zone tz
+  group by a.service_id, s.name;
+end;
+$$;
@@ -0,0 +1,96 @@
+-- =========================
+-- Должники и журнал напоминаний о балансе
+-- =========================
+
+create table if not exists public.balance_reminders (
+  id uuid primary key default gen_random_uuid(),
+  child_id uuid not null references public.children(id) on delete cascade,
+  debt_amount numeric(12,2) not null check (debt_amount >= 0),
+  channel text not null default 'whatsapp' check (channel in ('sms', 'whatsapp', 'call', 'other')),
+  message text not null,
+  sent_at timestamptz not null default now(),
+  sent_by uuid references public.profiles(id) on delete set null
+);
+
+create index if not exists balance_reminders_child_sent_idx
+  on public.balance_reminders(child_id, sent_at desc);
+create index if not exists balance_reminders_sent_idx
+  on public.balance_reminders(sent_at desc);
+
+-- Дети с отрицательным балансом. Пороги: минимальный долг и минимальный возраст самого старого долга.
+create or replace function public.debtors_list(min_debt numeric default 0, min_days integer default 0)
+returns table (
+  child_id uuid,
+  child_name text,
+  parent_name text,
+  debt numeric,
+  debt_60_plus numeric,
+  oldest_debt_date date,
+  last_payment_at timestamptz,
+  last_payment_amount numeric,
+  last_reminder_at timestamptz,
+  reminders_count integer
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  return query
+  select
+    a.child_id,
+    a.child_name,
+    coalesce(p.full_name, p.email),
+    a.debt_total,
+    a.debt_60_plus,
+    a.oldest_debt_date,
+    lp.date,
+    lp.amount::numeric,
+    r.last_sent_at,
+    coalesce(r.sent_count, 0)::integer
+  from public.debt_aging(current_date) a
+  join public.children ch on ch.id = a.child_id
+  left join public.profiles p on p.id = ch.parent_id
+  left join lateral (
+    select t.date, t.amount
+    from public.transactions t
+    where t.child_id = a.child_id
+      and t.type = 'payment'::public.transaction_type
+      and t.voided_at is null
+    order by t.date desc
+    limit 1
+  ) lp on true
+  left join lateral (
+    select max(br.sent_at) as last_sent_at, count(*) as sent_count
+    from public.balance_reminders br
+    where br.child_id = a.child_id
+  ) r on true
+  where a.debt_total >= coalesce(min_debt, 0)
+    and (coalesce(min_days, 0) <= 0 or current_date - a.oldest_debt_date >= min_days)
+  order by a.debt_total desc;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.balance_reminders enable row level security;
+
+drop policy if exists "balance_reminders_select_admin_or_manager" on public.balance_reminders;
+create policy "balance_reminders_select_admin_or_manager"
+on public.balance_reminders
+for select
+to authenticated
+using (public.is_admin_or_manager());
+
+drop policy if exists "balance_reminders_insert_admin_or_manager" on public.balance_reminders;
+create policy "balance_reminders_insert_admin_or_manager"
+on public.balance_reminders
+for insert
+to authenticated
+with check (public.is_admin_or_manager());
@@ -0,0 +1,268 @@
+-- =========================
+-- Оплата специалистов: правила, расчётные периоды, блокировка записей
+-- =========================
+
+-- =========================
+-- PAY RULES
+-- =========================
+-- kind: per_session — сумма за занятие, percent — % от цены услуги, hourly — ставка за час.
+create table if not exists public.specialist_pay_rules (
+  id uuid primary key default gen_random_uuid(),
+  specialist_id uuid not null references public.profiles(id) on delete cascade,
+  -- null — правило по умолчанию для всех услуг специалиста
+  service_id uuid references public.services(id) on delete cascade,
+  kind text not null check (kind in ('per_session', 'percent', 'hourly')),
+  amount numeric(12,2) not null check (amount >= 0),
+  effective_from date not null default current_date,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (kind <> 'percent' or amount <= 100),
+  unique nulls not distinct (specialist_id, service_id, effective_from)
+);
+
+create index if not exists specialist_pay_rules_specialist_idx
+  on public.specialist_pay_rules(specialist_id, effective_from desc);
+
+drop trigger if exists specialist_pay_rules_set_updated_at on public.specialist_pay_rules;
+create trigger specialist_pay_rules_set_updated_at
+before update on public.specialist_pay_rules
+for each row
+execute function public.set_updated_at();
+
+-- =========================
+-- PAYROLL PERIODS / ITEMS
+-- =========================
+create table if not exists public.payroll_periods (
+  id uuid primary key default gen_random_uuid(),
+  period_start date not null,
+  period_end date not null,
+  total numeric(12,2) not null default 0,
+  notes text,
+  closed_at timestamptz not null default now(),
+  closed_by uuid references public.profiles(id) on delete set null,
+  check (period_end >= period_start)
+);
+
+create index if not exists payroll_periods_start_idx on public.payroll_periods(period_start desc);
+
+-- Снимок расчёта на момент закрытия; наличие строки блокирует запись от изменений.
+create table if not exists public.payroll_items (
+  id uuid primary key default gen_random_uuid(),
+  period_id uuid not null references public.payroll_periods(id) on delete cascade,
+  appointment_id uuid not null unique references public.appointments(id) on delete restrict,
+  specialist_id uuid references public.profiles(id) on delete set null,
+  service_id uuid references public.services(id) on delete set null,
+  start_time timestamptz not null,
+  duration_min integer not null,
+  service_price numeric(12,2) not null,
+  rule_kind text,
+  rule_amount numeric(12,2),
+  pay_amount numeric(12,2) not null default 0
+);
+
+create index if not exists payroll_items_period_idx on public.payroll_items(period_id);
+
+-- Правило на дату: сначала по конкретной услуге, затем общее; берётся самое позднее вступившее в силу.
+create or replace function public.payroll_preview(period_start date, period_end date)
+returns table (
+  appointment_id uuid,
+  specialist_id uuid,
+  specialist_name text,
+  service_id uuid,
+  service_name text,
+  child_name text,
+  start_time timestamptz,
+  duration_min integer,
+  service_price numeric,
+  rule_kind text,
+  rule_amount numeric,
+  pay_amount numeric
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if period_end < period_start then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  return query
+  select
+    a.id,
+    a.specialist_id,
+    coalesce(p.full_name, p.email),
+    a.service_id,
+    s.name,
+    ch.name,
+    a.start_time,
+    (extract(epoch from (a.end_time - a.start_time)) / 60)::integer,
+    coalesce(s.price, 0)::numeric,
+    r.kind,
+    r.amount::numeric,
+    round(case r.kind
+      when 'per_session' then r.amount
+      when 'percent' then coalesce(s.price, 0) * r.amount / 100
+      when 'hourly' then r.amount * extract(epoch from (a.end_time - a.start_time)) / 3600
+      else 0
+    end, 2)::numeric
+  from public.appointments a
+  left join public.profiles p on p.id = a.specialist_id
+  left join public.services s on s.id = a.service_id
+  left join public.children ch on ch.id = a.child_id
+  left join lateral (
+    select pr.kind, pr.amount
+    from public.specialist_pay_rules pr
+    where pr.specialist_id = a.specialist_id
+      and (pr.service_id is null or pr.service_id = a.service_id)
+      and pr.effective_from <= (a.start_time at time zone tz)::date
+    order by (pr.service_id is null), pr.effective_from desc
+    limit 1
+  ) r on true
+  where a.status = 'completed'::public.appointment_status
+    and a.start_time >= period_start::timestamp at time zone tz
+    and a.start_time < (period_end + 1)::timestamp at time zone tz
+    and not exists (select 1 from public.payroll_items pi where pi.appointment_id = a.id)
+  order by coalesce(p.full_name, p.email), a.start_time;
+end;
+$$;
+
+create or replace function public.close_payroll_period(period_start date, period_end date, notes text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_period_id uuid;
+  items_total numeric(12,2);
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if exists (
+    select 1
+    from public.payroll_periods pp
+    where pp.period_start <= close_payroll_period.period_end
+      and pp.period_end >= close_payroll_period.period_start
+  ) then
+    raise exception using errcode = '23P01', message = 'payroll_period_overlaps';
+  end if;
+
+  insert into public.payroll_periods (period_start, period_end, notes, closed_by)
+  values (close_payroll_period.period_start, close_payroll_period.period_end, nullif(trim(notes), ''), auth.uid())
+  returning id into new_period_id;
+
+  insert into public.payroll_items (
+    period_id, appointment_id, specialist_id, service_id, start_time, duration_min,
+    service_price, rule_kind, rule_amount, pay_amount
+  )
+  select
+    new_period_id, pv.appointment_id, pv.specialist_id, pv.service_id, pv.start_time, pv.duration_min,
+    pv.service_price, pv.rule_kind, pv.rule_amount, pv.pay_amount
+  from public.payroll_preview(close_payroll_period.period_start, close_payroll_period.period_end) pv;
+
+  select coalesce(sum(pi.pay_amount), 0) into items_total
+  from public.payroll_items pi
+  where pi.period_id = new_period_id;
+
+  update public.payroll_periods set total = items_total where id = new_period_id;
+
+  return new_period_id;
+end;
+$$;
+
+-- Переоткрытие снимает блокировку с записей: снимок удаляется целиком.
+create or replace function public.reopen_payroll_period(period_uuid uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_admin() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  delete from public.payroll_periods where id = period_uuid;
+end;
+$$;
+
+-- =========================
+-- Блокировка записей закрытого периода
+-- =========================
+-- Заметки остаются редактируемыми; всё, что влияет на расчёт, — нет.
+create or replace function public.check_appointment_payroll_lock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.payroll_items pi where pi.appointment_id = old.id) then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'DELETE' then
+    raise exception using errcode = '55000', message = 'appointment_locked_by_payroll';
+  end if;
+
+  if (new.child_id, new.specialist_id, new.service_id, new.start_time, new.end_time, new.status)
+     is distinct from (old.child_id, old.specialist_id, old.service_id, old.start_time, old.end_time, old.status) then
+    raise exception using errcode = '55000', message = 'appointment_locked_by_payroll';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_payroll_lock on public.appointments;
+create trigger appointments_payroll_lock
+before update or delete on public.appointments
+for each row
+execute function public.check_appointment_payroll_lock();
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.specialist_pay_rules enable row level security;
+alter table public.payroll_periods enable row level security;
+alter table public.payroll_items enable row level security;
+
+drop policy if exists "specialist_pay_rules_select_admin_manager_or_self" on public.specialist_pay_rules;
+create policy "specialist_pay_rules_select_admin_manager_or_self"
+on public.specialist_pay_rules
+for select
+to authenticated
+using (public.is_admin_or_manager() or specialist_id = auth.uid());
+
+drop policy if exists "specialist_pay_rules_write_admin_or_manager" on public.specialist_pay_rules;
+create policy "specialist_pay_rules_write_admin_or_manager"
+on public.specialist_pay_rules
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+-- Периоды и строки создаются только через close_payroll_period.
+drop policy if exists "payroll_periods_select_admin_or_manager" on public.payroll_periods;
+create policy "payroll_periods_select_admin_or_manager"
+on public.payroll_periods
+for select
+to authenticated
+using (public.is_admin_or_manager());
+
+drop policy if exists "payroll_items_select_admin_manager_or_self" on public.payroll_items;
+create policy "payroll_items_select_admin_manager_or_self"
+on public.payroll_items
+for select
+to authenticated
+using (public.is_admin_or_manager() or specialist_id = auth.uid());
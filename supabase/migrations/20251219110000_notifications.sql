@@ -0,0 +1,429 @@
+-- =========================
+-- Исходящие уведомления: шаблоны, контакты родителей, очередь отправки
+-- =========================
+
+-- Канал по умолчанию и время отправки напоминаний накануне занятия.
+alter table public.center_settings
+  add column if not exists notification_channel text not null default 'whatsapp'
+    check (notification_channel in ('sms', 'whatsapp', 'telegram', 'email')),
+  add column if not exists reminder_send_time time not null default '18:00';
+
+-- =========================
+-- TEMPLATES
+-- =========================
+-- Подстановки: {child}, {service}, {date}, {time}, {debt}, {center}.
+create table if not exists public.notification_templates (
+  event text primary key
+    check (event in ('appointment_tomorrow', 'appointment_changed', 'appointment_canceled', 'balance_due')),
+  body text not null,
+  is_active boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists notification_templates_set_updated_at on public.notification_templates;
+create trigger notification_templates_set_updated_at
+before update on public.notification_templates
+for each row
+execute function public.set_updated_at();
+
+insert into public.notification_templates (event, body) values
+  ('appointment_tomorrow', '{center}. Напоминание: {child} записан(а) на «{service}» завтра, {date} в {time}.'),
+  ('appointment_changed', '{center}. Запись изменена: {child} — «{service}» теперь {date} в {time}.'),
+  ('appointment_canceled', '{center}. Занятие «{service}» ({child}) {date} в {time} отменено.'),
+  ('balance_due', '{center}. Напоминаем: задолженность за занятия ({child}) составляет {debt}. Пожалуйста, внесите оплату.')
+on conflict (event) do nothing;
+
+-- =========================
+-- CONTACTS
+-- =========================
+-- Куда писать родителю. channel null — канал центра по умолчанию.
+create table if not exists public.notification_contacts (
+  profile_id uuid primary key references public.profiles(id) on delete cascade,
+  channel text check (channel in ('sms', 'whatsapp', 'telegram', 'email')),
+  phone text,
+  telegram_chat_id text,
+  opted_out boolean not null default false,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists notification_contacts_set_updated_at on public.notification_contacts;
+create trigger notification_contacts_set_updated_at
+before update on public.notification_contacts
+for each row
+execute function public.set_updated_at();
+
+-- =========================
+-- QUEUE
+-- =========================
+create table if not exists public.notification_queue (
+  id uuid primary key default gen_random_uuid(),
+  event text not null,
+  channel text not null check (channel in ('sms', 'whatsapp', 'telegram', 'email')),
+  recipient text,
+  recipient_profile_id uuid references public.profiles(id) on delete set null,
+  child_id uuid references public.children(id) on delete cascade,
+  appointment_id uuid references public.appointments(id) on delete cascade,
+  body text not null,
+  status text not null default 'queued' check (status in ('queued', 'sending', 'sent', 'failed', 'skipped', 'canceled')),
+  attempts integer not null default 0,
+  last_error text,
+  provider_message_id text,
+  -- Защита от повторной постановки одного и того же напоминания.
+  dedupe_key text unique,
+  scheduled_at timestamptz not null default now(),
+  sent_at timestamptz,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_queue_due_idx
+  on public.notification_queue(scheduled_at)
+  where status = 'queued';
+create index if not exists notification_queue_appointment_idx
+  on public.notification_queue(appointment_id)
+  where appointment_id is not null;
+create index if not exists notification_queue_created_idx
+  on public.notification_queue(created_at desc);
+
+-- Плановые задачи работают без пользователя: сервисный ключ приходит с ролью service_role,
+-- а pg_cron — вовсе без JWT, от имени postgres (API-запросы идут через authenticator).
+create or replace function public.is_notification_operator()
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select
+    coalesce(auth.role(), '') = 'service_role'
+    or (auth.uid() is null and session_user = 'postgres')
+    or public.is_admin_or_manager();
+$$;
+
+create or replace function public.render_notification_template(template_body text, vars jsonb)
+returns text
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+  result text := template_body;
+  kv record;
+begin
+  for kv in select key, value from jsonb_each_text(coalesce(vars, '{}'::jsonb)) loop
+    result := replace(result, '{' || kv.key || '}', coalesce(kv.value, ''));
+  end loop;
+  return result;
+end;
+$$;
+
+-- Ставит одно сообщение родителю ребёнка. Без контакта сообщение сохраняется как skipped,
+-- чтобы менеджер видел причину в карточке записи.
+create or replace function public.enqueue_notification(
+  event_name text,
+  child_uuid uuid,
+  appointment_uuid uuid,
+  vars jsonb,
+  send_at timestamptz default now(),
+  dedupe text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tpl record;
+  settings record;
+  parent record;
+  contact record;
+  msg_channel text;
+  msg_recipient text;
+  msg_status text := 'queued';
+  msg_error text;
+  msg_id uuid;
+begin
+  -- Из триггера переноса вызывается от имени любого, кто меняет запись.
+  if pg_trigger_depth() = 0 and not public.is_notification_operator() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select t.body, t.is_active into tpl from public.notification_templates t where t.event = event_name;
+  if not found or not tpl.is_active then
+    return null;
+  end if;
+
+  select cs.name, cs.notification_channel into settings from public.center_settings cs where cs.id;
+
+  select p.id, p.email into parent
+  from public.children ch
+  join public.profiles p on p.id = ch.parent_id
+  where ch.id = child_uuid;
+
+  select nc.channel, nc.phone, nc.telegram_chat_id, nc.opted_out into contact
+  from public.notification_contacts nc
+  where nc.profile_id = parent.id;
+
+  msg_channel := coalesce(contact.channel, settings.notification_channel, 'whatsapp');
+  msg_recipient := case msg_channel
+    when 'telegram' then nullif(trim(contact.telegram_chat_id), '')
+    when 'email' then parent.email
+    else nullif(trim(contact.phone), '')
+  end;
+
+  if parent.id is null then
+    msg_status := 'skipped';
+    msg_error := 'no_parent';
+  elsif coalesce(contact.opted_out, false) then
+    msg_status := 'skipped';
+    msg_error := 'opted_out';
+  elsif msg_recipient is null then
+    msg_status := 'skipped';
+    msg_error := 'no_recipient';
+  end if;
+
+  insert into public.notification_queue (
+    event, channel, recipient, recipient_profile_id, child_id, appointment_id, body,
+    status, last_error, dedupe_key, scheduled_at, created_by
+  )
+  values (
+    event_name, msg_channel, msg_recipient, parent.id, child_uuid, appointment_uuid,
+    public.render_notification_template(tpl.body, coalesce(vars, '{}'::jsonb) || jsonb_build_object('center', settings.name)),
+    msg_status, msg_error, dedupe, coalesce(send_at, now()), auth.uid()
+  )
+  on conflict (dedupe_key) do nothing
+  returning id into msg_id;
+
+  return msg_id;
+end;
+$$;
+
+create or replace function public.appointment_notification_vars(appointment_uuid uuid)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'child', ch.name,
+    'service', coalesce(s.name, 'занятие'),
+    'date', to_char(a.start_time at time zone public.center_timezone(), 'DD.MM.YYYY'),
+    'time', to_char(a.start_time at time zone public.center_timezone(), 'HH24:MI')
+  )
+  from public.appointments a
+  join public.children ch on ch.id = a.child_id
+  left join public.services s on s.id = a.service_id
+  where a.id = appointment_uuid;
+$$;
+
+-- Напоминания накануне: все pending/confirmed записи на указанный день (по умолчанию — завтра).
+-- Ключ включает время начала, поэтому после переноса напоминание ставится заново.
+create or replace function public.enqueue_appointment_reminders(for_date date default null)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tz text := public.center_timezone();
+  target date := coalesce(for_date, (now() at time zone tz)::date + 1);
+  send_time time;
+  send_at timestamptz;
+  appt record;
+  created integer := 0;
+begin
+  if not public.is_notification_operator() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select cs.reminder_send_time into send_time from public.center_settings cs where cs.id;
+  send_at := greatest(now(), ((target - 1) + coalesce(send_time, '18:00'::time)) at time zone tz);
+
+  for appt in
+    select a.id, a.child_id, a.start_time
+    from public.appointments a
+    where a.status in ('pending'::public.appointment_status, 'confirmed'::public.appointment_status)
+      and a.start_time >= target::timestamp at time zone tz
+      and a.start_time < (target + 1)::timestamp at time zone tz
+  loop
+    if public.enqueue_notification(
+      'appointment_tomorrow',
+      appt.child_id,
+      appt.id,
+      public.appointment_notification_vars(appt.id),
+      send_at,
+      'appointment_tomorrow:' || appt.id || ':' || extract(epoch from appt.start_time)::bigint
+    ) is not null then
+      created := created + 1;
+    end if;
+  end loop;
+
+  return created;
+end;
+$$;
+
+create or replace function public.enqueue_balance_reminder(child_uuid uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  balance numeric;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select coalesce(sum(public.transaction_signed_amount(t.type, t.amount)), 0) into balance
+  from public.transactions t
+  where t.child_id = child_uuid and t.voided_at is null;
+
+  if balance >= 0 then
+    raise exception using errcode = '22023', message = 'no_debt';
+  end if;
+
+  return public.enqueue_notification(
+    'balance_due',
+    child_uuid,
+    null,
+    jsonb_build_object(
+      'child', (select ch.name from public.children ch where ch.id = child_uuid),
+      'debt', to_char(-balance, 'FM999G999G990') || ' сом'
+    )
+  );
+end;
+$$;
+
+-- Перенос или отмена будущей записи: снимаем устаревшее напоминание и сообщаем родителю.
+create or replace function public.notify_appointment_changed()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.start_time <= now() then
+    return new;
+  end if;
+
+  if new.status = 'canceled'::public.appointment_status and old.status <> 'canceled'::public.appointment_status then
+    update public.notification_queue q
+    set status = 'canceled'
+    where q.appointment_id = new.id and q.status = 'queued' and q.event = 'appointment_tomorrow';
+
+    perform public.enqueue_notification(
+      'appointment_canceled', new.child_id, new.id, public.appointment_notification_vars(new.id)
+    );
+  elsif new.status in ('pending'::public.appointment_status, 'confirmed'::public.appointment_status)
+    and (new.start_time, new.child_id, new.service_id)
+      is distinct from (old.start_time, old.child_id, old.service_id) then
+    update public.notification_queue q
+    set status = 'canceled'
+    where q.appointment_id = new.id and q.status = 'queued' and q.event = 'appointment_tomorrow';
+
+    perform public.enqueue_notification(
+      'appointment_changed', new.child_id, new.id, public.appointment_notification_vars(new.id)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_notify_changed on public.appointments;
+create trigger appointments_notify_changed
+after update on public.appointments
+for each row
+execute function public.notify_appointment_changed();
+
+-- Пачка сообщений для отправки; skip locked позволяет запускать несколько обработчиков.
+create or replace function public.claim_notifications(batch_size integer default 50)
+returns setof public.notification_queue
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_notification_operator() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  return query
+  update public.notification_queue q
+  set status = 'sending', attempts = q.attempts + 1
+  where q.id in (
+    select d.id
+    from public.notification_queue d
+    where d.status = 'queued' and d.scheduled_at <= now()
+    order by d.scheduled_at
+    limit greatest(1, least(coalesce(batch_size, 50), 500))
+    for update skip locked
+  )
+  returning q.*;
+end;
+$$;
+
+-- Плановая постановка напоминаний, если в проекте включён pg_cron.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule(
+      'enqueue-appointment-reminders',
+      '*/15 * * * *',
+      'select public.enqueue_appointment_reminders()'
+    );
+  end if;
+end $$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.notification_templates enable row level security;
+alter table public.notification_contacts enable row level security;
+alter table public.notification_queue enable row level security;
+
+drop policy if exists "notification_templates_select_admin_or_manager" on public.notification_templates;
+create policy "notification_templates_select_admin_or_manager"
+on public.notification_templates
+for select
+to authenticated
+using (public.is_admin_or_manager());
+
+drop policy if exists "notification_templates_update_admin_or_manager" on public.notification_templates;
+create policy "notification_templates_update_admin_or_manager"
+on public.notification_templates
+for update
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+drop policy if exists "notification_contacts_select_admin_manager_or_self" on public.notification_contacts;
+create policy "notification_contacts_select_admin_manager_or_self"
+on public.notification_contacts
+for select
+to authenticated
+using (public.is_admin_or_manager() or profile_id = auth.uid());
+
+drop policy if exists "notification_contacts_write_admin_or_manager" on public.notification_contacts;
+create policy "notification_contacts_write_admin_or_manager"
+on public.notification_contacts
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
+
+-- Сообщения создаются функциями; менеджер может только отменить или повторить.
+drop policy if exists "notification_queue_select_admin_or_manager" on public.notification_queue;
+create policy "notification_queue_select_admin_or_manager"
+on public.notification_queue
+for select
+to authenticated
+using (public.is_admin_or_manager());
+
+drop policy if exists "notification_queue_update_admin_or_manager" on public.notification_queue;
+create policy "notification_queue_update_admin_or_manager"
+on public.notification_queue
+for update
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
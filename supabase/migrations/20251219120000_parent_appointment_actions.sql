@@ -0,0 +1,225 @@
+-- =========================
+-- Родитель: подтверждение записи и запрос на отмену
+-- =========================
+
+create or replace function public.is_parent_of_child(child_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.children c
+    where c.id = child_uuid
+      and c.parent_id = auth.uid()
+  );
+$$;
+
+-- Родитель может только подтвердить будущую запись: pending → confirmed.
+drop policy if exists "appointments_update_parent_confirm" on public.appointments;
+create policy "appointments_update_parent_confirm"
+on public.appointments
+for update
+to authenticated
+using (
+  public.is_parent_of_child(child_id)
+  and status = 'pending'::public.appointment_status
+  and start_time > now()
+)
+with check (
+  public.is_parent_of_child(child_id)
+  and status = 'confirmed'::public.appointment_status
+);
+
+-- RLS не ограничивает столбцы, поэтому остальное поле за полем сторожит триггер.
+create or replace function public.check_parent_appointment_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.is_admin_or_manager()
+     or old.specialist_id is not distinct from auth.uid()
+     or not public.is_parent_of_child(old.child_id) then
+    return new;
+  end if;
+
+  if (to_jsonb(new) - 'status' - 'updated_at') is distinct from (to_jsonb(old) - 'status' - 'updated_at') then
+    raise exception using errcode = '42501', message = 'parent_update_forbidden';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists appointments_parent_guard on public.appointments;
+create trigger appointments_parent_guard
+before update on public.appointments
+for each row
+execute function public.check_parent_appointment_update();
+
+-- =========================
+-- CANCEL REQUESTS
+-- =========================
+-- late — запрос пришёл позже срока бесплатной отмены услуги (services.late_cancel_hours).
+create table if not exists public.appointment_cancel_requests (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references public.appointments(id) on delete cascade,
+  requested_by uuid references public.profiles(id) on delete set null,
+  reason text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  late boolean not null default false,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  resolution_note text
+);
+
+create unique index if not exists appointment_cancel_requests_pending_uidx
+  on public.appointment_cancel_requests(appointment_id)
+  where status = 'pending';
+create index if not exists appointment_cancel_requests_status_idx
+  on public.appointment_cancel_requests(status, created_at);
+
+create or replace function public.prepare_cancel_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  appt record;
+begin
+  select a.start_time, a.status, coalesce(s.late_cancel_hours, 24) as late_cancel_hours into appt
+  from public.appointments a
+  left join public.services s on s.id = a.service_id
+  where a.id = new.appointment_id;
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'appointment_not_found';
+  end if;
+
+  if appt.start_time <= now()
+     or appt.status not in ('pending'::public.appointment_status, 'confirmed'::public.appointment_status) then
+    raise exception using errcode = 'P0001', message = 'appointment_not_cancelable';
+  end if;
+
+  new.requested_by := auth.uid();
+  new.status := 'pending';
+  new.reason := nullif(trim(new.reason), '');
+  new.late := now() > appt.start_time - make_interval(hours => appt.late_cancel_hours);
+  new.resolved_at := null;
+  new.resolved_by := null;
+  new.resolution_note := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists appointment_cancel_requests_prepare on public.appointment_cancel_requests;
+create trigger appointment_cancel_requests_prepare
+before insert on public.appointment_cancel_requests
+for each row
+execute function public.prepare_cancel_request();
+
+-- Одобрение отменяет запись. Если родитель успел до срока, штраф за позднюю отмену,
+-- начисленный на момент одобрения, аннулируется.
+create or replace function public.resolve_cancel_request(request_uuid uuid, approve boolean, note text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  req record;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select r.id, r.appointment_id, r.status, r.late into req
+  from public.appointment_cancel_requests r
+  where r.id = request_uuid
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'request_not_found';
+  end if;
+
+  if req.status <> 'pending' then
+    raise exception using errcode = 'P0001', message = 'request_not_pending';
+  end if;
+
+  update public.appointment_cancel_requests
+  set
+    status = case when approve then 'approved' else 'rejected' end,
+    resolved_at = now(),
+    resolved_by = auth.uid(),
+    resolution_note = nullif(trim(note), '')
+  where id = req.id;
+
+  if not approve then
+    return;
+  end if;
+
+  update public.appointments
+  set status = 'canceled'::public.appointment_status
+  where id = req.appointment_id
+    and status in ('pending'::public.appointment_status, 'confirmed'::public.appointment_status);
+
+  if not req.late then
+    update public.transactions
+    set
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = 'Отмена запрошена родителем до срока'
+    where appointment_id = req.appointment_id
+      and type = 'charge'::public.transaction_type
+      and fee_kind = 'late_cancel'
+      and voided_at is null;
+  end if;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.appointment_cancel_requests enable row level security;
+
+drop policy if exists "appointment_cancel_requests_select_staff_or_parent" on public.appointment_cancel_requests;
+create policy "appointment_cancel_requests_select_staff_or_parent"
+on public.appointment_cancel_requests
+for select
+to authenticated
+using (
+  public.is_admin_or_manager()
+  or exists (
+    select 1
+    from public.appointments a
+    where a.id = appointment_id
+      and public.is_parent_of_child(a.child_id)
+  )
+);
+
+drop policy if exists "appointment_cancel_requests_insert_parent" on public.appointment_cancel_requests;
+create policy "appointment_cancel_requests_insert_parent"
+on public.appointment_cancel_requests
+for insert
+to authenticated
+with check (
+  exists (
+    select 1
+    from public.appointments a
+    where a.id = appointment_id
+      and public.is_parent_of_child(a.child_id)
+  )
+);
+
+-- Родитель может отозвать свой нерассмотренный запрос.
+drop policy if exists "appointment_cancel_requests_delete_own_pending" on public.appointment_cancel_requests;
+create policy "appointment_cancel_requests_delete_own_pending"
+on public.appointment_cancel_requests
+for delete
+to authenticated
+using (requested_by = auth.uid() and status = 'pending');
@@ -0,0 +1,432 @@
+-- =========================
+-- Онлайн-запись: запросы родителей на занятие
+-- =========================
+
+-- Правила записи общие для центра; для отдельного ребёнка — переопределение в child_booking_rules.
+alter table public.center_settings
+  add column if not exists booking_enabled boolean not null default true,
+  add column if not exists booking_min_notice_hours integer not null default 24 check (booking_min_notice_hours >= 0),
+  add column if not exists booking_horizon_days integer not null default 30 check (booking_horizon_days between 1 and 62),
+  add column if not exists booking_max_pending_per_child integer not null default 3 check (booking_max_pending_per_child >= 1),
+  add column if not exists booking_max_requests_per_day integer not null default 5 check (booking_max_requests_per_day >= 1);
+
+create table if not exists public.child_booking_rules (
+  child_id uuid primary key references public.children(id) on delete cascade,
+  blocked boolean not null default false,
+  max_per_week integer check (max_per_week is null or max_per_week >= 0),
+  note text,
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists child_booking_rules_set_updated_at on public.child_booking_rules;
+create trigger child_booking_rules_set_updated_at
+before update on public.child_booking_rules
+for each row
+execute function public.set_updated_at();
+
+create table if not exists public.booking_requests (
+  id uuid primary key default gen_random_uuid(),
+  child_id uuid not null references public.children(id) on delete cascade,
+  service_id uuid not null references public.services(id) on delete cascade,
+  specialist_id uuid not null references public.profiles(id) on delete cascade,
+  start_time timestamptz not null,
+  end_time timestamptz not null,
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'canceled')),
+  requested_by uuid references public.profiles(id) on delete set null,
+  appointment_id uuid references public.appointments(id) on delete set null,
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by uuid references public.profiles(id) on delete set null,
+  resolution_note text,
+  check (end_time > start_time)
+);
+
+create index if not exists booking_requests_status_idx on public.booking_requests(status, created_at);
+create index if not exists booking_requests_child_idx on public.booking_requests(child_id, created_at desc);
+create index if not exists booking_requests_requested_by_idx on public.booking_requests(requested_by, created_at desc);
+
+-- Поиск окон открыт и родителю — только для своего ребёнка.
+create or replace function public.find_free_slots(
+  child_uuid uuid,
+  service_uuid uuid,
+  specialist_uuid uuid default null,
+  from_date date default current_date,
+  to_date date default current_date + 7,
+  step_min integer default 15,
+  max_results integer default 300
+)
+returns table (
+  specialist_id uuid,
+  slot_start timestamptz,
+  slot_end timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  slot_duration interval;
+  step interval := make_interval(mins => greatest(step_min, 5));
+  tz text := public.center_timezone();
+begin
+  if not (public.is_admin_or_manager() or public.is_parent_of_child(child_uuid)) then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  if to_date < from_date or to_date - from_date > 62 then
+    raise exception using errcode = '22023', message = 'invalid_date_range';
+  end if;
+
+  select make_interval(mins => s.duration_min) into slot_duration
+  from public.services s
+  where s.id = service_uuid;
+
+  if slot_duration is null then
+    raise exception using errcode = 'P0002', message = 'service_not_found';
+  end if;
+
+  return query
+  with days as (
+    select d::date as day
+    from generate_series(from_date::timestamp, to_date::timestamp, interval '1 day') d
+  ),
+  specialists as (
+    select p.id
+    from public.profiles p
+    where p.role = 'therapist'::public.user_role
+      and (specialist_uuid is null or p.id = specialist_uuid)
+  ),
+  intervals as (
+    select sp.id as sid, dd.day, x.start_time as s, x.end_time as e
+    from specialists sp
+    cross join days dd
+    join public.specialist_schedule_exceptions x
+      on x.specialist_id = sp.id
+     and dd.day between x.start_date and x.end_date
+    where x.start_time is not null
+    union all
+    select sp.id, dd.day, wh.start_time, wh.end_time
+    from specialists sp
+    cross join days dd
+    join public.specialist_working_hours wh
+      on wh.specialist_id = sp.id
+     and wh.weekday = extract(dow from dd.day)::smallint
+    where not exists (
+      select 1
+      from public.specialist_schedule_exceptions x
+      where x.specialist_id = sp.id
+        and dd.day between x.start_date and x.end_date
+    )
+  ),
+  candidates as (
+    select i.sid, ((i.day + i.s) + n * step) at time zone tz as st
+    from intervals i
+    cross join lateral generate_series(
+      0,
+      floor(extract(epoch from ((i.e - i.s) - slot_duration)) / extract(epoch from step))::int
+    ) n
+    where i.e - i.s >= slot_duration
+  )
+  select c.sid, c.st, c.st + slot_duration
+  from candidates c
+  where c.st > now()
+    and not exists (
+      select 1
+      from public.appointments a
+      where a.specialist_id = c.sid
+        and a.status <> 'canceled'::public.appointment_status
+        and tstzrange(a.start_time, a.end_time, '[)') && tstzrange(c.st, c.st + slot_duration, '[)')
+    )
+    and not exists (
+      select 1
+      from public.appointments a
+      where a.child_id = child_uuid
+        and a.status <> 'canceled'::public.appointment_status
+        and tstzrange(a.start_time, a.end_time, '[)') && tstzrange(c.st, c.st + slot_duration, '[)')
+    )
+  order by c.st, c.sid
+  limit max_results;
+end;
+$$;
+
+-- Окна для родителя: с учётом минимального срока записи, горизонта и чужих ожидающих запросов.
+create or replace function public.parent_booking_slots(
+  child_uuid uuid,
+  service_uuid uuid,
+  from_date date default current_date,
+  to_date date default current_date + 14
+)
+returns table (
+  specialist_id uuid,
+  specialist_name text,
+  slot_start timestamptz,
+  slot_end timestamptz
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  cfg record;
+  tz text := public.center_timezone();
+  last_day date;
+begin
+  if not public.is_parent_of_child(child_uuid) then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select cs.booking_enabled, cs.booking_min_notice_hours, cs.booking_horizon_days into cfg
+  from public.center_settings cs
+  where cs.id = true;
+
+  if not coalesce(cfg.booking_enabled, false) then
+    raise exception using errcode = 'P0001', message = 'booking_disabled';
+  end if;
+
+  last_day := least(to_date, (now() at time zone tz)::date + cfg.booking_horizon_days);
+  if last_day < from_date then
+    return;
+  end if;
+
+  return query
+  select f.specialist_id, coalesce(p.full_name, p.email), f.slot_start, f.slot_end
+  from public.find_free_slots(child_uuid, service_uuid, null, from_date, last_day) f
+  join public.profiles p on p.id = f.specialist_id
+  where f.slot_start >= now() + make_interval(hours => cfg.booking_min_notice_hours)
+    and not exists (
+      select 1
+      from public.booking_requests r
+      where r.status = 'pending'
+        and (r.specialist_id = f.specialist_id or r.child_id = child_uuid)
+        and tstzrange(r.start_time, r.end_time, '[)') && tstzrange(f.slot_start, f.slot_end, '[)')
+    )
+  order by f.slot_start, f.specialist_id;
+end;
+$$;
+
+create or replace function public.create_booking_request(
+  child_uuid uuid,
+  service_uuid uuid,
+  specialist_uuid uuid,
+  slot_start timestamptz,
+  note text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  cfg record;
+  child_rule record;
+  tz text := public.center_timezone();
+  slot_day date := (slot_start at time zone tz)::date;
+  week_start timestamptz;
+  slot_finish timestamptz;
+  new_request_id uuid;
+begin
+  if not public.is_parent_of_child(child_uuid) then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select
+    cs.booking_enabled,
+    cs.booking_min_notice_hours,
+    cs.booking_horizon_days,
+    cs.booking_max_pending_per_child,
+    cs.booking_max_requests_per_day
+  into cfg
+  from public.center_settings cs
+  where cs.id = true;
+
+  if not coalesce(cfg.booking_enabled, false) then
+    raise exception using errcode = 'P0001', message = 'booking_disabled';
+  end if;
+
+  select r.blocked, r.max_per_week into child_rule
+  from public.child_booking_rules r
+  where r.child_id = child_uuid;
+
+  if coalesce(child_rule.blocked, false) then
+    raise exception using errcode = 'P0001', message = 'booking_blocked_for_child';
+  end if;
+
+  if slot_start < now() + make_interval(hours => cfg.booking_min_notice_hours) then
+    raise exception using errcode = 'P0001', message = 'booking_too_soon';
+  end if;
+
+  if slot_day > (now() at time zone tz)::date + cfg.booking_horizon_days then
+    raise exception using errcode = 'P0001', message = 'booking_too_far';
+  end if;
+
+  -- Сериализуем запросы одного ребёнка, чтобы лимиты нельзя было обойти параллельными вызовами.
+  perform 1 from public.children c where c.id = child_uuid for update;
+
+  if (
+    select count(*)
+    from public.booking_requests r
+    where r.requested_by = auth.uid()
+      and r.created_at > now() - interval '24 hours'
+  ) >= cfg.booking_max_requests_per_day then
+    raise exception using errcode = 'P0001', message = 'booking_rate_limited';
+  end if;
+
+  if (
+    select count(*)
+    from public.booking_requests r
+    where r.child_id = child_uuid
+      and r.status = 'pending'
+  ) >= cfg.booking_max_pending_per_child then
+    raise exception using errcode = 'P0001', message = 'booking_too_many_pending';
+  end if;
+
+  if child_rule.max_per_week is not null then
+    week_start := date_trunc('week', slot_start at time zone tz) at time zone tz;
+    if (
+      select count(*)
+      from public.appointments a
+      where a.child_id = child_uuid
+        and a.status <> 'canceled'::public.appointment_status
+        and a.start_time >= week_start
+        and a.start_time < week_start + interval '7 days'
+    ) + (
+      select count(*)
+      from public.booking_requests r
+      where r.child_id = child_uuid
+        and r.status = 'pending'
+        and r.start_time >= week_start
+        and r.start_time < week_start + interval '7 days'
+    ) >= child_rule.max_per_week then
+      raise exception using errcode = 'P0001', message = 'booking_weekly_limit';
+    end if;
+  end if;
+
+  select f.slot_end into slot_finish
+  from public.parent_booking_slots(child_uuid, service_uuid, slot_day, slot_day) f
+  where f.specialist_id = specialist_uuid
+    and f.slot_start = create_booking_request.slot_start;
+
+  if slot_finish is null then
+    raise exception using errcode = 'P0001', message = 'slot_unavailable';
+  end if;
+
+  insert into public.booking_requests (child_id, service_id, specialist_id, start_time, end_time, note, requested_by)
+  values (child_uuid, service_uuid, specialist_uuid, slot_start, slot_finish, nullif(trim(note), ''), auth.uid())
+  returning id into new_request_id;
+
+  return new_request_id;
+end;
+$$;
+
+-- Родитель отзывает свой запрос; строка остаётся, чтобы отзыв не обнулял дневной лимит.
+create or replace function public.cancel_booking_request(request_uuid uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.booking_requests
+  set status = 'canceled', resolved_at = now(), resolved_by = auth.uid()
+  where id = request_uuid
+    and status = 'pending'
+    and public.is_parent_of_child(child_id);
+
+  if not found then
+    raise exception using errcode = 'P0001', message = 'request_not_pending';
+  end if;
+end;
+$$;
+
+-- Одобрение создаёт подтверждённую запись; пересечения и рабочие часы проверяют триггеры appointments.
+create or replace function public.resolve_booking_request(request_uuid uuid, approve boolean, note text default null)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  req record;
+  new_appointment_id uuid;
+begin
+  if not public.is_admin_or_manager() then
+    raise exception using errcode = '42501', message = 'forbidden';
+  end if;
+
+  select r.id, r.child_id, r.service_id, r.specialist_id, r.start_time, r.end_time, r.note, r.status into req
+  from public.booking_requests r
+  where r.id = request_uuid
+  for update;
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'request_not_found';
+  end if;
+
+  if req.status <> 'pending' then
+    raise exception using errcode = 'P0001', message = 'request_not_pending';
+  end if;
+
+  if approve then
+    if req.start_time <= now() then
+      raise exception using errcode = 'P0001', message = 'booking_in_past';
+    end if;
+
+    insert into public.appointments (child_id, specialist_id, service_id, start_time, end_time, status, notes, created_by)
+    values (
+      req.child_id,
+      req.specialist_id,
+      req.service_id,
+      req.start_time,
+      req.end_time,
+      'confirmed'::public.appointment_status,
+      case when req.note is null then 'Онлайн-запись' else 'Онлайн-запись: ' || req.note end,
+      auth.uid()
+    )
+    returning id into new_appointment_id;
+  end if;
+
+  update public.booking_requests
+  set
+    status = case when approve then 'approved' else 'rejected' end,
+    appointment_id = new_appointment_id,
+    resolved_at = now(),
+    resolved_by = auth.uid(),
+    resolution_note = nullif(trim(resolve_booking_request.note), '')
+  where id = req.id;
+
+  return new_appointment_id;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+alter table public.booking_requests enable row level security;
+alter table public.child_booking_rules enable row level security;
+
+-- Запись идёт только через RPC: create_booking_request / cancel_booking_request / resolve_booking_request.
+drop policy if exists "booking_requests_select_staff_or_parent" on public.booking_requests;
+create policy "booking_requests_select_staff_or_parent"
+on public.booking_requests
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.is_parent_of_child(child_id));
+
+drop policy if exists "child_booking_rules_select_staff_or_parent" on public.child_booking_rules;
+create policy "child_booking_rules_select_staff_or_parent"
+on public.child_booking_rules
+for select
+to authenticated
+using (public.is_admin_or_manager() or public.is_parent_of_child(child_id));
+
+drop policy if exists "child_booking_rules_write_admin_or_manager" on public.child_booking_rules;
+create policy "child_booking_rules_write_admin_or_manager"
+on public.child_booking_rules
+for all
+to authenticated
+using (public.is_admin_or_manager())
+with check (public.is_admin_or_manager());
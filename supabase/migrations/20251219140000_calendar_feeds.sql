@@ -0,0 +1,98 @@
+-- =========================
+-- Подписки на календарь (.ics) для специалистов и родителей
+-- =========================
+
+-- Токен — единственный секрет ссылки: отзыв (revoked_at) сразу закрывает ленту.
+create table if not exists public.calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  kind text not null check (kind in ('specialist', 'child')),
+  specialist_id uuid references public.profiles(id) on delete cascade,
+  child_id uuid references public.children(id) on delete cascade,
+  label text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz,
+  last_accessed_at timestamptz,
+  check (
+    (kind = 'specialist' and specialist_id is not null and child_id is null)
+    or (kind = 'child' and child_id is not null and specialist_id is null)
+  )
+);
+
+create index if not exists calendar_feeds_specialist_idx on public.calendar_feeds(specialist_id) where revoked_at is null;
+create index if not exists calendar_feeds_child_idx on public.calendar_feeds(child_id) where revoked_at is null;
+
+-- Свою ленту ведёт сам специалист или родитель ребёнка; любые — менеджер/админ.
+create or replace function public.can_manage_calendar_feed(feed_kind text, specialist_uuid uuid, child_uuid uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_admin_or_manager()
+    or (feed_kind = 'specialist' and specialist_uuid = auth.uid())
+    or (feed_kind = 'child' and public.is_parent_of_child(child_uuid));
+$$;
+
+-- Токен всегда выдаёт сервер, клиентское значение игнорируется.
+create or replace function public.prepare_calendar_feed()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.token := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+  new.label := nullif(trim(new.label), '');
+  new.created_by := auth.uid();
+  new.revoked_at := null;
+  new.last_accessed_at := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists calendar_feeds_prepare on public.calendar_feeds;
+create trigger calendar_feeds_prepare
+before insert on public.calendar_feeds
+for each row
+execute function public.prepare_calendar_feed();
+
+create or replace function public.revoke_calendar_feed(feed_uuid uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.calendar_feeds f
+  set revoked_at = now()
+  where f.id = feed_uuid
+    and f.revoked_at is null
+    and public.can_manage_calendar_feed(f.kind, f.specialist_id, f.child_id);
+
+  if not found then
+    raise exception using errcode = 'P0002', message = 'feed_not_found';
+  end if;
+end;
+$$;
+
+-- =========================
+-- RLS
+-- =========================
+-- Ленту по токену читает маршрут /api/calendar через service role; клиентам — только свои ссылки.
+alter table public.calendar_feeds enable row level security;
+
+drop policy if exists "calendar_feeds_select_owner_or_staff" on public.calendar_feeds;
+create policy "calendar_feeds_select_owner_or_staff"
+on public.calendar_feeds
+for select
+to authenticated
+using (public.can_manage_calendar_feed(kind, specialist_id, child_id));
+
+drop policy if exists "calendar_feeds_insert_owner_or_staff" on public.calendar_feeds;
+create policy "calendar_feeds_insert_owner_or_staff"
+on public.calendar_feeds
+for insert
+to authenticated
+with check (public.can_manage_calendar_feed(kind, specialist_id, child_id));
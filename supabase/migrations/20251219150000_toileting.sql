@@ -0,0 +1,76 @@
+-- =========================
+-- Туалет / приучение к горшку
+-- =========================
+
+-- Каждое событие — строка timeline_events (type = 'toilet', payload.result),
+-- а daily_logs.toilet_data хранит сводку за день и пересчитывается триггером.
+alter type public.timeline_event_type add value if not exists 'toilet';
+
+-- Сравнение через ::text: новое значение enum нельзя использовать в той же транзакции.
+alter table public.timeline_events drop constraint if exists timeline_events_toilet_result_check;
+alter table public.timeline_events
+  add constraint timeline_events_toilet_result_check
+  check (type::text <> 'toilet' or payload->>'result' in ('wet', 'dry', 'accident', 'success'));
+
+create index if not exists timeline_events_child_type_ts_idx
+  on public.timeline_events(child_id, type, timestamp);
+
+create or replace function public.toilet_data_for_day(child_uuid uuid, day date)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when count(*) = 0 then '{}'::jsonb
+    else jsonb_build_object(
+      'wet', count(*) filter (where e.payload->>'result' = 'wet'),
+      'dry', count(*) filter (where e.payload->>'result' = 'dry'),
+      'accident', count(*) filter (where e.payload->>'result' = 'accident'),
+      'success', count(*) filter (where e.payload->>'result' = 'success'),
+      'last_at', max(e.timestamp)
+    )
+  end
+  from public.timeline_events e
+  where e.child_id = child_uuid
+    and e.type::text = 'toilet'
+    and e.timestamp >= day::timestamp at time zone public.center_timezone()
+    and e.timestamp < (day + 1)::timestamp at time zone public.center_timezone();
+$$;
+
+create or replace function public.sync_toilet_daily_log()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rec public.timeline_events;
+  day date;
+begin
+  if tg_op = 'DELETE' then
+    rec := old;
+  else
+    rec := new;
+  end if;
+
+  if rec.type::text <> 'toilet' then
+    return null;
+  end if;
+
+  day := (rec.timestamp at time zone public.center_timezone())::date;
+
+  insert into public.daily_logs (child_id, date, toilet_data, created_by)
+  values (rec.child_id, day, public.toilet_data_for_day(rec.child_id, day), auth.uid())
+  on conflict (child_id, date) do update
+  set toilet_data = excluded.toilet_data;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists timeline_events_sync_toilet on public.timeline_events;
+create trigger timeline_events_sync_toilet
+after insert or delete on public.timeline_events
+for each row
+execute function public.sync_toilet_daily_log();
@@ -0,0 +1,216 @@
+-- =========================
+-- Сон: несколько эпизодов за день
+-- =========================
+
+-- Эпизод сна — пара событий nap_start / nap_end. Открытый эпизод (end_time is null) хранится
+-- на сервере, поэтому начало сна не теряется при закрытии экрана или смене устройства.
+-- daily_logs.sleep_duration теперь считается триггером как сумма эпизодов за день.
+create table if not exists public.sleep_sessions (
+  id uuid primary key default gen_random_uuid(),
+  child_id uuid not null references public.children(id) on delete cascade,
+  start_time timestamptz not null,
+  end_time timestamptz,
+  start_event_id uuid references public.timeline_events(id) on delete set null,
+  end_event_id uuid references public.timeline_events(id) on delete set null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint sleep_sessions_time_check check (
+    end_time is null or (end_time > start_time and end_time <= start_time + interval '24 hours')
+  )
+);
+
+create index if not exists sleep_sessions_child_start_idx on public.sleep_sessions(child_id, start_time);
+
+create unique index if not exists sleep_sessions_one_open_per_child
+  on public.sleep_sessions(child_id)
+  where end_time is null;
+
+drop trigger if exists sleep_sessions_set_updated_at on public.sleep_sessions;
+create trigger sleep_sessions_set_updated_at
+before update on public.sleep_sessions
+for each row
+execute function public.set_updated_at();
+
+-- Минуты сна за день по часовому поясу центра; эпизод через полночь делится между днями.
+create or replace function public.sleep_minutes_for_day(child_uuid uuid, day date)
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  with bounds as (
+    select
+      day::timestamp at time zone public.center_timezone() as day_start,
+      (day + 1)::timestamp at time zone public.center_timezone() as day_end
+  )
+  select case
+    when count(s.id) = 0 then null
+    else round(sum(extract(epoch from least(s.end_time, b.day_end) - greatest(s.start_time, b.day_start)) / 60))::integer
+  end
+  from bounds b
+  left join public.sleep_sessions s
+    on s.child_id = child_uuid
+   and s.end_time is not null
+   and s.start_time < b.day_end
+   and s.end_time > b.day_start;
+$$;
+
+create or replace function public.refresh_sleep_daily_log(child_uuid uuid, day date)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  minutes integer;
+begin
+  minutes := public.sleep_minutes_for_day(child_uuid, day);
+
+  if minutes is null then
+    update public.daily_logs dl
+    set sleep_duration = null
+    where dl.child_id = child_uuid
+      and dl.date = day
+      and dl.sleep_duration is not null;
+  else
+    insert into public.daily_logs (child_id, date, sleep_duration, created_by)
+    values (child_uuid, day, minutes, auth.uid())
+    on conflict (child_id, date) do update
+    set sleep_duration = excluded.sleep_duration;
+  end if;
+end;
+$$;
+
+create or replace function public.sync_sleep_daily_logs()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rec public.sleep_sessions;
+  first_day date;
+  last_day date;
+  d date;
+begin
+  if tg_op = 'DELETE' then
+    rec := old;
+  else
+    rec := new;
+  end if;
+
+  first_day := (rec.start_time at time zone public.center_timezone())::date;
+  last_day := (coalesce(rec.end_time, rec.start_time) at time zone public.center_timezone())::date;
+
+  -- При правке времени пересчитываются и прежние дни эпизода.
+  if tg_op = 'UPDATE' then
+    first_day := least(first_day, (old.start_time at time zone public.center_timezone())::date);
+    last_day := greatest(last_day, (coalesce(old.end_time, old.start_time) at time zone public.center_timezone())::date);
+  end if;
+
+  for d in select g::date from generate_series(first_day, last_day, interval '1 day') g loop
+    perform public.refresh_sleep_daily_log(rec.child_id, d);
+  end loop;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists sleep_sessions_sync_daily_logs on public.sleep_sessions;
+create trigger sleep_sessions_sync_daily_logs
+after insert or update or delete on public.sleep_sessions
+for each row
+execute function public.sync_sleep_daily_logs();
+
+-- Быстрый ввод пишет только события; эпизоды собираются здесь, в том числе из офлайн-очереди
+-- (события приходят по порядку и с исходным временем).
+create or replace function public.pair_nap_timeline_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.type = 'nap_start' then
+    -- Забытый открытый эпизод старше суток не должен блокировать новый.
+    delete from public.sleep_sessions s
+    where s.child_id = new.child_id
+      and s.end_time is null
+      and s.start_time < new.timestamp - interval '24 hours';
+
+    insert into public.sleep_sessions (child_id, start_time, start_event_id, created_by)
+    values (new.child_id, new.timestamp, new.id, new.created_by)
+    on conflict (child_id) where end_time is null do nothing;
+  elsif new.type = 'nap_end' then
+    update public.sleep_sessions s
+    set end_time = new.timestamp,
+        end_event_id = new.id
+    where s.id = (
+      select s2.id
+      from public.sleep_sessions s2
+      where s2.child_id = new.child_id
+        and s2.end_time is null
+        and s2.start_time < new.timestamp
+        and s2.start_time >= new.timestamp - interval '24 hours'
+      order by s2.start_time desc
+      limit 1
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists timeline_events_pair_nap on public.timeline_events;
+create trigger timeline_events_pair_nap
+after insert on public.timeline_events
+for each row
+execute function public.pair_nap_timeline_event();
+
+-- Перенос уже записанных пар событий в эпизоды.
+insert into public.sleep_sessions (child_id, start_time, end_time, start_event_id, end_event_id, created_by)
+select p.child_id, p.timestamp, p.next_ts, p.id, p.next_id, p.created_by
+from (
+  select
+    e.id,
+    e.child_id,
+    e.timestamp,
+    e.type,
+    e.created_by,
+    lead(e.type) over w as next_type,
+    lead(e.timestamp) over w as next_ts,
+    lead(e.id) over w as next_id
+  from public.timeline_events e
+  where e.type in ('nap_start', 'nap_end')
+  window w as (partition by e.child_id order by e.timestamp)
+) p
+where p.type = 'nap_start'
+  and p.next_type = 'nap_end'
+  and p.next_ts > p.timestamp
+  and p.next_ts <= p.timestamp + interval '24 hours'
+  and not exists (select 1 from public.sleep_sessions s where s.start_event_id = p.id);
+
+alter table public.sleep_sessions enable row level security;
+
+drop policy if exists "sleep_sessions_select_by_child_access" on public.sleep_sessions;
+create policy "sleep_sessions_select_by_child_access"
+on public.sleep_sessions
+for select
+to authenticated
+using (public.can_read_child(child_id));
+
+-- Ручная правка времени и удаление ошибочных эпизодов.
+drop policy if exists "sleep_sessions_update_by_writer" on public.sleep_sessions;
+create policy "sleep_sessions_update_by_writer"
+on public.sleep_sessions
+for update
+to authenticated
+using (public.can_write_child(child_id))
+with check (public.can_write_child(child_id));
+
+drop policy if exists "sleep_sessions_delete_by_writer" on public.sleep_sessions;
+create policy "sleep_sessions_delete_by_writer"
+on public.sleep_sessions
+for delete
+to authenticated
+using (public.can_write_child(child_id));
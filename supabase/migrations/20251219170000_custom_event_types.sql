@@ -0,0 +1,147 @@
+-- =========================
+-- Свои типы событий ленты (лекарство, сенсорный перерыв, приступ и т.п.)
+-- =========================
+
+-- Событие такого типа — строка timeline_events (type = 'custom') с payload
+-- { "type_id": "<uuid>", "values": { "<key>": <значение> } }, значения проверяются по схеме полей типа.
+
+-- Схема полей: массив объектов
+-- { key, label, type: number|select|text, required?, min?, max?, unit?, options?: [text] }.
+create or replace function public.custom_event_fields_valid(fields jsonb)
+returns boolean
+language sql
+immutable
+set search_path = public
+as $$
+  select case
+    when jsonb_typeof(fields) is distinct from 'array' then false
+    when jsonb_array_length(fields) > 8 then false
+    else
+      not exists (
+        select 1
+        from jsonb_array_elements(fields) f
+        where jsonb_typeof(f) <> 'object'
+           or coalesce(f->>'key', '') !~ '^[a-z][a-z0-9_]{0,31}$'
+           or coalesce(btrim(f->>'label'), '') = ''
+           or coalesce(f->>'type', '') not in ('number', 'select', 'text')
+           or (
+             f->>'type' = 'select'
+             and (jsonb_typeof(f->'options') is distinct from 'array' or jsonb_array_length(f->'options') = 0)
+           )
+      )
+      and (select count(distinct f->>'key') = count(*) from jsonb_array_elements(fields) f)
+  end;
+$$;
+
+create table if not exists public.custom_event_types (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(btrim(name)) between 1 and 60),
+  icon text not null default 'sparkles' check (icon ~ '^[a-z0-9-]{1,40}$'),
+  color text not null default '#64748b' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  fields jsonb not null default '[]'::jsonb check (public.custom_event_fields_valid(fields)),
+  is_active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists custom_event_types_sort_idx on public.custom_event_types(sort_order, name);
+
+drop trigger if exists custom_event_types_set_updated_at on public.custom_event_types;
+create trigger custom_event_types_set_updated_at
+before update on public.custom_event_types
+for each row
+execute function public.set_updated_at();
+
+create or replace function public.validate_custom_timeline_event()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  event_type public.custom_event_types;
+  vals jsonb;
+  field jsonb;
+  value jsonb;
+begin
+  if new.type <> 'custom' then
+    return new;
+  end if;
+
+  if coalesce(new.payload->>'type_id', '') !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' then
+    raise exception using errcode = '22023', message = 'custom_event_type_not_found';
+  end if;
+
+  select * into event_type
+  from public.custom_event_types t
+  where t.id = (new.payload->>'type_id')::uuid;
+
+  if not found or not event_type.is_active then
+    raise exception using errcode = '22023', message = 'custom_event_type_not_found';
+  end if;
+
+  vals := coalesce(new.payload->'values', '{}'::jsonb);
+  if jsonb_typeof(vals) <> 'object' then
+    raise exception using errcode = '22023', message = 'custom_event_invalid_payload';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_object_keys(vals) k
+    where not exists (select 1 from jsonb_array_elements(event_type.fields) f where f->>'key' = k)
+  ) then
+    raise exception using errcode = '22023', message = 'custom_event_unknown_field';
+  end if;
+
+  for field in select f from jsonb_array_elements(event_type.fields) f loop
+    value := vals->(field->>'key');
+
+    if value is null or value = 'null'::jsonb or (jsonb_typeof(value) = 'string' and btrim(value #>> '{}') = '') then
+      if coalesce((field->>'required')::boolean, false) then
+        raise exception using errcode = '22023', message = 'custom_event_field_required';
+      end if;
+      continue;
+    end if;
+
+    if field->>'type' = 'number' then
+      if jsonb_typeof(value) <> 'number'
+         or (field->>'min' is not null and (value #>> '{}')::numeric < (field->>'min')::numeric)
+         or (field->>'max' is not null and (value #>> '{}')::numeric > (field->>'max')::numeric) then
+        raise exception using errcode = '22023', message = 'custom_event_invalid_number';
+      end if;
+    elsif field->>'type' = 'select' then
+      if jsonb_typeof(value) <> 'string' or not (field->'options' ? (value #>> '{}')) then
+        raise exception using errcode = '22023', message = 'custom_event_invalid_option';
+      end if;
+    elsif jsonb_typeof(value) <> 'string' or length(value #>> '{}') > 500 then
+      raise exception using errcode = '22023', message = 'custom_event_invalid_text';
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists timeline_events_validate_custom on public.timeline_events;
+create trigger timeline_events_validate_custom
+before insert or update on public.timeline_events
+for each row
+execute function public.validate_custom_timeline_event();
+
+alter table public.custom_event_types enable row level security;
+
+-- Каталог нужен всем ролям: сотрудникам для кнопок, родителям для отображения ленты.
+drop policy if exists "custom_event_types_select_authenticated" on public.custom_event_types;
+create policy "custom_event_types_select_authenticated"
+on public.custom_event_types
+for select
+to authenticated
+using (true);
+
+drop policy if exists "custom_event_types_admin_write" on public.custom_event_types;
+create policy "custom_event_types_admin_write"
+on public.custom_event_types
+for all
+to authenticated
+using (public.is_admin())
+with check (public.is_admin());